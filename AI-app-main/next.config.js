@@ -17,6 +17,8 @@ module.exports = {
         "tree-sitter-typescript": "commonjs tree-sitter-typescript",
         "tree-sitter-javascript": "commonjs tree-sitter-javascript",
       });
+      // The TypeScript validator reads lib .d.ts files from the package directory
+      config.externals.push({ typescript: "commonjs typescript" });
 
       // Ignore .node files
       config.module = config.module || {};
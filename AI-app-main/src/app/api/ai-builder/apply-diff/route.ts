@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { applyDiff } from '@/utils/applyDiff';
-import { analyzeMultipleFiles, generateExtractionMessage, type FileAnalysis } from '@/utils/componentExtractor';
+import {
+  analyzeMultipleFiles,
+  generateExtractionMessage,
+  createExtractionDiff,
+  type FileAnalysis
+} from '@/utils/componentExtractor';
+import type { FileDiff } from '@/utils/diffSchema';
+import { CLEANUP_MODES, isCleanupMode } from '@/utils/codeCleanup';
 
 export async function POST(request: NextRequest) {
   try {
-    const { currentFiles, diffs } = await request.json();
+    const { currentFiles, diffs, cleanup } = await request.json();
 
     if (!currentFiles || !diffs) {
       return NextResponse.json({
@@ -12,8 +19,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (cleanup !== undefined && !isCleanupMode(cleanup)) {
+      return NextResponse.json({
+        error: `cleanup must be one of: ${CLEANUP_MODES.join(', ')}`
+      }, { status: 400 });
+    }
+
     // Apply diffs server-side (where tree-sitter can run)
-    const result = await applyDiff(currentFiles, diffs);
+    const result = await applyDiff(currentFiles, diffs, false, { cleanup });
 
     // Analyze modified files for extraction opportunities
     const filesToAnalyze = result.modifiedFiles.map(file => ({
@@ -24,14 +37,16 @@ export async function POST(request: NextRequest) {
     const analyses = analyzeMultipleFiles(filesToAnalyze);
 
     // Generate extraction suggestions if any files need it
-    const extractionSuggestions: Array<{filePath: string; message: string; analysis: FileAnalysis}> = [];
+    // `diffs` holds one ready-to-apply diff per suggestion (POST it back here to extract)
+    const extractionSuggestions: Array<{filePath: string; message: string; analysis: FileAnalysis; diffs: FileDiff[]}> = [];
 
     for (const analysis of analyses) {
       if (analysis.needsExtraction && analysis.suggestions.length > 0) {
         extractionSuggestions.push({
           filePath: analysis.filePath,
           message: generateExtractionMessage(analysis),
-          analysis
+          analysis,
+          diffs: analysis.suggestions.map(suggestion => createExtractionDiff(analysis.filePath, suggestion))
         });
       }
     }
@@ -1,12 +1,10 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-import { validateGeneratedCode, autoFixCode, type ValidationError } from '@/utils/codeValidator';
+import { NextResponse, after } from 'next/server';
+import { validateGeneratedCode, validateProject, buildCorrectionPrompt, autoFixCode, type ValidationError } from '@/utils/codeValidator';
 import { buildFullAppPrompt } from '@/prompts/builder';
 import { analytics, generateRequestId, categorizeError, PerformanceTracker } from '@/utils/analytics';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection, type LLMMessage } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
+import { parseDependencyBlock, reconcileDependencies } from '@/utils/dependencyManifest';
 
 export async function POST(request: Request) {
   // ============================================================================
@@ -14,9 +12,17 @@ export async function POST(request: Request) {
   // ============================================================================
   const requestId = generateRequestId();
   const perfTracker = new PerformanceTracker();
+  // Write this request's metrics once the response is done - a serverless
+  // instance can be frozen before the flush timer fires
+  after(() => analytics.flush());
   
   try {
-    const { prompt, conversationHistory, isModification, currentAppName, image, hasImage, templateGuidance, templateName } = await request.json();
+    const { prompt, conversationHistory, isModification, currentAppName, image, hasImage, templateGuidance, templateName, llm: llmSelection, projectId } = await request.json();
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('full-app', parseLLMSelection(llmSelection), budget.attribution, request.signal);
     perfTracker.checkpoint('request_parsed');
     
     // Log request start after parsing body
@@ -26,9 +32,9 @@ export async function POST(request: Request) {
       hasImage: !!hasImage,
     });
 
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!llm.provider.isConfigured()) {
       return NextResponse.json({
-        error: 'Anthropic API key not configured. Add ANTHROPIC_API_KEY to .env.local'
+        error: llm.provider.configurationError()
       }, { status: 500 });
     }
 
@@ -82,7 +88,7 @@ MODIFICATION MODE for "${currentAppName}":
     perfTracker.checkpoint('prompt_built');
 
     // Build conversation context
-    const messages: any[] = [];
+    const messages: LLMMessage[] = [];
 
     if (conversationHistory && Array.isArray(conversationHistory)) {
       conversationHistory.forEach((msg: any) => {
@@ -122,11 +128,8 @@ MODIFICATION MODE for "${currentAppName}":
           content: [
             {
               type: 'image',
-              source: {
-                type: 'base64',
-                media_type: normalizedType,
-                data: base64Data
-              }
+              mediaType: normalizedType,
+              data: base64Data
             },
             {
               type: 'text',
@@ -142,20 +145,14 @@ MODIFICATION MODE for "${currentAppName}":
       messages.push({ role: 'user', content: prompt });
     }
 
-    console.log('Generating full app with Claude Sonnet 4.5...');
+    console.log(`Generating full app with ${llm.provider.name}/${llm.model}...`);
 
-    const modelName = 'claude-sonnet-4-5-20250929';
-    const stream = await anthropic.messages.stream({
+    const modelName = llm.model;
+    const stream = llm.provider.stream({
       model: modelName,
-      max_tokens: 16384,
+      maxTokens: 16384,
       temperature: 0.7,
-      system: [
-        {
-          type: 'text',
-          text: systemPrompt,
-          cache_control: { type: 'ephemeral' }
-        }
-      ],
+      system: systemPrompt,
       messages: messages
     });
     
@@ -168,16 +165,14 @@ MODIFICATION MODE for "${currentAppName}":
     
     try {
       for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-          responseText += chunk.delta.text;
+        if (chunk.type === 'text') {
+          responseText += chunk.text;
         }
-        // Capture token usage from final message
-        if (chunk.type === 'message_stop') {
-          const finalMessage = await stream.finalMessage();
-          inputTokens = finalMessage.usage.input_tokens || 0;
-          outputTokens = finalMessage.usage.output_tokens || 0;
-          // @ts-ignore - cache_read_input_tokens might not be in types yet
-          cachedTokens = finalMessage.usage.cache_read_input_tokens || 0;
+        // Capture token usage from final event
+        if (chunk.type === 'done') {
+          inputTokens = chunk.usage.inputTokens;
+          outputTokens = chunk.usage.outputTokens;
+          cachedTokens = chunk.usage.cachedTokens;
         }
       }
     } catch (streamError) {
@@ -201,7 +196,7 @@ MODIFICATION MODE for "${currentAppName}":
     }
     
     if (!responseText) {
-      throw new Error('No response from Claude');
+      throw new Error('No response from AI model');
     }
 
     // Parse delimiter-based response
@@ -221,7 +216,7 @@ MODIFICATION MODE for "${currentAppName}":
       });
       
       return NextResponse.json({
-        error: 'Invalid response format from Claude',
+        error: 'Invalid response format from AI model',
         debug: {
           responseLength: responseText.length,
           preview: responseText.substring(0, 1000)
@@ -234,22 +229,65 @@ MODIFICATION MODE for "${currentAppName}":
     const appType = appTypeMatch ? appTypeMatch[1].trim().split('\n')[0].trim() : 'FRONTEND_ONLY';
 
     // Extract files
-    const fileMatches = responseText.matchAll(/===FILE:([\s\S]*?)===\s*([\s\S]*?)(?====FILE:|===DEPENDENCIES===|===SETUP===|===END===|$)/g);
-    const files: Array<{ path: string; content: string; description: string }> = [];
-    
-    for (const match of fileMatches) {
-      const path = match[1].trim();
-      const content = match[2].trim();
-      files.push({
-        path,
-        content,
-        description: `${path.split('/').pop()} file`
-      });
-    }
+    const files = parseFileBlocks(responseText);
     
     console.log('Parsed files:', files.length);
     perfTracker.checkpoint('response_parsed');
 
+    // ============================================================================
+    // PROJECT VALIDATION - imports and types across files, one correction round
+    // ============================================================================
+    let projectErrors = await validateProject(files);
+    
+    if (projectErrors.some(result => result.errors.some(e => e.severity === 'error'))) {
+      console.log(`🔄 Cross-file problems in ${projectErrors.length} file(s) - requesting corrections...`);
+      
+      try {
+        let correctionText = '';
+        const correctionStream = llm.provider.stream({
+          model: modelName,
+          maxTokens: 16384,
+          temperature: 0.3,
+          system: systemPrompt,
+          messages: [
+            ...messages,
+            { role: 'assistant', content: responseText },
+            { role: 'user', content: buildCorrectionPrompt(projectErrors) }
+          ]
+        });
+        
+        for await (const chunk of correctionStream) {
+          if (chunk.type === 'text') {
+            correctionText += chunk.text;
+          }
+          if (chunk.type === 'done') {
+            inputTokens += chunk.usage.inputTokens;
+            outputTokens += chunk.usage.outputTokens;
+            cachedTokens += chunk.usage.cachedTokens;
+          }
+        }
+        analytics.logTokenUsage(requestId, inputTokens, outputTokens, cachedTokens);
+        
+        const corrected = parseFileBlocks(correctionText);
+        for (const file of corrected) {
+          const index = files.findIndex(f => f.path === file.path);
+          if (index === -1) {
+            files.push(file);
+          } else {
+            files[index] = file;
+          }
+        }
+        
+        console.log(`✅ Applied ${corrected.length} corrected file(s)`);
+        projectErrors = await validateProject(files);
+      } catch (correctionError) {
+        // Keep the original files - the problems are still reported below
+        console.error('Auto-correction failed:', correctionError);
+      }
+    }
+    
+    perfTracker.checkpoint('project_validated');
+
     // Validation layer
     console.log('🔍 Validating generated code...');
     
@@ -290,6 +328,18 @@ MODIFICATION MODE for "${currentAppName}":
       }
     });
     
+    // Type-check the files together: undefined names, missing imports, wrong props
+    projectErrors.forEach(({ file, errors }) => {
+      console.log(`⚠️ Found ${errors.length} cross-file problem(s) in ${file}`);
+      totalErrors += errors.length;
+      const existing = validationErrors.find(v => v.file === file);
+      if (existing) {
+        existing.errors.push(...errors);
+      } else {
+        validationErrors.push({ file, errors });
+      }
+    });
+    
     if (totalErrors > 0) {
       console.log(`📊 Validation Summary:`);
       console.log(`   Total errors found: ${totalErrors}`);
@@ -310,18 +360,23 @@ MODIFICATION MODE for "${currentAppName}":
       details: validationErrors
     } : undefined;
     
-    // Parse dependencies
-    const dependencies: Record<string, string> = {};
-    if (dependenciesMatch) {
-      const depsText = dependenciesMatch[1].trim();
-      const depsLines = depsText.split('\n');
-      for (const line of depsLines) {
-        const [pkg, version] = line.split(':').map(s => s.trim());
-        if (pkg && version) {
-          dependencies[pkg] = version;
-        }
-      }
+    // Dependencies: reconcile the declared block with what the files import
+    const declaredDependencies = dependenciesMatch ? parseDependencyBlock(dependenciesMatch[1]) : {};
+    const manifest = reconcileDependencies(files, declaredDependencies);
+    const dependencies = manifest.dependencies;
+    
+    if (manifest.missing.length > 0) {
+      console.log(`📦 Added undeclared dependencies: ${manifest.missing.map(d => d.name).join(', ')}`);
+    }
+    if (manifest.unused.length > 0) {
+      console.log(`📦 Dropped unused dependencies: ${manifest.unused.join(', ')}`);
     }
+    
+    const dependencyReport = manifest.missing.length > 0 || manifest.unused.length > 0 || manifest.unpinned.length > 0 ? {
+      missing: manifest.missing,
+      unused: manifest.unused,
+      unpinned: manifest.unpinned
+    } : undefined;
 
     const changeType = changeTypeMatch ? changeTypeMatch[1].trim().split('\n')[0].trim() : 'NEW_APP';
     
@@ -334,7 +389,8 @@ MODIFICATION MODE for "${currentAppName}":
       files,
       dependencies,
       setupInstructions: setupMatch ? setupMatch[1].trim() : 'Run npm install && npm run dev',
-      ...(validationWarnings && { validationWarnings })
+      ...(validationWarnings && { validationWarnings }),
+      ...(dependencyReport && { dependencyReport })
     };
     
     perfTracker.checkpoint('response_prepared');
@@ -379,3 +435,23 @@ MODIFICATION MODE for "${currentAppName}":
     );
   }
 }
+
+/**
+ * Split ===FILE:path=== blocks out of a model response
+ */
+function parseFileBlocks(text: string): Array<{ path: string; content: string; description: string }> {
+  const fileMatches = text.matchAll(/===FILE:([\s\S]*?)===\s*([\s\S]*?)(?====FILE:|===DEPENDENCIES===|===SETUP===|===END===|$)/g);
+  const files: Array<{ path: string; content: string; description: string }> = [];
+  
+  for (const match of fileMatches) {
+    const path = match[1].trim();
+    const content = match[2].trim();
+    files.push({
+      path,
+      content,
+      description: `${path.split('/').pop()} file`
+    });
+  }
+  
+  return files;
+}
@@ -1,122 +1,36 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-import { executeASTOperation, isASTOperation, type ASTOperation } from '@/utils/astExecutor';
+import { NextResponse, after } from 'next/server';
 import { validateGeneratedCode, autoFixCode, type ValidationError } from '@/utils/codeValidator';
 import { buildModifyPrompt } from '@/prompts/builder';
 import { analytics, generateRequestId, categorizeError, PerformanceTracker } from '@/utils/analytics';
+import { getLLM, parseLLMSelection, type LLMMessage } from '@/utils/llm';
+import { checkBudget, type CostAttribution } from '@/utils/costLedger';
+import { validateDiffResponse, formatDiffErrors, type DiffResponse, type FilePreview } from '@/utils/diffSchema';
+import { DiffStreamParser, type ModifyStreamEvent } from '@/utils/diffStreamParser';
+import { applyDiff } from '@/utils/applyDiff';
+import { CLEANUP_MODES, isCleanupMode, type CleanupFinding, type CleanupMode } from '@/utils/codeCleanup';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-// TypeScript interfaces for diff format
-interface DiffChange {
-  type: 'ADD_IMPORT' | 'INSERT_AFTER' | 'INSERT_BEFORE' | 'REPLACE' | 'DELETE' | 'APPEND'
-      | 'AST_WRAP_ELEMENT' | 'AST_ADD_STATE' | 'AST_ADD_IMPORT' | 'AST_MODIFY_CLASSNAME'
-      | 'AST_INSERT_JSX' | 'AST_ADD_USEEFFECT' | 'AST_MODIFY_PROP' | 'AST_ADD_AUTHENTICATION'
-      | 'AST_ADD_REF' | 'AST_ADD_MEMO' | 'AST_ADD_CALLBACK' | 'AST_ADD_REDUCER'
-      | 'AST_ADD_CONTEXT_PROVIDER' | 'AST_ADD_ZUSTAND_STORE' | 'AST_EXTRACT_COMPONENT';
-  line?: number;
-  searchFor?: string;
-  content?: string;
-  replaceWith?: string;
-  // AST operation fields
-  targetElement?: string;
-  wrapperComponent?: string;
-  wrapperProps?: Record<string, string>;
-  name?: string;
-  setter?: string;
-  initialValue?: string;
-  source?: string;
-  defaultImport?: string;
-  namedImports?: string[];
-  namespaceImport?: string;
-  import?: {
-    source: string;
-    defaultImport?: string;
-    namedImports?: string[];
-    namespaceImport?: string;
-  };
-  // AST_MODIFY_CLASSNAME fields
-  staticClasses?: string[];
-  template?: {
-    variable: string;
-    trueValue: string;
-    falseValue?: string;
-    operator?: '?' | '&&';
-  };
-  rawTemplate?: string;
-  // AST_INSERT_JSX fields
-  jsx?: string;
-  position?: 'before' | 'after' | 'inside_start' | 'inside_end';
-  // AST_ADD_USEEFFECT fields
-  body?: string;
-  dependencies?: string[];
-  cleanup?: string;
-  // AST_MODIFY_PROP fields
-  propName?: string;
-  propValue?: string;
-  action?: 'add' | 'update' | 'remove';
-  // AST_ADD_REF fields
-  // name and initialValue already defined above
-  // AST_ADD_MEMO fields
-  computation?: string;
-  // name and dependencies already defined above
-  // AST_ADD_CALLBACK fields
-  params?: string[];
-  // name, body, and dependencies already defined above
-  // AST_ADD_REDUCER fields
-  dispatchName?: string;
-  reducerName?: string;
-  initialState?: string;
-  actions?: Array<{
-    type: string;
-    handler: string;
-  }>;
-  // AST_ADD_CONTEXT_PROVIDER fields
-  contextName?: string;
-  providerName?: string;
-  hookName?: string;
-  valueType?: string;
-  includeState?: boolean;
-  stateVariables?: Array<{
-    name: string;
-    initialValue: string;
-    type?: string;
-  }>;
-  // AST_ADD_ZUSTAND_STORE fields
-  storeName?: string;
-  storeFile?: string;
-  zustandInitialState?: Record<string, any>;
-  persist?: boolean;
-  persistKey?: string;
-  // AST_EXTRACT_COMPONENT fields
-  targetJSX?: string;
-  componentName?: string;
-  componentFile?: string;
-  extractProps?: boolean;
-  propTypes?: Record<string, string>;
+interface ModifyRequestBody {
+  prompt: string;
+  currentAppState: any;
+  conversationHistory?: any[];
+  correctionPrompt?: string;
+  attemptNumber?: number;
+  llm?: unknown;
+  cleanup?: CleanupMode;
+  /** Project the model cost is charged to */
+  projectId?: string;
+  /** Respond with server-sent events (ModifyStreamEvent) instead of one JSON body */
+  stream?: boolean;
 }
 
-interface FileDiff {
-  path: string;
-  action: 'MODIFY' | 'CREATE' | 'DELETE';
-  changes: DiffChange[];
+interface ModifyResult {
+  status: number;
+  data: Record<string, any>;
 }
 
-interface StagePlan {
-  currentStage: number;
-  totalStages: number;
-  stageDescription: string;
-  nextStages: string[];
-}
-
-interface DiffResponse {
-  changeType: 'MODIFICATION';
-  summary: string;
-  files: FileDiff[];
-  stagePlan?: StagePlan;
-}
+const MAX_OUTPUT_TOKENS = 4096;
+/** Streamed characters between progress events (~25 tokens) */
+const PROGRESS_INTERVAL_CHARS = 100;
 
 export async function POST(request: Request) {
   // ============================================================================
@@ -124,9 +38,97 @@ export async function POST(request: Request) {
   // ============================================================================
   const requestId = generateRequestId();
   const perfTracker = new PerformanceTracker();
+  // Write this request's metrics once the response is done - a serverless
+  // instance can be frozen before the flush timer fires
+  after(() => analytics.flush());
+  
+  try {
+    const body: ModifyRequestBody = await request.json();
+
+    const budget = await checkBudget(body.projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+
+    if (body.stream) {
+      return streamModification(body, budget.attribution, requestId, perfTracker);
+    }
+
+    const result = await runModification(body, budget.attribution, requestId, perfTracker, () => {});
+    return NextResponse.json(result.data, { status: result.status });
+  } catch (error) {
+    return NextResponse.json(failure(error, requestId), { status: 500 });
+  }
+}
+
+/**
+ * Run the modification, sending each stage to the client as an SSE event
+ */
+function streamModification(
+  body: ModifyRequestBody,
+  attribution: CostAttribution,
+  requestId: string,
+  perfTracker: PerformanceTracker
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: ModifyStreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const result = await runModification(body, attribution, requestId, perfTracker, send);
+      send(result.status === 200
+        ? { type: 'complete', data: result.data }
+        : { type: 'error', message: result.data.error, data: result.data });
+
+      if (!closed) controller.close();
+    },
+    cancel() {
+      // Client went away - let the modification finish without sending
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+function failure(error: unknown, requestId: string): { error: string } {
+  console.error('Error in modify route:', error);
   
+  // Log error to analytics
+  analytics.logRequestError(
+    requestId,
+    error as Error,
+    categorizeError(error as Error)
+  );
+  
+  return { error: error instanceof Error ? error.message : 'Failed to generate modifications' };
+}
+
+/**
+ * Generate, validate and dry-run a modification
+ *
+ * @param emit - Receives progress, file and validation events while it runs
+ */
+async function runModification(
+  body: ModifyRequestBody,
+  attribution: CostAttribution,
+  requestId: string,
+  perfTracker: PerformanceTracker,
+  emit: (event: ModifyStreamEvent) => void
+): Promise<ModifyResult> {
   try {
-    const { prompt, currentAppState, conversationHistory, correctionPrompt, attemptNumber } = await request.json();
+    const { prompt, currentAppState, conversationHistory, correctionPrompt, attemptNumber, llm: llmSelection, cleanup } = body;
+    const llm = getLLM('modify', parseLLMSelection(llmSelection), attribution);
     perfTracker.checkpoint('request_parsed');
     
     // Log request start after parsing body
@@ -134,16 +136,22 @@ export async function POST(request: Request) {
       hasConversationHistory: !!conversationHistory,
     });
 
-    if (!process.env.ANTHROPIC_API_KEY) {
-      return NextResponse.json({
-        error: 'Anthropic API key not configured. Add ANTHROPIC_API_KEY to .env.local'
-      }, { status: 500 });
+    if (!llm.provider.isConfigured()) {
+      return { status: 500, data: {
+        error: llm.provider.configurationError()
+      } };
     }
 
     if (!currentAppState) {
-      return NextResponse.json({
+      return { status: 400, data: {
         error: 'Current app state is required for modifications'
-      }, { status: 400 });
+      } };
+    }
+
+    if (cleanup !== undefined && !isCleanupMode(cleanup)) {
+      return { status: 400, data: {
+        error: `cleanup must be one of: ${CLEANUP_MODES.join(', ')}`
+      } };
     }
 
     // ============================================================================
@@ -167,8 +175,8 @@ DIFF FORMAT:
 CHANGE TYPES: ADD_IMPORT, INSERT_AFTER, INSERT_BEFORE, REPLACE, DELETE, APPEND
 
 SEARCH PATTERNS:
-- Use unique, exact code snippets for searchFor
-- Include enough context to be unambiguous
+- Copy searchFor from the file; small whitespace, indentation or quote differences are tolerated
+- Include enough context to match exactly ONE place - an anchor found in several places is rejected
 - Use actual code from file, not summaries
 
 RESPONSE FORMAT:
@@ -207,7 +215,7 @@ ${JSON.stringify(currentAppState, null, 2)}`;
     
     perfTracker.checkpoint('prompt_built');
 
-    console.log('Generating modifications with Claude Sonnet 4.5...');
+    console.log(`Generating modifications with ${llm.provider.name}/${llm.model}...`);
 
     // Extract current file contents for AI reference
     let fileContentsSection = '';
@@ -220,11 +228,11 @@ ${JSON.stringify(currentAppState, null, 2)}`;
         fileContentsSection += file.content;
         fileContentsSection += `\n${'='.repeat(60)}\n`;
       });
-      fileContentsSection += '\n⚠️ CRITICAL: Your SEARCH blocks must match the code above EXACTLY (character-for-character, including all whitespace and indentation).\n';
+      fileContentsSection += '\n⚠️ CRITICAL: Copy your SEARCH blocks from the code above. Whitespace, indentation and quote slips are tolerated, but each must match exactly ONE place - include surrounding lines when the code repeats.\n';
     }
 
     // Build conversation context
-    const messages: any[] = [];
+    const messages: LLMMessage[] = [];
 
     if (conversationHistory && Array.isArray(conversationHistory)) {
       conversationHistory.forEach((msg: any) => {
@@ -255,18 +263,12 @@ ${JSON.stringify(currentAppState, null, 2)}`;
     messages.push({ role: 'user', content: enhancedPrompt });
 
     // Use streaming for better handling with timeout
-    const modelName = 'claude-sonnet-4-5-20250929';
-    const stream = await anthropic.messages.stream({
+    const modelName = llm.model;
+    const stream = llm.provider.stream({
       model: modelName,
-      max_tokens: 4096,
+      maxTokens: MAX_OUTPUT_TOKENS,
       temperature: 0.7,
-      system: [
-        {
-          type: 'text',
-          text: systemPrompt,
-          cache_control: { type: 'ephemeral' }
-        }
-      ],
+      system: systemPrompt,
       messages: messages
     });
     
@@ -280,21 +282,43 @@ ${JSON.stringify(currentAppState, null, 2)}`;
     const timeout = 45000; // 45 seconds
     const startTime = Date.now();
     
+    // Report files as soon as they parse out of the partial response
+    const streamParser = new DiffStreamParser();
+    const streamPercent = () => Math.min(85, 5 + Math.round((responseText.length / 4 / MAX_OUTPUT_TOKENS) * 80));
+    let streamedFiles = 0;
+    let lastProgressLength = 0;
+    let lastProgressFile: string | null = null;
+    
     try {
       for await (const chunk of stream) {
         if (Date.now() - startTime > timeout) {
           throw new Error('AI response timeout - the modification was taking too long. Please try a simpler request or try again.');
         }
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-          responseText += chunk.delta.text;
+        if (chunk.type === 'text') {
+          responseText += chunk.text;
+
+          for (const file of streamParser.push(chunk.text)) {
+            emit({ type: 'file', file, fileIndex: ++streamedFiles, percentComplete: streamPercent() });
+          }
+
+          const currentFile = streamParser.currentPath();
+          if (responseText.length - lastProgressLength >= PROGRESS_INTERVAL_CHARS || currentFile !== lastProgressFile) {
+            lastProgressLength = responseText.length;
+            lastProgressFile = currentFile;
+            emit({
+              type: 'progress',
+              message: currentFile ? `✏️ Writing changes to ${currentFile}...` : '🧠 Planning changes...',
+              outputTokens: Math.round(responseText.length / 4),
+              ...(currentFile && { currentFile }),
+              percentComplete: streamPercent()
+            });
+          }
         }
-        // Capture token usage from final message
-        if (chunk.type === 'message_stop') {
-          const finalMessage = await stream.finalMessage();
-          inputTokens = finalMessage.usage.input_tokens || 0;
-          outputTokens = finalMessage.usage.output_tokens || 0;
-          // @ts-ignore - cache_read_input_tokens might not be in types yet
-          cachedTokens = finalMessage.usage.cache_read_input_tokens || 0;
+        // Capture token usage from final event
+        if (chunk.type === 'done') {
+          inputTokens = chunk.usage.inputTokens;
+          outputTokens = chunk.usage.outputTokens;
+          cachedTokens = chunk.usage.cachedTokens;
         }
       }
     } catch (streamError) {
@@ -314,7 +338,7 @@ ${JSON.stringify(currentAppState, null, 2)}`;
     console.log('Response preview:', responseText.substring(0, 500));
     
     if (!responseText) {
-      throw new Error('No response from Claude');
+      throw new Error('No response from AI model');
     }
 
     // Parse JSON response
@@ -325,12 +349,28 @@ ${JSON.stringify(currentAppState, null, 2)}`;
       const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/);
       const jsonString = jsonMatch ? jsonMatch[1] : responseText;
       
-      diffResponse = JSON.parse(jsonString.trim());
+      const parsed = JSON.parse(jsonString.trim());
       
-      // Validate response structure
-      if (!diffResponse.changeType || !diffResponse.summary || !diffResponse.files) {
-        throw new Error('Invalid diff response structure');
+      // Validate response structure against the shared diff schema
+      const schemaValidation = validateDiffResponse(parsed);
+      if (!schemaValidation.valid) {
+        console.error('Diff response failed schema validation:\n' + formatDiffErrors(schemaValidation.errors));
+        
+        analytics.logRequestError(requestId, 'Diff response failed schema validation', 'validation_error', {
+          modelUsed: modelName,
+          responseLength: responseText.length,
+        });
+        
+        return { status: 500, data: {
+          error: 'The AI returned modification instructions that are incomplete or malformed. Please try again.',
+          suggestion: 'Try asking for one change at a time, like "add a button" or "change the color to blue".',
+          technicalDetails: {
+            responsePreview: responseText.substring(0, 500),
+            schemaErrors: schemaValidation.errors
+          }
+        } };
       }
+      diffResponse = schemaValidation.value!;
       
       console.log('Parsed diff response:', {
         changeType: diffResponse.changeType,
@@ -347,14 +387,14 @@ ${JSON.stringify(currentAppState, null, 2)}`;
         responseLength: responseText.length,
       });
       
-      return NextResponse.json({
+      return { status: 500, data: {
         error: 'The AI had trouble understanding how to modify your app. This can happen with complex changes. Try breaking your request into smaller steps, or use simpler language.',
         suggestion: 'Try asking for one change at a time, like "add a button" or "change the color to blue".',
         technicalDetails: {
           responsePreview: responseText.substring(0, 500),
           parseError: parseError instanceof Error ? parseError.message : 'Unknown error'
         }
-      }, { status: 500 });
+      } };
     }
 
     // ============================================================================
@@ -385,7 +425,9 @@ ${JSON.stringify(currentAppState, null, 2)}`;
         
         snippetsToValidate.forEach(({ field, code }) => {
           totalSnippets++;
-          const validation = validateGeneratedCode(code, fileDiff.path);
+          // Only a created file's content parses on its own; the rest are fragments
+          const wholeFile = fileDiff.action === 'CREATE' && field === 'content';
+          const validation = validateGeneratedCode(code, fileDiff.path, false, wholeFile);
           
           if (!validation.valid) {
             console.log(`⚠️ Found ${validation.errors.length} error(s) in ${fileDiff.path} change #${index + 1} (${field})`);
@@ -429,6 +471,15 @@ ${JSON.stringify(currentAppState, null, 2)}`;
       analytics.logValidation(requestId, errorsFound, errorsFound - validationErrors.length);
     }
     
+    emit({
+      type: 'validation',
+      snippetsChecked: totalSnippets,
+      errorsFound,
+      errorsFixed: errorsFound - validationErrors.length,
+      issues: validationErrors,
+      percentComplete: 90
+    });
+    
     perfTracker.checkpoint('validation_complete');
     
     // Add validation warnings if errors remain
@@ -438,6 +489,27 @@ ${JSON.stringify(currentAppState, null, 2)}`;
       details: validationErrors
     } : undefined;
     
+    // ============================================================================
+    // DRY RUN - Preview the exact result so the user reviews real before/after
+    // ============================================================================
+    let preview: FilePreview[] | undefined;
+    let cleanupFindings: CleanupFinding[] | undefined;
+    if (Array.isArray(currentAppState.files)) {
+      try {
+        const dryRun = await applyDiff(currentAppState.files, diffResponse.files, true, { cleanup });
+        preview = dryRun.preview;
+        cleanupFindings = dryRun.cleanup;
+        if (!dryRun.success) {
+          console.log(`⚠️ Dry run found ${dryRun.errors.length} problem(s):`, dryRun.errors);
+        }
+      } catch (dryRunError) {
+        // Preview is best-effort - the diff itself is still returned
+        console.error('Dry run failed:', dryRunError);
+      }
+    }
+    
+    perfTracker.checkpoint('dry_run_complete');
+    
     perfTracker.checkpoint('response_prepared');
     
     // Log successful completion
@@ -459,24 +531,14 @@ ${JSON.stringify(currentAppState, null, 2)}`;
       perfTracker.log('Modify Route');
     }
 
-    return NextResponse.json({
+    return { status: 200, data: {
       ...diffResponse,
+      ...(preview && { preview }),
+      ...(cleanupFindings && { cleanup: cleanupFindings }),
       ...(validationWarnings && { validationWarnings })
-    });
+    } };
     
   } catch (error) {
-    console.error('Error in modify route:', error);
-    
-    // Log error to analytics
-    analytics.logRequestError(
-      requestId,
-      error as Error,
-      categorizeError(error as Error)
-    );
-    
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to generate modifications' },
-      { status: 500 }
-    );
+    return { status: 500, data: failure(error, requestId) };
   }
 }
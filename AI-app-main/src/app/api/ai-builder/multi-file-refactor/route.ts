@@ -1,9 +1,6 @@
 import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
 
 interface FileSpec {
   path: string;
@@ -30,20 +27,25 @@ interface RefactorPlan {
  */
 export async function POST(request: Request) {
   try {
-    const { prompt, files } = await request.json();
+    const { prompt, files, llm: llmSelection, projectId } = await request.json();
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('multi-file-refactor', parseLLMSelection(llmSelection), budget.attribution, request.signal);
 
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!llm.provider.isConfigured()) {
       return NextResponse.json({
-        error: 'Anthropic API key not configured',
+        error: llm.provider.configurationError(),
         success: false
       }, { status: 500 });
     }
 
     // Step 1: Generate refactor plan
     console.log('Generating refactor plan...');
-    const planResponse = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
+    const planResponse = await llm.provider.complete({
+      model: llm.model,
+      maxTokens: 4096,
       temperature: 0.7,
       messages: [{
         role: 'user',
@@ -76,9 +78,7 @@ Return ONLY the JSON object, no explanation.`
       }]
     });
 
-    const planText = planResponse.content[0].type === 'text'
-      ? planResponse.content[0].text
-      : '';
+    const planText = planResponse.text;
 
     // Extract JSON from response
     const jsonMatch = planText.match(/\{[\s\S]*\}/);
@@ -109,9 +109,9 @@ Return ONLY the JSON object, no explanation.`
         const currentContent = modifiedFiles.get(step.file) || currentFile.content;
 
         // Generate modification for this one file
-        const modificationResponse = await anthropic.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 4096,
+        const modificationResponse = await llm.provider.complete({
+          model: llm.model,
+          maxTokens: 4096,
           temperature: 0.7,
           messages: [{
             role: 'user',
@@ -134,9 +134,7 @@ Do not include explanations, just the code.`
           }]
         });
 
-        const modifiedContent = modificationResponse.content[0].type === 'text'
-          ? modificationResponse.content[0].text
-          : currentContent;
+        const modifiedContent = modificationResponse.text || currentContent;
 
         // Clean up code blocks if present
         const cleanedContent = modifiedContent
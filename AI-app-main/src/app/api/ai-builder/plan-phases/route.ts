@@ -1,18 +1,20 @@
 import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection, type LLMMessage } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
 
 export async function POST(request: Request) {
   try {
-    const { conversationHistory, prompt } = await request.json();
+    const { conversationHistory, prompt, llm: llmSelection, projectId } = await request.json();
     const userRequest = prompt; // Use prompt for consistency with other endpoints
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('plan-phases', parseLLMSelection(llmSelection), budget.attribution);
 
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!llm.provider.isConfigured()) {
       return NextResponse.json({
-        error: 'Anthropic API key not configured'
+        error: llm.provider.configurationError()
       }, { status: 500 });
     }
 
@@ -56,7 +58,7 @@ CRITICAL:
 - Aim for 3-5 phases (not too granular, not too broad)`;
 
     // Build conversation context
-    const messages: any[] = [];
+    const messages: LLMMessage[] = [];
 
     if (conversationHistory && Array.isArray(conversationHistory)) {
       // Include the full conversation for context
@@ -78,26 +80,18 @@ CRITICAL:
 
     console.log('Extracting phase plan from conversation...');
 
-    const completion = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
+    const completion = await llm.provider.complete({
+      model: llm.model,
+      maxTokens: 4096,
       temperature: 0.3, // Lower temperature for more structured output
-      system: [
-        {
-          type: 'text',
-          text: systemPrompt,
-          cache_control: { type: 'ephemeral' }
-        }
-      ],
+      system: systemPrompt,
       messages: messages
     });
 
-    const responseText = completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : '';
+    const responseText = completion.text;
       
     if (!responseText) {
-      throw new Error('No response from Claude');
+      throw new Error('No response from AI model');
     }
 
     console.log('Phase plan response:', responseText);
@@ -1,11 +1,8 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { NextResponse, after } from 'next/server';
 import { validateGeneratedCode, autoFixCode, type ValidationError } from '@/utils/codeValidator';
 import { analytics, generateRequestId, categorizeError, PerformanceTracker } from '@/utils/analytics';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection, type LLMMessage } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
 
 export async function POST(request: Request) {
   // ============================================================================
@@ -13,9 +10,17 @@ export async function POST(request: Request) {
   // ============================================================================
   const requestId = generateRequestId();
   const perfTracker = new PerformanceTracker();
+  // Write this request's metrics once the response is done - a serverless
+  // instance can be frozen before the flush timer fires
+  after(() => analytics.flush());
   
   try {
-    const { prompt, conversationHistory } = await request.json();
+    const { prompt, conversationHistory, llm: llmSelection, projectId } = await request.json();
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('builder', parseLLMSelection(llmSelection), budget.attribution);
     perfTracker.checkpoint('request_parsed');
     
     // Log request start after parsing body
@@ -24,12 +29,13 @@ export async function POST(request: Request) {
     });
 
     console.log('Environment check:', {
-      hasKey: !!process.env.ANTHROPIC_API_KEY,
-      keyLength: process.env.ANTHROPIC_API_KEY?.length
+      provider: llm.provider.name,
+      model: llm.model,
+      configured: llm.provider.isConfigured()
     });
 
-    if (!process.env.ANTHROPIC_API_KEY) {
-      console.warn('Anthropic API key not configured, using demo mode');
+    if (!llm.provider.isConfigured()) {
+      console.warn(`${llm.provider.name} provider not configured, using demo mode`);
       return NextResponse.json({
         code: `import { useState } from 'react';\n\nexport default function GeneratedComponent() {\n  const [value, setValue] = useState('');\n  \n  return (\n    <div className="p-6 max-w-md mx-auto bg-white rounded-xl shadow-lg">\n      <h2 className="text-2xl font-bold mb-4 text-gray-800">Demo Component</h2>\n      <p className="text-sm text-gray-600 mb-4">Add your Anthropic API key to .env.local for full AI generation</p>\n      <input \n        value={value}\n        onChange={(e) => setValue(e.target.value)}\n        className="w-full border border-gray-300 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"\n        placeholder="Type something..."\n      />\n      <p className="mt-3 text-sm text-gray-500">You typed: {value}</p>\n    </div>\n  );\n}`,
         explanation: "This is a demo component. Configure your Anthropic API key (ANTHROPIC_API_KEY) in .env.local to enable full AI generation with Claude.",
@@ -113,7 +119,7 @@ CRITICAL RULES:
 `;
 
     // Build conversation context for Claude
-    const messages: any[] = [];
+    const messages: LLMMessage[] = [];
 
     // Add conversation history if provided
     if (conversationHistory && Array.isArray(conversationHistory)) {
@@ -129,43 +135,36 @@ CRITICAL RULES:
     // Add current user prompt
     messages.push({ role: 'user', content: prompt });
 
-    console.log('Generating component with Claude Sonnet 4.5...');
+    console.log(`Generating component with ${llm.provider.name}/${llm.model}...`);
     perfTracker.checkpoint('prompt_built');
 
-    const modelName = 'claude-sonnet-4-5-20250929';
-    const completion = await anthropic.messages.create({
+    const modelName = llm.model;
+    const completion = await llm.provider.complete({
       model: modelName,
-      max_tokens: 4096,
+      maxTokens: 4096,
       temperature: 0.7,
-      system: [
-        {
-          type: 'text',
-          text: systemPrompt,
-          cache_control: { type: 'ephemeral' }
-        }
-      ],
+      system: systemPrompt,
       messages: messages,
     });
     
     perfTracker.checkpoint('ai_response_received');
     
     // Log token usage
-    if (completion.usage) {
+    if (completion.usage.inputTokens > 0 || completion.usage.outputTokens > 0) {
       analytics.logTokenUsage(
         requestId,
-        completion.usage.input_tokens || 0,
-        completion.usage.output_tokens || 0,
-        // @ts-ignore - cache_read_input_tokens might not be in types yet
-        completion.usage.cache_read_input_tokens || 0
+        completion.usage.inputTokens,
+        completion.usage.outputTokens,
+        completion.usage.cachedTokens
       );
     }
 
-    const responseText = completion.content[0].type === 'text' ? completion.content[0].text : '';
+    const responseText = completion.text;
     if (!responseText) {
-      throw new Error('No response from Claude');
+      throw new Error('No response from AI model');
     }
 
-    console.log('Raw Claude response length:', responseText.length);
+    console.log('Raw model response length:', responseText.length);
 
     // Parse using delimiters - bulletproof method
     const nameMatch = responseText.match(/===NAME===\s*([\s\S]*?)\s*===EXPLANATION===/);
@@ -1,18 +1,33 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
+import { randomUUID } from 'crypto';
+import {
+  getJobStore,
+  formatEventId,
+  JOB_LEASE_MS,
+  parseEventId,
+  type GenerationJob,
+  type GenerationJobStore,
+  type GenerationArchitecture,
+  type GeneratedFile,
+  type PlannedFile,
+} from '@/utils/generationJobs';
+import { runScheduled } from '@/utils/generationScheduler';
+import { exportSignatures } from '@/utils/importGraph';
 
 interface StreamProgress {
-  type: 'architecture' | 'file' | 'complete' | 'error';
+  type: 'job' | 'architecture' | 'file' | 'complete' | 'error';
   message: string;
+  /** Sent with 'job' and 'error' events - reconnect with Last-Event-ID to resume */
+  jobId?: string;
+  resumed?: boolean;
   fileName?: string;
   fileContent?: string;
   fileIndex?: number;
   totalFiles?: number;
   percentComplete?: number;
+  /** File completed before the client reconnected */
+  replayed?: boolean;
 }
 
 /**
@@ -20,79 +35,117 @@ interface StreamProgress {
  *
  * Generates large apps file-by-file with real-time progress updates.
  * Uses streaming to send progress events as files are generated.
+ *
+ * Each generation is a resumable job (see utils/generationJobs.ts): file
+ * events carry an SSE id, and a request with a `Last-Event-ID` header
+ * replays the files completed after that id and continues with the next
+ * pending file instead of starting over. Only one request works on a job at
+ * a time: a resume while the previous request still holds the job's lease
+ * (it finishes its in-flight files after the client goes away) gets an
+ * error event and can retry once that request is done.
+ *
+ * Files are generated concurrently where the plan's `dependsOn` allows it;
+ * a file starts once its dependencies exist and is given their exported
+ * signatures. File events are sent in completion order.
+ *
+ * Configuration:
+ *   GENERATION_CONCURRENCY  files generated at once (default 3, max 8)
  */
 export async function POST(request: Request) {
+  // Checked up front so an exhausted budget is a plain 402, not a stream
+  const budget = await checkBudget();
+  if (!budget.allowed) {
+    return Response.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+  }
+
   const encoder = new TextEncoder();
+  const resumeFrom = parseEventId(request.headers.get('Last-Event-ID'));
+  let closed = false;
 
   const stream = new ReadableStream({
     async start(controller) {
+      const send = (event: StreamProgress | { type: 'result'; data: any }, id?: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(event)}\n\n`));
+      };
+      const finish = () => {
+        if (!closed) controller.close();
+      };
+
+      let store: GenerationJobStore | undefined;
+      let jobId: string | undefined;
+      const runner = randomUUID();
+      let leaseRenewal: ReturnType<typeof setInterval> | undefined;
+
       try {
-        const { prompt, conversationHistory } = await request.json();
+        store = await getJobStore();
+        let job: GenerationJob;
+        if (resumeFrom) {
+          const existing = await store.get(resumeFrom.jobId);
+          if (!existing) {
+            send({ type: 'error', message: 'This generation can no longer be resumed - please start it again.' });
+            finish();
+            return;
+          }
+          job = existing;
+        } else {
+          const { prompt, conversationHistory, llm: llmSelection } = await request.json();
+          job = await store.create({ prompt, conversationHistory: conversationHistory || [], llm: llmSelection });
+        }
 
-        if (!process.env.ANTHROPIC_API_KEY) {
-          const errorEvent: StreamProgress = {
+        if (!await store.acquireLease(job.id, runner)) {
+          send({
             type: 'error',
-            message: 'Anthropic API key not configured'
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`));
-          controller.close();
+            message: 'This generation is still running from an earlier connection - try again in a moment.',
+            jobId: job.id
+          });
+          finish();
           return;
         }
+        jobId = job.id;
+        // Re-read under the lease: the previous runner may have saved more files
+        if (resumeFrom) {
+          job = (await store.get(job.id)) ?? job;
+        }
+        leaseRenewal = setInterval(() => {
+          store!.acquireLease(job.id, runner).catch(error => {
+            console.error('Failed to renew generation job lease:', error);
+          });
+        }, JOB_LEASE_MS / 3);
 
-        // Send initial progress
-        const startEvent: StreamProgress = {
-          type: 'architecture',
-          message: '🏗️ Analyzing your request and planning app architecture...',
-          percentComplete: 5
-        };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(startEvent)}\n\n`));
-
-        // Step 1: Generate architecture plan
-        const architectureResponse = await anthropic.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 4096,
-          temperature: 0.7,
-          messages: [
-            ...(conversationHistory || []).map((msg: any) => ({
-              role: msg.role === 'system' ? 'user' : msg.role,
-              content: msg.content
-            })),
-            {
-              role: 'user',
-              content: `${prompt}
-
-IMPORTANT: First, analyze this request and create a file structure plan.
+        const llm = getLLM('streaming-generation', parseLLMSelection(job.llm), budget.attribution);
 
-Return ONLY a JSON object with this structure:
-{
-  "appName": "App Name",
-  "description": "Brief description",
-  "files": [
-    {
-      "path": "src/App.tsx",
-      "purpose": "Main component",
-      "priority": "high"
-    }
-  ]
-}
+        if (!llm.provider.isConfigured()) {
+          const errorEvent: StreamProgress = {
+            type: 'error',
+            message: llm.provider.configurationError()
+          };
+          send(errorEvent);
+          finish();
+          return;
+        }
 
-Include all files needed. Be specific about file paths and purposes.`
-            }
-          ]
-        });
+        if (job.status !== 'running') {
+          await store.setStatus(job.id, 'running');
+        }
 
-        const architectureText = architectureResponse.content[0].type === 'text'
-          ? architectureResponse.content[0].text
-          : '';
+        const jobEvent: StreamProgress = {
+          type: 'job',
+          message: resumeFrom
+            ? `🔄 Resuming generation (${job.files.length} file(s) already done)`
+            : '🆕 Generation started',
+          jobId: job.id,
+          resumed: !!resumeFrom
+        };
+        send(jobEvent, formatEventId(job.id, resumeFrom?.completedFiles ?? 0));
 
-        // Extract JSON from response
-        const jsonMatch = architectureText.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          throw new Error('Failed to generate app architecture');
+        // Step 1: Generate architecture plan (skipped when resuming after it)
+        const architecture = job.architecture || await planArchitecture(llm, job, send);
+        if (!job.architecture) {
+          await store.saveArchitecture(job.id, architecture);
+          job.architecture = architecture;
         }
-
-        const architecture = JSON.parse(jsonMatch[0]);
-        const files = architecture.files || [];
+        const files = architecture.files;
 
         // Send architecture complete event
         const archCompleteEvent: StreamProgress = {
@@ -101,76 +154,69 @@ Include all files needed. Be specific about file paths and purposes.`
           totalFiles: files.length,
           percentComplete: 10
         };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(archCompleteEvent)}\n\n`));
-
-        // Step 2: Generate each file with progress updates
-        const generatedFiles: any[] = [];
+        send(archCompleteEvent);
 
-        for (let i = 0; i < files.length; i++) {
-          const fileSpec = files[i];
-          const percentComplete = 10 + ((i / files.length) * 80); // 10% to 90%
-
-          // Send file generation start event
-          const fileStartEvent: StreamProgress = {
+        // Replay files the client didn't receive before it reconnected
+        const generatedFiles: GeneratedFile[] = [...job.files];
+        generatedFiles.forEach((file, completed) => {
+          if (completed < (resumeFrom?.completedFiles ?? 0)) return;
+          const i = files.findIndex(f => f.path === file.path);
+          const replayEvent: StreamProgress = {
             type: 'file',
-            message: `⚡ Generating ${fileSpec.path}...`,
-            fileName: fileSpec.path,
+            message: `✅ ${file.path} complete`,
+            fileName: file.path,
+            fileContent: file.content,
             fileIndex: i + 1,
             totalFiles: files.length,
-            percentComplete: Math.round(percentComplete)
+            percentComplete: Math.round(10 + (((i + 1) / files.length) * 80)),
+            replayed: true
           };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(fileStartEvent)}\n\n`));
-
-          // Generate the file
-          const fileResponse = await anthropic.messages.create({
-            model: 'claude-sonnet-4-20250514',
-            max_tokens: 4096,
-            temperature: 0.7,
-            messages: [{
-              role: 'user',
-              content: `Generate ONLY the code for this file:
-
-File: ${fileSpec.path}
-Purpose: ${fileSpec.purpose}
-
-App Context:
-${architecture.description}
+          send(replayEvent, formatEventId(job.id, completed + 1));
+        });
 
-Already Generated Files:
-${generatedFiles.map(f => `- ${f.path}: ${f.purpose}`).join('\n') || 'None (first file)'}
+        // Step 2: Generate pending files - independent ones concurrently
+        const percentDone = () => Math.round(10 + ((generatedFiles.length / files.length) * 80)); // 10% to 90%
 
-Generate the complete file content. Return ONLY the code, no explanations.`
-            }]
-          });
+        await runScheduled(files, {
+          concurrency: generationConcurrency(),
+          completed: job.files.map(f => f.path),
+          // Client went away - start nothing new; the job resumes from the unstarted files
+          shouldStop: () => closed,
+          onStart: fileSpec => {
+            // Send file generation start event
+            const fileStartEvent: StreamProgress = {
+              type: 'file',
+              message: `⚡ Generating ${fileSpec.path}...`,
+              fileName: fileSpec.path,
+              fileIndex: files.indexOf(fileSpec) + 1,
+              totalFiles: files.length,
+              percentComplete: percentDone()
+            };
+            send(fileStartEvent);
+          },
+          generate: fileSpec => generateFile(llm, architecture, fileSpec, generatedFiles),
+          onComplete: async (fileSpec, generatedFile) => {
+            // Checkpoint before telling the client, so anything it saw is resumable
+            await store!.saveFile(job.id, generatedFile);
+            generatedFiles.push(generatedFile);
 
-          const fileContent = fileResponse.content[0].type === 'text'
-            ? fileResponse.content[0].text
-            : '';
+            // Send file complete event
+            const fileCompleteEvent: StreamProgress = {
+              type: 'file',
+              message: `✅ ${fileSpec.path} complete`,
+              fileName: fileSpec.path,
+              fileContent: generatedFile.content,
+              fileIndex: files.indexOf(fileSpec) + 1,
+              totalFiles: files.length,
+              percentComplete: percentDone()
+            };
+            send(fileCompleteEvent, formatEventId(job.id, generatedFiles.length));
+          }
+        });
 
-          // Clean code blocks if present
-          const cleanedContent = fileContent
-            .replace(/^```[\w]*\n/gm, '')
-            .replace(/\n```$/gm, '')
-            .trim();
+        if (closed) return;
 
-          generatedFiles.push({
-            path: fileSpec.path,
-            content: cleanedContent,
-            purpose: fileSpec.purpose
-          });
-
-          // Send file complete event
-          const fileCompleteEvent: StreamProgress = {
-            type: 'file',
-            message: `✅ ${fileSpec.path} complete`,
-            fileName: fileSpec.path,
-            fileContent: cleanedContent,
-            fileIndex: i + 1,
-            totalFiles: files.length,
-            percentComplete: Math.round(percentComplete + (80 / files.length))
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(fileCompleteEvent)}\n\n`));
-        }
+        await store.setStatus(job.id, 'complete');
 
         // Send completion event
         const completeEvent: StreamProgress = {
@@ -178,7 +224,7 @@ Generate the complete file content. Return ONLY the code, no explanations.`
           message: `🎉 App generated successfully! ${generatedFiles.length} files created.`,
           percentComplete: 100
         };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(completeEvent)}\n\n`));
+        send(completeEvent);
 
         // Send final result
         const result = {
@@ -187,19 +233,36 @@ Generate the complete file content. Return ONLY the code, no explanations.`
           files: generatedFiles,
           changeType: 'NEW_APP'
         };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'result', data: result })}\n\n`));
+        send({ type: 'result', data: result });
 
-        controller.close();
+        finish();
 
       } catch (error) {
         console.error('Streaming generation error:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        if (store && jobId) {
+          await store.setStatus(jobId, 'error', message).catch(statusError => {
+            console.error('Failed to record generation job error:', statusError);
+          });
+        }
         const errorEvent: StreamProgress = {
           type: 'error',
-          message: error instanceof Error ? error.message : 'Unknown error occurred'
+          message,
+          jobId
         };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`));
-        controller.close();
+        send(errorEvent);
+        finish();
+      } finally {
+        clearInterval(leaseRenewal);
+        if (store && jobId) {
+          await store.releaseLease(jobId, runner).catch(error => {
+            console.error('Failed to release generation job lease:', error);
+          });
+        }
       }
+    },
+    cancel() {
+      closed = true;
     }
   });
 
@@ -211,3 +274,152 @@ Generate the complete file content. Return ONLY the code, no explanations.`
     },
   });
 }
+
+/**
+ * Ask the model for the app's file plan
+ */
+async function planArchitecture(
+  llm: ReturnType<typeof getLLM>,
+  job: GenerationJob,
+  send: (event: StreamProgress) => void
+): Promise<GenerationArchitecture> {
+  // Send initial progress
+  const startEvent: StreamProgress = {
+    type: 'architecture',
+    message: '🏗️ Analyzing your request and planning app architecture...',
+    percentComplete: 5
+  };
+  send(startEvent);
+
+  const architectureResponse = await llm.provider.complete({
+    model: llm.model,
+    maxTokens: 4096,
+    temperature: 0.7,
+    messages: [
+      ...job.conversationHistory.map((msg: any) => ({
+        role: msg.role === 'system' ? 'user' : msg.role,
+        content: msg.content
+      })),
+      {
+        role: 'user',
+        content: `${job.prompt}
+
+IMPORTANT: First, analyze this request and create a file structure plan.
+
+Return ONLY a JSON object with this structure:
+{
+  "appName": "App Name",
+  "description": "Brief description",
+  "files": [
+    {
+      "path": "src/App.tsx",
+      "purpose": "Main component",
+      "priority": "high",
+      "dependsOn": ["src/components/TodoList.tsx", "src/types.ts"]
+    }
+  ]
+}
+
+Include all files needed. Be specific about file paths and purposes.
+In "dependsOn" list the planned files each file imports (types, hooks, components it renders); use [] when it imports none of them.`
+      }
+    ]
+  });
+
+  const architectureText = architectureResponse.text;
+
+  // Extract JSON from response
+  const jsonMatch = architectureText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Failed to generate app architecture');
+  }
+
+  const architecture = JSON.parse(jsonMatch[0]);
+  const files: PlannedFile[] = architecture.files || [];
+  const paths = new Set(files.map(f => f.path));
+
+  return {
+    appName: architecture.appName,
+    description: architecture.description,
+    // Keep only dependencies on other planned files
+    files: files.map(f => ({
+      ...f,
+      dependsOn: (Array.isArray(f.dependsOn) ? f.dependsOn : [])
+        .filter(dep => typeof dep === 'string' && dep !== f.path && paths.has(dep))
+    }))
+  };
+}
+
+/**
+ * Generate one planned file, given the exports of the files it depends on
+ */
+async function generateFile(
+  llm: ReturnType<typeof getLLM>,
+  architecture: GenerationArchitecture,
+  fileSpec: PlannedFile,
+  generatedFiles: GeneratedFile[]
+): Promise<GeneratedFile> {
+  const dependencies = await dependencySignatures(fileSpec, generatedFiles);
+
+  const fileResponse = await llm.provider.complete({
+    model: llm.model,
+    maxTokens: 4096,
+    temperature: 0.7,
+    messages: [{
+      role: 'user',
+      content: `Generate ONLY the code for this file:
+
+File: ${fileSpec.path}
+Purpose: ${fileSpec.purpose}
+
+App Context:
+${architecture.description}
+
+Already Generated Files:
+${generatedFiles.map(f => `- ${f.path}: ${f.purpose}`).join('\n') || 'None (first file)'}
+${dependencies ? `
+Exports of the files this one imports (use exactly these names and signatures):
+${dependencies}
+` : ''}
+Generate the complete file content. Return ONLY the code, no explanations.`
+    }]
+  });
+
+  const fileContent = fileResponse.text;
+
+  // Clean code blocks if present
+  const cleanedContent = fileContent
+    .replace(/^```[\w]*\n/gm, '')
+    .replace(/\n```$/gm, '')
+    .trim();
+
+  return {
+    path: fileSpec.path,
+    content: cleanedContent,
+    purpose: fileSpec.purpose
+  };
+}
+
+/**
+ * Exported signatures of the generated files `fileSpec` depends on, one block per file
+ */
+async function dependencySignatures(fileSpec: PlannedFile, generatedFiles: GeneratedFile[]): Promise<string> {
+  const blocks: string[] = [];
+
+  for (const path of fileSpec.dependsOn || []) {
+    const dependency = generatedFiles.find(f => f.path === path);
+    if (!dependency || !/\.(tsx?|jsx?)$/.test(path)) continue;
+
+    const signatures = await exportSignatures(dependency.content);
+    if (signatures.length > 0) {
+      blocks.push(`// ${path}\n${signatures.join('\n')}`);
+    }
+  }
+
+  return blocks.join('\n\n');
+}
+
+function generationConcurrency(): number {
+  const configured = parseInt(process.env.GENERATION_CONCURRENCY || '', 10);
+  return Number.isFinite(configured) ? Math.min(Math.max(configured, 1), 8) : 3;
+}
@@ -7,7 +7,17 @@
  */
 
 import { NextResponse } from 'next/server';
-import { analytics } from '@/utils/analytics';
+import { analytics, type MetricsBucketSize, type RouteType } from '@/utils/analytics';
+import { getBudgetUsage, getCostLedger, summarizeSpend } from '@/utils/costLedger';
+
+/** Oldest day the spend view can ask for (the memory ledger keeps ~3 months) */
+const MAX_SPEND_DAYS = 92;
+
+/** Default timeseries window per bucket size */
+const DEFAULT_WINDOW_MS: Record<MetricsBucketSize, number> = {
+  hour: 24 * 60 * 60 * 1000,
+  day: 30 * 24 * 60 * 60 * 1000,
+};
 
 export async function GET(request: Request) {
   try {
@@ -74,6 +84,51 @@ export async function GET(request: Request) {
         });
       }
       
+      case 'timeseries': {
+        // Latency percentiles, error rates and tokens per route, bucketed by hour or day
+        const bucket: MetricsBucketSize = searchParams.get('bucket') === 'day' ? 'day' : 'hour';
+        const sinceTimestamp = since ? parseInt(since) : Date.now() - DEFAULT_WINDOW_MS[bucket];
+        
+        // Include this instance's metrics that haven't been written yet
+        await analytics.flush();
+        const buckets = await analytics.aggregate({
+          since: sinceTimestamp,
+          bucket,
+          routeType: (route || undefined) as RouteType | undefined,
+        });
+        
+        return NextResponse.json({
+          action: 'timeseries',
+          bucket,
+          since: new Date(sinceTimestamp).toISOString(),
+          source: (await analytics.isPersistent()) ? 'supabase' : 'memory',
+          count: buckets.length,
+          data: buckets,
+        });
+      }
+
+      case 'spend': {
+        // Model spend over time for the current user (optionally one project)
+        const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), MAX_SPEND_DAYS);
+        const projectId = searchParams.get('projectId') || undefined;
+        const ledger = await getCostLedger();
+        const attribution = { userId: await ledger.currentUserId(), projectId };
+
+        const start = new Date();
+        start.setUTCHours(0, 0, 0, 0);
+        start.setUTCDate(start.getUTCDate() - (days - 1));
+        const entries = await ledger.entries({ ...attribution, since: start.toISOString() });
+
+        return NextResponse.json({
+          action: 'spend',
+          period: `last ${days} days`,
+          data: {
+            ...summarizeSpend(entries, days),
+            budgets: await getBudgetUsage(attribution, ledger),
+          },
+        });
+      }
+
       case 'export': {
         // Export all metrics as JSON
         const allMetrics = analytics.exportMetrics();
@@ -97,8 +152,8 @@ export async function GET(request: Request) {
       
       default: {
         return NextResponse.json({
-          error: 'Invalid action. Valid actions: summary, errors, route, export, clear',
-          availableActions: ['summary', 'errors', 'route', 'export', 'clear'],
+          error: 'Invalid action. Valid actions: summary, errors, route, timeseries, spend, export, clear',
+          availableActions: ['summary', 'errors', 'route', 'timeseries', 'spend', 'export', 'clear'],
         }, { status: 400 });
       }
     }
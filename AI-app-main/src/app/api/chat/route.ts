@@ -1,17 +1,19 @@
 import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection, type LLMContentPart, type LLMMessage } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
 
 export async function POST(request: Request) {
   try {
-    const { prompt, conversationHistory, includeCodeInResponse = false, mode = 'ACT', images } = await request.json();
+    const { prompt, conversationHistory, includeCodeInResponse = false, mode = 'ACT', images, llm: llmSelection, projectId } = await request.json();
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('chat', parseLLMSelection(llmSelection), budget.attribution);
 
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!llm.provider.isConfigured()) {
       return NextResponse.json({
-        error: 'Anthropic API key not configured. Add ANTHROPIC_API_KEY to .env.local'
+        error: llm.provider.configurationError()
       }, { status: 500 });
     }
 
@@ -85,7 +87,7 @@ You are NOT generating full apps in this mode - just having a helpful conversati
     }
 
     // Build conversation context
-    const messages: any[] = [];
+    const messages: LLMMessage[] = [];
 
     if (conversationHistory && Array.isArray(conversationHistory)) {
       conversationHistory.forEach((msg: any) => {
@@ -98,46 +100,35 @@ You are NOT generating full apps in this mode - just having a helpful conversati
     }
 
     // Build user message content
-    let userContent: any = prompt;
+    let userContent: string | LLMContentPart[] = prompt;
 
     if (images && Array.isArray(images) && images.length > 0) {
       userContent = [
         { type: 'text', text: prompt },
-        ...images.map((img: string) => ({
+        ...images.map((img: string): LLMContentPart => ({
           type: 'image',
-          source: {
-            type: 'base64',
-            media_type: img.split(';')[0].split(':')[1] || 'image/jpeg',
-            data: img.split(',')[1] || img
-          }
+          mediaType: img.split(';')[0].split(':')[1] || 'image/jpeg',
+          data: img.split(',')[1] || img
         }))
       ];
     }
 
     messages.push({ role: 'user', content: userContent });
 
-    console.log('Chat Q&A with Claude...');
+    console.log(`Chat Q&A with ${llm.provider.name}/${llm.model}...`);
 
-    const completion = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
+    const completion = await llm.provider.complete({
+      model: llm.model,
+      maxTokens: 4096,
       temperature: 0.7,
-      system: [
-        {
-          type: 'text',
-          text: systemPrompt,
-          cache_control: { type: 'ephemeral' }
-        }
-      ],
+      system: systemPrompt,
       messages: messages
     });
 
-    const responseText = completion.content[0].type === 'text' 
-      ? completion.content[0].text 
-      : '';
+    const responseText = completion.text;
       
     if (!responseText) {
-      throw new Error('No response from Claude');
+      throw new Error('No response from AI model');
     }
 
     return NextResponse.json({
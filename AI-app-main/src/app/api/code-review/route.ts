@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
 
 /**
  * Convert letter grade to numeric value for comparison
@@ -82,8 +79,21 @@ export async function POST(request: NextRequest) {
       incrementalMode = false,
       modifiedFiles = [],
       previousReport = null,
-      allFiles = [] // Context: all files for understanding imports/references
+      allFiles = [], // Context: all files for understanding imports/references
+      llm: llmSelection,
+      projectId
     } = await request.json();
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('code-review', parseLLMSelection(llmSelection), budget.attribution, request.signal);
+
+    if (!llm.provider.isConfigured()) {
+      return NextResponse.json({
+        error: llm.provider.configurationError()
+      }, { status: 500 });
+    }
 
     if (!files || !Array.isArray(files) || files.length === 0) {
       return NextResponse.json({
@@ -191,9 +201,9 @@ Analyze this code for:
 
 Be thorough but focus on actionable issues. For each issue, provide a clear fix that can be automatically applied if possible.`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
+    const response = await llm.provider.complete({
+      model: llm.model,
+      maxTokens: 8192,
       temperature: 0.3, // Lower temperature for more consistent analysis
       messages: [
         {
@@ -203,13 +213,12 @@ Be thorough but focus on actionable issues. For each issue, provide a clear fix
       ]
     });
 
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!response.text) {
       throw new Error('No text response from API');
     }
 
     // Extract JSON from response
-    const jsonMatch = textContent.text.match(/```json\n([\s\S]*?)\n```/);
+    const jsonMatch = response.text.match(/```json\n([\s\S]*?)\n```/);
     if (!jsonMatch) {
       throw new Error('Failed to parse quality report from response');
     }
@@ -0,0 +1,83 @@
+import { getBackgroundJobStore, getJob, isFinished, type JobStreamEvent } from '@/utils/backgroundJobs';
+
+/** How often the store is checked for new progress */
+const POLL_INTERVAL_MS = 1000;
+
+// GET /api/jobs/[id]/events - Stream a job's progress until it finishes
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const store = await getBackgroundJobStore();
+  const encoder = new TextEncoder();
+  const lastEventId = parseInt(request.headers.get('Last-Event-ID') || '', 10);
+  let seenProgress = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: JobStreamEvent, eventId?: number) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`${eventId ? `id: ${eventId}\n` : ''}data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        let lastStatus: string | null = null;
+
+        while (!closed && !request.signal.aborted) {
+          const job = await getJob(id, store);
+          if (!job) {
+            send({ type: 'error', message: 'Job not found' });
+            break;
+          }
+
+          if (job.status !== lastStatus) {
+            lastStatus = job.status;
+            send({ type: 'status', status: job.status });
+          }
+
+          // Partial results are only sent with the latest progress entry
+          for (; seenProgress < job.progress.length; seenProgress++) {
+            const progress = job.progress[seenProgress];
+            const latest = seenProgress === job.progress.length - 1;
+            send(
+              {
+                type: 'progress',
+                ...progress,
+                ...(latest && job.partialResult !== undefined && { partialResult: job.partialResult }),
+              },
+              seenProgress + 1
+            );
+          }
+
+          if (isFinished(job.status)) {
+            send({ type: 'done', job });
+            break;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error(`❌ Job ${id} event stream error:`, error);
+        send({ type: 'error', message: error instanceof Error ? error.message : 'Failed to read job' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
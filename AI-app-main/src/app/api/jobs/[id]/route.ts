@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { cancelJob, getJob } from '@/utils/backgroundJobs';
+
+// GET /api/jobs/[id] - Job status, progress and (partial) result
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch job' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs/[id] - Cancel a queued or running job
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await cancelJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
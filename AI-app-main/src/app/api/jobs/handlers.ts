@@ -0,0 +1,50 @@
+/**
+ * Background job handlers
+ *
+ * Each job type runs the existing API route for that operation with the
+ * job's input as the request body, so a job returns exactly what the
+ * synchronous endpoint would. The job's abort signal is passed through as
+ * the request signal, which the routes hand to getLLM so cancelling a job
+ * aborts its model calls.
+ */
+
+import { NextRequest } from 'next/server';
+import type { JobHandler, JobType } from '@/utils/backgroundJobs';
+import { POST as fullApp } from '../ai-builder/full-app/route';
+import { POST as multiFileRefactor } from '../ai-builder/multi-file-refactor/route';
+import { POST as codeReview } from '../code-review/route';
+import { POST as performanceOptimize } from '../performance-optimize/route';
+
+function routeHandler(
+  post: (request: NextRequest) => Promise<Response>,
+  path: string,
+  label: string
+): JobHandler {
+  return async (input, context) => {
+    await context.report(`${label} started`);
+
+    const response = await post(
+      new NextRequest(`http://localhost${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input ?? {}),
+        signal: context.signal,
+      })
+    );
+    const data = await response.json();
+
+    if (!response.ok || data?.error) {
+      throw new Error(data?.error || `${label} failed with status ${response.status}`);
+    }
+
+    await context.report(`${label} finished`);
+    return data;
+  };
+}
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  'full-app': routeHandler(fullApp, '/api/ai-builder/full-app', 'App generation'),
+  'multi-file-refactor': routeHandler(multiFileRefactor, '/api/ai-builder/multi-file-refactor', 'Multi-file refactor'),
+  'code-review': routeHandler(codeReview, '/api/code-review', 'Code review'),
+  'performance-optimize': routeHandler(performanceOptimize, '/api/performance-optimize', 'Performance analysis'),
+};
@@ -0,0 +1,34 @@
+import { NextResponse, after } from 'next/server';
+import { getBackgroundJobStore, isJobType, JOB_TYPES, runJob } from '@/utils/backgroundJobs';
+import { JOB_HANDLERS } from './handlers';
+
+// Jobs run in this route's after() callback, so they share its time limit
+export const maxDuration = 300;
+
+// POST /api/jobs - Queue a long-running AI operation
+// Body: { type, input } where input is the request body of the matching route
+export async function POST(request: Request) {
+  try {
+    const { type, input } = await request.json();
+
+    if (!isJobType(type)) {
+      return NextResponse.json(
+        { error: `Job type must be one of: ${JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const store = await getBackgroundJobStore();
+    const job = await store.create(type, input ?? {});
+
+    // Runs after the response is sent
+    after(() => runJob(job.id, JOB_HANDLERS[type], store));
+
+    return NextResponse.json({ id: job.id, status: job.status }, { status: 202 });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to create job' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { getLLM, parseLLMSelection } from '@/utils/llm';
+import { checkBudget } from '@/utils/costLedger';
 
 interface CodeFile {
   path: string;
@@ -54,7 +51,18 @@ interface PerformanceReport {
  */
 export async function POST(request: NextRequest) {
   try {
-    const { files, appName, appDescription } = await request.json();
+    const { files, appName, appDescription, llm: llmSelection, projectId } = await request.json();
+    const budget = await checkBudget(projectId);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.error, budgets: budget.budgets }, { status: 402 });
+    }
+    const llm = getLLM('performance-optimize', parseLLMSelection(llmSelection), budget.attribution, request.signal);
+
+    if (!llm.provider.isConfigured()) {
+      return NextResponse.json({
+        error: llm.provider.configurationError()
+      }, { status: 500 });
+    }
 
     if (!files || !Array.isArray(files) || files.length === 0) {
       return NextResponse.json({
@@ -183,9 +191,9 @@ Identify performance issues in these categories:
 - Provide "quick wins" - top 3-5 issues with biggest impact
 - All fixes must be accurate and actually work`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
+    const response = await llm.provider.complete({
+      model: llm.model,
+      maxTokens: 8192,
       temperature: 0.3,
       messages: [
         {
@@ -195,13 +203,12 @@ Identify performance issues in these categories:
       ]
     });
 
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!response.text) {
       throw new Error('No text response from API');
     }
 
     // Extract JSON from response
-    const jsonMatch = textContent.text.match(/```json\n([\s\S]*?)\n```/);
+    const jsonMatch = response.text.match(/```json\n([\s\S]*?)\n```/);
     if (!jsonMatch) {
       throw new Error('Failed to parse performance report from response');
     }
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { switchBranch } from '@/utils/db/branches';
+
+// POST /api/projects/[id]/branches/checkout - Switch to another branch
+// Body { name }; the current files are saved to the current branch first
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name } = await request.json();
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Branch name is required' },
+        { status: 400 }
+      );
+    }
+
+    const project = await switchBranch(id, name);
+    return NextResponse.json({ project });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to switch branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { mergeBranch } from '@/utils/db/branches';
+
+// POST /api/projects/[id]/branches/merge - Merge a branch into the current one
+// Body { from, dryRun? }. Answers 409 with per-file conflicts when the
+// branches changed the same lines; nothing is written in that case.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { from, dryRun } = await request.json();
+
+    if (!from) {
+      return NextResponse.json(
+        { error: 'Branch to merge is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeBranch(id, from, { dryRun: !!dryRun });
+    if (result.conflicts.length > 0) {
+      return NextResponse.json(
+        { error: `${result.conflicts.length} file(s) conflict`, ...result },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to merge branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getBranches, createBranch } from '@/utils/db/branches';
+
+// GET /api/projects/[id]/branches - Get a project's branches
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const branches = await getBranches(id);
+    return NextResponse.json({ branches });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch branches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/branches - Fork a branch and switch to it
+// Body { name, fromVersionId? }; without a version the current files are forked
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, fromVersionId } = await request.json();
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Branch name is required' },
+        { status: 400 }
+      );
+    }
+
+    const project = await createBranch(id, name, fromVersionId);
+    return NextResponse.json({ project });
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A branch with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json(
+      { error: error.message || 'Failed to create branch' },
+      { status: 500 }
+    );
+  }
+}
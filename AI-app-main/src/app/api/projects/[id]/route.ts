@@ -2,8 +2,26 @@ import { NextResponse } from 'next/server';
 import {
   getProject,
   updateProject,
+  updateProjectIfUnchanged,
   deleteProject,
+  deleteProjectIfUnchanged,
+  type ConditionalUpdateResult,
 } from '@/utils/db/projects';
+import { updateProjectFiles, updateProjectFilesIfUnchanged } from '@/utils/db/versions';
+
+// 409 with the current project when a conditional update found it changed
+function conditionalResponse({ project, conflict }: ConditionalUpdateResult) {
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+  if (conflict) {
+    return NextResponse.json(
+      { error: 'Project was changed elsewhere', project },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ project });
+}
 
 // GET /api/projects/[id] - Get a single project
 export async function GET(
@@ -28,15 +46,47 @@ export async function GET(
 }
 
 // PATCH /api/projects/[id] - Update a project
+// Sending `prompt` and/or `diffSummary` with `files` marks the update as an
+// AI modification; they are saved with the snapshot of the replaced files.
+// `expectedUpdatedAt` makes the update conditional: it answers 409 with the
+// current project when that has changed since (see projectSync).
 export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const body = await request.json();
+    const { prompt, diffSummary, expectedUpdatedAt, ...input } = await request.json();
+
+    if (input.files && (prompt || diffSummary)) {
+      const { files, ...rest } = input;
+      const change = {
+        source: 'ai_modification' as const,
+        prompt,
+        diffSummary,
+        description: diffSummary?.summary,
+      };
 
-    const project = await updateProject(id, body);
+      if (expectedUpdatedAt) {
+        const result = await updateProjectFilesIfUnchanged(id, files, change, expectedUpdatedAt);
+        if (result.project && !result.conflict && Object.keys(rest).length > 0) {
+          result.project = await updateProject(id, rest);
+        }
+        return conditionalResponse(result);
+      }
+
+      let project = await updateProjectFiles(id, files, change);
+      if (Object.keys(rest).length > 0) {
+        project = await updateProject(id, rest);
+      }
+      return NextResponse.json({ project });
+    }
+
+    if (expectedUpdatedAt) {
+      return conditionalResponse(await updateProjectIfUnchanged(id, input, expectedUpdatedAt));
+    }
+
+    const project = await updateProject(id, input);
     return NextResponse.json({ project });
   } catch (error: any) {
     return NextResponse.json(
@@ -47,13 +97,21 @@ export async function PATCH(
 }
 
 // DELETE /api/projects/[id] - Delete a project
+// ?expectedUpdatedAt= makes the delete conditional, answering 409 like PATCH
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    await deleteProject(id);
+    const expectedUpdatedAt = new URL(request.url).searchParams.get('expectedUpdatedAt');
+
+    if (expectedUpdatedAt) {
+      const result = await deleteProjectIfUnchanged(id, expectedUpdatedAt);
+      if (!result.project || result.conflict) return conditionalResponse(result);
+    } else {
+      await deleteProject(id);
+    }
     return NextResponse.json({ success: true });
   } catch (error: any) {
     return NextResponse.json(
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getVersion, restoreVersion } from '@/utils/db/versions';
+
+// POST /api/projects/[id]/versions/[versionId]/restore - Restore a version
+// Body { path } restores only that file. The current files are saved as a
+// new version first.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id, versionId } = await params;
+    const { path } = await request.json().catch(() => ({}));
+
+    const version = await getVersion(versionId);
+    if (!version || version.project_id !== id) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const project = await restoreVersion(versionId, path);
+    return NextResponse.json({ project });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to restore version' },
+      { status: 500 }
+    );
+  }
+}
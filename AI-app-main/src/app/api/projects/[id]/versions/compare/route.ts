@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getVersion, type Version } from '@/utils/db/versions';
+import { compareFileSets } from '@/utils/versionCompare';
+
+function versionInfo(version: Version) {
+  return {
+    id: version.id,
+    version_number: version.version_number,
+    description: version.description,
+    source: version.source,
+    created_at: version.created_at,
+  };
+}
+
+// GET /api/projects/[id]/versions/compare?from=&to= - Per-file diff between two versions
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: 'from and to version ids are required' },
+        { status: 400 }
+      );
+    }
+
+    const [from, to] = await Promise.all([getVersion(fromId), getVersion(toId)]);
+    if (!from || from.project_id !== id || !to || to.project_id !== id) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      from: versionInfo(from),
+      to: versionInfo(to),
+      ...compareFileSets(from.files, to.files),
+    });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to compare versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,21 @@
 import { NextResponse } from 'next/server';
-import { getVersions, createVersion } from '@/utils/db/versions';
+import { getVersions, getFileHistory, createVersion } from '@/utils/db/versions';
 
 // GET /api/projects/[id]/versions - Get all versions for a project
+// GET /api/projects/[id]/versions?path=src/App.tsx - Versions that changed one file
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const path = new URL(request.url).searchParams.get('path');
+
+    if (path) {
+      const history = await getFileHistory(id, path);
+      return NextResponse.json({ history });
+    }
+
     const versions = await getVersions(id);
     return NextResponse.json({ versions });
   } catch (error: any) {
@@ -26,7 +34,7 @@ export async function POST(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { files, description } = body;
+    const { files, description, prompt, diffSummary } = body;
 
     if (!files) {
       return NextResponse.json(
@@ -39,6 +47,8 @@ export async function POST(
       project_id: id,
       files,
       description,
+      prompt,
+      diff_summary: diffSummary,
     });
 
     return NextResponse.json({ version });
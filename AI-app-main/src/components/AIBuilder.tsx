@@ -7,6 +7,8 @@ import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 import { useAppStore } from "../store/useAppStore";
 import { useChatSystem } from "../hooks/useChatSystem";
 import { useBuilderSettings } from "../hooks/useBuilderSettings";
+import { useProjectSync } from "../hooks/useProjectSync";
+import type { LLMSelection } from "../utils/llm/types";
 
 // Components
 import { BuilderHeader } from "./BuilderHeader";
@@ -24,6 +26,10 @@ import PerformanceReport from "./PerformanceReport";
 import EnhancedPhaseReview from "./EnhancedPhaseReview";
 import PhasePreview from "./PhasePreview";
 import TemplateSelector from "./TemplateSelector";
+import { VersionCompareModal } from "./VersionCompareModal";
+import { VersionHistoryPanel } from "./VersionHistoryPanel";
+import DiffPreview from "./DiffPreview";
+import { ProjectSyncBanner } from "./ProjectSyncBanner";
 
 // Utils
 import {
@@ -33,6 +39,10 @@ import {
   getDeploymentInstructions,
   type DeploymentInstructions,
 } from "../utils/exportApp";
+import { reconcileDependencies } from "../utils/dependencyManifest";
+import { readEventStream } from "../utils/eventStream";
+import type { ModifyStreamEvent } from "../utils/diffStreamParser";
+import { summarizeDiff } from "../utils/diffSchema";
 import { applyAllAutoFixes, detectModifiedFiles } from "../utils/codeQuality";
 import type { QualityReport, QualityIssue } from "../utils/codeQuality";
 import { applyAllPerformanceFixes } from "../utils/performanceOptimization";
@@ -70,6 +80,13 @@ export default function AIBuilder() {
   const store = useAppStore();
   const chatSystem = useChatSystem();
   const { settings } = useBuilderSettings();
+  const projectSync = useProjectSync();
+  // No provider unless the user picked one, so the server's LLM_PROVIDER applies
+  const llmSelection: LLMSelection = {
+    ...(settings.generation.provider && { provider: settings.generation.provider }),
+    model: settings.generation.model,
+    routeModels: settings.generation.routeModels,
+  };
 
   const [isClient, setIsClient] = useState(false);
 
@@ -209,6 +226,7 @@ export default function AIBuilder() {
           body: JSON.stringify({
             prompt,
             conversationHistory: optimizedContext,
+            llm: llmSelection,
             mode: "PLAN",
           }),
         });
@@ -238,6 +256,7 @@ export default function AIBuilder() {
             body: JSON.stringify({
               prompt,
               conversationHistory: optimizedContext,
+              llm: llmSelection,
               mode: "ACT",
             }),
           });
@@ -259,16 +278,74 @@ export default function AIBuilder() {
                 ? JSON.parse(store.currentComponent.code)
                 : null,
               conversationHistory: optimizedContext,
+              llm: llmSelection,
+              cleanup: settings.quality.postModificationCleanup,
+              projectId: projectSync.projectIdOf(store.currentComponent?.id),
+              stream: true,
             }),
           });
-          const data = await response.json();
-          if (data.error) throw new Error(data.error);
+          if (!response.ok) {
+            const failure = await response.json();
+            throw new Error(failure.error || "Failed to generate modifications");
+          }
+
+          // Show each file as soon as its diff streams in
+          const progress = {
+            mode: "modify" as const,
+            phase: "architecture" as "architecture" | "files" | "complete",
+            message: "🧠 Planning changes...",
+            percentComplete: 0,
+            currentFile: undefined as string | undefined,
+            files: [] as Array<{ path: string; status: "generating" | "complete" }>,
+          };
+          const markFile = (path: string, status: "generating" | "complete") => {
+            const existing = progress.files.find((f) => f.path === path);
+            if (existing) existing.status = status;
+            else progress.files.push({ path, status });
+          };
+          chatSystem.setStreamingProgress({ ...progress });
+          chatSystem.setIsStreaming(true);
+
+          let data: any = null;
+          let streamError: string | null = null;
+          await readEventStream<ModifyStreamEvent>(response, (event) => {
+            if (event.type === "progress") {
+              progress.message = event.message;
+              progress.percentComplete = event.percentComplete;
+              progress.currentFile = event.currentFile;
+              if (event.currentFile) {
+                progress.phase = "files";
+                markFile(event.currentFile, "generating");
+              }
+            } else if (event.type === "file") {
+              progress.phase = "files";
+              progress.percentComplete = event.percentComplete;
+              markFile(event.file.path, "complete");
+            } else if (event.type === "validation") {
+              progress.message = `🔍 Checked ${event.snippetsChecked} code snippet(s), fixed ${event.errorsFixed} issue(s)`;
+              progress.percentComplete = event.percentComplete;
+              progress.currentFile = undefined;
+            } else if (event.type === "complete") {
+              data = event.data;
+              progress.phase = "complete";
+              progress.message = "✅ Changes ready to review";
+              progress.percentComplete = 100;
+              progress.files.forEach((f) => (f.status = "complete"));
+            } else {
+              streamError = event.message;
+            }
+            chatSystem.setStreamingProgress({ ...progress, files: [...progress.files] });
+          });
+          if (streamError) throw new Error(streamError);
+          if (!data) throw new Error("The modification stream ended unexpectedly");
 
           if (data.files) {
             store.setPendingDiff({
               id: Date.now().toString(),
+              prompt,
               summary: data.summary,
               files: data.files,
+              preview: data.preview,
               timestamp: new Date().toISOString(),
             });
             store.setShowDiffPreview(true);
@@ -281,6 +358,7 @@ export default function AIBuilder() {
             body: JSON.stringify({
               prompt,
               conversationHistory: optimizedContext,
+              llm: llmSelection,
               isModification: false,
               templateName: store.selectedTemplate?.name,
             }),
@@ -332,6 +410,7 @@ export default function AIBuilder() {
       });
     } finally {
       chatSystem.setIsGenerating(false);
+      chatSystem.setIsStreaming(false);
       chatSystem.setGenerationProgress("");
     }
   };
@@ -400,7 +479,8 @@ export default function AIBuilder() {
     try {
       const appData = JSON.parse(comp.code);
       const files = parseAppFiles(appData);
-      const zipBlob = await exportAppAsZip({ appName: comp.name, files });
+      const { dependencies } = reconcileDependencies(files, appData.dependencies || {});
+      const zipBlob = await exportAppAsZip({ appName: comp.name, files, dependencies });
       downloadBlob(zipBlob, `${comp.name}.zip`);
       store.setDeploymentInstructions(
         getDeploymentInstructions("vercel", comp.name)
@@ -413,6 +493,100 @@ export default function AIBuilder() {
     }
   };
 
+  // Apply the reviewed modification to the current app
+  const approveDiff = async () => {
+    const diff = store.pendingDiff;
+    const component = store.currentComponent;
+    store.setPendingDiff(null);
+    store.setShowDiffPreview(false);
+    if (!diff || !component) return;
+
+    try {
+      const app = JSON.parse(component.code);
+      const response = await fetch("/api/ai-builder/apply-diff", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currentFiles: app.files.map((f: { path: string; content: string }) => ({
+            path: f.path,
+            content: f.content,
+          })),
+          diffs: diff.files,
+          cleanup: settings.quality.postModificationCleanup,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.errors?.join(", ") || "Failed to apply changes");
+      }
+
+      // Keep per-file metadata of the files that were already there
+      const before = new Map<string, Record<string, unknown>>(
+        app.files.map((f: { path: string }) => [f.path, f])
+      );
+      const code = JSON.stringify(
+        {
+          ...app,
+          files: result.modifiedFiles.map((f: { path: string; content: string }) => ({
+            ...before.get(f.path),
+            path: f.path,
+            content: f.content,
+          })),
+        },
+        null,
+        2
+      );
+
+      store.pushUndo({
+        id: Date.now().toString(),
+        versionNumber: (component.versions?.length || 0) + 1,
+        code: component.code,
+        description: component.description,
+        timestamp: component.timestamp,
+        changeType: "MINOR_CHANGE",
+      });
+      store.clearRedo();
+      store.updateComponent({
+        ...component,
+        code,
+        description: diff.summary,
+        timestamp: new Date().toISOString(),
+      });
+      // Saved with the snapshot of the replaced files when this is synced
+      projectSync.recordModification(component.id, diff.prompt, summarizeDiff(diff));
+
+      chatSystem.addMessage({
+        id: Date.now().toString(),
+        role: "assistant",
+        content: `✅ Changes applied!\n\n${diff.summary}`,
+        timestamp: new Date().toISOString(),
+        componentCode: code,
+        componentPreview: true,
+      });
+      store.setActiveTab("preview");
+    } catch (error) {
+      chatSystem.addMessage({
+        id: Date.now().toString(),
+        role: "assistant",
+        content: `❌ Error applying changes: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+
+  const rejectDiff = () => {
+    store.setPendingDiff(null);
+    store.setShowDiffPreview(false);
+    chatSystem.addMessage({
+      id: Date.now().toString(),
+      role: "assistant",
+      content: "❌ Changes rejected. Your app remains unchanged.",
+      timestamp: new Date().toISOString(),
+    });
+  };
+
   const handleUndo = () => {
     if (store.undoStack.length === 0 || !store.currentComponent) return;
     const prev = store.undoStack[store.undoStack.length - 1];
@@ -495,6 +669,14 @@ export default function AIBuilder() {
         setShowPerformanceReport={store.setShowPerformanceReport}
       />
 
+      <ProjectSyncBanner
+        status={store.syncStatus}
+        error={store.syncError}
+        conflicts={store.syncConflicts}
+        onResolve={projectSync.resolveConflict}
+        onRetry={projectSync.syncNow}
+      />
+
       <div className="max-w-7xl mx-auto px-4 py-4">
         <PanelGroup
           direction={store.layoutMode === "stacked" ? "vertical" : "horizontal"}
@@ -601,7 +783,52 @@ export default function AIBuilder() {
         />
       )}
 
-      {/* Other modals (Library, History, etc) would be here, connected to state.showLibrary, etc */}
+      {store.showDiffPreview && store.pendingDiff && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="glass border border-neutral-700/50 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[85vh] overflow-y-auto p-6">
+            <DiffPreview
+              summary={store.pendingDiff.summary}
+              files={store.pendingDiff.files}
+              preview={store.pendingDiff.preview}
+              onApprove={approveDiff}
+              onReject={rejectDiff}
+            />
+          </div>
+        </div>
+      )}
+
+      {store.showVersionHistory && (
+        <VersionHistoryPanel
+          isOpen={store.showVersionHistory}
+          onClose={() => store.toggleVersionHistory()}
+          projectId={projectSync.projectIdOf(store.currentComponent?.id) ?? null}
+          onCompare={(from, to) => {
+            store.setCompareVersions({
+              projectId: projectSync.projectIdOf(store.currentComponent?.id) ?? null,
+              from,
+              to,
+            });
+            store.setShowCompareModal(true);
+          }}
+        />
+      )}
+
+      {store.showCompareModal &&
+        store.compareVersions.projectId &&
+        store.compareVersions.from &&
+        store.compareVersions.to && (
+          <VersionCompareModal
+            isOpen={store.showCompareModal}
+            onClose={() => store.setShowCompareModal(false)}
+            projectId={store.compareVersions.projectId}
+            fromVersionId={store.compareVersions.from}
+            toVersionId={store.compareVersions.to}
+            // Pull the restored file into the builder
+            onFileRestored={() => projectSync.syncNow()}
+          />
+        )}
+
+      {/* Other modals (Library, etc) would be here, connected to state.showLibrary, etc */}
       {/* For brevity in this refactor, assuming they are rendered conditionally similarly to before */}
     </div>
   );
@@ -148,6 +148,7 @@ export const ChatPanel = React.memo(function ChatPanel({
         {isStreaming && (
           <div className="my-4">
             <StreamingProgressDisplay
+              mode={streamingProgress.mode}
               phase={streamingProgress.phase}
               message={streamingProgress.message}
               percentComplete={streamingProgress.percentComplete}
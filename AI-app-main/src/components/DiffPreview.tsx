@@ -1,28 +1,33 @@
 "use client";
 
 import React, { useState } from 'react';
-
-interface DiffChange {
-  type: 'ADD_IMPORT' | 'INSERT_AFTER' | 'INSERT_BEFORE' | 'REPLACE' | 'DELETE' | 'APPEND';
-  searchFor?: string;
-  content?: string;
-  replaceWith?: string;
-}
-
-interface FileDiff {
-  path: string;
-  action: 'MODIFY' | 'CREATE' | 'DELETE';
-  changes: DiffChange[];
-}
+import {
+  describeChange,
+  isASTChangeType,
+  type ChangeStatus,
+  type DiffChange,
+  type FileDiff,
+  type FilePreview,
+  type StringChangeType,
+} from '../utils/diffSchema';
 
 interface DiffPreviewProps {
   summary: string;
   files: FileDiff[];
+  /** Dry-run result; when present the real unified diff replaces raw change snippets */
+  preview?: FilePreview[];
   onApprove: () => void;
   onReject: () => void;
 }
 
-export default function DiffPreview({ summary, files, onApprove, onReject }: DiffPreviewProps) {
+const STATUS_STYLES: Record<ChangeStatus, { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-green-500/20 text-green-300' },
+  ambiguous: { label: 'Ambiguous', className: 'bg-yellow-500/20 text-yellow-300' },
+  not_found: { label: 'Not found', className: 'bg-red-500/20 text-red-300' },
+  failed: { label: 'Failed', className: 'bg-red-500/20 text-red-300' },
+};
+
+export default function DiffPreview({ summary, files, preview, onApprove, onReject }: DiffPreviewProps) {
   const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set(files.map(f => f.path)));
 
   const toggleFile = (path: string) => {
@@ -36,7 +41,9 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
   };
 
   const getChangeTypeIcon = (type: DiffChange['type']) => {
-    const icons = {
+    // AST operations share one icon - the description says what they do
+    if (isASTChangeType(type)) return '🧩';
+    const icons: Record<StringChangeType, string> = {
       'ADD_IMPORT': '➕',
       'INSERT_AFTER': '📝',
       'INSERT_BEFORE': '📝',
@@ -48,7 +55,8 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
   };
 
   const getChangeTypeColor = (type: DiffChange['type']) => {
-    const colors = {
+    if (isASTChangeType(type)) return 'text-purple-400';
+    const colors: Record<StringChangeType, string> = {
       'ADD_IMPORT': 'text-green-400',
       'INSERT_AFTER': 'text-blue-400',
       'INSERT_BEFORE': 'text-blue-400',
@@ -77,27 +85,12 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
     return colors[action];
   };
 
-  const formatChangeDescription = (change: DiffChange): string => {
-    switch (change.type) {
-      case 'ADD_IMPORT':
-        return `Add import statement`;
-      case 'INSERT_AFTER':
-        return `Insert code after: "${change.searchFor?.substring(0, 40)}..."`;
-      case 'INSERT_BEFORE':
-        return `Insert code before: "${change.searchFor?.substring(0, 40)}..."`;
-      case 'REPLACE':
-        return `Replace: "${change.searchFor?.substring(0, 30)}..." → "${change.replaceWith?.substring(0, 30)}..."`;
-      case 'DELETE':
-        return `Delete: "${change.searchFor?.substring(0, 40)}..."`;
-      case 'APPEND':
-        return `Append code to end of file`;
-      default:
-        return 'Unknown change';
-    }
-  };
-
   // Calculate total changes
   const totalChanges = files.reduce((sum, file) => sum + file.changes.length, 0);
+  const problemCount = (preview || []).reduce(
+    (sum, file) => sum + (file.error ? 1 : 0) + file.changes.filter(c => c.status === 'not_found' || c.status === 'failed').length,
+    0
+  );
 
   return (
     <div className="space-y-4">
@@ -113,6 +106,9 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
             <div className="flex items-center gap-4 mt-3 text-xs text-blue-200/80">
               <span>📁 {files.length} {files.length === 1 ? 'file' : 'files'}</span>
               <span>🔧 {totalChanges} {totalChanges === 1 ? 'change' : 'changes'}</span>
+              {problemCount > 0 && (
+                <span className="text-red-300">⚠️ {problemCount} {problemCount === 1 ? 'problem' : 'problems'}</span>
+              )}
             </div>
           </div>
         </div>
@@ -130,7 +126,9 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
 
       {/* Files List */}
       <div className="space-y-3">
-        {files.map((file, fileIdx) => (
+        {files.map((file, fileIdx) => {
+          const filePreview = preview?.find(p => p.path === file.path);
+          return (
           <div
             key={fileIdx}
             className={`border rounded-xl overflow-hidden ${getActionColor(file.action)}`}
@@ -164,6 +162,12 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
             {/* File Changes */}
             {expandedFiles.has(file.path) && (
               <div className="px-4 pb-4 space-y-2">
+                {filePreview?.error && (
+                  <div className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg p-2">
+                    ⚠️ {filePreview.error}
+                  </div>
+                )}
+                
                 {file.changes.map((change, changeIdx) => (
                   <div
                     key={changeIdx}
@@ -174,15 +178,28 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
                         {getChangeTypeIcon(change.type)}
                       </span>
                       <div className="flex-1 min-w-0">
-                        <div className="text-xs font-medium text-slate-300 mb-2">
-                          {change.type.replace('_', ' ')}
+                        <div className="flex items-center gap-2 text-xs font-medium text-slate-300 mb-2">
+                          <span>{change.type.replace(/_/g, ' ')}</span>
+                          {filePreview?.changes[changeIdx] && (
+                            <span
+                              className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[filePreview.changes[changeIdx].status].className}`}
+                              title={filePreview.changes[changeIdx].error}
+                            >
+                              {STATUS_STYLES[filePreview.changes[changeIdx].status].label}
+                              {filePreview.changes[changeIdx].status === 'ambiguous' &&
+                                ` (${filePreview.changes[changeIdx].occurrences} matches)`}
+                              {filePreview.changes[changeIdx].match &&
+                                filePreview.changes[changeIdx].match!.strategy !== 'exact' &&
+                                ` · ${filePreview.changes[changeIdx].match!.strategy} ${Math.round(filePreview.changes[changeIdx].match!.confidence * 100)}%`}
+                            </span>
+                          )}
                         </div>
                         <div className="text-xs text-slate-400 mb-2">
-                          {formatChangeDescription(change)}
+                          {describeChange(change)}
                         </div>
                         
-                        {/* Show code preview for certain change types */}
-                        {(change.type === 'ADD_IMPORT' || change.type === 'APPEND') && change.content && (
+                        {/* Show code preview for certain change types (the real diff below supersedes these) */}
+                        {!filePreview && (change.type === 'ADD_IMPORT' || change.type === 'APPEND') && change.content && (
                           <div className="mt-2">
                             <div className="text-xs text-green-400 mb-1">+ Adding:</div>
                             <pre className="text-xs bg-black/40 rounded p-2 overflow-x-auto text-green-300">
@@ -191,7 +208,17 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
                           </div>
                         )}
                         
-                        {change.type === 'REPLACE' && (
+                        {/* AST operations carrying code: show the snippet being inserted */}
+                        {!filePreview && isASTChangeType(change.type) && (change.jsx || change.body || change.computation) && (
+                          <div className="mt-2">
+                            <div className="text-xs text-green-400 mb-1">+ Adding:</div>
+                            <pre className="text-xs bg-black/40 rounded p-2 overflow-x-auto text-green-300">
+                              <code>{truncatePreview(change.jsx || change.body || change.computation || '', 200)}</code>
+                            </pre>
+                          </div>
+                        )}
+                        
+                        {!filePreview && change.type === 'REPLACE' && (
                           <div className="mt-2 space-y-2">
                             {change.searchFor && (
                               <div>
@@ -215,10 +242,24 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
                     </div>
                   </div>
                 ))}
+                
+                {/* Exact result from the dry run */}
+                {filePreview?.unifiedDiff && (
+                  <pre className="text-xs bg-black/40 rounded-lg p-3 overflow-x-auto max-h-96">
+                    <code>
+                      {filePreview.unifiedDiff.split('\n').map((line, lineIdx) => (
+                        <div key={lineIdx} className={getDiffLineColor(line)}>
+                          {line || ' '}
+                        </div>
+                      ))}
+                    </code>
+                  </pre>
+                )}
               </div>
             )}
           </div>
-        ))}
+          );
+        })}
       </div>
 
       {/* Action Buttons */}
@@ -251,3 +292,15 @@ export default function DiffPreview({ summary, files, onApprove, onReject }: Dif
     </div>
   );
 }
+
+function getDiffLineColor(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-slate-400';
+  if (line.startsWith('@@')) return 'text-blue-300';
+  if (line.startsWith('+')) return 'text-green-300 bg-green-500/10';
+  if (line.startsWith('-')) return 'text-red-300 bg-red-500/10';
+  return 'text-slate-400';
+}
+
+function truncatePreview(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max)}...` : text;
+}
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { SandpackProvider, SandpackPreview, SandpackLayout } from '@codesandbox/sandpack-react';
+import { reconcileDependencies } from '../utils/dependencyManifest';
 
 interface AppFile {
   path: string;
@@ -109,12 +110,12 @@ h1, h2, h3, h4, h5, h6 {
     };
   }
 
-  // Merge user dependencies with required ones
+  // Merge the app's packages (reconciled with its imports) with required ones
   const dependencies = {
     react: '^18.0.0',
     'react-dom': '^18.0.0',
     'react-scripts': '^5.0.0',
-    ...appData.dependencies,
+    ...reconcileDependencies(appData.files, appData.dependencies || {}).dependencies,
   };
 
   console.log('Sandpack files:', Object.keys(sandpackFiles));
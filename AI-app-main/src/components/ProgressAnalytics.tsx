@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   TrendingUp,
   TrendingDown,
@@ -10,9 +10,11 @@ import {
   Calendar,
   BarChart3,
   Activity,
+  DollarSign,
   X,
 } from 'lucide-react';
 import type { ImplementationPlan, BuildPhase } from '../types/appConcept';
+import type { BudgetUsage, SpendSummary } from '../utils/costLedger';
 
 interface ProgressAnalyticsProps {
   plan: ImplementationPlan;
@@ -28,11 +30,51 @@ interface PhaseMetrics {
   isBottleneck: boolean;
 }
 
+/** Days of model spend shown in the spend chart */
+const SPEND_DAYS = 30;
+
+type SpendData = SpendSummary & { budgets: BudgetUsage[] };
+
+function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? '<$0.01' : `$${amount.toFixed(2)}`;
+}
+
 export const ProgressAnalytics: React.FC<ProgressAnalyticsProps> = ({
   plan,
   isOpen,
   onClose,
 }) => {
+  const [spend, setSpend] = useState<SpendData | null>(null);
+  const [spendError, setSpendError] = useState<string | null>(null);
+
+  // Load model spend from the cost ledger each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    fetch(`/api/analytics?action=spend&days=${SPEND_DAYS}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to load spend');
+        if (!cancelled) {
+          setSpend(body.data);
+          setSpendError(null);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) setSpendError(error instanceof Error ? error.message : 'Failed to load spend');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const maxDailySpend = useMemo(
+    () => Math.max(0, ...(spend?.byDay || []).map(day => day.costUsd)),
+    [spend]
+  );
+
   // Calculate phase metrics
   const phaseMetrics = useMemo((): PhaseMetrics[] => {
     return plan.phases.map((phase) => {
@@ -243,6 +285,97 @@ export const ProgressAnalytics: React.FC<ProgressAnalyticsProps> = ({
             </p>
           </div>
 
+          {/* AI Spend */}
+          <div className="bg-white/5 border border-white/10 rounded-xl p-6 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                <DollarSign className="w-5 h-5 text-emerald-400" />
+                AI Spend
+              </h3>
+              {spend && (
+                <span className="text-sm text-slate-400">
+                  {formatUsd(spend.totalUsd)} over {spend.calls} model call{spend.calls !== 1 ? 's' : ''} in the last {SPEND_DAYS} days
+                </span>
+              )}
+            </div>
+
+            {spendError && <p className="text-sm text-red-400">{spendError}</p>}
+            {!spend && !spendError && <p className="text-sm text-slate-400">Loading spend...</p>}
+
+            {spend && (
+              <>
+                {/* Daily spend chart */}
+                <div className="flex items-end gap-1 h-32 mb-2">
+                  {spend.byDay.map((day) => (
+                    <div
+                      key={day.date}
+                      className="flex-1 h-full flex items-end"
+                      title={`${day.date}: ${formatUsd(day.costUsd)} (${day.calls} calls)`}
+                    >
+                      <div
+                        className="w-full rounded-t bg-gradient-to-t from-emerald-600 to-emerald-400"
+                        style={{
+                          height: maxDailySpend > 0 ? `${Math.max((day.costUsd / maxDailySpend) * 100, day.costUsd > 0 ? 2 : 0)}%` : '0%',
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-slate-500 mb-6">
+                  <span>{spend.byDay[0]?.date}</span>
+                  <span>{spend.byDay[spend.byDay.length - 1]?.date}</span>
+                </div>
+
+                {/* Monthly budgets */}
+                {spend.budgets.length > 0 && (
+                  <div className="space-y-3 mb-6">
+                    {spend.budgets.map((budget) => {
+                      const percentUsed = budget.limitUsd > 0 ? Math.min((budget.spentUsd / budget.limitUsd) * 100, 100) : 100;
+                      return (
+                        <div key={budget.scope} className="space-y-1">
+                          <div className="flex justify-between text-sm">
+                            <span className="text-slate-300 capitalize">{budget.scope} budget this month</span>
+                            <span className={percentUsed >= 100 ? 'text-red-400' : percentUsed >= 80 ? 'text-amber-400' : 'text-slate-400'}>
+                              {formatUsd(budget.spentUsd)} / {formatUsd(budget.limitUsd)}
+                            </span>
+                          </div>
+                          <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${
+                                percentUsed >= 100 ? 'bg-red-500' : percentUsed >= 80 ? 'bg-amber-500' : 'bg-emerald-500'
+                              }`}
+                              style={{ width: `${percentUsed}%` }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {/* Spend by route */}
+                {Object.keys(spend.byRoute).length > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {Object.entries(spend.byRoute)
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([route, cost]) => (
+                        <div key={route} className="flex justify-between text-xs bg-white/5 rounded-lg px-3 py-2">
+                          <span className="text-slate-400">{route}</span>
+                          <span className="text-white font-medium">{formatUsd(cost)}</span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+
+                {spend.unpricedCalls > 0 && (
+                  <p className="text-xs text-amber-300/80 mt-3">
+                    {spend.unpricedCalls} call{spend.unpricedCalls !== 1 ? 's' : ''} used models without a price and count as $0.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
           {/* Phase Progress Chart */}
           <div className="bg-white/5 border border-white/10 rounded-xl p-6 mb-8">
             <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import type { ConflictChoice, SyncConflict, SyncStatus } from '@/utils/projectSync';
+
+interface ProjectSyncBannerProps {
+  status: SyncStatus;
+  error: string | null;
+  conflicts: SyncConflict[];
+  onResolve: (componentId: string, choice: ConflictChoice) => void;
+  onRetry: () => void;
+}
+
+/**
+ * Sync problems the user has to know about: being offline, failed syncs and
+ * apps changed both here and elsewhere (see useProjectSync)
+ */
+export const ProjectSyncBanner: React.FC<ProjectSyncBannerProps> = ({
+  status,
+  error,
+  conflicts,
+  onResolve,
+  onRetry,
+}) => {
+  if (conflicts.length === 0 && status !== 'offline' && status !== 'error') return null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 pt-4 space-y-2">
+      {status === 'offline' && (
+        <div className="flex items-center gap-2 text-xs rounded-lg p-2 border text-neutral-300 bg-white/5 border-neutral-700/50">
+          <CloudOff className="w-4 h-4 shrink-0" />
+          You&apos;re offline. Changes are saved on this device and will sync when you reconnect.
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="flex items-center gap-2 text-xs rounded-lg p-2 border text-red-300 bg-red-500/10 border-red-500/30">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">
+            Sync failed{error ? `: ${error}` : ''}. Changes are saved on this device.
+          </span>
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Retry
+          </button>
+        </div>
+      )}
+
+      {conflicts.map(conflict => (
+        <div
+          key={conflict.componentId}
+          className="flex items-center gap-2 text-xs rounded-lg p-2 border text-yellow-300 bg-yellow-500/10 border-yellow-500/30"
+        >
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">
+            {conflict.local
+              ? `"${conflict.local.name}" was changed here and elsewhere`
+              : `"${conflict.remote.name}" was deleted here but changed elsewhere`}{' '}
+            (saved {new Date(conflict.remote.updated_at).toLocaleString()}).
+          </span>
+          <button
+            onClick={() => onResolve(conflict.componentId, 'local')}
+            className="px-2 py-1 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+            title={conflict.local ? 'Overwrite the other copy with this one' : 'Delete the other copy too'}
+          >
+            {conflict.local ? 'Keep mine' : 'Delete'}
+          </button>
+          <button
+            onClick={() => onResolve(conflict.componentId, 'remote')}
+            className="px-2 py-1 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+            title="Replace this copy with the other one"
+          >
+            {conflict.local ? 'Use theirs' : 'Restore'}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
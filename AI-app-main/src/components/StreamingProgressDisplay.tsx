@@ -10,6 +10,8 @@ interface FileProgress {
 }
 
 interface StreamingProgressProps {
+  /** 'modify' when the files are being changed rather than created */
+  mode?: 'generate' | 'modify';
   phase: 'architecture' | 'files' | 'complete' | 'error';
   message: string;
   percentComplete: number;
@@ -20,10 +22,11 @@ interface StreamingProgressProps {
 }
 
 /**
- * Real-time progress display for streaming app generation
+ * Real-time progress display for streaming app generation and modification
  * Shows architecture planning, file-by-file generation, and completion status
  */
 export default function StreamingProgressDisplay({
+  mode = 'generate',
   phase,
   message,
   percentComplete,
@@ -54,9 +57,9 @@ export default function StreamingProgressDisplay({
       <div className="space-y-2">
         <div className="flex justify-between items-center text-sm">
           <span className="text-gray-600 dark:text-gray-400">
-            {phase === 'architecture' && 'Planning app structure...'}
-            {phase === 'files' && currentFile && `Generating ${currentFile}...`}
-            {phase === 'complete' && 'Generation complete!'}
+            {phase === 'architecture' && (mode === 'modify' ? 'Planning changes...' : 'Planning app structure...')}
+            {phase === 'files' && currentFile && `${mode === 'modify' ? 'Modifying' : 'Generating'} ${currentFile}...`}
+            {phase === 'complete' && (mode === 'modify' ? 'Changes ready!' : 'Generation complete!')}
             {phase === 'error' && 'Error occurred'}
           </span>
           <span className="font-medium text-gray-900 dark:text-white">
@@ -88,7 +91,7 @@ export default function StreamingProgressDisplay({
       {files.length > 0 && (
         <div className="mt-4 space-y-2 max-h-64 overflow-y-auto">
           <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
-            Files:
+            {mode === 'modify' ? 'Changing files:' : 'Files:'}
           </h4>
           <div className="space-y-1">
             {files.map((file, index) => (
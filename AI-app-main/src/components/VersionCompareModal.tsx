@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { GitCompare, RotateCcw, X } from 'lucide-react';
+import {
+  sideBySide,
+  type FileComparison,
+  type FileCompareStatus,
+  type FileSetComparison,
+  type SideBySideCell,
+} from '@/utils/versionCompare';
+
+interface VersionInfo {
+  id: string;
+  version_number: number;
+  description: string | null;
+  created_at: string;
+}
+
+interface CompareResponse extends FileSetComparison {
+  from: VersionInfo;
+  to: VersionInfo;
+}
+
+interface VersionCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  fromVersionId: string;
+  toVersionId: string;
+  /** Called with the updated project after a file was restored */
+  onFileRestored?: (project: any) => void;
+}
+
+const STATUS_STYLES: Record<FileCompareStatus, { label: string; className: string }> = {
+  added: { label: 'A', className: 'bg-green-500/20 text-green-300' },
+  removed: { label: 'D', className: 'bg-red-500/20 text-red-300' },
+  modified: { label: 'M', className: 'bg-yellow-500/20 text-yellow-300' },
+};
+
+export const VersionCompareModal: React.FC<VersionCompareModalProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  fromVersionId,
+  toVersionId,
+  onFileRestored,
+}) => {
+  const [comparison, setComparison] = useState<CompareResponse | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [restoredMessage, setRestoredMessage] = useState<string | null>(null);
+
+  const loadComparison = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: fromVersionId, to: toVersionId });
+      const response = await fetch(`/api/projects/${projectId}/versions/compare?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to compare versions');
+
+      setComparison(data);
+      setSelectedPath(current =>
+        current && data.files.some((f: FileComparison) => f.path === current)
+          ? current
+          : data.files[0]?.path ?? null
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to compare versions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, fromVersionId, toVersionId]);
+
+  useEffect(() => {
+    if (isOpen) loadComparison();
+  }, [isOpen, loadComparison]);
+
+  const restoreFile = async (version: VersionInfo, path: string) => {
+    setRestoring(`${version.id}:${path}`);
+    setError(null);
+    setRestoredMessage(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions/${version.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to restore file');
+
+      setRestoredMessage(`Restored ${path} from version ${version.version_number}`);
+      onFileRestored?.(data.project);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to restore file');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selected = comparison?.files.find(f => f.path === selectedPath) ?? null;
+  const rows = selected ? sideBySide(selected.before, selected.after) : [];
+
+  const sideHeader = (version: VersionInfo, present: boolean) => (
+    <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-700/30 bg-white/5">
+      <span className="text-xs text-neutral-300">
+        Version {version.version_number}
+        {!present && <span className="text-neutral-500"> · not in this version</span>}
+      </span>
+      {selected && (
+        <button
+          onClick={() => restoreFile(version, selected.path)}
+          disabled={restoring !== null}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-neutral-300 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+          title={present ? 'Restore this file as it is in this version' : 'Remove this file, as in this version'}
+        >
+          <RotateCcw className="w-3 h-3" />
+          {restoring === `${version.id}:${selected.path}` ? 'Restoring...' : present ? 'Restore file' : 'Remove file'}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass border border-neutral-700/50 rounded-2xl shadow-2xl max-w-7xl w-full h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-neutral-700/30 flex items-center justify-between bg-gradient-to-r from-primary-500/10 to-violet-500/10">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary-500/20 to-violet-500/20 flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-primary-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Compare Versions</h2>
+              {comparison && (
+                <p className="text-sm text-neutral-400">
+                  v{comparison.from.version_number} → v{comparison.to.version_number} ·{' '}
+                  {comparison.files.length} file{comparison.files.length !== 1 ? 's' : ''} changed ·{' '}
+                  <span className="text-green-400">+{comparison.additions}</span>{' '}
+                  <span className="text-red-400">-{comparison.deletions}</span>
+                </p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg flex items-center justify-center hover:bg-white/10 transition-colors text-neutral-400 hover:text-white"
+            aria-label="Close compare modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {(error || restoredMessage) && (
+          <div
+            className={`mx-6 mt-4 text-xs rounded-lg p-2 border ${
+              error
+                ? 'text-red-300 bg-red-500/10 border-red-500/30'
+                : 'text-green-300 bg-green-500/10 border-green-500/30'
+            }`}
+          >
+            {error ? `⚠️ ${error}` : `✅ ${restoredMessage}`}
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 min-h-0 flex gap-4 p-6">
+          {isLoading && !comparison ? (
+            <div className="flex-1 flex items-center justify-center text-neutral-400">Comparing...</div>
+          ) : comparison && comparison.files.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-neutral-400">
+              These versions have identical files
+            </div>
+          ) : comparison && (
+            <>
+              {/* File list */}
+              <div className="w-64 shrink-0 overflow-y-auto space-y-1">
+                {comparison.files.map(file => (
+                  <button
+                    key={file.path}
+                    onClick={() => setSelectedPath(file.path)}
+                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs transition-colors ${
+                      file.path === selectedPath ? 'bg-white/10 text-white' : 'text-neutral-400 hover:bg-white/5'
+                    }`}
+                  >
+                    <span className={`px-1.5 py-0.5 rounded font-mono ${STATUS_STYLES[file.status].className}`}>
+                      {STATUS_STYLES[file.status].label}
+                    </span>
+                    <span className="flex-1 truncate font-mono" title={file.path}>{file.path}</span>
+                    <span className="text-green-400">+{file.additions}</span>
+                    <span className="text-red-400">-{file.deletions}</span>
+                  </button>
+                ))}
+                {comparison.unchangedFiles > 0 && (
+                  <p className="px-2 pt-2 text-xs text-neutral-500">
+                    {comparison.unchangedFiles} unchanged file{comparison.unchangedFiles !== 1 ? 's' : ''}
+                  </p>
+                )}
+              </div>
+
+              {/* Side by side */}
+              {selected && (
+                <div className="flex-1 min-w-0 flex flex-col border border-neutral-700/30 rounded-xl overflow-hidden">
+                  <div className="grid grid-cols-2 divide-x divide-neutral-700/30">
+                    {sideHeader(comparison.from, selected.before !== null)}
+                    {sideHeader(comparison.to, selected.after !== null)}
+                  </div>
+                  <div className="flex-1 overflow-auto bg-black/40">
+                    <table className="w-full text-xs font-mono border-collapse table-fixed">
+                      <tbody>
+                        {rows.map((row, rowIdx) => (
+                          <tr key={rowIdx}>
+                            <DiffCell cell={row.left} />
+                            <DiffCell cell={row.right} />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function DiffCell({ cell }: { cell: SideBySideCell | null }) {
+  const color = !cell
+    ? 'bg-neutral-800/40'
+    : cell.kind === 'add'
+      ? 'text-green-300 bg-green-500/10'
+      : cell.kind === 'remove'
+        ? 'text-red-300 bg-red-500/10'
+        : 'text-slate-400';
+
+  return (
+    <>
+      <td className={`w-12 px-2 text-right select-none text-neutral-600 align-top ${color}`}>
+        {cell?.line ?? ''}
+      </td>
+      <td className={`px-2 whitespace-pre overflow-hidden text-ellipsis align-top border-r border-neutral-700/30 ${color}`}>
+        {cell ? cell.text || ' ' : ''}
+      </td>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { GitCompare, History, X } from 'lucide-react';
+
+interface VersionListItem {
+  id: string;
+  version_number: number;
+  branch: string;
+  parent_id: string | null;
+  description: string | null;
+  source: string;
+  prompt: string | null;
+  created_at: string;
+}
+
+interface VersionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Project the current app is synced to; null until its first push */
+  projectId: string | null;
+  /** Open the compare modal for two versions, oldest first */
+  onCompare: (fromVersionId: string, toVersionId: string) => void;
+}
+
+/**
+ * Saved versions of the current app's project. Each version can be compared
+ * with the one before it, or any two can be picked and compared; files are
+ * restored one at a time from the compare modal.
+ */
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  onCompare,
+}) => {
+  const [versions, setVersions] = useState<VersionListItem[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch versions');
+      setVersions(data.versions);
+      setSelected([]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch versions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) loadVersions();
+  }, [isOpen, loadVersions]);
+
+  if (!isOpen) return null;
+
+  // Versions are listed newest first; without a parent, compare with the one below
+  const previousOf = (index: number) => {
+    const version = versions[index];
+    return version.parent_id ?? versions[index + 1]?.id ?? null;
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(current =>
+      current.includes(id)
+        ? current.filter(v => v !== id)
+        : [...current, id].slice(-2)
+    );
+
+  const compareSelected = () => {
+    const [a, b] = selected
+      .map(id => versions.find(v => v.id === id)!)
+      .sort((x, y) => x.version_number - y.version_number);
+    onCompare(a.id, b.id);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass border border-neutral-700/50 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-neutral-700/30 flex items-center justify-between bg-gradient-to-r from-primary-500/10 to-violet-500/10">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary-500/20 to-violet-500/20 flex items-center justify-center">
+              <History className="w-5 h-5 text-primary-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Version History</h2>
+              <p className="text-sm text-neutral-400">
+                {selected.length === 2 ? '2 versions selected' : 'Select two versions to compare them'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={compareSelected}
+              disabled={selected.length !== 2}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-neutral-300 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              <GitCompare className="w-3 h-3" />
+              Compare selected
+            </button>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-lg flex items-center justify-center hover:bg-white/10 transition-colors text-neutral-400 hover:text-white"
+              aria-label="Close version history"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 text-xs rounded-lg p-2 border text-red-300 bg-red-500/10 border-red-500/30">
+            ⚠️ {error}
+          </div>
+        )}
+
+        {/* Versions */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-2">
+          {!projectId ? (
+            <p className="text-center text-neutral-400">Versions are saved once this app has synced.</p>
+          ) : isLoading && versions.length === 0 ? (
+            <p className="text-center text-neutral-400">Loading...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-center text-neutral-400">No saved versions yet.</p>
+          ) : (
+            versions.map((version, index) => {
+              const previous = previousOf(index);
+              return (
+                <div
+                  key={version.id}
+                  className={`flex items-start gap-3 p-3 rounded-xl border transition-colors ${
+                    selected.includes(version.id)
+                      ? 'border-primary-500/50 bg-primary-500/10'
+                      : 'border-neutral-700/30 bg-white/5'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(version.id)}
+                    onChange={() => toggleSelected(version.id)}
+                    className="mt-1"
+                    aria-label={`Select version ${version.version_number}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm text-white">
+                      Version {version.version_number}
+                      <span className="px-1.5 py-0.5 rounded text-2xs bg-white/10 text-neutral-300">{version.source}</span>
+                      {version.branch !== 'main' && (
+                        <span className="px-1.5 py-0.5 rounded text-2xs bg-violet-500/20 text-violet-300">{version.branch}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-neutral-400 truncate" title={version.prompt ?? undefined}>
+                      {version.description || version.prompt || 'No description'}
+                    </p>
+                    <p className="text-2xs text-neutral-500">{new Date(version.created_at).toLocaleString()}</p>
+                  </div>
+                  {previous && (
+                    <button
+                      onClick={() => onCompare(previous, version.id)}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-neutral-300 hover:bg-white/10 hover:text-white transition-colors"
+                      title="Compare with the version before it"
+                    >
+                      <GitCompare className="w-3 h-3" />
+                      Changes
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
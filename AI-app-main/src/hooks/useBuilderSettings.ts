@@ -19,7 +19,15 @@ export function useBuilderSettings() {
       const stored = localStorage.getItem(SETTINGS_KEY);
       if (stored) {
         const parsed = JSON.parse(stored);
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed });
+        // Merge per section so settings added since the last save get their defaults
+        setSettings({
+          ...DEFAULT_SETTINGS,
+          ...parsed,
+          review: { ...DEFAULT_SETTINGS.review, ...(parsed.review || {}) },
+          generation: { ...DEFAULT_SETTINGS.generation, ...(parsed.generation || {}) },
+          ui: { ...DEFAULT_SETTINGS.ui, ...(parsed.ui || {}) },
+          quality: { ...DEFAULT_SETTINGS.quality, ...(parsed.quality || {}) },
+        });
       }
       setIsLoaded(true);
     } catch (error) {
@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useAppStore } from "../store/useAppStore";
+import { createClient } from "../utils/supabase/client";
+import type { GeneratedComponent } from "../types/aiBuilderTypes";
+import type { DiffSummary } from "../utils/diffSchema";
+import {
+  applyPushOutcome,
+  conflictsOf,
+  fetchRemoteProjects,
+  isLocalStoreAvailable,
+  loadBuilderSession,
+  loadSyncedComponents,
+  pendingPushes,
+  pushComponent,
+  reconcilePull,
+  recordLocalChange,
+  recordLocalDelete,
+  recordModification,
+  replaceSyncedComponents,
+  resolveConflict,
+  saveBuilderSession,
+  saveSyncedComponents,
+  selectLocalStore,
+  type ConflictChoice,
+  type SyncedComponent,
+} from "../utils/projectSync";
+
+/** Wait after the last edit before pushing */
+const PUSH_DELAY = 2000;
+/** Pull and push again while the builder is open */
+const SYNC_INTERVAL = 60000;
+
+type RecordChange = SyncedComponent | { id: string; removed: true };
+
+// Read from the session cookie, so this works offline
+async function signedInUserId(): Promise<string | null> {
+  const { data } = await createClient().auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+/**
+ * Keep the builder's components in sync with IndexedDB and the signed-in
+ * user's projects (see utils/projectSync). Edits are saved locally as they
+ * happen and pushed shortly after; projects are pulled on load, when the
+ * browser comes back online and every minute. Status and conflicts go to
+ * the store.
+ */
+export function useProjectSync() {
+  const recordsRef = useRef(new Map<string, SyncedComponent>());
+  // Local copy loaded; store changes before that are not saved
+  const readyRef = useRef(false);
+  // Store updates made by the sync itself, which are not local edits
+  const applyingRef = useRef(false);
+  const syncingRef = useRef(false);
+  const rerunRef = useRef(false);
+  const pushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const writeRecords = (changes: RecordChange[]) => {
+    changes.forEach((change) =>
+      "removed" in change
+        ? recordsRef.current.delete(change.id)
+        : recordsRef.current.set(change.id, change)
+    );
+    saveSyncedComponents(changes).catch((error) =>
+      console.error("Failed to save components locally:", error)
+    );
+  };
+
+  const publishConflicts = () =>
+    useAppStore
+      .getState()
+      .setSyncConflicts(conflictsOf(Array.from(recordsRef.current.values())));
+
+  // Show the synced components in the builder
+  const applyToStore = () => {
+    const state = useAppStore.getState();
+    const components = Array.from(recordsRef.current.values())
+      .filter((record) => !record.deleted)
+      .map((record) => record.component)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    const current = state.currentComponent
+      ? components.find((c) => c.id === state.currentComponent!.id) ?? null
+      : null;
+
+    applyingRef.current = true;
+    try {
+      state.setComponents(components);
+      if (current !== state.currentComponent) state.setCurrentComponent(current);
+    } finally {
+      applyingRef.current = false;
+    }
+    publishConflicts();
+  };
+
+  const push = async () => {
+    for (const record of pendingPushes(Array.from(recordsRef.current.values()))) {
+      const outcome = await pushComponent(record);
+      const latest = recordsRef.current.get(record.id);
+      if (!latest) continue;
+
+      const next = applyPushOutcome(latest, record.revision, outcome);
+      writeRecords([next ?? { id: record.id, removed: true }]);
+    }
+    publishConflicts();
+  };
+
+  const run = async (pull: boolean) => {
+    const { setSyncStatus } = useAppStore.getState();
+    if (!readyRef.current) return;
+    if (syncingRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+    if (!navigator.onLine) {
+      setSyncStatus("offline");
+      return;
+    }
+
+    syncingRef.current = true;
+    setSyncStatus("syncing");
+    try {
+      if (pull) {
+        const projects = await fetchRemoteProjects();
+        const records = reconcilePull(Array.from(recordsRef.current.values()), projects);
+        recordsRef.current = new Map(records.map((record) => [record.id, record]));
+        applyToStore();
+        await replaceSyncedComponents(records);
+      }
+      await push();
+      setSyncStatus("idle");
+    } catch (error) {
+      setSyncStatus(
+        navigator.onLine ? "error" : "offline",
+        error instanceof Error ? error.message : "Sync failed"
+      );
+    } finally {
+      syncingRef.current = false;
+      if (rerunRef.current || pendingPushes(Array.from(recordsRef.current.values())).length > 0) {
+        rerunRef.current = false;
+        if (useAppStore.getState().syncStatus === "idle") schedulePush();
+      }
+    }
+  };
+
+  const schedulePush = () => {
+    if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+    pushTimerRef.current = setTimeout(() => run(false), PUSH_DELAY);
+  };
+
+  const onComponentsChange = (
+    components: GeneratedComponent[],
+    previous: GeneratedComponent[]
+  ) => {
+    const before = new Map(previous.map((c) => [c.id, c]));
+    const ids = new Set(components.map((c) => c.id));
+
+    const changes = components
+      .filter((c) => before.get(c.id) !== c)
+      .map((c) => recordLocalChange(recordsRef.current.get(c.id), c));
+
+    // addComponent drops the oldest components past its cap; those stay
+    // synced. Only a change that removes without adding is a delete.
+    if (changes.every((record) => before.has(record.id))) {
+      for (const component of previous) {
+        const record = recordsRef.current.get(component.id);
+        if (!ids.has(component.id) && record) changes.push(recordLocalDelete(record));
+      }
+    }
+
+    if (changes.length === 0) return;
+    writeRecords(changes);
+    schedulePush();
+  };
+
+  useEffect(() => {
+    if (!isLocalStoreAvailable()) return;
+    let cancelled = false;
+
+    const unsubscribe = useAppStore.subscribe((state, prev) => {
+      if (!readyRef.current || applyingRef.current) return;
+
+      if (state.components !== prev.components) {
+        onComponentsChange(state.components, prev.components);
+      }
+      if (
+        state.currentComponent !== prev.currentComponent ||
+        state.undoStack !== prev.undoStack ||
+        state.redoStack !== prev.redoStack
+      ) {
+        saveBuilderSession({
+          currentComponentId: state.currentComponent?.id ?? null,
+          undoStack: state.undoStack,
+          redoStack: state.redoStack,
+        }).catch((error) => console.error("Failed to save builder session:", error));
+      }
+    });
+
+    const load = async () => {
+      try {
+        const userId = await signedInUserId();
+        if (cancelled) return;
+        if (!userId) {
+          useAppStore.getState().setSyncStatus("error", "Sign in to sync your apps");
+          return;
+        }
+        // The builder still shows the previous user's apps; drop them
+        // rather than saving them as this user's
+        if (selectLocalStore(userId)) {
+          useAppStore.setState({
+            components: [],
+            currentComponent: null,
+            undoStack: [],
+            redoStack: [],
+          });
+        }
+
+        const [records, session] = await Promise.all([
+          loadSyncedComponents(),
+          loadBuilderSession(),
+        ]);
+        if (cancelled) return;
+
+        recordsRef.current = new Map(records.map((record) => [record.id, record]));
+        // Components created before the local copy was loaded
+        const unsaved = useAppStore
+          .getState()
+          .components.filter((c) => !recordsRef.current.has(c.id))
+          .map((c) => recordLocalChange(undefined, c));
+        if (unsaved.length > 0) writeRecords(unsaved);
+        applyToStore();
+
+        const state = useAppStore.getState();
+        if (session && !state.currentComponent) {
+          applyingRef.current = true;
+          try {
+            useAppStore.setState({
+              currentComponent:
+                state.components.find((c) => c.id === session.currentComponentId) ?? null,
+              undoStack: session.undoStack,
+              redoStack: session.redoStack,
+            });
+          } finally {
+            applyingRef.current = false;
+          }
+        }
+
+        readyRef.current = true;
+      } catch (error) {
+        console.error("Failed to load local projects:", error);
+        useAppStore.getState().setSyncStatus("error", "Local storage is unavailable");
+        return;
+      }
+      run(true);
+    };
+    load();
+
+    const onOnline = () => run(true);
+    const onOffline = () => useAppStore.getState().setSyncStatus("offline");
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    const interval = setInterval(() => run(true), SYNC_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      readyRef.current = false;
+      unsubscribe();
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      clearInterval(interval);
+      if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+    };
+  }, []);
+
+  const resolve = useCallback((componentId: string, choice: ConflictChoice) => {
+    const record = recordsRef.current.get(componentId);
+    if (!record?.conflict) return;
+
+    writeRecords([resolveConflict(record, choice)]);
+    applyToStore();
+    schedulePush();
+  }, []);
+
+  const syncNow = useCallback(() => run(true), []);
+
+  // Mark a component's latest change as an AI modification; call it after
+  // the modified component is in the store
+  const recordModificationOf = useCallback(
+    (componentId: string, prompt: string, diffSummary: DiffSummary) => {
+      const record = recordsRef.current.get(componentId);
+      if (record) writeRecords([recordModification(record, prompt, diffSummary)]);
+    },
+    []
+  );
+
+  // Server project a component is synced to - what AI routes bill against
+  const projectIdOf = useCallback(
+    (componentId: string | undefined) =>
+      (componentId && recordsRef.current.get(componentId)?.projectId) || undefined,
+    []
+  );
+
+  return {
+    resolveConflict: resolve,
+    syncNow,
+    projectIdOf,
+    recordModification: recordModificationOf,
+  };
+}
@@ -27,7 +27,7 @@ ${MODIFICATION_EXAMPLES}
 CRITICAL REMINDERS:
 - Only JSON output (no conversational text)
 - Minimal changes (surgical edits only)
-- Exact searchFor patterns
+- searchFor copied from the file, unique within it
 - Preserve existing code unless explicitly requested
 `.trim();
 }
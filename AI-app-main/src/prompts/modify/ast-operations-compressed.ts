@@ -7,8 +7,8 @@ export const AST_OPERATIONS_COMPRESSED = `
 AST OPERATIONS (Structural React Changes):
 
 **When to Use AST vs String Operations:**
-- AST: React hooks, JSX structure, className, props, wrapping
-- String: Text content, variable names, simple replacements
+- AST: React hooks, JSX structure, className, props, wrapping, renames, removals
+- String: Text content, simple replacements
 
 **Quick Reference:**
 
@@ -71,10 +71,29 @@ AST_ADD_ZUSTAND_STORE - Zustand store generation
   ], "persist": true, "persistKey": "app-store" }
 Generates: Complete Zustand store with TypeScript types and optional persistence
 
+AST_RENAME_SYMBOL - Rename variable/function/component/type everywhere it is used
+{ "type": "AST_RENAME_SYMBOL", "oldName": "UserCard", "newName": "ProfileCard" }
+Put it in the file that DECLARES the symbol; imports, re-exports and JSX in other files update automatically.
+Shadowed names in inner scopes are untouched. Name declared twice? Add "scope": "EnclosingFunction".
+Prop rename: { "type": "AST_RENAME_SYMBOL", "kind": "prop", "component": "Card", "oldName": "title", "newName": "heading" }
+Use this instead of REPLACE for renames.
+
 AST_EXTRACT_COMPONENT - Extract JSX to new component
-{ "type": "AST_EXTRACT_COMPONENT", "targetJSX": "<div>...</div>",
+{ "type": "AST_EXTRACT_COMPONENT", "targetJSX": "<div className=\"card\">...</div>",
   "componentName": "Card", "propTypes": { "title": "string" }}
-Generates: New component file with props interface
+targetJSX: copy the element's opening lines exactly, or a tag name ("header")
+Creates: Card.tsx next to the file (or "componentFile"), replaces the JSX with
+<Card title={title} />, imports it. Variables/handlers used inside become props
+(propTypes optional, for their types); used imports are copied over.
+
+AST_REMOVE_ELEMENT / AST_REMOVE_HOOK / AST_REMOVE_FUNCTION / AST_REMOVE_IMPORT - Remove code
+{ "type": "AST_REMOVE_ELEMENT", "targetElement": "Modal" }  ({open && <Modal />} goes entirely)
+{ "type": "AST_REMOVE_HOOK", "hook": "useState", "name": "count" }
+{ "type": "AST_REMOVE_HOOK", "hook": "useEffect", "contains": "fetchUser" }  (pick one of several)
+{ "type": "AST_REMOVE_FUNCTION", "name": "handleDelete" }
+{ "type": "AST_REMOVE_IMPORT", "source": "./Chart", "names": ["Legend"] }  (omit names = whole import)
+Fails if the removed names are still used - remove the uses first (earlier changes in the same file).
+Imports only the removed code used are dropped automatically. Use these instead of DELETE.
 
 **Hook Selection Guide:**
 - Simple state? → AST_ADD_STATE
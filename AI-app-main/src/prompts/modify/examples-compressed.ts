@@ -36,6 +36,6 @@ EXAMPLES:
 KEY RULES:
 - Only JSON output (no conversational text)
 - Minimal changes (surgical edits only)
-- Exact searchFor patterns (character-for-character)
+- searchFor copied from the file, matching exactly one place (add context when code repeats)
 - Preserve existing code unless explicitly requested to change
 `.trim();
@@ -18,6 +18,7 @@ import { QuickStartTemplate } from "../components/QuickStartSelector";
 import { QualityReport } from "../utils/codeQuality";
 import { PerformanceReport } from "../utils/performanceOptimization";
 import { ArchitectureTemplate } from "../utils/architectureTemplates";
+import type { SyncConflict, SyncStatus } from "../utils/projectSync";
 
 interface ChatSlice {
   chatMessages: ChatMessage[];
@@ -130,8 +131,13 @@ interface DataSlice {
   deploymentInstructions: DeploymentInstructions | null;
   exportingApp: GeneratedComponent | null;
 
-  // Compare
-  compareVersions: { v1: AppVersion | null; v2: AppVersion | null };
+  // Compare (stored project versions, see VersionCompareModal)
+  compareVersions: { projectId: string | null; from: string | null; to: string | null };
+
+  // Project sync (IndexedDB <-> Supabase, see useProjectSync)
+  syncStatus: SyncStatus;
+  syncError: string | null;
+  syncConflicts: SyncConflict[];
 
   // Analysis State
   isRunningReview: boolean;
@@ -163,10 +169,14 @@ interface DataSlice {
   setExportingApp: (app: GeneratedComponent | null) => void;
 
   setCompareVersions: (versions: {
-    v1: AppVersion | null;
-    v2: AppVersion | null;
+    projectId: string | null;
+    from: string | null;
+    to: string | null;
   }) => void;
 
+  setSyncStatus: (status: SyncStatus, error?: string | null) => void;
+  setSyncConflicts: (conflicts: SyncConflict[]) => void;
+
   setIsRunningReview: (is: boolean) => void;
   setIsApplyingFixes: (is: boolean) => void;
   setAutoReviewEnabled: (enabled: boolean) => void;
@@ -310,7 +320,11 @@ export const useAppStore = create<AppState>((set) => ({
   deploymentInstructions: null,
   exportingApp: null,
 
-  compareVersions: { v1: null, v2: null },
+  compareVersions: { projectId: null, from: null, to: null },
+
+  syncStatus: "idle",
+  syncError: null,
+  syncConflicts: [],
 
   isRunningReview: false,
   isApplyingFixes: false,
@@ -343,6 +357,10 @@ export const useAppStore = create<AppState>((set) => ({
 
   setCompareVersions: (versions) => set({ compareVersions: versions }),
 
+  setSyncStatus: (status, error = null) =>
+    set({ syncStatus: status, syncError: error }),
+  setSyncConflicts: (conflicts) => set({ syncConflicts: conflicts }),
+
   setIsRunningReview: (is) => set({ isRunningReview: is }),
   setIsApplyingFixes: (is) => set({ isApplyingFixes: is }),
   setAutoReviewEnabled: (enabled) => set({ autoReviewEnabled: enabled }),
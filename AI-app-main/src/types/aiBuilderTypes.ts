@@ -1,3 +1,5 @@
+import type { FileDiff, FilePreview } from '../utils/diffSchema';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -36,17 +38,12 @@ export interface PendingChange {
 
 export interface PendingDiff {
   id: string;
+  /** Request the diff was generated for */
+  prompt: string;
   summary: string;
-  files: Array<{
-    path: string;
-    action: 'MODIFY' | 'CREATE' | 'DELETE';
-    changes: Array<{
-      type: 'ADD_IMPORT' | 'INSERT_AFTER' | 'INSERT_BEFORE' | 'REPLACE' | 'DELETE' | 'APPEND';
-      searchFor?: string;
-      content?: string;
-      replaceWith?: string;
-    }>;
-  }>;
+  files: FileDiff[];
+  /** Dry-run result from the modify route, when the current files were available */
+  preview?: FilePreview[];
   timestamp: string;
 }
 
@@ -2,6 +2,9 @@
  * User Settings and Preferences for AI Builder
  */
 
+import type { LLMProviderName, LLMRoute } from '../utils/llm/types';
+import type { CleanupMode } from '../utils/codeCleanup';
+
 export interface ReviewPreferences {
   /**
    * Auto-approve strategy for phase reviews
@@ -45,9 +48,24 @@ export interface BuilderSettings {
    */
   generation: {
     /**
-     * Preferred AI model
+     * LLM provider used by every AI route, when the user picked one
+     * - 'anthropic': Claude
+     * - 'openai': OpenAI API
+     * - 'local': OpenAI-compatible local server (Ollama, llama.cpp)
+     * Unset uses the server's LLM_PROVIDER (default 'anthropic').
+     */
+    provider?: LLMProviderName;
+
+    /**
+     * Preferred model for all routes (provider model id or alias).
+     * Empty uses each route's default for the selected provider.
+     */
+    model: string;
+
+    /**
+     * Per-route model overrides, e.g. a cheaper model for 'chat'
      */
-    model: 'claude-sonnet-4' | 'claude-opus-4';
+    routeModels: Partial<Record<LLMRoute, string>>;
 
     /**
      * Enable streaming responses
@@ -98,6 +116,14 @@ export interface BuilderSettings {
      * Generate tests automatically
      */
     autoGenerateTests: boolean;
+
+    /**
+     * Dead-code pass after each modification
+     * - 'off': Leave modified files as they are (default)
+     * - 'warn': Report unused imports, useState pairs and functions
+     * - 'remove': Delete them
+     */
+    postModificationCleanup: CleanupMode;
   };
 }
 
@@ -113,7 +139,9 @@ export const DEFAULT_SETTINGS: BuilderSettings = {
     autoExpandFiles: false,
   },
   generation: {
-    model: 'claude-sonnet-4',
+    provider: undefined,
+    model: '',
+    routeModels: {},
     streaming: true,
     maxTokens: 16000,
   },
@@ -126,5 +154,6 @@ export const DEFAULT_SETTINGS: BuilderSettings = {
     autoRunQualityCheck: false,
     autoRunPerformanceCheck: false,
     autoGenerateTests: false,
+    postModificationCleanup: 'off',
   },
 };
@@ -4,6 +4,18 @@
  * 
  * Tracks request metrics, errors, performance, and usage patterns
  * across all AI builder routes for data-driven optimization.
+ *
+ * Finished requests are also written through, in batches, to an
+ * AnalyticsSink so metrics survive restarts and serverless instances.
+ *
+ * Configuration:
+ *   ANALYTICS_STORE        memory | supabase (default: memory - no write-through)
+ *   ANALYTICS_BATCH_SIZE   metrics per write (default 20)
+ *   ANALYTICS_FLUSH_MS     longest a finished metric waits to be written (default 5000)
+ *
+ * Routes also flush in after(), once their response is done. A failed write
+ * puts its batch back in the queue for the next flush; past
+ * MAX_PENDING_METRICS the oldest unwritten metrics are dropped.
  */
 
 // ============================================================================
@@ -81,14 +93,67 @@ export interface AnalyticsSummary {
   requestsByRoute: Record<RouteType, number>;
 }
 
+export type MetricsBucketSize = 'hour' | 'day';
+
+export interface MetricsQuery {
+  /** Epoch milliseconds */
+  since: number;
+  bucket: MetricsBucketSize;
+  routeType?: RouteType;
+}
+
+/**
+ * Aggregated metrics for one route in one time bucket
+ */
+export interface MetricsBucket {
+  /** ISO start of the bucket (UTC) */
+  bucketStart: string;
+  routeType: RouteType;
+  requests: number;
+  errors: number;
+  /** errors / requests */
+  errorRate: number;
+  errorsByCategory: Partial<Record<ErrorCategory, number>>;
+  /** Milliseconds; null when no request in the bucket has a response time */
+  p50ResponseTime: number | null;
+  p95ResponseTime: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+}
+
+/**
+ * Persistent destination for finished request metrics
+ */
+export interface AnalyticsSink {
+  write(metrics: RequestMetrics[]): Promise<void>;
+  /** Time-bucketed aggregation, computed by the store */
+  aggregate(query: MetricsQuery): Promise<MetricsBucket[]>;
+}
+
 // ============================================================================
 // ANALYTICS LOGGER CLASS
 // ============================================================================
 
-class AnalyticsLogger {
+/** Unwritten metrics kept for retry while the sink is failing */
+const MAX_PENDING_METRICS = 500;
+
+export class AnalyticsLogger {
   private metrics: RequestMetrics[] = [];
   private maxStoredMetrics = 1000; // Keep last 1000 requests in memory
   
+  /** undefined = chosen from ANALYTICS_STORE on first use; null = memory only */
+  private sink: AnalyticsSink | null | undefined;
+  /** Finished metrics waiting to be written */
+  private pending: RequestMetrics[] = [];
+  /** Metrics already queued - each request is written once, as it is at flush time */
+  private queued = new WeakSet<RequestMetrics>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  constructor(sink?: AnalyticsSink | null) {
+    this.sink = sink;
+  }
+  
   /**
    * Log a request start event
    */
@@ -133,6 +198,7 @@ class AnalyticsLogger {
     
     // Log summary if significant
     this.logRequestSummary(metric);
+    this.enqueue(metric);
   }
   
   /**
@@ -166,6 +232,7 @@ class AnalyticsLogger {
       error: errorMessage,
       responseTime: metric.responseTime,
     });
+    this.enqueue(metric);
   }
   
   /**
@@ -295,6 +362,57 @@ class AnalyticsLogger {
       .reverse();
   }
   
+  /**
+   * Time-bucketed latency, error and token aggregates
+   *
+   * Uses the sink's query (SQL for Supabase) when one is configured,
+   * otherwise the metrics held in memory.
+   */
+  async aggregate(query: MetricsQuery): Promise<MetricsBucket[]> {
+    const sink = await this.getSink();
+    if (sink) {
+      return sink.aggregate(query);
+    }
+    return aggregateMetrics(this.metrics.filter(m => m.timestamp >= query.since), query);
+  }
+  
+  /**
+   * Whether metrics are written to a persistent sink
+   */
+  async isPersistent(): Promise<boolean> {
+    return (await this.getSink()) !== null;
+  }
+  
+  /**
+   * Write every pending metric now
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    
+    const batch = this.pending.splice(0);
+    if (batch.length === 0) return;
+    
+    const sink = await this.getSink();
+    if (!sink) return;
+    
+    try {
+      await sink.write(batch);
+    } catch (error) {
+      // Analytics must never fail a request - retry the batch with the next flush
+      console.error(`[Analytics] Failed to write ${batch.length} metrics:`, error);
+      this.pending.unshift(...batch);
+      const dropped = this.pending.length - MAX_PENDING_METRICS;
+      if (dropped > 0) {
+        this.pending.splice(0, dropped);
+        console.warn(`[Analytics] Dropped ${dropped} unwritten metrics`);
+      }
+      this.scheduleFlush();
+    }
+  }
+  
   /**
    * Clear all stored metrics
    */
@@ -314,6 +432,40 @@ class AnalyticsLogger {
   // PRIVATE HELPERS
   // ============================================================================
   
+  private async getSink(): Promise<AnalyticsSink | null> {
+    if (this.sink === undefined) {
+      if (process.env.ANALYTICS_STORE === 'supabase') {
+        // Imported lazily - keeps Supabase out of processes that don't use it
+        const { SupabaseAnalyticsSink } = await import('./db/analytics');
+        this.sink = new SupabaseAnalyticsSink();
+      } else {
+        this.sink = null;
+      }
+    }
+    return this.sink;
+  }
+  
+  private enqueue(metric: RequestMetrics): void {
+    if (this.sink === null || (this.sink === undefined && process.env.ANALYTICS_STORE !== 'supabase')) return;
+    if (this.queued.has(metric)) return;
+    
+    this.queued.add(metric);
+    this.pending.push(metric);
+    
+    if (this.pending.length >= positiveInt(process.env.ANALYTICS_BATCH_SIZE, 20)) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+  
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => void this.flush(), positiveInt(process.env.ANALYTICS_FLUSH_MS, 5000));
+    // Don't keep the process alive just to write analytics
+    this.flushTimer.unref?.();
+  }
+  
   private findMetric(requestId: string): RequestMetrics | undefined {
     return this.metrics.find(m => m.requestId === requestId);
   }
@@ -365,6 +517,84 @@ export function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Start of the UTC hour or day containing `timestamp`
+ */
+export function bucketStart(timestamp: number, bucket: MetricsBucketSize): string {
+  const date = new Date(timestamp);
+  date.setUTCMinutes(0, 0, 0);
+  if (bucket === 'day') date.setUTCHours(0);
+  return date.toISOString();
+}
+
+/**
+ * Continuous percentile (linear interpolation), matching SQL percentile_cont
+ */
+export function percentile(sortedValues: number[], fraction: number): number | null {
+  if (sortedValues.length === 0) return null;
+  const position = (sortedValues.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+}
+
+/**
+ * Group metrics by time bucket and route - the in-memory counterpart of
+ * the analytics_request_buckets SQL function
+ */
+export function aggregateMetrics(metrics: RequestMetrics[], query: MetricsQuery): MetricsBucket[] {
+  const groups = new Map<string, RequestMetrics[]>();
+  
+  metrics.forEach(metric => {
+    if (metric.timestamp < query.since) return;
+    if (query.routeType && metric.routeType !== query.routeType) return;
+    
+    const key = `${bucketStart(metric.timestamp, query.bucket)}|${metric.routeType}`;
+    const group = groups.get(key) || [];
+    group.push(metric);
+    groups.set(key, group);
+  });
+  
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => {
+      const [start, routeType] = key.split('|');
+      const responseTimes = group
+        .map(m => m.responseTime)
+        .filter((time): time is number => time !== undefined)
+        .sort((a, b) => a - b);
+      const errorsByCategory: Partial<Record<ErrorCategory, number>> = {};
+      let errors = 0;
+      
+      group.forEach(metric => {
+        if (metric.success) return;
+        errors++;
+        if (metric.errorCategory) {
+          errorsByCategory[metric.errorCategory] = (errorsByCategory[metric.errorCategory] || 0) + 1;
+        }
+      });
+      
+      return {
+        bucketStart: start,
+        routeType: routeType as RouteType,
+        requests: group.length,
+        errors,
+        errorRate: errors / group.length,
+        errorsByCategory,
+        p50ResponseTime: percentile(responseTimes, 0.5),
+        p95ResponseTime: percentile(responseTimes, 0.95),
+        inputTokens: group.reduce((sum, m) => sum + (m.tokenUsage?.input || 0), 0),
+        outputTokens: group.reduce((sum, m) => sum + (m.tokenUsage?.output || 0), 0),
+        cachedTokens: group.reduce((sum, m) => sum + (m.tokenUsage?.cached || 0), 0),
+      };
+    });
+}
+
 /**
  * Categorize an error
  */
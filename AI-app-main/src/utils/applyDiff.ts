@@ -5,127 +5,255 @@
  * without rewriting entire files.
  * 
  * Now supports both string-based diffs and AST-based operations.
+ * 
+ * Application is transactional across every FileDiff in a response:
+ * changes are staged in memory, each touched code file is re-parsed with
+ * tree-sitter, and the staged files are only returned if every change
+ * applied and nothing new failed to parse. Otherwise the original files
+ * are returned untouched along with the change that failed.
+ * 
+ * searchFor anchors are located with tiered exact / whitespace-insensitive /
+ * fuzzy matching (see searchMatcher.ts); the match used for each change is
+ * reported in anchorMatches.
+ * 
+ * Dry-run runs the same pipeline on a copy, carries on past failures so
+ * every problem is reported, and returns a per-change status and unified
+ * diff for each file (see FilePreview).
+ * 
+ * An optional dead-code pass (see codeCleanup.ts) runs over every touched
+ * file afterwards, reporting or removing imports, state and functions that
+ * are no longer referenced.
  */
 
-import { executeASTOperation, isASTOperation, type ASTOperation } from './astExecutor';
-
-interface DiffChange {
-  type: 'ADD_IMPORT' | 'INSERT_AFTER' | 'INSERT_BEFORE' | 'REPLACE' | 'DELETE' | 'APPEND'
-      | 'AST_WRAP_ELEMENT' | 'AST_ADD_STATE' | 'AST_ADD_IMPORT';
-  line?: number;
-  searchFor?: string;
-  content?: string;
-  replaceWith?: string;
-  // AST operation fields
-  targetElement?: string;
-  wrapperComponent?: string;
-  wrapperProps?: Record<string, string>;
-  name?: string;
-  setter?: string;
-  initialValue?: string;
-  source?: string;
-  defaultImport?: string;
-  namedImports?: string[];
-  namespaceImport?: string;
-  import?: {
-    source: string;
-    defaultImport?: string;
-    namedImports?: string[];
-    namespaceImport?: string;
-  };
-}
+import {
+  executeASTOperation,
+  executeRenameAcrossFiles,
+  executeExtractComponent,
+  type ASTOperation,
+  type ASTRenameSymbolOperation,
+  type ASTExtractComponentOperation,
+  type ASTProjectExecutionResult,
+  type ProjectFile,
+} from './astExecutor';
+import { createParser, type CodeParser } from './treeSitterParser';
+import { createUnifiedDiff } from './unifiedDiff';
+import { cleanupCode, formatCleanupFinding, isCleanupMode, type CleanupMode, type CleanupFinding } from './codeCleanup';
+import {
+  findAnchor,
+  bestFuzzyConfidence,
+  summarizeMatch,
+  FUZZY_MATCH_THRESHOLD,
+  type AnchorMatch,
+  type AnchorMatchSummary,
+} from './searchMatcher';
+import {
+  validateFileDiffs,
+  describeChange,
+  isASTChangeType,
+  type ChangePreview,
+  type DiffChange,
+  type FileDiff,
+  type FilePreview,
+} from './diffSchema';
 
-interface FileDiff {
+export type { DiffChange, FileDiff, FilePreview, ChangePreview, ChangeStatus } from './diffSchema';
+
+/**
+ * The change that aborted a transaction. changeIndex is absent when the
+ * failure is not tied to a single change (missing file, re-parse error).
+ */
+export interface FailedChange {
   path: string;
-  action: 'MODIFY' | 'CREATE' | 'DELETE';
-  changes: DiffChange[];
+  fileIndex: number;
+  changeIndex?: number;
+  type?: DiffChange['type'];
+  description?: string;
+  reason: string;
 }
 
-interface ApplyDiffResult {
+export interface ApplyDiffResult {
   success: boolean;
   modifiedFiles: Array<{ path: string; content: string }>;
   errors: string[];
+  /** Set when success is false; modifiedFiles then holds the original files */
+  failedChange?: FailedChange;
+  /** Dry-run only: what each FileDiff would do, in diff order */
+  preview?: FilePreview[];
+  /** How each searchFor anchor was located, for changes that have one */
+  anchorMatches?: AppliedAnchorMatch[];
+  /** Cleanup pass findings (cleanup 'warn' or 'remove') */
+  cleanup?: CleanupFinding[];
+  /** Non-fatal notes, one per cleanup finding */
+  warnings?: string[];
+}
+
+export interface ApplyDiffOptions {
+  /** Dead-code pass over touched files: 'warn' reports, 'remove' deletes (default 'off') */
+  cleanup?: CleanupMode;
 }
 
+export interface AppliedAnchorMatch extends AnchorMatchSummary {
+  path: string;
+  changeIndex: number;
+  type: DiffChange['type'];
+}
+
+interface ChangeOutcome {
+  content: string;
+  /** Where searchFor was found, for anchored string operations */
+  match?: AnchorMatch;
+  /** Other project files changed or created by a cross-file operation (rename, extract) */
+  otherFiles?: ProjectFile[];
+}
+
+/** Files tree-sitter can check after modification */
+const PARSEABLE_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+let syntaxParser: CodeParser | null = null;
+
 /**
  * Main function to apply diffs to files
  */
 export async function applyDiff(
   currentFiles: Array<{ path: string; content: string }>,
   diffs: FileDiff[],
-  dryRun: boolean = false
+  dryRun: boolean = false,
+  options: ApplyDiffOptions = {}
 ): Promise<ApplyDiffResult> {
+  const cleanup = isCleanupMode(options.cleanup) ? options.cleanup : 'off';
   const result: ApplyDiffResult = {
     success: true,
     modifiedFiles: [],
     errors: []
   };
 
-  // In dry-run mode, just validate without applying changes
+  // Reject malformed diffs before touching any file
+  const validation = validateFileDiffs(diffs, 'diffs');
+  if (!validation.valid) {
+    result.success = false;
+    result.errors = validation.errors.map(e => `Invalid diff at ${e.path}: ${e.message}`);
+    result.modifiedFiles = currentFiles;
+    return result;
+  }
+
+  // In dry-run mode, report what would happen without changing anything
   if (dryRun) {
-    // Validate that all search patterns can be found
-    for (const fileDiff of diffs) {
-      const file = currentFiles.find(f => f.path === fileDiff.path);
-      if (fileDiff.action === 'MODIFY' && !file) {
-        result.errors.push(`File not found for modification: ${fileDiff.path}`);
-        result.success = false;
+    const dryRunResult = await dryRunDiffs(currentFiles, diffs, cleanup);
+    result.preview = dryRunResult.previews;
+    setCleanupFindings(result, dryRunResult.findings, cleanup);
+    for (const file of result.preview) {
+      if (file.error) {
+        result.errors.push(file.error);
+      }
+      for (const change of file.changes) {
+        if (change.status === 'not_found' || change.status === 'failed') {
+          result.errors.push(`Change #${change.index + 1} (${change.type}) in ${file.path}: ${change.error}`);
+        }
       }
     }
-    // Return current files unchanged
+    result.success = result.errors.length === 0;
     result.modifiedFiles = currentFiles;
     return result;
   }
 
-  // Create a map of current files for easy lookup
+  const rollback = (failure: FailedChange): ApplyDiffResult => {
+    result.success = false;
+    result.failedChange = failure;
+    result.errors.push(`${failure.reason} - no files were changed`);
+    result.modifiedFiles = currentFiles;
+    return result;
+  };
+
+  // Stage every change in a copy; currentFiles is never mutated
   const fileMap = new Map<string, string>();
   currentFiles.forEach(file => {
     fileMap.set(file.path, file.content);
   });
+  const touched = new Set<string>();
+  const anchorMatches: AppliedAnchorMatch[] = [];
 
-  // Process each file diff
-  for (const fileDiff of diffs) {
-    try {
-      if (fileDiff.action === 'DELETE') {
-        // Remove file from map
-        fileMap.delete(fileDiff.path);
-        continue;
-      }
+  for (let fileIndex = 0; fileIndex < diffs.length; fileIndex++) {
+    const fileDiff = diffs[fileIndex];
 
-      if (fileDiff.action === 'CREATE') {
-        // Create new file with content from first change
-        const content = fileDiff.changes[0]?.content || '';
-        fileMap.set(fileDiff.path, content);
-        continue;
-      }
+    if (fileDiff.action === 'DELETE') {
+      fileMap.delete(fileDiff.path);
+      touched.delete(fileDiff.path);
+      continue;
+    }
 
-      // MODIFY action - apply changes to existing file
-      let fileContent = fileMap.get(fileDiff.path);
-      
-      if (!fileContent) {
-        result.errors.push(`File not found: ${fileDiff.path}`);
-        result.success = false;
-        continue;
-      }
+    if (fileDiff.action === 'CREATE') {
+      // Create new file with content from first change
+      const content = fileDiff.changes[0]?.content || '';
+      fileMap.set(fileDiff.path, content);
+      touched.add(fileDiff.path);
+      continue;
+    }
 
-      // Apply each change in sequence
-      for (const change of fileDiff.changes) {
-        try {
-          fileContent = await applyChange(fileContent, change);
-        } catch (error) {
-          const errorMsg = `Failed to apply ${change.type} to ${fileDiff.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-          result.errors.push(errorMsg);
-          result.success = false;
+    // MODIFY action - apply changes to existing file
+    let fileContent = fileMap.get(fileDiff.path);
+    
+    if (fileContent === undefined) {
+      return rollback({
+        path: fileDiff.path,
+        fileIndex,
+        reason: `File not found: ${fileDiff.path}`
+      });
+    }
+
+    // Apply each change in sequence; the first failure aborts everything
+    for (let changeIndex = 0; changeIndex < fileDiff.changes.length; changeIndex++) {
+      const change = fileDiff.changes[changeIndex];
+      try {
+        const outcome = await applyChange(fileContent, change, { path: fileDiff.path, files: fileMap });
+        fileContent = outcome.content;
+        outcome.otherFiles?.forEach(file => {
+          fileMap.set(file.path, file.content);
+          touched.add(file.path);
+        });
+        if (outcome.match) {
+          anchorMatches.push({ path: fileDiff.path, changeIndex, type: change.type, ...summarizeMatch(outcome.match) });
         }
+      } catch (error) {
+        return rollback({
+          path: fileDiff.path,
+          fileIndex,
+          changeIndex,
+          type: change.type,
+          description: describeChange(change),
+          reason: `Failed to apply ${change.type} to ${fileDiff.path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
       }
+    }
 
-      // Update file in map
-      fileMap.set(fileDiff.path, fileContent);
-      
-    } catch (error) {
-      const errorMsg = `Failed to process ${fileDiff.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      result.errors.push(errorMsg);
-      result.success = false;
+    fileMap.set(fileDiff.path, fileContent);
+    touched.add(fileDiff.path);
+  }
+
+  // Re-parse touched files so a change that breaks syntax is rolled back too
+  for (const path of touched) {
+    const parseError = await findNewSyntaxError(
+      currentFiles.find(f => f.path === path)?.content,
+      fileMap.get(path) || '',
+      path
+    );
+    if (parseError) {
+      return rollback({
+        path,
+        fileIndex: findLastIndex(diffs, d => d.path === path),
+        reason: `${path} no longer parses after applying changes: ${parseError}`
+      });
+    }
+  }
+
+  // Dead-code pass runs on the final content of every touched file
+  if (cleanup !== 'off') {
+    const findings: CleanupFinding[] = [];
+    for (const path of touched) {
+      const cleaned = await cleanupCode(path, fileMap.get(path) || '', cleanup);
+      fileMap.set(path, cleaned.content);
+      findings.push(...cleaned.findings);
     }
+    setCleanupFindings(result, findings, cleanup);
   }
 
   // Convert map back to array
@@ -133,38 +261,232 @@ export async function applyDiff(
     result.modifiedFiles.push({ path, content });
   });
 
+  const approximate = anchorMatches.filter(m => m.strategy !== 'exact');
+  if (approximate.length > 0) {
+    console.log(`🔎 ${approximate.length} searchFor anchor(s) matched approximately:`, approximate);
+  }
+  result.anchorMatches = anchorMatches;
+
   return result;
 }
 
+/**
+ * Apply every diff to a copy of the files, recording the outcome of each
+ * change instead of stopping at the first failure. Changes that fail are
+ * skipped so later changes still preview against the best available content.
+ */
+async function dryRunDiffs(
+  currentFiles: Array<{ path: string; content: string }>,
+  diffs: FileDiff[],
+  cleanup: CleanupMode
+): Promise<{ previews: FilePreview[]; findings: CleanupFinding[] }> {
+  const fileMap = new Map<string, string>();
+  currentFiles.forEach(file => {
+    fileMap.set(file.path, file.content);
+  });
+
+  const previews: FilePreview[] = [];
+  const findings: CleanupFinding[] = [];
+  // Files changed only as a side effect of cross-file operations, with their
+  // original content (null for files the operation created)
+  const crossFileOriginals = new Map<string, string | null>();
+
+  for (const fileDiff of diffs) {
+    const before = fileMap.get(fileDiff.path) ?? null;
+    const changes: ChangePreview[] = [];
+    let after: string | null = before;
+    let error: string | undefined;
+
+    if (fileDiff.action === 'DELETE') {
+      after = null;
+      fileMap.delete(fileDiff.path);
+    } else if (fileDiff.action === 'CREATE') {
+      after = fileDiff.changes[0]?.content || '';
+      fileDiff.changes.forEach((change, index) => {
+        changes.push({ index, type: change.type, description: describeChange(change), status: 'matched' });
+      });
+    } else if (before === null) {
+      error = `File not found: ${fileDiff.path}`;
+    } else {
+      let content = before;
+      for (let index = 0; index < fileDiff.changes.length; index++) {
+        const change = fileDiff.changes[index];
+        const preview: ChangePreview = {
+          index,
+          type: change.type,
+          description: describeChange(change),
+          status: 'matched',
+        };
+
+        if (!isASTChangeType(change.type) && change.searchFor) {
+          const match = findAnchor(content, change.searchFor);
+          if (!match) {
+            preview.status = 'not_found';
+            preview.occurrences = 0;
+            preview.error = describeAnchorMiss(content, change.searchFor);
+            changes.push(preview);
+            continue;
+          }
+          preview.match = summarizeMatch(match);
+          preview.occurrences = match.occurrences;
+          if (match.occurrences > 1) {
+            preview.status = 'ambiguous';
+          }
+        }
+
+        try {
+          const outcome = await applyChange(content, change, { path: fileDiff.path, files: fileMap });
+          content = outcome.content;
+          outcome.otherFiles?.forEach(file => {
+            if (!crossFileOriginals.has(file.path)) {
+              crossFileOriginals.set(file.path, fileMap.get(file.path) ?? null);
+            }
+            fileMap.set(file.path, file.content);
+          });
+        } catch (err) {
+          preview.status = 'failed';
+          preview.error = err instanceof Error ? err.message : 'Unknown error';
+        }
+        changes.push(preview);
+      }
+      after = content;
+    }
+
+    if (after !== null && fileDiff.action !== 'DELETE') {
+      if (cleanup !== 'off') {
+        const cleaned = await cleanupCode(fileDiff.path, after, cleanup);
+        after = cleaned.content;
+        findings.push(...cleaned.findings);
+      }
+      fileMap.set(fileDiff.path, after);
+      const parseError = await findNewSyntaxError(before ?? undefined, after, fileDiff.path);
+      if (parseError) {
+        error = `${fileDiff.path} no longer parses after applying changes: ${parseError}`;
+      }
+    }
+
+    previews.push({
+      path: fileDiff.path,
+      action: fileDiff.action,
+      before,
+      after,
+      unifiedDiff: createUnifiedDiff(fileDiff.path, before, after),
+      changes,
+      ...(error && { error }),
+    });
+  }
+
+  crossFileOriginals.forEach((before, path) => {
+    if (diffs.some(d => d.path === path)) return;
+    const after = fileMap.get(path) ?? '';
+    previews.push({
+      path,
+      action: before === null ? 'CREATE' : 'MODIFY',
+      before,
+      after,
+      unifiedDiff: createUnifiedDiff(path, before, after),
+      changes: [],
+    });
+  });
+
+  return { previews, findings };
+}
+
+function setCleanupFindings(result: ApplyDiffResult, findings: CleanupFinding[], cleanup: CleanupMode): void {
+  if (cleanup === 'off') return;
+  result.cleanup = findings;
+  if (findings.length > 0) {
+    result.warnings = findings.map(formatCleanupFinding);
+    console.log(`🧹 Cleanup (${cleanup}) found ${findings.length} unused declaration(s)`);
+  }
+}
+
+/**
+ * Returns a description of the first syntax error in `after`, or null.
+ * Files that already failed to parse before the change are not held
+ * against the diff, and non-code files are skipped.
+ */
+async function findNewSyntaxError(
+  before: string | undefined,
+  after: string,
+  path: string
+): Promise<string | null> {
+  if (!PARSEABLE_EXTENSIONS.test(path) || !after.trim()) {
+    return null;
+  }
+
+  let parser: CodeParser;
+  let tree;
+  try {
+    parser = syntaxParser || (syntaxParser = createParser('typescript', { logErrors: false }));
+    tree = await parser.parse(after);
+  } catch (error) {
+    // tree-sitter unavailable (e.g. in the browser) - skip the check rather than block edits
+    console.warn('Skipping post-diff syntax check:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  if (!parser.hasErrors(tree)) {
+    return null;
+  }
+
+  if (before !== undefined && parser.hasErrors(await parser.parse(before))) {
+    return null;
+  }
+
+  const [first] = parser.getErrors(tree);
+  return first ? `syntax error at line ${first.line}, column ${first.column}` : 'syntax error';
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
 /**
  * Apply a single change to file content
  * Now supports both string-based and AST-based operations
  */
-async function applyChange(content: string, change: DiffChange): Promise<string> {
+async function applyChange(
+  content: string,
+  change: DiffChange,
+  project?: { path: string; files: Map<string, string> }
+): Promise<ChangeOutcome> {
+  // Renames also update the files that import the symbol; extractions create a file
+  if ((change.type === 'AST_RENAME_SYMBOL' || change.type === 'AST_EXTRACT_COMPONENT') && project) {
+    return await applyProjectChange(content, change, project);
+  }
+  
   // Check if this is an AST operation
-  if (change.type.startsWith('AST_')) {
-    return await applyASTChange(content, change);
+  if (isASTChangeType(change.type)) {
+    return { content: await applyASTChange(content, change) };
   }
   
   // Handle traditional string-based operations
   switch (change.type) {
     case 'ADD_IMPORT':
-      return addImport(content, change.content || '');
+      return { content: addImport(content, change.content || '') };
     
+    case 'APPEND':
+      return { content: append(content, change.content || '') };
+  }
+
+  const match = locateAnchor(content, change.searchFor || '');
+
+  switch (change.type) {
     case 'INSERT_AFTER':
-      return insertAfter(content, change.searchFor || '', change.content || '');
+      return { content: insertAfter(content, match, change.content || ''), match };
     
     case 'INSERT_BEFORE':
-      return insertBefore(content, change.searchFor || '', change.content || '');
+      return { content: insertBefore(content, match, change.content || ''), match };
     
     case 'REPLACE':
-      return replace(content, change.searchFor || '', change.replaceWith || '');
+      return { content: replace(content, match, change.replaceWith || ''), match };
     
     case 'DELETE':
-      return deleteCode(content, change.searchFor || '');
-    
-    case 'APPEND':
-      return append(content, change.content || '');
+      return { content: deleteCode(content, match), match };
     
     default:
       throw new Error(`Unknown change type: ${(change as any).type}`);
@@ -172,26 +494,64 @@ async function applyChange(content: string, change: DiffChange): Promise<string>
 }
 
 /**
- * Apply an AST-based change to file content
+ * Apply an AST operation that may change or create other project files
  */
-async function applyASTChange(content: string, change: DiffChange): Promise<string> {
-  // Convert DiffChange to ASTOperation
-  const operation: ASTOperation = change as any;
+async function applyProjectChange(
+  content: string,
+  change: DiffChange,
+  project: { path: string; files: Map<string, string> }
+): Promise<ChangeOutcome> {
+  const files: ProjectFile[] = [];
+  project.files.forEach((fileContent, path) => {
+    files.push({ path, content: path === project.path ? content : fileContent });
+  });
   
-  // Validate required fields based on operation type
-  if (change.type === 'AST_WRAP_ELEMENT') {
-    if (!change.targetElement || !change.wrapperComponent) {
-      throw new Error('AST_WRAP_ELEMENT requires targetElement and wrapperComponent');
-    }
-  } else if (change.type === 'AST_ADD_STATE') {
-    if (!change.name || !change.setter || !change.initialValue) {
-      throw new Error('AST_ADD_STATE requires name, setter, and initialValue');
-    }
-  } else if (change.type === 'AST_ADD_IMPORT') {
-    if (!change.source) {
-      throw new Error('AST_ADD_IMPORT requires source');
-    }
+  const result: ASTProjectExecutionResult = change.type === 'AST_RENAME_SYMBOL'
+    ? await executeRenameAcrossFiles(files, project.path, change as unknown as ASTRenameSymbolOperation)
+    : await executeExtractComponent(files, project.path, change as unknown as ASTExtractComponentOperation);
+  if (!result.success) {
+    throw new Error(result.errors?.join('; ') || 'Unknown AST operation error');
+  }
+  
+  const changed = result.files || [];
+  return {
+    content: changed.find(f => f.path === project.path)?.content ?? content,
+    otherFiles: changed.filter(f => f.path !== project.path),
+  };
+}
+
+/**
+ * Find searchFor or throw, explaining how close the best candidate came.
+ * Several exact matches use the first; several approximate ones are refused,
+ * since the first is no more likely to be the intended one.
+ */
+function locateAnchor(content: string, searchFor: string): AnchorMatch {
+  const match = findAnchor(content, searchFor);
+  if (!match) {
+    throw new Error(describeAnchorMiss(content, searchFor));
+  }
+  if (match.strategy !== 'exact' && match.occurrences > 1) {
+    throw new Error(
+      `Search pattern is ambiguous: "${searchFor.substring(0, 50)}..." approximately matches ${match.occurrences} places (${match.strategy} match)`
+    );
   }
+  return match;
+}
+
+function describeAnchorMiss(content: string, searchFor: string): string {
+  const best = bestFuzzyConfidence(content, searchFor);
+  const closest = best > 0
+    ? ` (closest fuzzy match ${Math.round(best * 100)}%, needs ${Math.round(FUZZY_MATCH_THRESHOLD * 100)}%)`
+    : '';
+  return `Search pattern not found: "${searchFor.substring(0, 50)}..."${closest}`;
+}
+
+/**
+ * Apply an AST-based change to file content
+ */
+async function applyASTChange(content: string, change: DiffChange): Promise<string> {
+  // Required fields were checked by validateFileDiffs, so the shapes line up
+  const operation = change as unknown as ASTOperation;
   
   // Execute the AST operation
   const result = await executeASTOperation(content, operation);
@@ -234,17 +594,11 @@ function addImport(content: string, importStatement: string): string {
 }
 
 /**
- * Insert content after a search pattern
+ * Insert content after the line containing the matched anchor
  */
-function insertAfter(content: string, searchFor: string, insertContent: string): string {
-  const index = content.indexOf(searchFor);
-  
-  if (index === -1) {
-    throw new Error(`Search pattern not found: "${searchFor.substring(0, 50)}..."`);
-  }
-  
-  // Find the end of the line containing the search pattern
-  const endOfLine = content.indexOf('\n', index + searchFor.length);
+function insertAfter(content: string, match: AnchorMatch, insertContent: string): string {
+  // Find the end of the line containing the end of the match
+  const endOfLine = content.indexOf('\n', match.end);
   const insertPosition = endOfLine !== -1 ? endOfLine + 1 : content.length;
   
   // Handle escaped newlines in insertContent
@@ -257,17 +611,11 @@ function insertAfter(content: string, searchFor: string, insertContent: string):
 }
 
 /**
- * Insert content before a search pattern
+ * Insert content before the line containing the matched anchor
  */
-function insertBefore(content: string, searchFor: string, insertContent: string): string {
-  const index = content.indexOf(searchFor);
-  
-  if (index === -1) {
-    throw new Error(`Search pattern not found: "${searchFor.substring(0, 50)}..."`);
-  }
-  
-  // Find the start of the line containing the search pattern
-  let startOfLine = content.lastIndexOf('\n', index - 1) + 1;
+function insertBefore(content: string, match: AnchorMatch, insertContent: string): string {
+  // Find the start of the line containing the match
+  const startOfLine = content.lastIndexOf('\n', match.start - 1) + 1;
   
   // Handle escaped newlines in insertContent
   const processedContent = insertContent.replace(/\\n/g, '\n');
@@ -279,33 +627,23 @@ function insertBefore(content: string, searchFor: string, insertContent: string)
 }
 
 /**
- * Replace search pattern with new content
+ * Replace the matched anchor with new content
  */
-function replace(content: string, searchFor: string, replaceWith: string): string {
-  if (!content.includes(searchFor)) {
-    throw new Error(`Search pattern not found: "${searchFor.substring(0, 50)}..."`);
-  }
-  
+function replace(content: string, match: AnchorMatch, replaceWith: string): string {
   // Handle escaped characters
   const processedReplaceWith = replaceWith.replace(/\\n/g, '\n');
   
   // Replace first occurrence only (for safety)
-  return content.replace(searchFor, processedReplaceWith);
+  return content.substring(0, match.start) + processedReplaceWith + content.substring(match.end);
 }
 
 /**
- * Delete code matching search pattern
+ * Delete the line(s) containing the matched anchor
  */
-function deleteCode(content: string, searchFor: string): string {
-  const index = content.indexOf(searchFor);
-  
-  if (index === -1) {
-    throw new Error(`Search pattern not found: "${searchFor.substring(0, 50)}..."`);
-  }
-  
+function deleteCode(content: string, match: AnchorMatch): string {
   // Find the start and end of the line(s) to delete
-  const startOfLine = content.lastIndexOf('\n', index - 1) + 1;
-  const endOfLine = content.indexOf('\n', index + searchFor.length);
+  const startOfLine = content.lastIndexOf('\n', match.start - 1) + 1;
+  const endOfLine = content.indexOf('\n', match.end);
   const deleteEnd = endOfLine !== -1 ? endOfLine + 1 : content.length;
   
   return content.substring(0, startOfLine) + content.substring(deleteEnd);
@@ -330,59 +668,7 @@ function append(content: string, appendContent: string): string {
 export async function previewDiff(
   currentFiles: Array<{ path: string; content: string }>,
   diffs: FileDiff[]
-): Promise<{
-  path: string;
-  before: string;
-  after: string;
-  changes: Array<{ type: string; description: string }>;
-}[]> {
-  const previews: Array<{
-    path: string;
-    before: string;
-    after: string;
-    changes: Array<{ type: string; description: string }>;
-  }> = [];
-
+): Promise<FilePreview[]> {
   const result = await applyDiff(currentFiles, diffs, true);
-
-  for (const modifiedFile of result.modifiedFiles) {
-    const originalFile = currentFiles.find(f => f.path === modifiedFile.path);
-    const diff = diffs.find(d => d.path === modifiedFile.path);
-    
-    if (originalFile && diff) {
-      previews.push({
-        path: modifiedFile.path,
-        before: originalFile.content,
-        after: modifiedFile.content,
-        changes: diff.changes.map(change => ({
-          type: change.type,
-          description: getChangeDescription(change)
-        }))
-      });
-    }
-  }
-
-  return previews;
-}
-
-/**
- * Get human-readable description of a change
- */
-function getChangeDescription(change: DiffChange): string {
-  switch (change.type) {
-    case 'ADD_IMPORT':
-      return `Add import: ${change.content?.substring(0, 50)}...`;
-    case 'INSERT_AFTER':
-      return `Insert after: "${change.searchFor?.substring(0, 30)}..."`;
-    case 'INSERT_BEFORE':
-      return `Insert before: "${change.searchFor?.substring(0, 30)}..."`;
-    case 'REPLACE':
-      return `Replace: "${change.searchFor?.substring(0, 30)}..." with "${change.replaceWith?.substring(0, 30)}..."`;
-    case 'DELETE':
-      return `Delete: "${change.searchFor?.substring(0, 30)}..."`;
-    case 'APPEND':
-      return `Append to end of file`;
-    default:
-      return 'Unknown change';
-  }
+  return result.preview || [];
 }
@@ -1,5 +1,11 @@
 import { ASTModifier } from './astModifier';
 import type { ImportSpec, WrapperSpec, StateVariableSpec } from './astModifierTypes';
+import { planSymbolRename, planImporterRename, type RenameKind } from './symbolRenamer';
+import { resolveImportPath, relativeImportPath, isLocalSpecifier, normalizePath } from './importResolver';
+import { planComponentExtraction, formatExtractedImport, hasTypeAnnotations } from './extractionPlanner';
+import { findRemainingReferences } from './scopeAnalysis';
+import { cleanupCode, formatCleanupFinding, type CleanupMode } from './codeCleanup';
+import type Parser from 'tree-sitter';
 
 /**
  * AST Operation Types
@@ -140,9 +146,41 @@ export interface ASTExtractComponentOperation {
   type: 'AST_EXTRACT_COMPONENT';
   targetJSX: string;         // JSX code to extract or element selector
   componentName: string;     // New component name
-  componentFile?: string;    // File to create component in (default: same directory)
-  extractProps?: boolean;    // Auto-detect and extract props (default: true)
-  propTypes?: Record<string, string>; // Explicit prop types
+  componentFile?: string;    // File to create component in (default: <ComponentName>.tsx next to the source)
+  extractProps?: boolean;    // Pass free variables in as props (default: true)
+  propTypes?: Record<string, string>; // Types for inferred props (default: declared type, else any)
+}
+
+export interface ASTRenameSymbolOperation {
+  type: 'AST_RENAME_SYMBOL';
+  oldName: string;           // Current name (e.g., 'UserCard')
+  newName: string;           // New name (e.g., 'ProfileCard')
+  kind?: RenameKind;         // variable | function | component | prop (default: any declaration)
+  scope?: string;            // Enclosing function/component, when the name is declared more than once
+  component?: string;        // Component that owns the prop (kind: 'prop' only)
+}
+
+export interface ASTRemoveElementOperation {
+  type: 'AST_REMOVE_ELEMENT';
+  targetElement: string;     // JSX element to remove (first match)
+}
+
+export interface ASTRemoveHookOperation {
+  type: 'AST_REMOVE_HOOK';
+  hook: string;              // Hook to remove (e.g., 'useState', 'useEffect')
+  name?: string;             // A name the hook binds (e.g., 'count' or 'setCount')
+  contains?: string;         // Text inside the call, to pick one of several (e.g., a dependency)
+}
+
+export interface ASTRemoveFunctionOperation {
+  type: 'AST_REMOVE_FUNCTION';
+  name: string;              // Function or arrow function constant to remove
+}
+
+export interface ASTRemoveImportOperation {
+  type: 'AST_REMOVE_IMPORT';
+  source: string;            // Module the import is from
+  names?: string[];          // Names to drop (default: the whole import)
 }
 
 export type ASTOperation =
@@ -160,7 +198,12 @@ export type ASTOperation =
   | ASTAddReducerOperation
   | ASTAddContextProviderOperation
   | ASTAddZustandStoreOperation
-  | ASTExtractComponentOperation;
+  | ASTExtractComponentOperation
+  | ASTRenameSymbolOperation
+  | ASTRemoveElementOperation
+  | ASTRemoveHookOperation
+  | ASTRemoveFunctionOperation
+  | ASTRemoveImportOperation;
 
 /**
  * Result of executing an AST operation
@@ -170,6 +213,34 @@ export interface ASTExecutionResult {
   code?: string;
   errors?: string[];
   operation?: string; // Description of what was done
+  warnings?: string[]; // Cleanup findings (executeASTOperations with cleanup)
+}
+
+/**
+ * Options for executeASTOperations
+ */
+export interface ASTOperationsOptions {
+  cleanup?: CleanupMode;     // Dead-code pass after the last operation (default: 'off')
+  path?: string;             // File name for cleanup findings (default: 'App.tsx')
+}
+
+/**
+ * A project file as passed to applyDiff
+ */
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Result of an AST operation that may touch more than one file
+ */
+export interface ASTProjectExecutionResult {
+  success: boolean;
+  /** Every file whose content changed, including the target */
+  files?: ProjectFile[];
+  errors?: string[];
+  operation?: string;
 }
 
 /**
@@ -822,36 +893,240 @@ export async function executeASTOperation(
       }
 
       case 'AST_EXTRACT_COMPONENT': {
-        // Extract component from JSX
-        const componentName = operation.componentName;
-
-        // For now, generate a basic extracted component template
-        // In a real implementation, this would parse the targetJSX and extract variables
-        let componentCode = `import React from 'react';\n\n`;
-
-        // Add prop types if specified
-        if (operation.propTypes && Object.keys(operation.propTypes).length > 0) {
-          componentCode += `interface ${componentName}Props {\n`;
-          for (const [propName, propType] of Object.entries(operation.propTypes)) {
-            componentCode += `  ${propName}: ${propType};\n`;
-          }
-          componentCode += `}\n\n`;
-
-          componentCode += `export function ${componentName}(props: ${componentName}Props) {\n`;
+        if (!tree) {
+          return { success: false, errors: ['Failed to parse code'] };
+        }
+        
+        // Without a project the component stays in this file, next to its imports
+        const plan = planComponentExtraction(tree.rootNode, operation, {
+          typescript: hasTypeAnnotations(tree.rootNode)
+        });
+        if (plan.errors.length > 0) {
+          return { success: false, errors: plan.errors };
+        }
+        
+        modifier.replaceRanges([
+          { start: plan.start, end: plan.end, newCode: plan.usage },
+          { start: code.length, end: code.length, newCode: `${code.endsWith('\n') ? '' : '\n'}\n${plan.componentCode.replace(/^export /m, '')}` }
+        ], `Extract ${operation.componentName}`);
+        
+        const result = await modifier.generate();
+        
+        if (result.success) {
+          return {
+            success: true,
+            code: result.code,
+            operation: `Extracted component: ${operation.componentName}${plan.props.length > 0 ? ` (props: ${plan.props.join(', ')})` : ''}`
+          };
         } else {
-          componentCode += `export function ${componentName}() {\n`;
+          return {
+            success: false,
+            errors: result.errors
+          };
         }
+      }
 
-        componentCode += `  return (\n`;
-        componentCode += `    ${operation.targetJSX}\n`;
-        componentCode += `  );\n`;
-        componentCode += `}\n`;
+      case 'AST_RENAME_SYMBOL': {
+        if (!tree) {
+          return { success: false, errors: ['Failed to parse code'] };
+        }
+        
+        // Plan edits for every reference resolving to the declaration
+        const plan = planSymbolRename(tree.rootNode, operation);
+        if (plan.errors.length > 0) {
+          return { success: false, errors: plan.errors };
+        }
+        
+        modifier.replaceRanges(plan.edits, `Rename ${operation.oldName} to ${operation.newName}`);
+        
+        const result = await modifier.generate();
+        
+        if (result.success) {
+          return {
+            success: true,
+            code: result.code,
+            operation: `Renamed ${operation.kind === 'prop' ? `prop ${operation.component}.` : ''}${operation.oldName} to ${operation.newName} (${plan.edits.length} occurrences)`
+          };
+        } else {
+          return {
+            success: false,
+            errors: result.errors
+          };
+        }
+      }
 
-        return {
-          success: true,
-          code: componentCode,
-          operation: `Extracted component: ${componentName}`
-        };
+      case 'AST_REMOVE_ELEMENT': {
+        const element = parser.findComponent(tree, operation.targetElement);
+        
+        if (!element) {
+          return {
+            success: false,
+            errors: [`Could not find JSX element: ${operation.targetElement}`]
+          };
+        }
+        
+        modifier.removeElement(element).pruneUnusedImports();
+        
+        const result = await modifier.generate();
+        
+        if (result.success) {
+          return {
+            success: true,
+            code: result.code,
+            operation: `Removed <${operation.targetElement}>`
+          };
+        } else {
+          return {
+            success: false,
+            errors: result.errors
+          };
+        }
+      }
+      
+      case 'AST_REMOVE_HOOK': {
+        if (!tree) {
+          return { success: false, errors: ['Failed to parse code'] };
+        }
+        
+        const calls = operation.hook === 'useState'
+          ? parser.findStateVariables(tree).map(v => ({ names: [v.stateVar, v.setterVar], node: v.node }))
+          : parser.findHookCalls(tree, operation.hook);
+        
+        const matches = calls.filter(call =>
+          (!operation.name || call.names.includes(operation.name)) &&
+          (!operation.contains || call.node.text.includes(operation.contains))
+        );
+        
+        if (matches.length === 0) {
+          return {
+            success: false,
+            errors: [`Could not find ${operation.hook} call${operation.name ? ` for ${operation.name}` : ''}`]
+          };
+        }
+        if (matches.length > 1) {
+          return {
+            success: false,
+            errors: [`${matches.length} ${operation.hook} calls match - specify "name" or "contains" to pick one`]
+          };
+        }
+        
+        const danglingError = describeRemainingReferences(tree.rootNode, matches[0].names, matches[0].node);
+        if (danglingError) {
+          return { success: false, errors: [danglingError] };
+        }
+        
+        modifier.removeNode(matches[0].node, `Remove ${operation.hook}`).pruneUnusedImports();
+        
+        const result = await modifier.generate();
+        
+        if (result.success) {
+          return {
+            success: true,
+            code: result.code,
+            operation: `Removed ${operation.hook}${matches[0].names.length > 0 ? ` (${matches[0].names.join(', ')})` : ''}`
+          };
+        } else {
+          return {
+            success: false,
+            errors: result.errors
+          };
+        }
+      }
+      
+      case 'AST_REMOVE_FUNCTION': {
+        if (!tree) {
+          return { success: false, errors: ['Failed to parse code'] };
+        }
+        
+        const match = parser.findFunction(tree, operation.name);
+        
+        if (!match) {
+          return {
+            success: false,
+            errors: [`Could not find function: ${operation.name}`]
+          };
+        }
+        
+        const danglingError = describeRemainingReferences(
+          tree.rootNode,
+          [operation.name],
+          match.declarator || match.node
+        );
+        if (danglingError) {
+          return { success: false, errors: [danglingError] };
+        }
+        
+        modifier.removeFunction(operation.name).pruneUnusedImports();
+        
+        const result = await modifier.generate();
+        
+        if (result.success) {
+          return {
+            success: true,
+            code: result.code,
+            operation: `Removed function ${operation.name}`
+          };
+        } else {
+          return {
+            success: false,
+            errors: result.errors
+          };
+        }
+      }
+      
+      case 'AST_REMOVE_IMPORT': {
+        if (!tree) {
+          return { success: false, errors: ['Failed to parse code'] };
+        }
+        
+        const importNode = parser.findImports(tree)
+          .find(node => parser.getImportInfo(node)?.source === operation.source);
+        
+        if (!importNode) {
+          return {
+            success: false,
+            errors: [`Could not find import from ${operation.source}`]
+          };
+        }
+        
+        const info = parser.getImportInfo(importNode)!;
+        const bound = info.imports.map(i => i.alias || i.name);
+        const names = operation.names && operation.names.length > 0
+          ? operation.names
+          : bound;
+        const missing = names.filter(name => !bound.includes(name) && !info.imports.some(i => i.name === name));
+        if (missing.length > 0) {
+          return {
+            success: false,
+            errors: [`Import from ${operation.source} has no ${missing.join(', ')}`]
+          };
+        }
+        
+        // Check the local names: `Icon as StarIcon` is used as StarIcon
+        const localNames = info.imports
+          .filter(i => names.includes(i.name) || names.includes(i.alias || i.name))
+          .map(i => i.alias || i.name);
+        const danglingError = describeRemainingReferences(tree.rootNode, localNames, importNode);
+        if (danglingError) {
+          return { success: false, errors: [danglingError] };
+        }
+        
+        modifier.removeImport(operation.source, operation.names);
+        
+        const result = await modifier.generate();
+        
+        if (result.success) {
+          return {
+            success: true,
+            code: result.code,
+            operation: `Removed ${operation.names?.length ? operation.names.join(', ') : 'import'} from ${operation.source}`
+          };
+        } else {
+          return {
+            success: false,
+            errors: result.errors
+          };
+        }
       }
 
       default:
@@ -872,16 +1147,30 @@ export async function executeASTOperation(
   }
 }
 
+/**
+ * Error for a removal that would leave uses of the removed names behind, or null
+ */
+function describeRemainingReferences(root: Parser.SyntaxNode, names: string[], removed: Parser.SyntaxNode): string | null {
+  const remaining = findRemainingReferences(root, names, removed);
+  if (remaining.length === 0) {
+    return null;
+  }
+  const uses = remaining.map(r => `${r.name} (line ${r.line})`).join(', ');
+  return `Still used after removal: ${uses} - remove or replace those uses first`;
+}
+
 /**
  * Execute multiple AST operations in sequence
  * 
  * @param code - The source code to modify
  * @param operations - Array of AST operations to perform
+ * @param options - Optional cleanup pass over the result
  * @returns Result with final modified code or errors
  */
 export async function executeASTOperations(
   code: string,
-  operations: ASTOperation[]
+  operations: ASTOperation[],
+  options: ASTOperationsOptions = {}
 ): Promise<ASTExecutionResult> {
   let currentCode = code;
   const appliedOperations: string[] = [];
@@ -905,13 +1194,189 @@ export async function executeASTOperations(
     }
   }
   
+  // Drop (or report) what the operations left unreferenced
+  const cleanup = await cleanupCode(options.path || 'App.tsx', currentCode, options.cleanup || 'off');
+  
   return {
     success: true,
-    code: currentCode,
-    operation: appliedOperations.join('; ')
+    code: cleanup.content,
+    operation: appliedOperations.join('; '),
+    ...(cleanup.findings.length > 0 && { warnings: cleanup.findings.map(formatCleanupFinding) })
   };
 }
 
+/**
+ * Rename a symbol in the file that declares it and update the other project
+ * files that import it: named/default/namespace imports, re-exports and,
+ * for prop renames, JSX attributes on the component.
+ * 
+ * @param files - All project files (the target file included)
+ * @param targetPath - File that declares the symbol
+ * @param operation - The rename to perform
+ * @returns Every changed file, or errors if any file could not be updated
+ */
+export async function executeRenameAcrossFiles(
+  files: ProjectFile[],
+  targetPath: string,
+  operation: ASTRenameSymbolOperation
+): Promise<ASTProjectExecutionResult> {
+  const target = files.find(f => f.path === targetPath);
+  if (!target) {
+    return { success: false, errors: [`File not found: ${targetPath}`] };
+  }
+  
+  try {
+    const modifier = new ASTModifier(target.content);
+    await modifier.initialize();
+    
+    const plan = planSymbolRename(modifier.getTree()!.rootNode, operation);
+    if (plan.errors.length > 0) {
+      return { success: false, errors: plan.errors };
+    }
+    
+    modifier.replaceRanges(plan.edits, `Rename ${operation.oldName} to ${operation.newName}`);
+    const targetResult = await modifier.generate();
+    if (!targetResult.success) {
+      return { success: false, errors: targetResult.errors };
+    }
+    
+    const changed: ProjectFile[] = [{ path: targetPath, content: targetResult.code! }];
+    
+    // Nothing outside this file can refer to a symbol that isn't exported
+    if (!plan.exported.named && !plan.exported.default) {
+      return { success: true, files: changed, operation: `Renamed ${operation.oldName} to ${operation.newName} in ${targetPath}` };
+    }
+    
+    const paths = files.map(f => f.path);
+    const needle = operation.kind === 'prop' ? operation.component || operation.oldName : operation.oldName;
+    
+    for (const file of files) {
+      if (file.path === targetPath || !/\.(tsx?|jsx?|mjs|cjs)$/.test(file.path) || !file.content.includes(needle)) {
+        continue;
+      }
+      
+      const importer = new ASTModifier(file.content);
+      await importer.initialize();
+      
+      const edits = planImporterRename(
+        importer.getTree()!.rootNode,
+        operation,
+        source => resolveImportPath(file.path, source, paths) === targetPath,
+        plan.exported
+      );
+      if (edits.length === 0) continue;
+      
+      importer.replaceRanges(edits, `Update references to ${operation.oldName}`);
+      const result = await importer.generate();
+      if (!result.success) {
+        return {
+          success: false,
+          errors: [`Could not update ${file.path}`, ...(result.errors || [])]
+        };
+      }
+      changed.push({ path: file.path, content: result.code! });
+    }
+    
+    return {
+      success: true,
+      files: changed,
+      operation: `Renamed ${operation.oldName} to ${operation.newName} in ${changed.length} file(s)`
+    };
+    
+  } catch (error) {
+    return {
+      success: false,
+      errors: [
+        'AST operation failed',
+        error instanceof Error ? error.message : String(error)
+      ]
+    };
+  }
+}
+
+/**
+ * Extract a JSX subtree into its own component file and rewire the source:
+ * the subtree becomes `<ComponentName ... />` and the new file is imported.
+ * Names the subtree borrows from the enclosing component become props;
+ * imports it uses are copied over with relative paths adjusted.
+ * 
+ * @param files - All project files (the source file included)
+ * @param targetPath - File containing the JSX to extract
+ * @param operation - The extraction to perform
+ * @returns The rewired source file and the created component file
+ */
+export async function executeExtractComponent(
+  files: ProjectFile[],
+  targetPath: string,
+  operation: ASTExtractComponentOperation
+): Promise<ASTProjectExecutionResult> {
+  const target = files.find(f => f.path === targetPath);
+  if (!target) {
+    return { success: false, errors: [`File not found: ${targetPath}`] };
+  }
+  
+  const dir = targetPath.includes('/') ? targetPath.slice(0, targetPath.lastIndexOf('/') + 1) : '';
+  const componentPath = operation.componentFile
+    ? normalizePath(operation.componentFile)
+    : `${dir}${operation.componentName}${/\.tsx?$/.test(targetPath) ? '.tsx' : '.jsx'}`;
+  
+  if (files.some(f => normalizePath(f.path) === componentPath)) {
+    return { success: false, errors: [`Cannot create ${componentPath}: file already exists`] };
+  }
+  
+  try {
+    const modifier = new ASTModifier(target.content);
+    await modifier.initialize();
+    
+    const plan = planComponentExtraction(modifier.getTree()!.rootNode, operation, {
+      typescript: /\.tsx?$/.test(componentPath)
+    });
+    if (plan.errors.length > 0) {
+      return { success: false, errors: plan.errors };
+    }
+    
+    // Relative imports must now be relative to the new file
+    const imports = plan.imports.map(spec => {
+      const source = isLocalSpecifier(spec.source) && spec.source.startsWith('.')
+        ? relativeImportPath(componentPath, normalizePath(`${dir}${spec.source}`))
+        : spec.source;
+      return formatExtractedImport(spec, source);
+    });
+    const componentCode = imports.length > 0
+      ? `${imports.join('\n')}\n\n${plan.componentCode}`
+      : plan.componentCode;
+    
+    modifier.replaceRanges([{ start: plan.start, end: plan.end, newCode: plan.usage }], `Extract ${operation.componentName}`);
+    modifier.addImport({
+      source: relativeImportPath(targetPath, componentPath),
+      namedImports: [operation.componentName]
+    });
+    
+    const result = await modifier.generate();
+    if (!result.success) {
+      return { success: false, errors: result.errors };
+    }
+    
+    return {
+      success: true,
+      files: [
+        { path: targetPath, content: result.code! },
+        { path: componentPath, content: componentCode }
+      ],
+      operation: `Extracted ${operation.componentName} into ${componentPath}${plan.props.length > 0 ? ` (props: ${plan.props.join(', ')})` : ''}`
+    };
+    
+  } catch (error) {
+    return {
+      success: false,
+      errors: [
+        'AST operation failed',
+        error instanceof Error ? error.message : String(error)
+      ]
+    };
+  }
+}
+
 /**
  * Check if an operation is an AST operation
  */
@@ -1,5 +1,6 @@
 import Parser from 'tree-sitter';
 import { CodeParser } from './treeSitterParser';
+import { descendants } from './scopeAnalysis';
 import type {
   Modification,
   ImportSpec,
@@ -39,6 +40,8 @@ export class ASTModifier {
   private modifications: Modification[] = [];
   private imports: Map<string, ImportSpec> = new Map();
   private scheduledImportUpdates: Set<string> = new Set();
+  /** Original ranges of code removed so far, for pruneUnusedImports() */
+  private removedRanges: Array<{ start: number; end: number }> = [];
   private options: Required<ASTModifierOptions>;
 
   constructor(code: string, options: ASTModifierOptions = {}) {
@@ -181,8 +184,12 @@ export class ASTModifier {
       const lastImport = existingImports[existingImports.length - 1];
       insertPosition = lastImport.endIndex;
       
-      // Check if there's already a newline after the last import
-      needsNewline = this.originalCode[insertPosition] !== '\n';
+      // Start on the line after the last import, or open one if it has none
+      if (this.originalCode[insertPosition] === '\n') {
+        insertPosition++;
+      } else {
+        needsNewline = true;
+      }
     }
     
     // Build the code to insert with proper newlines
@@ -1299,6 +1306,267 @@ export class ASTModifier {
     return this;
   }
 
+  /**
+   * Remove a JSX element. `{show && <Modal />}` is removed as a whole; an
+   * element that is the entire value of an expression (`return <X />`, a
+   * ternary branch) becomes `null` so the surrounding code still parses.
+   */
+  removeElement(elementNode: Parser.SyntaxNode): this {
+    if (!this.tree) return this;
+    
+    let target = elementNode;
+    if (target.parent?.type === 'binary_expression' && target.parent.parent?.type === 'jsx_expression') {
+      target = target.parent.parent;
+    }
+    
+    if (target.parent?.type === 'jsx_element') {
+      return this.removeNode(target, 'Remove JSX element');
+    }
+    
+    if (target.parent?.type === 'parenthesized_expression') {
+      target = target.parent;
+    }
+    this.modifications.push({
+      type: 'replace',
+      start: target.startIndex,
+      end: target.endIndex,
+      newCode: 'null',
+      priority: 600,
+      description: 'Replace JSX element with null'
+    });
+    this.removedRanges.push({ start: target.startIndex, end: target.endIndex });
+    
+    return this;
+  }
+
+  /**
+   * Remove a function declaration or `const name = () => {}` (with its export)
+   */
+  removeFunction(name: string): this {
+    if (!this.tree) return this;
+    
+    const match = this.parser.findFunction(this.tree, name);
+    if (!match) {
+      console.warn(`Could not find function ${name}`);
+      return this;
+    }
+    
+    if (match.type === 'function_declaration') {
+      const node = match.node.parent?.type === 'export_statement' ? match.node.parent : match.node;
+      return this.removeNode(node, `Remove function ${name}`);
+    }
+    
+    // const a = 1, handler = () => {} - remove just this declarator and its comma
+    const declarator = match.declarator!;
+    const declaration = declarator.parent!;
+    const declarators = declaration.namedChildren.filter(c => c.type === 'variable_declarator');
+    if (declarators.length > 1) {
+      const index = declarators.findIndex(d => d.startIndex === declarator.startIndex);
+      const start = index < declarators.length - 1 ? declarator.startIndex : declarators[index - 1].endIndex;
+      const end = index < declarators.length - 1 ? declarators[index + 1].startIndex : declarator.endIndex;
+      this.modifications.push({
+        type: 'delete',
+        start,
+        end,
+        newCode: '',
+        priority: 600,
+        description: `Remove function ${name}`
+      });
+      this.removedRanges.push({ start: declarator.startIndex, end: declarator.endIndex });
+      return this;
+    }
+    
+    const node = declaration.parent?.type === 'export_statement' ? declaration.parent : declaration;
+    return this.removeNode(node, `Remove function ${name}`);
+  }
+
+  /**
+   * Remove an import statement, or only the given names from it
+   * (local or imported names: 'Button', 'Icon as StarIcon' -> 'Icon' or 'StarIcon')
+   */
+  removeImport(source: string, names?: string[]): this {
+    if (!this.tree) return this;
+    
+    const importNode = this.parser.findImports(this.tree)
+      .find(node => this.parser.getImportInfo(node)?.source === source);
+    if (!importNode) {
+      console.warn(`Could not find import from ${source}`);
+      return this;
+    }
+    
+    if (!names || names.length === 0) {
+      this.imports.delete(source);
+      return this.removeNode(importNode, `Remove import from ${source}`);
+    }
+    
+    const kept = this.importBindings(importNode).filter(b => !names.includes(b.local) && !names.includes(b.imported));
+    return this.rewriteImport(importNode, source, kept, `Remove ${names.join(', ')} from ${source} import`);
+  }
+
+  /**
+   * Remove a statement or declaration, taking its line with it when nothing
+   * else is on that line
+   */
+  removeNode(node: Parser.SyntaxNode, description?: string): this {
+    const code = this.originalCode;
+    let start = node.startIndex;
+    let end = node.endIndex;
+    
+    const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+    const newline = code.indexOf('\n', end);
+    const lineEnd = newline === -1 ? code.length : newline;
+    
+    if (!code.slice(lineStart, start).trim() && !code.slice(end, lineEnd).trim()) {
+      start = lineStart;
+      end = newline === -1 ? code.length : newline + 1;
+      
+      // Don't leave two blank lines where the node used to be
+      const nextNewline = code.indexOf('\n', end);
+      const nextLineBlank = nextNewline !== -1 && !code.slice(end, nextNewline).trim();
+      const previousLineBlank = start === 0 || !code.slice(code.lastIndexOf('\n', start - 2) + 1, start - 1).trim();
+      if (nextLineBlank && previousLineBlank) {
+        end = nextNewline + 1;
+      }
+    }
+    
+    this.modifications.push({
+      type: 'delete',
+      start,
+      end,
+      newCode: '',
+      priority: 600,
+      description
+    });
+    this.removedRanges.push({ start: node.startIndex, end: node.endIndex });
+    
+    return this;
+  }
+
+  /**
+   * Drop imported names whose every use is inside code removed by this
+   * modifier. Imports that were already unused are left alone, as is React
+   * (the classic JSX runtime needs it in scope).
+   */
+  pruneUnusedImports(): this {
+    if (!this.tree || this.removedRanges.length === 0) return this;
+    
+    const isRemoved = (node: Parser.SyntaxNode) =>
+      this.removedRanges.some(r => node.startIndex >= r.start && node.endIndex <= r.end);
+    
+    const usedInside = new Set<string>();
+    const usedOutside = new Set<string>();
+    for (const node of descendants(this.tree.rootNode)) {
+      if (node.type !== 'identifier' && node.type !== 'type_identifier' && node.type !== 'shorthand_property_identifier') {
+        continue;
+      }
+      let inImport = false;
+      for (let p = node.parent; p; p = p.parent) {
+        if (p.type === 'import_statement') inImport = true;
+      }
+      if (inImport) continue;
+      (isRemoved(node) ? usedInside : usedOutside).add(node.text);
+    }
+    
+    for (const importNode of this.parser.findImports(this.tree)) {
+      // Leave imports that another modification already touches
+      if (this.modifications.some(m => m.start < importNode.endIndex && m.end > importNode.startIndex)) continue;
+      
+      const bindings = this.importBindings(importNode);
+      const kept = bindings.filter(b =>
+        b.local === 'React' || !usedInside.has(b.local) || usedOutside.has(b.local)
+      );
+      if (kept.length < bindings.length) {
+        const source = this.parser.getImportInfo(importNode)?.source || '';
+        this.rewriteImport(importNode, source, kept, `Prune unused imports from ${source}`);
+      }
+    }
+    
+    return this;
+  }
+
+  /**
+   * Names bound by an import statement
+   */
+  private importBindings(importNode: Parser.SyntaxNode): Array<{
+    kind: 'default' | 'namespace' | 'named';
+    local: string;
+    imported: string;
+    text: string;
+  }> {
+    const bindings: Array<{ kind: 'default' | 'namespace' | 'named'; local: string; imported: string; text: string }> = [];
+    const clause = importNode.namedChildren.find(c => c.type === 'import_clause');
+    if (!clause) return bindings;
+    
+    for (const child of clause.namedChildren) {
+      if (child.type === 'identifier') {
+        bindings.push({ kind: 'default', local: child.text, imported: 'default', text: child.text });
+      } else if (child.type === 'namespace_import') {
+        const name = child.namedChildren.find(c => c.type === 'identifier')?.text || '';
+        bindings.push({ kind: 'namespace', local: name, imported: '*', text: name });
+      } else if (child.type === 'named_imports') {
+        for (const spec of child.namedChildren.filter(c => c.type === 'import_specifier')) {
+          const imported = spec.childForFieldName('name')?.text || '';
+          const local = spec.childForFieldName('alias')?.text || imported;
+          bindings.push({ kind: 'named', local, imported, text: spec.text });
+        }
+      }
+    }
+    
+    return bindings;
+  }
+
+  /**
+   * Replace an import statement with one binding only `bindings`, or remove it if none are left
+   */
+  private rewriteImport(
+    importNode: Parser.SyntaxNode,
+    source: string,
+    bindings: ReturnType<ASTModifier['importBindings']>,
+    description: string
+  ): this {
+    if (bindings.length === 0) {
+      this.imports.delete(source);
+      return this.removeNode(importNode, description);
+    }
+    
+    const spec: ImportSpec = {
+      source,
+      defaultImport: bindings.find(b => b.kind === 'default')?.local,
+      namespaceImport: bindings.find(b => b.kind === 'namespace')?.local,
+      namedImports: bindings.filter(b => b.kind === 'named').map(b => b.text)
+    };
+    this.imports.set(source, spec);
+    
+    this.modifications.push({
+      type: 'replace',
+      start: importNode.startIndex,
+      end: importNode.endIndex,
+      newCode: this.generateImportCode(spec),
+      priority: 1000,
+      description
+    });
+    
+    return this;
+  }
+
+  /**
+   * Replace arbitrary ranges of the original code (e.g. planned rename edits)
+   */
+  replaceRanges(edits: Array<{ start: number; end: number; newCode: string }>, description?: string): this {
+    for (const edit of edits) {
+      this.modifications.push({
+        type: 'replace',
+        start: edit.start,
+        end: edit.end,
+        newCode: edit.newCode,
+        priority: 700,
+        description
+      });
+    }
+    
+    return this;
+  }
+
   /**
    * Get position info for a node
    */
@@ -1459,6 +1727,7 @@ export class ASTModifier {
     this.modifications = [];
     this.imports.clear();
     this.scheduledImportUpdates.clear();
+    this.removedRanges = [];
     this.tree = null;
     this.extractExistingImports();
   }
@@ -0,0 +1,300 @@
+/**
+ * Background Jobs
+ *
+ * Long-running AI operations (full-app generation, multi-file refactors,
+ * code review, performance analysis) run as jobs instead of inside one HTTP
+ * request: POST /api/jobs creates a job and returns its ID straight away,
+ * an in-process worker runs it, and clients follow it with
+ * GET /api/jobs/:id or the SSE stream at /api/jobs/:id/events.
+ *
+ * Every status change is a compare-and-set (`transition`), so a job that was
+ * cancelled while running is never overwritten by its late result, even
+ * when the cancel came through another server instance. Cancelling aborts
+ * the job's signal, which the handlers pass on to the model call.
+ *
+ * The worker runs in the POST request's after() callback, so on serverless
+ * hosts a job shares that invocation's time limit (see maxDuration in
+ * app/api/jobs/route.ts). While a job is queued or running its worker sends
+ * a heartbeat; a job whose worker was cut off stops sending it and is marked
+ * failed the next time it is read (getJob).
+ *
+ * Configuration:
+ *   JOB_STORE        memory | supabase (default: memory)
+ *   JOB_CONCURRENCY  jobs run at once per server process (default 2)
+ *
+ * Handlers live in app/api/jobs/handlers.ts.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type JobType = 'full-app' | 'multi-file-refactor' | 'code-review' | 'performance-optimize';
+
+export const JOB_TYPES: JobType[] = ['full-app', 'multi-file-refactor', 'code-review', 'performance-optimize'];
+
+export type JobStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  message: string;
+  at: string;
+}
+
+export interface BackgroundJob {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  /** Request body the job was created with */
+  input: unknown;
+  progress: JobProgress[];
+  /** Latest partial result reported by the handler */
+  partialResult?: unknown;
+  result?: unknown;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type JobFields = Partial<Pick<BackgroundJob, 'result' | 'error' | 'startedAt' | 'finishedAt'>>;
+
+export interface BackgroundJobStore {
+  create(type: JobType, input: unknown): Promise<BackgroundJob>;
+  get(id: string): Promise<BackgroundJob | null>;
+  /**
+   * Move a job to `to` only if its status is one of `from`
+   *
+   * @returns Whether the job changed
+   */
+  transition(id: string, from: JobStatus[], to: JobStatus, fields?: JobFields): Promise<boolean>;
+  addProgress(id: string, progress: JobProgress, partialResult?: unknown): Promise<void>;
+  /** Bump updatedAt of a queued or running job - its worker is still alive */
+  heartbeat(id: string): Promise<void>;
+}
+
+/** How often a worker marks its job as alive */
+export const JOB_HEARTBEAT_MS = 30 * 1000;
+
+/** Unfinished jobs without a heartbeat for this long are marked failed */
+export const JOB_STALE_MS = 2 * 60 * 1000;
+
+export interface JobContext {
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  /** Record a progress message and optionally the result so far */
+  report(message: string, partialResult?: unknown): Promise<void>;
+}
+
+export type JobHandler = (input: any, context: JobContext) => Promise<unknown>;
+
+/**
+ * Events sent by GET /api/jobs/:id/events. Progress events carry the id
+ * `<progress count>`, so `Last-Event-ID` skips progress already seen.
+ */
+export type JobStreamEvent =
+  | { type: 'status'; status: JobStatus }
+  | { type: 'progress'; message: string; at: string; partialResult?: unknown }
+  | { type: 'done'; job: BackgroundJob }
+  | { type: 'error'; message: string };
+
+export function isFinished(status: JobStatus): boolean {
+  return status === 'complete' || status === 'failed' || status === 'cancelled';
+}
+
+export function isJobType(value: unknown): value is JobType {
+  return JOB_TYPES.includes(value as JobType);
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+/** Finished jobs are dropped after this long */
+const MEMORY_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class MemoryBackgroundJobStore implements BackgroundJobStore {
+  private jobs = new Map<string, BackgroundJob>();
+
+  async create(type: JobType, input: unknown): Promise<BackgroundJob> {
+    this.prune();
+    const now = new Date().toISOString();
+    const job: BackgroundJob = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      input,
+      progress: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return structuredClone(job);
+  }
+
+  async get(id: string): Promise<BackgroundJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async transition(id: string, from: JobStatus[], to: JobStatus, fields: JobFields = {}): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || !from.includes(job.status)) return false;
+    Object.assign(job, structuredClone(fields), { status: to, updatedAt: new Date().toISOString() });
+    return true;
+  }
+
+  async addProgress(id: string, progress: JobProgress, partialResult?: unknown): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Job ${id} not found`);
+    job.progress.push(progress);
+    if (partialResult !== undefined) job.partialResult = structuredClone(partialResult);
+    job.updatedAt = new Date().toISOString();
+  }
+
+  async heartbeat(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job && !isFinished(job.status)) {
+      job.updatedAt = new Date().toISOString();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - MEMORY_JOB_TTL_MS;
+    this.jobs.forEach((job, id) => {
+      if (isFinished(job.status) && Date.parse(job.updatedAt) < cutoff) this.jobs.delete(id);
+    });
+  }
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let store: BackgroundJobStore | null = null;
+
+export async function getBackgroundJobStore(): Promise<BackgroundJobStore> {
+  if (!store) {
+    if (process.env.JOB_STORE === 'supabase') {
+      // Imported lazily - it pulls in the cookie-bound server client
+      const { SupabaseBackgroundJobStore } = await import('./db/jobs');
+      store = new SupabaseBackgroundJobStore();
+    } else {
+      store = new MemoryBackgroundJobStore();
+    }
+  }
+  return store;
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+let runningJobs = 0;
+const waitingJobs: Array<() => void> = [];
+/** Abort controllers of the jobs running in this process */
+const controllers = new Map<string, AbortController>();
+
+function jobConcurrency(): number {
+  const configured = parseInt(process.env.JOB_CONCURRENCY || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : 2;
+}
+
+async function acquireSlot(): Promise<void> {
+  if (runningJobs < jobConcurrency()) {
+    runningJobs++;
+    return;
+  }
+  // The releasing job hands its slot over directly
+  await new Promise<void>(resolve => waitingJobs.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingJobs.shift();
+  if (next) next();
+  else runningJobs--;
+}
+
+/**
+ * Run a queued job to completion
+ *
+ * Waits for a free worker slot first; a job cancelled while waiting never
+ * starts. Resolves once the job has finished - never rejects.
+ */
+export async function runJob(id: string, handler: JobHandler, jobStore?: BackgroundJobStore): Promise<void> {
+  const jobs = jobStore || await getBackgroundJobStore();
+  const heartbeat = setInterval(() => {
+    jobs.heartbeat(id).catch(error => console.error(`❌ Job ${id} heartbeat failed:`, error));
+  }, JOB_HEARTBEAT_MS);
+  await acquireSlot();
+
+  const controller = new AbortController();
+  try {
+    if (!(await jobs.transition(id, ['queued'], 'running', { startedAt: new Date().toISOString() }))) {
+      return;
+    }
+    controllers.set(id, controller);
+    const job = (await jobs.get(id))!;
+    console.log(`🛠️ Job ${id} (${job.type}) started`);
+
+    const context: JobContext = {
+      signal: controller.signal,
+      report: async (message, partialResult) => {
+        if (controller.signal.aborted) return;
+        await jobs.addProgress(id, { message, at: new Date().toISOString() }, partialResult);
+      },
+    };
+
+    try {
+      const result = await handler(job.input, context);
+      await jobs.transition(id, ['running'], 'complete', { result, finishedAt: new Date().toISOString() });
+      console.log(`✅ Job ${id} complete`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Job failed';
+      await jobs.transition(id, ['running'], 'failed', { error: message, finishedAt: new Date().toISOString() });
+      console.error(`❌ Job ${id} failed:`, message);
+    }
+  } catch (error) {
+    // Store errors - nothing more can be recorded
+    console.error(`❌ Job ${id} could not be run:`, error);
+  } finally {
+    clearInterval(heartbeat);
+    controllers.delete(id);
+    releaseSlot();
+  }
+}
+
+/**
+ * Read a job, failing it first if its worker has stopped sending heartbeats
+ *
+ * @returns The job, or null if it doesn't exist
+ */
+export async function getJob(id: string, jobStore?: BackgroundJobStore): Promise<BackgroundJob | null> {
+  const jobs = jobStore || await getBackgroundJobStore();
+  const job = await jobs.get(id);
+  if (!job || isFinished(job.status) || Date.now() - Date.parse(job.updatedAt) < JOB_STALE_MS) {
+    return job;
+  }
+
+  const failed = await jobs.transition(id, [job.status], 'failed', {
+    error: 'The job stopped responding - its server may have timed out or restarted',
+    finishedAt: new Date().toISOString(),
+  });
+  if (failed) {
+    console.error(`❌ Job ${id} failed: no heartbeat since ${job.updatedAt}`);
+  }
+  return jobs.get(id);
+}
+
+/**
+ * Cancel a queued or running job
+ *
+ * @returns The job after cancelling, or null if it doesn't exist
+ */
+export async function cancelJob(id: string, jobStore?: BackgroundJobStore): Promise<BackgroundJob | null> {
+  const jobs = jobStore || await getBackgroundJobStore();
+  const cancelled = await jobs.transition(id, ['queued', 'running'], 'cancelled', { finishedAt: new Date().toISOString() });
+  if (cancelled) {
+    controllers.get(id)?.abort();
+    console.log(`🛑 Job ${id} cancelled`);
+  }
+  return jobs.get(id);
+}
@@ -0,0 +1,224 @@
+import type Parser from 'tree-sitter';
+import { ASTModifier } from './astModifier';
+import { findRemainingReferences, descendants } from './scopeAnalysis';
+
+/**
+ * Code Cleanup - post-modification pass for dead code
+ *
+ * Modifications often leave behind what they stopped using. This pass finds:
+ *   - unused default / named / namespace imports
+ *   - useState pairs where neither the value nor the setter is referenced
+ *   - functions (declarations and `const fn = () => {}`) nobody references
+ *     and that are not exported
+ *
+ * 'warn' reports them; 'remove' deletes them through ASTModifier, repeating
+ * until nothing new turns up (removing a function can orphan an import).
+ * Opt-in via BuilderSettings.quality.postModificationCleanup.
+ */
+
+type Node = Parser.SyntaxNode;
+
+export type CleanupMode = 'off' | 'warn' | 'remove';
+
+export const CLEANUP_MODES: readonly CleanupMode[] = ['off', 'warn', 'remove'];
+
+export function isCleanupMode(value: unknown): value is CleanupMode {
+  return typeof value === 'string' && (CLEANUP_MODES as readonly string[]).includes(value);
+}
+
+export type CleanupKind = 'import' | 'state' | 'function';
+
+export interface CleanupFinding {
+  path: string;
+  kind: CleanupKind;
+  name: string;
+  /** 1-based line in the content the finding was made on */
+  line: number;
+  /** True when the 'remove' pass deleted it */
+  removed: boolean;
+}
+
+export interface CleanupResult {
+  content: string;
+  findings: CleanupFinding[];
+}
+
+/** Files the cleanup pass understands */
+export const CLEANUP_EXTENSIONS = /\.(tsx?|jsx?)$/;
+
+/** Removal passes before giving up on cascades */
+const MAX_PASSES = 3;
+
+/**
+ * Find (and with mode 'remove', delete) dead imports, state and functions in one file
+ */
+export async function cleanupCode(path: string, content: string, mode: CleanupMode): Promise<CleanupResult> {
+  const result: CleanupResult = { content, findings: [] };
+  if ((mode !== 'warn' && mode !== 'remove') || !CLEANUP_EXTENSIONS.test(path)) {
+    return result;
+  }
+
+  for (let pass = 0; pass < (mode === 'remove' ? MAX_PASSES : 1); pass++) {
+    const modifier = new ASTModifier(result.content);
+    await modifier.initialize();
+    const tree = modifier.getTree();
+    if (!tree || modifier.getParser().hasErrors(tree)) {
+      break;
+    }
+
+    const found = findDeadCode(modifier, tree.rootNode);
+    if (found.length === 0) {
+      break;
+    }
+
+    if (mode === 'warn') {
+      result.findings.push(...found.map(f => ({ path, kind: f.kind, name: f.name, line: f.line, removed: false })));
+      break;
+    }
+
+    const imports = new Map<string, string[]>();
+    for (const finding of found) {
+      if (finding.kind === 'import') {
+        imports.set(finding.source!, [...(imports.get(finding.source!) || []), finding.name]);
+      } else {
+        modifier.removeNode(finding.node, `Remove unused ${finding.kind} ${finding.name}`);
+      }
+    }
+    imports.forEach((names, source) => modifier.removeImport(source, names));
+
+    const generated = await modifier.generate();
+    if (!generated.success || generated.code === undefined) {
+      // Leave the file as it was and report what could not be removed
+      result.findings.push(...found.map(f => ({ path, kind: f.kind, name: f.name, line: f.line, removed: false })));
+      break;
+    }
+
+    result.content = generated.code;
+    result.findings.push(...found.map(f => ({ path, kind: f.kind, name: f.name, line: f.line, removed: true })));
+  }
+
+  return result;
+}
+
+/**
+ * Run cleanupCode over several files; files the pass doesn't handle are returned unchanged
+ */
+export async function cleanupFiles(
+  files: Array<{ path: string; content: string }>,
+  mode: CleanupMode
+): Promise<{ files: Array<{ path: string; content: string }>; findings: CleanupFinding[] }> {
+  const cleaned: Array<{ path: string; content: string }> = [];
+  const findings: CleanupFinding[] = [];
+
+  for (const file of files) {
+    const result = await cleanupCode(file.path, file.content, mode);
+    cleaned.push({ path: file.path, content: result.content });
+    findings.push(...result.findings);
+  }
+
+  return { files: cleaned, findings };
+}
+
+/**
+ * One-line summary per finding, for result warnings
+ */
+export function formatCleanupFinding(finding: CleanupFinding): string {
+  return `${finding.path}:${finding.line} ${finding.removed ? 'removed' : 'unused'} ${finding.kind} ${finding.name}`;
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+interface DeadCode {
+  kind: CleanupKind;
+  name: string;
+  line: number;
+  /** Statement to remove (state and functions) */
+  node: Node;
+  /** Import source (imports) */
+  source?: string;
+}
+
+function findDeadCode(modifier: ASTModifier, root: Node): DeadCode[] {
+  const parser = modifier.getParser();
+  const tree = modifier.getTree();
+  const dead: DeadCode[] = [];
+
+  // Imports: a local name nothing outside import statements mentions
+  const used = new Set<string>();
+  for (const node of descendants(root)) {
+    if (
+      (node.type === 'identifier' || node.type === 'type_identifier' || node.type === 'shorthand_property_identifier') &&
+      !insideImport(node)
+    ) {
+      used.add(node.text);
+    }
+  }
+
+  for (const importNode of parser.findImports(tree)) {
+    const info = parser.getImportInfo(importNode);
+    if (!info) continue;
+    for (const binding of info.imports) {
+      const local = binding.isNamespace
+        ? importNode.descendantsOfType('namespace_import')[0]?.namedChildren[0]?.text
+        : binding.alias || binding.name;
+      // React stays in scope for the classic JSX runtime
+      if (!local || local === 'React' || used.has(local)) continue;
+      dead.push({ kind: 'import', name: local, line: importNode.startPosition.row + 1, node: importNode, source: info.source });
+    }
+  }
+
+  // useState pairs: neither value nor setter referenced
+  for (const state of parser.findStateVariables(tree)) {
+    if (findRemainingReferences(root, [state.stateVar, state.setterVar], state.node).length === 0) {
+      dead.push({ kind: 'state', name: state.stateVar, line: state.node.startPosition.row + 1, node: state.node });
+    }
+  }
+
+  // Functions: unexported and unreferenced
+  for (const fn of findFunctionStatements(root)) {
+    if (findRemainingReferences(root, [fn.name], fn.node).length === 0) {
+      dead.push({ kind: 'function', name: fn.name, line: fn.node.startPosition.row + 1, node: fn.node });
+    }
+  }
+
+  // Anything inside dead code goes with it
+  return dead.filter(d => d.kind === 'import' || !dead.some(other =>
+    other !== d && other.kind !== 'import' &&
+    other.node.startIndex <= d.node.startIndex && other.node.endIndex >= d.node.endIndex
+  ));
+}
+
+/**
+ * Function declarations and single-declarator `const fn = () => {}` /
+ * `const fn = function () {}` statements that are not exported in place
+ */
+function findFunctionStatements(root: Node): Array<{ name: string; node: Node }> {
+  const functions: Array<{ name: string; node: Node }> = [];
+
+  for (const node of descendants(root)) {
+    if (node.parent?.type === 'export_statement') continue;
+
+    if (node.type === 'function_declaration') {
+      const name = node.childForFieldName('name')?.text;
+      if (name) functions.push({ name, node });
+    } else if (node.type === 'lexical_declaration' && node.namedChildren.length === 1) {
+      const declarator = node.namedChildren[0];
+      const name = declarator.childForFieldName('name');
+      const value = declarator.childForFieldName('value');
+      if (name?.type === 'identifier' && (value?.type === 'arrow_function' || value?.type === 'function_expression')) {
+        functions.push({ name: name.text, node });
+      }
+    }
+  }
+
+  return functions;
+}
+
+function insideImport(node: Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'import_statement') return true;
+  }
+  return false;
+}
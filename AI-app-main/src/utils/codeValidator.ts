@@ -3,10 +3,33 @@
  * 
  * Validates AI-generated code for common syntax errors before returning to users.
  * Catches issues that would cause runtime errors or build failures.
+ * 
+ * Two tiers:
+ * - validateGeneratedCode: fast per-file checks. For whole files the
+ *   tree-sitter parse tree is the source of truth; the regex checks below
+ *   run on snippets (modify-route fragments don't parse on their own) and
+ *   when tree-sitter can't load.
+ * - validateProject: checks all generated files together - the import graph
+ *   (missing files/exports, cycles; see importGraph.ts) and a TypeScript
+ *   type-check (see typeScriptValidator.ts). buildCorrectionPrompt turns its
+ *   results into a request for fixed files.
  */
 
+import type Parser from 'tree-sitter';
+import { createParser, type CodeParser } from './treeSitterParser';
+import { validateProjectImports } from './importGraph';
+
 export interface ValidationError {
-  type: 'NESTED_FUNCTION' | 'UNBALANCED_JSX' | 'TYPESCRIPT_IN_JSX' | 'UNCLOSED_STRING' | 'SYNTAX_ERROR';
+  type:
+    | 'NESTED_FUNCTION'
+    | 'UNBALANCED_JSX'
+    | 'TYPESCRIPT_IN_JSX'
+    | 'UNCLOSED_STRING'
+    | 'SYNTAX_ERROR'
+    | 'TYPE_ERROR'
+    | 'UNDEFINED_IDENTIFIER'
+    | 'MISSING_IMPORT'
+    | 'CIRCULAR_IMPORT';
   message: string;
   line?: number;
   column?: number;
@@ -22,6 +45,10 @@ export interface ValidationResult {
   fixedCode?: string;
 }
 
+// ============================================================================
+// REGEX CHECKS - fallback when tree-sitter is unavailable
+// ============================================================================
+
 /**
  * Detects nested function declarations which are invalid in strict mode (React uses strict mode)
  * 
@@ -350,26 +377,167 @@ export function hasUnclosedStrings(code: string): ValidationError[] {
   return errors;
 }
 
+// ============================================================================
+// TREE-SITTER CHECKS
+// ============================================================================
+
+const FUNCTION_SCOPE_TYPES = new Set([
+  'function_declaration',
+  'generator_function_declaration',
+  'function_expression',
+  'function',
+  'arrow_function',
+  'method_definition',
+]);
+
+// undefined = not tried yet, null = tree-sitter failed to load
+let syntaxParser: CodeParser | null | undefined;
+
+function getSyntaxParser(): CodeParser | null {
+  if (syntaxParser === undefined) {
+    const parser = createParser('typescript', { logErrors: false });
+    syntaxParser = parser.initializeSync() ? parser : null;
+    if (!syntaxParser) {
+      console.warn('⚠️ tree-sitter unavailable - falling back to regex validation');
+    }
+  }
+  return syntaxParser;
+}
+
+/**
+ * Validate against the tree-sitter parse tree
+ * 
+ * - ERROR / MISSING nodes -> SYNTAX_ERROR with exact line and column
+ *   (UNCLOSED_STRING when an unclosed quote on the same line explains it,
+ *   so auto-fix can close it)
+ * - mismatched JSX closing tags -> UNBALANCED_JSX
+ * - function declarations inside functions -> NESTED_FUNCTION
+ * 
+ * @returns The errors, or null if tree-sitter can't load
+ */
+export function validateSyntaxTree(code: string): ValidationError[] | null {
+  const parser = getSyntaxParser();
+  const tree = parser?.parseSync(code);
+  if (!parser || !tree) {
+    return null;
+  }
+
+  return [
+    ...findSyntaxErrors(parser, tree, code),
+    ...findMismatchedJSXTags(tree.rootNode),
+    ...findNestedFunctionDeclarations(tree.rootNode),
+  ];
+}
+
+function findSyntaxErrors(parser: CodeParser, tree: Parser.Tree, code: string): ValidationError[] {
+  const lines = code.split('\n');
+  const unclosedStrings = hasUnclosedStrings(code);
+  const errors: ValidationError[] = [];
+
+  for (const error of parser.getErrors(tree)) {
+    const unclosed = unclosedStrings.find(e => e.line === error.line);
+    if (unclosed) {
+      if (!errors.includes(unclosed)) {
+        errors.push(unclosed);
+      }
+      continue;
+    }
+
+    const missing = error.nodeType !== 'ERROR';
+    errors.push({
+      type: 'SYNTAX_ERROR',
+      message: missing
+        ? `Missing "${error.nodeType}"`
+        : `Unexpected "${error.text.split('\n')[0].trim()}"`,
+      line: error.line,
+      column: error.column,
+      severity: 'error',
+      fix: missing ? `Insert "${error.nodeType}" at line ${error.line}, column ${error.column}` : undefined,
+      code: lines[error.line - 1]?.trim()
+    });
+  }
+
+  return errors;
+}
+
+function findMismatchedJSXTags(root: Parser.SyntaxNode): ValidationError[] {
+  return root.descendantsOfType('jsx_element').flatMap(element => {
+    const open = element.childForFieldName('open_tag')?.childForFieldName('name');
+    const close = element.childForFieldName('close_tag');
+    const closeName = close?.childForFieldName('name');
+    if (!open || !close || !closeName || open.text === closeName.text) {
+      return [];
+    }
+    return [{
+      type: 'UNBALANCED_JSX' as const,
+      message: `Mismatched JSX tags: <${open.text}> opened at line ${open.startPosition.row + 1} is closed by </${closeName.text}>`,
+      line: close.startPosition.row + 1,
+      column: close.startPosition.column + 1,
+      severity: 'error' as const,
+      fix: `Change </${closeName.text}> to </${open.text}> or fix tag nesting`,
+      code: close.text
+    }];
+  });
+}
+
+function findNestedFunctionDeclarations(root: Parser.SyntaxNode): ValidationError[] {
+  const declarations = root.descendantsOfType(['function_declaration', 'generator_function_declaration']);
+
+  return declarations.flatMap(declaration => {
+    let outer = declaration.parent;
+    while (outer && !FUNCTION_SCOPE_TYPES.has(outer.type)) {
+      outer = outer.parent;
+    }
+    if (!outer) {
+      return [];
+    }
+
+    const name = declaration.childForFieldName('name')?.text || 'anonymous';
+    const outerName = outer.childForFieldName('name')?.text || 'anonymous function';
+    return [{
+      type: 'NESTED_FUNCTION' as const,
+      message: `Nested function declaration '${name}' inside '${outerName}' will cause SyntaxError in strict mode`,
+      line: declaration.startPosition.row + 1,
+      column: declaration.startPosition.column + 1,
+      severity: 'error' as const,
+      fix: `Move function ${name} above the ${outerName} function, or use an arrow function: const ${name} = () => {}`,
+      code: declaration.text.split('\n')[0].trim()
+    }];
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
 /**
  * Main validation function - runs all validators with optional auto-fix
  * 
  * @param code - The code to validate
  * @param filePath - Path to the file (for context-specific validation)
  * @param autoFix - Whether to attempt automatic fixes (default: false)
+ * @param wholeFile - Whether `code` is a complete file; snippets such as a
+ *   replaceWith fragment skip the parse tree (default: true)
  * @returns ValidationResult with errors and potentially fixed code
  */
 export function validateGeneratedCode(
   code: string,
   filePath: string = 'src/App.tsx',
-  autoFix: boolean = false
+  autoFix: boolean = false,
+  wholeFile: boolean = true
 ): ValidationResult {
   const allErrors: ValidationError[] = [];
   
-  // Run all validators
-  allErrors.push(...hasNestedFunctionDeclarations(code));
-  allErrors.push(...hasBalancedJSXTags(code));
+  // Run all validators - the parse tree for whole files when available, regex otherwise
+  const treeErrors = wholeFile ? validateSyntaxTree(code) : null;
+  if (treeErrors) {
+    allErrors.push(...treeErrors);
+  } else {
+    allErrors.push(...hasNestedFunctionDeclarations(code));
+    allErrors.push(...hasBalancedJSXTags(code));
+    allErrors.push(...hasUnclosedStrings(code));
+  }
   allErrors.push(...hasTypeScriptInJSX(code, filePath));
-  allErrors.push(...hasUnclosedStrings(code));
   
   // If no errors, return valid result
   if (allErrors.length === 0) {
@@ -385,7 +553,7 @@ export function validateGeneratedCode(
     
     // If we made changes, re-validate the fixed code
     if (fixedCode !== code) {
-      const revalidation = validateGeneratedCode(fixedCode, filePath, false);
+      const revalidation = validateGeneratedCode(fixedCode, filePath, false, wholeFile);
       
       // If fixed code is now valid, return success with fixed code
       if (revalidation.valid) {
@@ -414,6 +582,77 @@ export function validateGeneratedCode(
   };
 }
 
+/**
+ * Type-check all generated files together - the TypeScript compiler tier
+ * 
+ * Reports real diagnostics (undefined identifiers, missing imports/exports,
+ * wrong prop types) mapped to ValidationError, grouped per file. Needs the
+ * whole file set, so it runs on full generations rather than snippets.
+ * 
+ * @param files - Generated files, paths relative to the project root
+ * @returns Files with diagnostics; empty if the compiler could not be loaded
+ */
+export async function validateProjectTypes(
+  files: Array<{ path: string; content: string }>
+): Promise<Array<{ file: string; errors: ValidationError[] }>> {
+  try {
+    // Loaded on demand - the compiler is large and only this tier needs it
+    const { typeCheckFiles } = await import('./typeScriptValidator');
+    return typeCheckFiles(files);
+  } catch (error) {
+    console.error('TypeScript validation unavailable:', error);
+    return [];
+  }
+}
+
+/**
+ * Project-level validation: import graph, then types
+ * 
+ * The compiler also reports unresolved imports; where the import graph
+ * already flagged a line, its more specific error is kept instead.
+ * 
+ * @param files - Generated files, paths relative to the project root
+ * @returns Files with problems, in file order
+ */
+export async function validateProject(
+  files: Array<{ path: string; content: string }>
+): Promise<Array<{ file: string; errors: ValidationError[] }>> {
+  const importErrors = await validateProjectImports(files);
+  const typeErrors = await validateProjectTypes(files);
+
+  return files.flatMap(({ path }) => {
+    const imports = importErrors.find(r => r.file === path)?.errors || [];
+    const importLines = new Set(imports.filter(e => e.type === 'MISSING_IMPORT').map(e => e.line));
+    const types = (typeErrors.find(r => r.file === path)?.errors || [])
+      .filter(e => e.type !== 'MISSING_IMPORT' || !importLines.has(e.line));
+
+    const errors = [...imports, ...types];
+    return errors.length > 0 ? [{ file: path, errors }] : [];
+  });
+}
+
+/**
+ * Correction request for the model: every problem with its file, line and
+ * suggested fix, asking for complete corrected files back
+ */
+export function buildCorrectionPrompt(results: Array<{ file: string; errors: ValidationError[] }>): string {
+  let prompt = 'The generated files have problems that only show up across files:\n';
+
+  for (const { file, errors } of results) {
+    prompt += `\nFILE: ${file}\n`;
+    for (const error of errors) {
+      prompt += `- ${error.line ? `Line ${error.line}: ` : ''}${error.message}`;
+      if (error.code) prompt += `\n  Code: ${error.code}`;
+      if (error.fix) prompt += `\n  Fix: ${error.fix}`;
+      prompt += '\n';
+    }
+  }
+
+  prompt += '\nOutput ONLY the files that need to change (including any missing files you add), ';
+  prompt += 'each COMPLETE in ===FILE:path=== blocks, followed by ===END===.';
+  return prompt;
+}
+
 /**
  * Attempts to automatically fix code issues
  * 
@@ -433,6 +672,10 @@ function attemptAutoFix(code: string, errors: ValidationError[]): string {
       case 'UNBALANCED_JSX':
       case 'NESTED_FUNCTION':
       case 'TYPESCRIPT_IN_JSX':
+      case 'TYPE_ERROR':
+      case 'UNDEFINED_IDENTIFIER':
+      case 'MISSING_IMPORT':
+      case 'CIRCULAR_IMPORT':
         // These require manual fixes - complex to auto-fix
         // Skipping for now
         break;
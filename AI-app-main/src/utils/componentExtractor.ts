@@ -10,6 +10,8 @@
  * @version 1.0.0
  */
 
+import type { FileDiff } from './diffSchema';
+
 export interface ExtractionSuggestion {
   reason: string;
   targetJSX: string;
@@ -221,6 +223,23 @@ export function generateExtractionMessage(analysis: FileAnalysis): string {
   return message;
 }
 
+/**
+ * Turn a suggestion into a diff that applyDiff can execute, so a suggestion
+ * can be accepted in one click. targetJSX may be cut short by the regex
+ * scan; AST_EXTRACT_COMPONENT extends it to the whole element.
+ */
+export function createExtractionDiff(filePath: string, suggestion: ExtractionSuggestion): FileDiff {
+  return {
+    path: filePath,
+    action: 'MODIFY',
+    changes: [{
+      type: 'AST_EXTRACT_COMPONENT',
+      targetJSX: suggestion.targetJSX,
+      componentName: suggestion.suggestedComponentName,
+    }],
+  };
+}
+
 /**
  * Batch analyze multiple files
  */
@@ -0,0 +1,377 @@
+/**
+ * Cost Ledger
+ *
+ * Prices every model call from a per-model price table and records it
+ * against the user, project and route that made it. Routes check the
+ * optional monthly budgets before calling a model and answer 402 when one
+ * has been used up.
+ *
+ * Calls are recorded by MeteredProvider (llm/meteredProvider.ts), which
+ * getLLM wraps around every provider, so routes only need to pass the
+ * attribution returned by checkBudget.
+ *
+ * Configuration:
+ *   COST_LEDGER_STORE           memory | supabase (default: memory)
+ *   LLM_PRICE_TABLE             JSON overrides, e.g. {"gpt-4.1": {"input": 2, "output": 8, "cachedInput": 0.5}}
+ *                               (USD per million tokens, merged over DEFAULT_MODEL_PRICES)
+ *   MONTHLY_BUDGET_USD          spend limit per user per calendar month (UTC)
+ *   PROJECT_MONTHLY_BUDGET_USD  spend limit per project per calendar month (UTC)
+ *
+ * The memory store has no users - without Supabase every call counts
+ * towards one shared user budget. The Supabase store only attributes calls
+ * to projects the signed-in user owns; other project ids are dropped.
+ */
+
+import type { LLMProviderName, LLMRoute, LLMUsage } from './llm/types';
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Prompt tokens served from the provider's cache */
+  cachedInput: number;
+}
+
+export interface CostAttribution {
+  userId?: string;
+  projectId?: string;
+}
+
+export interface CostEntry extends CostAttribution {
+  route: LLMRoute;
+  provider: LLMProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+  /** False when the model has no price - costUsd is 0 */
+  priced: boolean;
+  createdAt: string;
+}
+
+export interface SpendFilter extends CostAttribution {
+  /** ISO timestamp */
+  since: string;
+}
+
+export interface CostLedgerStore {
+  /** The signed-in user, when the store knows about users */
+  currentUserId(): Promise<string | undefined>;
+  /** `projectId` when the signed-in user owns that project, otherwise undefined */
+  ownedProjectId(projectId: string): Promise<string | undefined>;
+  record(entry: CostEntry): Promise<void>;
+  /** Entries matching every given filter field, oldest first */
+  entries(filter: SpendFilter): Promise<CostEntry[]>;
+  /** Total costUsd of the entries matching every given filter field */
+  spent(filter: SpendFilter): Promise<number>;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Keys match a model id exactly or as a prefix (the longest prefix wins),
+ * so dated ids like claude-sonnet-4-5-20250929 use the claude-sonnet-4-5 price.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cachedInput: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+};
+
+export function getPriceTable(): Record<string, ModelPrice> {
+  const overrides = process.env.LLM_PRICE_TABLE;
+  if (!overrides) return DEFAULT_MODEL_PRICES;
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(overrides) };
+  } catch {
+    console.warn('⚠️ LLM_PRICE_TABLE is not valid JSON - using default prices');
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+export function findModelPrice(model: string, prices = getPriceTable()): ModelPrice | null {
+  if (prices[model]) return prices[model];
+
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Cost of one call in USD, or null when the model has no price
+ *
+ * Anthropic reports cache reads separately from input tokens; OpenAI
+ * counts them inside prompt tokens. Local models are free.
+ */
+export function calculateCost(
+  provider: LLMProviderName,
+  model: string,
+  usage: LLMUsage,
+  prices = getPriceTable()
+): number | null {
+  if (provider === 'local') return 0;
+
+  const price = findModelPrice(model, prices);
+  if (!price) return null;
+
+  const uncachedInput = provider === 'anthropic'
+    ? usage.inputTokens
+    : Math.max(0, usage.inputTokens - usage.cachedTokens);
+
+  return (
+    uncachedInput * price.input +
+    usage.cachedTokens * price.cachedInput +
+    usage.outputTokens * price.output
+  ) / 1_000_000;
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+/** Long enough for month-to-date budgets and the spend chart */
+const MEMORY_RETENTION_MS = 92 * 24 * 60 * 60 * 1000;
+
+export class MemoryCostLedgerStore implements CostLedgerStore {
+  private ledger: CostEntry[] = [];
+
+  async currentUserId(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  async ownedProjectId(projectId: string): Promise<string | undefined> {
+    // No users, so no owners to check against
+    return projectId;
+  }
+
+  async record(entry: CostEntry): Promise<void> {
+    const cutoff = Date.now() - MEMORY_RETENTION_MS;
+    this.ledger = this.ledger.filter(e => Date.parse(e.createdAt) >= cutoff);
+    this.ledger.push({ ...entry });
+  }
+
+  async entries(filter: SpendFilter): Promise<CostEntry[]> {
+    return this.ledger
+      .filter(e =>
+        e.createdAt >= filter.since &&
+        (filter.userId === undefined || e.userId === filter.userId) &&
+        (filter.projectId === undefined || e.projectId === filter.projectId)
+      )
+      .map(e => ({ ...e }));
+  }
+
+  async spent(filter: SpendFilter): Promise<number> {
+    return (await this.entries(filter)).reduce((total, e) => total + e.costUsd, 0);
+  }
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let ledger: CostLedgerStore | null = null;
+
+export async function getCostLedger(): Promise<CostLedgerStore> {
+  if (!ledger) {
+    if (process.env.COST_LEDGER_STORE === 'supabase') {
+      // Imported lazily - it pulls in the cookie-bound server client
+      const { SupabaseCostLedgerStore } = await import('./db/costLedger');
+      ledger = new SupabaseCostLedgerStore();
+    } else {
+      ledger = new MemoryCostLedgerStore();
+    }
+  }
+  return ledger;
+}
+
+/**
+ * Price a finished call and add it to the ledger
+ *
+ * Never throws - a ledger outage must not fail the request that already
+ * paid for the call.
+ */
+export async function recordCost(
+  route: LLMRoute,
+  provider: LLMProviderName,
+  model: string,
+  usage: LLMUsage,
+  attribution: CostAttribution,
+  store?: CostLedgerStore
+): Promise<CostEntry | null> {
+  const cost = calculateCost(provider, model, usage);
+  if (cost === null) {
+    console.warn(`⚠️ No price for model ${model} - add it to LLM_PRICE_TABLE`);
+  }
+
+  const entry: CostEntry = {
+    route,
+    provider,
+    model,
+    ...attribution,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cachedTokens: usage.cachedTokens,
+    costUsd: cost ?? 0,
+    priced: cost !== null,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await (store || await getCostLedger()).record(entry);
+    return entry;
+  } catch (error) {
+    console.error('❌ Failed to record model cost:', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+export interface BudgetUsage {
+  scope: 'user' | 'project';
+  limitUsd: number;
+  spentUsd: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Pass to getLLM so the call is recorded against this user and project */
+  attribution: CostAttribution;
+  budgets: BudgetUsage[];
+  /** Why the request was refused - shown to the user */
+  error?: string;
+}
+
+function budgetLimit(name: string): number | null {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/** Midnight UTC on the first of the month containing `now` */
+export function monthStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * Month-to-date spend against each configured budget
+ */
+export async function getBudgetUsage(
+  attribution: CostAttribution,
+  store?: CostLedgerStore
+): Promise<BudgetUsage[]> {
+  const userLimit = budgetLimit('MONTHLY_BUDGET_USD');
+  const projectLimit = attribution.projectId ? budgetLimit('PROJECT_MONTHLY_BUDGET_USD') : null;
+  if (userLimit === null && projectLimit === null) return [];
+
+  const costLedger = store || await getCostLedger();
+  const since = monthStart();
+  const budgets: BudgetUsage[] = [];
+
+  if (userLimit !== null) {
+    const spent = await costLedger.spent({ userId: attribution.userId, since });
+    budgets.push({ scope: 'user', limitUsd: userLimit, spentUsd: spent });
+  }
+  if (projectLimit !== null) {
+    const spent = await costLedger.spent({ projectId: attribution.projectId, since });
+    budgets.push({ scope: 'project', limitUsd: projectLimit, spentUsd: spent });
+  }
+
+  return budgets;
+}
+
+/**
+ * Resolve who is paying for a request and whether their budgets allow it
+ *
+ * `projectId` comes from the client, so it only counts when the user owns
+ * that project. Call before the model; when `allowed` is false respond with
+ * 402 and `error`.
+ */
+export async function checkBudget(projectId?: string, store?: CostLedgerStore): Promise<BudgetCheck> {
+  const costLedger = store || await getCostLedger();
+  const ownedProjectId = typeof projectId === 'string' && projectId
+    ? await costLedger.ownedProjectId(projectId)
+    : undefined;
+  const attribution: CostAttribution = {
+    userId: await costLedger.currentUserId(),
+    ...(ownedProjectId && { projectId: ownedProjectId }),
+  };
+
+  const budgets = await getBudgetUsage(attribution, costLedger);
+  const exceeded = budgets.find(b => b.spentUsd >= b.limitUsd);
+  if (!exceeded) return { allowed: true, attribution, budgets };
+
+  const owner = exceeded.scope === 'user' ? 'your account' : 'this project';
+  return {
+    allowed: false,
+    attribution,
+    budgets,
+    error: `Monthly AI budget for ${owner} reached: $${exceeded.spentUsd.toFixed(2)} of $${exceeded.limitUsd.toFixed(2)} spent. ` +
+      'The budget resets on the 1st of next month.',
+  };
+}
+
+// ============================================================================
+// SPEND REPORTS
+// ============================================================================
+
+export interface SpendSummary {
+  totalUsd: number;
+  calls: number;
+  /** Calls whose model had no price */
+  unpricedCalls: number;
+  /** One entry per UTC day in the period, oldest first */
+  byDay: Array<{ date: string; costUsd: number; calls: number }>;
+  byRoute: Record<string, number>;
+  byModel: Record<string, number>;
+}
+
+/**
+ * Group ledger entries for the spend view
+ */
+export function summarizeSpend(entries: CostEntry[], days: number, now = new Date()): SpendSummary {
+  const byDay = new Map<string, { date: string; costUsd: number; calls: number }>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    byDay.set(date, { date, costUsd: 0, calls: 0 });
+  }
+
+  const summary: SpendSummary = {
+    totalUsd: 0,
+    calls: 0,
+    unpricedCalls: 0,
+    byDay: [],
+    byRoute: {},
+    byModel: {},
+  };
+
+  entries.forEach(entry => {
+    summary.totalUsd += entry.costUsd;
+    summary.calls++;
+    if (!entry.priced) summary.unpricedCalls++;
+    summary.byRoute[entry.route] = (summary.byRoute[entry.route] || 0) + entry.costUsd;
+    summary.byModel[entry.model] = (summary.byModel[entry.model] || 0) + entry.costUsd;
+
+    const day = byDay.get(entry.createdAt.slice(0, 10));
+    if (day) {
+      day.costUsd += entry.costUsd;
+      day.calls++;
+    }
+  });
+
+  summary.byDay = Array.from(byDay.values());
+  return summary;
+}
@@ -1,4 +1,16 @@
 import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import type {
+  AnalyticsSink,
+  ErrorCategory,
+  MetricsBucket,
+  MetricsQuery,
+  RequestMetrics,
+  RouteType,
+} from '../analytics';
+
+/** Event type of the rows AnalyticsLogger writes through */
+export const REQUEST_METRICS_EVENT = 'request_metrics';
 
 export interface AnalyticsEvent {
   id: string;
@@ -89,3 +101,74 @@ export async function getAnalyticsSummary(): Promise<{
     recent_events: events.slice(0, 10),
   };
 }
+
+// ============================================================================
+// REQUEST METRICS (AnalyticsLogger write-through)
+// ============================================================================
+
+interface RequestBucketRow {
+  bucket_start: string;
+  route_type: RouteType;
+  requests: number;
+  errors: number;
+  errors_by_category: Partial<Record<ErrorCategory, number>> | null;
+  p50_response_time: number | null;
+  p95_response_time: number | null;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+}
+
+/**
+ * Writes request metrics to the analytics table and aggregates them with
+ * the analytics_request_buckets SQL function (see supabase/migrations).
+ *
+ * Request metrics aren't owned by a user, so this uses the service role
+ * client - it also works outside a request, where the flush timer runs.
+ */
+export class SupabaseAnalyticsSink implements AnalyticsSink {
+  async write(metrics: RequestMetrics[]): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase
+      .from('analytics')
+      .insert(metrics.map(metric => {
+        // Stacks stay in the server logs
+        const { errorStack: _errorStack, ...eventData } = metric;
+        return {
+          user_id: null,
+          event_type: REQUEST_METRICS_EVENT,
+          event_data: eventData,
+          created_at: new Date(metric.timestamp).toISOString(),
+        };
+      }));
+
+    if (error) throw error;
+  }
+
+  async aggregate(query: MetricsQuery): Promise<MetricsBucket[]> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase.rpc('analytics_request_buckets', {
+      p_since: new Date(query.since).toISOString(),
+      p_bucket: query.bucket,
+      p_route: query.routeType ?? null,
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as RequestBucketRow[]).map(row => ({
+      bucketStart: new Date(row.bucket_start).toISOString(),
+      routeType: row.route_type,
+      requests: Number(row.requests),
+      errors: Number(row.errors),
+      errorRate: Number(row.requests) > 0 ? Number(row.errors) / Number(row.requests) : 0,
+      errorsByCategory: row.errors_by_category || {},
+      p50ResponseTime: row.p50_response_time,
+      p95ResponseTime: row.p95_response_time,
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      cachedTokens: Number(row.cached_tokens),
+    }));
+  }
+}
@@ -0,0 +1,162 @@
+import { createClient } from '@/utils/supabase/server';
+import { branchHead, findMergeBase, mergeFileSets, type MergeConflict } from '@/utils/versionMerge';
+import { getProject, type Project } from './projects';
+import { getVersions, getVersion } from './versions';
+
+/**
+ * A named line of project history. The project's files are the working
+ * copy of its current branch; every other branch continues from its head.
+ * Forking, switching and recording merges happen in the database
+ * (migration 20261019000008_version_branches); merges are computed here.
+ */
+export interface Branch {
+  name: string;
+  /** Version the branch was forked from; null for a project's first branch */
+  base_version_id: string | null;
+  /** Latest version on the branch, or its base while it has none */
+  head_version_id: string | null;
+  is_current: boolean;
+  created_at: string;
+}
+
+export interface MergeBranchResult {
+  /** True when the merge was recorded; false for dry runs, conflicts and no-ops */
+  merged: boolean;
+  upToDate: boolean;
+  /** Files that took changes from the merged branch */
+  mergedPaths: string[];
+  conflicts: MergeConflict[];
+  project: Project;
+}
+
+/**
+ * Load a project with its versions and branches
+ */
+async function loadBranches(projectId: string) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const [project, versions, { data, error }] = await Promise.all([
+    getProject(projectId),
+    getVersions(projectId),
+    supabase
+      .from('project_branches')
+      .select('name, base_version_id, created_at')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (error) throw error;
+  if (!project) throw new Error('Project not found');
+
+  const branches: Branch[] = (data || []).map(branch => ({
+    ...branch,
+    head_version_id: branchHead(versions, branch.name, branch.base_version_id),
+    is_current: branch.name === project.current_branch,
+  }));
+
+  return { project, versions, branches };
+}
+
+/**
+ * Get a project's branches with their heads
+ */
+export async function getBranches(projectId: string): Promise<Branch[]> {
+  const { branches } = await loadBranches(projectId);
+  return branches;
+}
+
+/**
+ * Fork a branch at a version (default: the current files) and switch to it
+ */
+export async function createBranch(projectId: string, name: string, fromVersionId?: string): Promise<Project> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase.rpc('create_project_branch', {
+    p_project_id: projectId,
+    p_name: name,
+    p_from_version_id: fromVersionId || null,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Switch to another branch. The current files are saved to the current
+ * branch first.
+ */
+export async function switchBranch(projectId: string, name: string): Promise<Project> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase.rpc('switch_project_branch', {
+    p_project_id: projectId,
+    p_branch: name,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Three-way merge another branch into the current one. Nothing is written
+ * when any file conflicts or `dryRun` is set.
+ */
+export async function mergeBranch(
+  projectId: string,
+  sourceBranch: string,
+  options: { dryRun?: boolean } = {}
+): Promise<MergeBranchResult> {
+  const supabase = await createClient();
+  const { project, versions, branches } = await loadBranches(projectId);
+
+  if (sourceBranch === project.current_branch) {
+    throw new Error('Cannot merge a branch into itself');
+  }
+
+  const source = branches.find(b => b.name === sourceBranch);
+  const target = branches.find(b => b.is_current);
+  if (!source) throw new Error('Branch not found');
+
+  const theirsHead = source.head_version_id;
+  const oursHead = target?.head_version_id ?? null;
+  const baseId = theirsHead && oursHead ? findMergeBase(versions, oursHead, theirsHead) : null;
+
+  const noop = { merged: false, mergedPaths: [], conflicts: [], project };
+  if (!theirsHead || baseId === theirsHead) {
+    return { ...noop, upToDate: true };
+  }
+
+  const [theirs, base] = await Promise.all([
+    getVersion(theirsHead),
+    baseId ? getVersion(baseId) : Promise.resolve(null),
+  ]);
+  if (!theirs) throw new Error('Branch head not found');
+
+  const result = await mergeFileSets(base?.files ?? {}, project.files, theirs.files);
+  if (result.mergedPaths.length === 0 && result.conflicts.length === 0) {
+    return { ...noop, upToDate: true };
+  }
+  if (result.conflicts.length > 0 || options.dryRun) {
+    return { ...noop, upToDate: false, mergedPaths: result.mergedPaths, conflicts: result.conflicts };
+  }
+
+  const { data, error } = await supabase.rpc('record_project_merge', {
+    p_project_id: projectId,
+    p_files: result.files,
+    p_source_branch: sourceBranch,
+    p_merge_parent_id: theirsHead,
+    p_expected_updated_at: project.updated_at,
+  });
+
+  if (error) throw error;
+  return { merged: true, upToDate: false, mergedPaths: result.mergedPaths, conflicts: [], project: data };
+}
@@ -0,0 +1,104 @@
+import { createClient } from '@/utils/supabase/server';
+import type { CostEntry, CostLedgerStore, SpendFilter } from '../costLedger';
+
+/** Ledger rows are analytics events of this type; event_data is the CostEntry */
+export const COST_EVENT_TYPE = 'llm_cost';
+
+/** PostgREST returns at most 1000 rows per request */
+const PAGE_SIZE = 1000;
+
+/** Project ids are UUIDs; anything else (e.g. a local component id) is no project */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Cost ledger backed by the analytics table
+ */
+export class SupabaseCostLedgerStore implements CostLedgerStore {
+  async currentUserId(): Promise<string | undefined> {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id;
+  }
+
+  async ownedProjectId(projectId: string): Promise<string | undefined> {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !UUID_PATTERN.test(projectId)) return undefined;
+
+    const { data, error } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id;
+  }
+
+  async record(entry: CostEntry): Promise<void> {
+    const supabase = await createClient();
+
+    const userId = entry.userId || (await supabase.auth.getUser()).data.user?.id;
+    if (!userId) return; // Don't track for unauthenticated users
+
+    const { userId: _userId, createdAt, ...eventData } = entry;
+    const { error } = await supabase
+      .from('analytics')
+      .insert({
+        user_id: userId,
+        event_type: COST_EVENT_TYPE,
+        event_data: eventData,
+        created_at: createdAt,
+      });
+
+    if (error) throw error;
+  }
+
+  async entries(filter: SpendFilter): Promise<CostEntry[]> {
+    const supabase = await createClient();
+    const entries: CostEntry[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('analytics')
+        .select('user_id, event_data, created_at')
+        .eq('event_type', COST_EVENT_TYPE)
+        .gte('created_at', filter.since)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (filter.userId) {
+        query = query.eq('user_id', filter.userId);
+      }
+      if (filter.projectId) {
+        query = query.eq('event_data->>projectId', filter.projectId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      (data || []).forEach(row => {
+        entries.push({ ...row.event_data, userId: row.user_id, createdAt: row.created_at });
+      });
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return entries;
+  }
+
+  async spent(filter: SpendFilter): Promise<number> {
+    const supabase = await createClient();
+
+    // Summed by cost_ledger_spend (see supabase/migrations)
+    const { data, error } = await supabase.rpc('cost_ledger_spend', {
+      p_since: filter.since,
+      p_user_id: filter.userId ?? null,
+      p_project_id: filter.projectId ?? null,
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  }
+}
@@ -0,0 +1,161 @@
+import { createClient } from '@/utils/supabase/server';
+import {
+  JOB_LEASE_MS,
+  type CreateGenerationJobInput,
+  type GeneratedFile,
+  type GenerationArchitecture,
+  type GenerationJob,
+  type GenerationJobStatus,
+  type GenerationJobStore,
+} from '../generationJobs';
+
+interface GenerationJobRow {
+  id: string;
+  user_id: string;
+  prompt: string;
+  conversation_history: any[];
+  llm: unknown;
+  architecture: GenerationArchitecture | null;
+  status: GenerationJobStatus;
+  error: string | null;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GenerationJobFileRow {
+  job_id: string;
+  path: string;
+  content: string;
+  purpose: string;
+  created_at: string;
+}
+
+/**
+ * Generation job store backed by the generation_jobs and
+ * generation_job_files tables (see supabase/migrations)
+ */
+export class SupabaseJobStore implements GenerationJobStore {
+  async create(input: CreateGenerationJobInput): Promise<GenerationJob> {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .insert({
+        user_id: user.id,
+        prompt: input.prompt,
+        conversation_history: input.conversationHistory,
+        llm: input.llm ?? null,
+        status: 'running',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toJob(data, []);
+  }
+
+  async get(id: string): Promise<GenerationJob | null> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw error;
+    }
+
+    const { data: files, error: filesError } = await supabase
+      .from('generation_job_files')
+      .select('*')
+      .eq('job_id', id)
+      .order('created_at', { ascending: true });
+
+    if (filesError) throw filesError;
+    return toJob(data, files || []);
+  }
+
+  async saveArchitecture(id: string, architecture: GenerationArchitecture): Promise<void> {
+    await this.update(id, { architecture });
+  }
+
+  async saveFile(id: string, file: GeneratedFile): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from('generation_job_files')
+      .upsert({ job_id: id, ...file }, { onConflict: 'job_id,path' });
+
+    if (error) throw error;
+    await this.update(id, {});
+  }
+
+  async setStatus(id: string, status: GenerationJobStatus, error?: string): Promise<void> {
+    await this.update(id, { status, error: error || null });
+  }
+
+  async acquireLease(id: string, runner: string): Promise<boolean> {
+    const supabase = await createClient();
+    const now = new Date();
+
+    // Conditional update, so two runners can't both take a free lease
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .update({
+        lease_owner: runner,
+        lease_expires_at: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+      })
+      .eq('id', id)
+      .or(`lease_owner.is.null,lease_owner.eq.${runner},lease_expires_at.lt.${now.toISOString()}`)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async releaseLease(id: string, runner: string): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from('generation_jobs')
+      .update({ lease_owner: null, lease_expires_at: null })
+      .eq('id', id)
+      .eq('lease_owner', runner);
+
+    if (error) throw error;
+  }
+
+  private async update(id: string, changes: Partial<GenerationJobRow>): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from('generation_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+function toJob(row: GenerationJobRow, files: GenerationJobFileRow[]): GenerationJob {
+  return {
+    id: row.id,
+    prompt: row.prompt,
+    conversationHistory: row.conversation_history || [],
+    llm: row.llm,
+    architecture: row.architecture,
+    files: files.map(f => ({ path: f.path, content: f.content, purpose: f.purpose })),
+    status: row.status,
+    ...(row.error && { error: row.error }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
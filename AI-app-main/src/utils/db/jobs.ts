@@ -0,0 +1,143 @@
+import { createClient } from '@/utils/supabase/server';
+import type {
+  BackgroundJob,
+  BackgroundJobStore,
+  JobFields,
+  JobProgress,
+  JobStatus,
+  JobType,
+} from '../backgroundJobs';
+
+interface JobRow {
+  id: string;
+  user_id: string;
+  type: JobType;
+  status: JobStatus;
+  input: unknown;
+  progress: JobProgress[];
+  partial_result: unknown;
+  result: unknown;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * Background job store backed by the jobs table (see supabase/migrations)
+ */
+export class SupabaseBackgroundJobStore implements BackgroundJobStore {
+  async create(type: JobType, input: unknown): Promise<BackgroundJob> {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .insert({
+        user_id: user.id,
+        type,
+        input: input ?? {},
+        status: 'queued',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toJob(data);
+  }
+
+  async get(id: string): Promise<BackgroundJob | null> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw error;
+    }
+
+    return toJob(data);
+  }
+
+  async transition(id: string, from: JobStatus[], to: JobStatus, fields: JobFields = {}): Promise<boolean> {
+    const supabase = await createClient();
+
+    // The status filter makes this a compare-and-set
+    const { data, error } = await supabase
+      .from('jobs')
+      .update({
+        status: to,
+        ...('result' in fields && { result: fields.result ?? null }),
+        ...(fields.error !== undefined && { error: fields.error }),
+        ...(fields.startedAt && { started_at: fields.startedAt }),
+        ...(fields.finishedAt && { finished_at: fields.finishedAt }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .in('status', from)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async addProgress(id: string, progress: JobProgress, partialResult?: unknown): Promise<void> {
+    const supabase = await createClient();
+
+    // Only the worker running the job appends, so read-modify-write is safe
+    const { data, error: readError } = await supabase
+      .from('jobs')
+      .select('progress')
+      .eq('id', id)
+      .single();
+
+    if (readError) throw readError;
+
+    const { error } = await supabase
+      .from('jobs')
+      .update({
+        progress: [...(data.progress || []), progress],
+        ...(partialResult !== undefined && { partial_result: partialResult }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async heartbeat(id: string): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from('jobs')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .in('status', ['queued', 'running']);
+
+    if (error) throw error;
+  }
+}
+
+function toJob(row: JobRow): BackgroundJob {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    input: row.input,
+    progress: row.progress || [],
+    ...(row.partial_result != null && { partialResult: row.partial_result }),
+    ...(row.result != null && { result: row.result }),
+    ...(row.error && { error: row.error }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.started_at && { startedAt: row.started_at }),
+    ...(row.finished_at && { finishedAt: row.finished_at }),
+  };
+}
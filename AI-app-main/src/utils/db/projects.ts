@@ -6,6 +6,8 @@ export interface Project {
   name: string;
   description: string | null;
   files: Record<string, any>;
+  /** Branch the files belong to (see db/branches.ts) */
+  current_branch: string;
   created_at: string;
   updated_at: string;
   is_deleted: boolean;
@@ -23,6 +25,12 @@ export interface UpdateProjectInput {
   files?: Record<string, any>;
 }
 
+export interface ConditionalUpdateResult {
+  /** The updated (or deleted) project, or the current one on conflict; null when it doesn't exist */
+  project: Project | null;
+  conflict: boolean;
+}
+
 /**
  * Get all projects for the current user
  */
@@ -110,6 +118,37 @@ export async function updateProject(id: string, input: UpdateProjectInput): Prom
   return data;
 }
 
+/**
+ * Update a project only if it is unchanged since `expectedUpdatedAt` (the
+ * `updated_at` the caller's copy is based on). When it has changed nothing
+ * is written and the current project is returned with `conflict: true`.
+ */
+export async function updateProjectIfUnchanged(
+  id: string,
+  input: UpdateProjectInput,
+  expectedUpdatedAt: string
+): Promise<ConditionalUpdateResult> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('projects')
+    .update(input)
+    .eq('id', id)
+    .eq('is_deleted', false)
+    .eq('updated_at', expectedUpdatedAt)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return { project: data, conflict: false };
+
+  const project = await getProject(id);
+  return { project, conflict: project !== null };
+}
+
 /**
  * Soft delete a project
  */
@@ -127,6 +166,35 @@ export async function deleteProject(id: string): Promise<void> {
   if (error) throw error;
 }
 
+/**
+ * Soft delete a project only if it is unchanged since `expectedUpdatedAt`,
+ * so a delete made offline doesn't discard changes saved elsewhere since
+ */
+export async function deleteProjectIfUnchanged(
+  id: string,
+  expectedUpdatedAt: string
+): Promise<ConditionalUpdateResult> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('projects')
+    .update({ is_deleted: true })
+    .eq('id', id)
+    .eq('is_deleted', false)
+    .eq('updated_at', expectedUpdatedAt)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return { project: data, conflict: false };
+
+  const project = await getProject(id);
+  return { project, conflict: project !== null };
+}
+
 /**
  * Permanently delete a project
  */
@@ -1,24 +1,84 @@
 import { createClient } from '@/utils/supabase/server';
+import type { DiffSummary } from '@/utils/diffSchema';
+import { getProject, type ConditionalUpdateResult, type Project } from './projects';
 
-export interface Version {
+/**
+ * Why a version exists: 'manual' for versions the user saved, 'branch' and
+ * 'merge' for versions saved by branch operations (see db/branches.ts),
+ * otherwise the kind of change its files were replaced by. Version numbers
+ * and snapshots before each change are handled by the database (migration
+ * 20261019000005_version_snapshots).
+ */
+export type VersionSource = 'manual' | 'update' | 'restore' | 'ai_modification' | 'branch' | 'merge';
+
+/**
+ * A version without its file bodies. Files are stored content-addressed:
+ * the manifest maps each path to the SHA-256 of its body in file_blobs
+ * (migration 20261019000006_version_file_blobs).
+ */
+export interface VersionSummary {
   id: string;
   project_id: string;
   version_number: number;
+  /** Branch the version belongs to */
+  branch: string;
+  /** Version before this one on its branch, or the one its branch was forked from */
+  parent_id: string | null;
+  /** Head of the branch merged in, for merge results */
+  merge_parent_id: string | null;
+  manifest: Record<string, string>;
+  description: string | null;
+  source: VersionSource;
+  /** Prompt of the AI modification that replaced these files */
+  prompt: string | null;
+  diff_summary: DiffSummary | null;
+  created_at: string;
+}
+
+export interface Version extends VersionSummary {
   files: Record<string, any>;
+}
+
+/**
+ * A version in which a file was created, changed or deleted
+ */
+export interface FileHistoryEntry {
+  version_id: string;
+  version_number: number;
+  branch: string;
+  source: VersionSource;
   description: string | null;
   created_at: string;
+  /** Hash of the file in this version; null once it was deleted */
+  hash: string | null;
 }
 
 export interface CreateVersionInput {
   project_id: string;
   files: Record<string, any>;
   description?: string;
+  prompt?: string;
+  diff_summary?: DiffSummary;
 }
 
 /**
- * Get all versions for a project
+ * The change a project's files are being replaced by, saved with the
+ * snapshot of the files it replaces
  */
-export async function getVersions(projectId: string): Promise<Version[]> {
+export interface FileChangeInput {
+  source?: 'update' | 'restore' | 'ai_modification';
+  prompt?: string;
+  diffSummary?: DiffSummary;
+  description?: string;
+}
+
+/** Every column except the (always null) files column */
+const SUMMARY_COLUMNS = 'id, project_id, version_number, branch, parent_id, merge_parent_id, manifest, description, source, prompt, diff_summary, created_at';
+
+/**
+ * Get all versions for a project, without file bodies
+ */
+export async function getVersions(projectId: string): Promise<VersionSummary[]> {
   const supabase = await createClient();
 
   const { data: { user } } = await supabase.auth.getUser();
@@ -27,7 +87,7 @@ export async function getVersions(projectId: string): Promise<Version[]> {
   // Verify user owns this project through RLS
   const { data, error } = await supabase
     .from('versions')
-    .select('*')
+    .select(SUMMARY_COLUMNS)
     .eq('project_id', projectId)
     .order('version_number', { ascending: false });
 
@@ -36,7 +96,40 @@ export async function getVersions(projectId: string): Promise<Version[]> {
 }
 
 /**
- * Get a specific version
+ * Versions in which a file changed, oldest first. Only manifests are read,
+ * so this never loads file bodies.
+ */
+export async function getFileHistory(projectId: string, path: string): Promise<FileHistoryEntry[]> {
+  const versions = await getVersions(projectId);
+  return fileHistory(versions, path);
+}
+
+/**
+ * Reduce versions (in any order) to the ones where `path` has a different
+ * hash than in their parent version
+ */
+export function fileHistory(versions: VersionSummary[], path: string): FileHistoryEntry[] {
+  const byId = new Map(versions.map(version => [version.id, version]));
+
+  return [...versions]
+    .sort((a, b) => a.version_number - b.version_number)
+    .filter(version => {
+      const parent = version.parent_id ? byId.get(version.parent_id) : undefined;
+      return (version.manifest[path] ?? null) !== (parent?.manifest[path] ?? null);
+    })
+    .map(version => ({
+      version_id: version.id,
+      version_number: version.version_number,
+      branch: version.branch,
+      source: version.source,
+      description: version.description,
+      created_at: version.created_at,
+      hash: version.manifest[path] ?? null,
+    }));
+}
+
+/**
+ * Get a specific version with its full file set, rebuilt from file_blobs
  */
 export async function getVersion(id: string): Promise<Version | null> {
   const supabase = await createClient();
@@ -46,7 +139,7 @@ export async function getVersion(id: string): Promise<Version | null> {
 
   const { data, error } = await supabase
     .from('versions')
-    .select('*')
+    .select(SUMMARY_COLUMNS)
     .eq('id', id)
     .single();
 
@@ -55,7 +148,12 @@ export async function getVersion(id: string): Promise<Version | null> {
     throw error;
   }
 
-  return data;
+  const { data: files, error: filesError } = await supabase.rpc('version_files', {
+    p_version_id: id,
+  });
+
+  if (filesError) throw filesError;
+  return { ...data, files: files || {} };
 }
 
 /**
@@ -67,42 +165,100 @@ export async function createVersion(input: CreateVersionInput): Promise<Version>
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
-  // Get the latest version number for this project
-  const versions = await getVersions(input.project_id);
-  const latestVersion = versions.length > 0 ? versions[0].version_number : 0;
-
+  // version_number is assigned by the set_version_number trigger, and the
+  // store_files_as_blobs trigger replaces files with a manifest
   const { data, error } = await supabase
     .from('versions')
     .insert({
       project_id: input.project_id,
-      version_number: latestVersion + 1,
       files: input.files,
       description: input.description || null,
+      prompt: input.prompt || null,
+      diff_summary: input.diff_summary || null,
     })
-    .select()
+    .select(SUMMARY_COLUMNS)
     .single();
 
+  if (error) throw error;
+  return { ...data, files: input.files };
+}
+
+/**
+ * Replace a project's files, snapshotting the current ones first
+ */
+export async function updateProjectFiles(
+  projectId: string,
+  files: Record<string, any>,
+  change: FileChangeInput = {}
+): Promise<Project> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase.rpc('update_project_files', {
+    p_project_id: projectId,
+    p_files: files,
+    p_source: change.source || 'update',
+    p_prompt: change.prompt || null,
+    p_diff_summary: change.diffSummary || null,
+    p_description: change.description || null,
+  });
+
   if (error) throw error;
   return data;
 }
 
 /**
- * Restore a project to a specific version
+ * Replace a project's files like updateProjectFiles, but only if it is
+ * unchanged since `expectedUpdatedAt`. When it has changed nothing is
+ * written and the current project is returned with `conflict: true`.
  */
-export async function restoreVersion(versionId: string): Promise<void> {
+export async function updateProjectFilesIfUnchanged(
+  projectId: string,
+  files: Record<string, any>,
+  change: FileChangeInput,
+  expectedUpdatedAt: string
+): Promise<ConditionalUpdateResult> {
   const supabase = await createClient();
 
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
-  const version = await getVersion(versionId);
-  if (!version) throw new Error('Version not found');
+  const { data, error } = await supabase.rpc('update_project_files', {
+    p_project_id: projectId,
+    p_files: files,
+    p_source: change.source || 'update',
+    p_prompt: change.prompt || null,
+    p_diff_summary: change.diffSummary || null,
+    p_description: change.description || null,
+    p_expected_updated_at: expectedUpdatedAt,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') return { project: null, conflict: false }; // Not found
+    if (error.code !== '40001') throw error;
+    const project = await getProject(projectId);
+    return { project, conflict: project !== null };
+  }
+  return { project: data, conflict: false };
+}
+
+/**
+ * Restore a project to a specific version, or only one file of it (a file
+ * the version does not have is removed). The current files are saved as a
+ * new version first, so the restore can be undone.
+ */
+export async function restoreVersion(versionId: string, path?: string): Promise<Project> {
+  const supabase = await createClient();
 
-  // Update the project with the version's files
-  const { error } = await supabase
-    .from('projects')
-    .update({ files: version.files })
-    .eq('id', version.project_id);
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = path
+    ? await supabase.rpc('restore_project_file', { p_version_id: versionId, p_path: path })
+    : await supabase.rpc('restore_project_version', { p_version_id: versionId });
 
   if (error) throw error;
+  return data;
 }
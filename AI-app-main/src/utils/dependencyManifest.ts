@@ -0,0 +1,188 @@
+/**
+ * Dependency Manifest
+ *
+ * Works out which npm packages a generated app needs from what its files
+ * actually import, and reconciles that with the ===DEPENDENCIES=== block the
+ * model declared:
+ *   - imported but not declared -> added, and reported as missing
+ *   - declared but never imported -> dropped, and reported as unused
+ *   - versions come from KNOWN_VERSIONS when listed there, otherwise from
+ *     the declaration, otherwise 'latest'
+ *
+ * The reconciled dependencies drive the Sandpack preview and the exported
+ * package.json. Pure module - safe to import from client components.
+ */
+
+import { isLocalSpecifier } from './importResolver';
+
+export interface MissingDependency {
+  name: string;
+  /** File and 1-based line of the first import of the package */
+  file: string;
+  line: number;
+  /** Version it was added with */
+  version: string;
+}
+
+export interface DependencyManifest {
+  /** Package -> version, sorted by package name */
+  dependencies: Record<string, string>;
+  missing: MissingDependency[];
+  unused: string[];
+  /** Packages with no known or declared version (added as 'latest') */
+  unpinned: string[];
+}
+
+/**
+ * Curated versions for packages generated apps commonly use.
+ * Kept compatible with each other and with the preview (React 18).
+ */
+export const KNOWN_VERSIONS: Record<string, string> = {
+  react: '^18.2.0',
+  'react-dom': '^18.2.0',
+  next: '13.5.4',
+  '@supabase/supabase-js': '^2.39.0',
+  '@tanstack/react-query': '^5.17.0',
+  '@heroicons/react': '^2.1.1',
+  axios: '^1.6.5',
+  'chart.js': '^4.4.1',
+  clsx: '^2.1.0',
+  'date-fns': '^3.2.0',
+  dayjs: '^1.11.10',
+  'framer-motion': '^10.18.0',
+  immer: '^10.0.3',
+  'lucide-react': '^0.309.0',
+  lodash: '^4.17.21',
+  nanoid: '^5.0.4',
+  'react-chartjs-2': '^5.2.0',
+  'react-hook-form': '^7.49.3',
+  'react-hot-toast': '^2.4.1',
+  'react-icons': '^5.0.1',
+  'react-markdown': '^9.0.1',
+  'react-router-dom': '^6.21.2',
+  recharts: '^2.10.4',
+  swr: '^2.2.4',
+  'tailwind-merge': '^2.2.0',
+  uuid: '^9.0.1',
+  zod: '^3.22.4',
+  zustand: '^4.4.7',
+};
+
+/** Every preview and export includes these - never reported as missing or unused */
+const PROVIDED_PACKAGES = new Set(['react', 'react-dom']);
+
+const NODE_BUILTINS = new Set([
+  'assert', 'buffer', 'child_process', 'crypto', 'events', 'fs', 'http', 'https',
+  'os', 'path', 'process', 'querystring', 'stream', 'string_decoder', 'url', 'util', 'zlib',
+]);
+
+const IMPORT_PATTERNS = [
+  /(?:^|[\s;])(?:import|export)\s[^'";]*?\bfrom\s*['"]([^'"]+)['"]/g,
+  /(?:^|[\s;])import\s*['"]([^'"]+)['"]/g,
+  /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+const CODE_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+/**
+ * npm package a bare specifier belongs to ('@scope/pkg/sub' -> '@scope/pkg'),
+ * or null for local files, Node built-ins and URLs
+ */
+export function packageName(specifier: string): string | null {
+  if (isLocalSpecifier(specifier) || specifier.startsWith('node:') || /^[a-z]+:\/\//.test(specifier)) {
+    return null;
+  }
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  return NODE_BUILTINS.has(name) ? null : name;
+}
+
+/**
+ * Where each package is first imported (file order, then position)
+ */
+export function findPackageImports(
+  files: Array<{ path: string; content: string }>
+): Map<string, { file: string; line: number }> {
+  const found = new Map<string, { file: string; line: number }>();
+
+  for (const file of files) {
+    if (!CODE_EXTENSIONS.test(file.path)) continue;
+    // Earliest offset of each package in this file
+    const offsets = new Map<string, number>();
+
+    for (const pattern of IMPORT_PATTERNS) {
+      for (const match of file.content.matchAll(pattern)) {
+        const name = packageName(match[1]);
+        const offset = match.index! + match[0].indexOf(match[1]);
+        if (name && (!offsets.has(name) || offset < offsets.get(name)!)) {
+          offsets.set(name, offset);
+        }
+      }
+    }
+
+    offsets.forEach((offset, name) => {
+      if (!found.has(name)) {
+        found.set(name, { file: file.path, line: file.content.slice(0, offset).split('\n').length });
+      }
+    });
+  }
+
+  return found;
+}
+
+/**
+ * Parse a ===DEPENDENCIES=== block: one package per line as
+ * 'name: version', 'name@version' or just 'name' (bullets allowed)
+ */
+export function parseDependencyBlock(text: string): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim().replace(/^[-*]\s*/, '').replace(/[,"']/g, '').trim();
+    if (!line || line.startsWith('#') || line.startsWith('//')) continue;
+
+    const colon = line.match(/^(@?[^\s:@]+(?:\/[^\s:@]+)?)\s*:\s*(\S+)/);
+    const at = line.match(/^(@?[^\s@]+)@(\S+)$/);
+    const bare = line.match(/^(@?[\w.-]+(?:\/[\w.-]+)?)$/);
+
+    if (colon) {
+      dependencies[colon[1]] = colon[2];
+    } else if (at) {
+      dependencies[at[1]] = at[2];
+    } else if (bare) {
+      dependencies[bare[1]] = '';
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Reconcile the declared dependencies with what the files import
+ *
+ * @param files - Generated files
+ * @param declared - Declared package -> version ('' when no version was given)
+ */
+export function reconcileDependencies(
+  files: Array<{ path: string; content: string }>,
+  declared: Record<string, string>
+): DependencyManifest {
+  const imports = findPackageImports(files);
+  const manifest: DependencyManifest = { dependencies: {}, missing: [], unused: [], unpinned: [] };
+
+  Array.from(imports.keys()).sort().forEach(name => {
+    const version = KNOWN_VERSIONS[name] || declared[name] || 'latest';
+    manifest.dependencies[name] = version;
+
+    if (!(name in declared) && !PROVIDED_PACKAGES.has(name)) {
+      manifest.missing.push({ name, ...imports.get(name)!, version });
+    }
+    if (version === 'latest') {
+      manifest.unpinned.push(name);
+    }
+  });
+
+  manifest.unused = Object.keys(declared).filter(name => !imports.has(name) && !PROVIDED_PACKAGES.has(name)).sort();
+  return manifest;
+}
@@ -0,0 +1,662 @@
+/**
+ * Diff Schema
+ *
+ * Single source of truth for the modification diff format shared by the
+ * modify route, applyDiff, the store (PendingDiff) and DiffPreview.
+ *
+ * Model output is untrusted, so validateDiffResponse() checks every change
+ * against the per-type field rules below and reports field-level errors
+ * (e.g. "files[0].changes[2].searchFor: required") before anything is applied.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { ASTOperation } from './astExecutor';
+import type { AnchorMatchSummary } from './searchMatcher';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StringChangeType =
+  | 'ADD_IMPORT'
+  | 'INSERT_AFTER'
+  | 'INSERT_BEFORE'
+  | 'REPLACE'
+  | 'DELETE'
+  | 'APPEND';
+
+export type ASTChangeType = ASTOperation['type'];
+
+export type DiffChangeType = StringChangeType | ASTChangeType;
+
+/**
+ * A single change inside a FileDiff. Flat on purpose: the model emits one
+ * object shape per change and each type uses a subset of these fields
+ * (see CHANGE_FIELD_RULES for which ones).
+ */
+export interface DiffChange {
+  type: DiffChangeType;
+  line?: number;
+  searchFor?: string;
+  content?: string;
+  replaceWith?: string;
+  // AST_WRAP_ELEMENT / AST_MODIFY_CLASSNAME / AST_INSERT_JSX / AST_MODIFY_PROP
+  targetElement?: string;
+  wrapperComponent?: string;
+  wrapperProps?: Record<string, string>;
+  // AST_ADD_STATE / AST_ADD_REF / AST_ADD_MEMO / AST_ADD_CALLBACK / AST_ADD_REDUCER
+  name?: string;
+  setter?: string;
+  initialValue?: string;
+  // AST_ADD_IMPORT
+  source?: string;
+  defaultImport?: string;
+  namedImports?: string[];
+  namespaceImport?: string;
+  import?: {
+    source: string;
+    defaultImport?: string;
+    namedImports?: string[];
+    namespaceImport?: string;
+  };
+  // AST_MODIFY_CLASSNAME
+  staticClasses?: string[];
+  template?: {
+    variable: string;
+    trueValue: string;
+    falseValue?: string;
+    operator?: '?' | '&&';
+  };
+  rawTemplate?: string;
+  // AST_INSERT_JSX
+  jsx?: string;
+  position?: 'before' | 'after' | 'inside_start' | 'inside_end';
+  // AST_ADD_USEEFFECT / AST_ADD_CALLBACK
+  body?: string;
+  dependencies?: string[];
+  cleanup?: string;
+  params?: string[];
+  // AST_MODIFY_PROP
+  propName?: string;
+  propValue?: string;
+  action?: 'add' | 'update' | 'remove';
+  // AST_ADD_AUTHENTICATION
+  loginFormStyle?: 'simple' | 'styled';
+  includeEmailField?: boolean;
+  // AST_ADD_MEMO
+  computation?: string;
+  // AST_ADD_REDUCER (string) / AST_ADD_ZUSTAND_STORE (object)
+  dispatchName?: string;
+  reducerName?: string;
+  initialState?: string | Record<string, any>;
+  actions?: Array<Record<string, any>>;
+  // AST_ADD_CONTEXT_PROVIDER
+  contextName?: string;
+  providerName?: string;
+  hookName?: string;
+  valueType?: string;
+  includeState?: boolean;
+  stateVariables?: Array<{
+    name: string;
+    initialValue: string;
+    type?: string;
+  }>;
+  // AST_ADD_ZUSTAND_STORE
+  storeName?: string;
+  storeFile?: string;
+  persist?: boolean;
+  persistKey?: string;
+  // AST_EXTRACT_COMPONENT
+  targetJSX?: string;
+  componentName?: string;
+  componentFile?: string;
+  extractProps?: boolean;
+  propTypes?: Record<string, string>;
+  // AST_RENAME_SYMBOL
+  oldName?: string;
+  newName?: string;
+  kind?: 'variable' | 'function' | 'component' | 'prop';
+  scope?: string;
+  component?: string;
+  // AST_REMOVE_HOOK
+  hook?: string;
+  contains?: string;
+  // AST_REMOVE_IMPORT
+  names?: string[];
+}
+
+export type FileAction = 'MODIFY' | 'CREATE' | 'DELETE';
+
+export interface FileDiff {
+  path: string;
+  action: FileAction;
+  changes: DiffChange[];
+}
+
+export interface StagePlan {
+  currentStage: number;
+  totalStages: number;
+  stageDescription: string;
+  nextStages: string[];
+}
+
+export interface DiffResponse {
+  changeType: 'MODIFICATION';
+  summary: string;
+  files: FileDiff[];
+  stagePlan?: StagePlan;
+}
+
+export interface DiffFieldError {
+  /** Location in the response, e.g. "files[0].changes[2].searchFor" */
+  path: string;
+  message: string;
+}
+
+export interface DiffValidationResult<T> {
+  valid: boolean;
+  errors: DiffFieldError[];
+  value?: T;
+}
+
+/**
+ * Dry-run outcome of a single change:
+ *   matched    - applies cleanly (searchFor found exactly once, if it has one)
+ *   ambiguous  - searchFor occurs more than once exactly; the first occurrence is used
+ *                (several approximate matches fail instead)
+ *   not_found  - searchFor could not be located, even approximately
+ *   failed     - the change could not be applied for another reason
+ */
+export type ChangeStatus = 'matched' | 'ambiguous' | 'not_found' | 'failed';
+
+export interface ChangePreview {
+  index: number;
+  type: DiffChangeType;
+  description: string;
+  status: ChangeStatus;
+  /** How often searchFor occurs in the file at the point this change runs */
+  occurrences?: number;
+  /** How searchFor was located (exact, whitespace-insensitive or fuzzy) */
+  match?: AnchorMatchSummary;
+  error?: string;
+}
+
+/**
+ * Exact result of applying one FileDiff, produced by applyDiff's dry-run.
+ * `before` is null for created files and `after` is null for deleted ones.
+ */
+export interface FilePreview {
+  path: string;
+  action: FileAction;
+  before: string | null;
+  after: string | null;
+  unifiedDiff: string;
+  changes: ChangePreview[];
+  /** File-level problem: missing MODIFY target or a syntax error introduced by the changes */
+  error?: string;
+}
+
+/**
+ * Compact record of a DiffResponse, stored with the version snapshot taken
+ * before the diff was applied (see utils/db/versions.ts)
+ */
+export interface DiffSummary {
+  summary: string;
+  files: Array<{
+    path: string;
+    action: FileAction;
+    /** describeChange() of each change, in order */
+    changes: string[];
+  }>;
+}
+
+// ============================================================================
+// FIELD RULES
+// ============================================================================
+
+type FieldKind = 'string' | 'nonEmptyString' | 'boolean' | 'number' | 'stringArray' | 'stringRecord' | 'object' | 'array';
+
+interface FieldRule {
+  kind: FieldKind;
+  required?: boolean;
+  /** Allowed values for string fields */
+  values?: readonly string[];
+  /** String fields each array item must have (kind: 'array') */
+  itemFields?: string[];
+}
+
+type FieldRules = Record<string, FieldRule>;
+
+const req = (kind: FieldKind, extra: Partial<FieldRule> = {}): FieldRule => ({ kind, required: true, ...extra });
+const opt = (kind: FieldKind, extra: Partial<FieldRule> = {}): FieldRule => ({ kind, ...extra });
+
+const IMPORT_FIELDS: FieldRules = {
+  defaultImport: opt('string'),
+  namedImports: opt('stringArray'),
+  namespaceImport: opt('string'),
+};
+
+/**
+ * Fields each change type reads. Keyed by every DiffChangeType, so adding an
+ * operation without rules is a type error.
+ */
+export const CHANGE_FIELD_RULES: Record<DiffChangeType, FieldRules> = {
+  ADD_IMPORT: { content: req('nonEmptyString') },
+  INSERT_AFTER: { searchFor: req('nonEmptyString'), content: req('string') },
+  INSERT_BEFORE: { searchFor: req('nonEmptyString'), content: req('string') },
+  REPLACE: { searchFor: req('nonEmptyString'), replaceWith: req('string') },
+  DELETE: { searchFor: req('nonEmptyString') },
+  APPEND: { content: req('string') },
+
+  AST_WRAP_ELEMENT: {
+    targetElement: req('nonEmptyString'),
+    wrapperComponent: req('nonEmptyString'),
+    wrapperProps: opt('stringRecord'),
+    import: opt('object'),
+  },
+  AST_ADD_STATE: {
+    name: req('nonEmptyString'),
+    setter: req('nonEmptyString'),
+    initialValue: req('nonEmptyString'),
+  },
+  AST_ADD_IMPORT: { source: req('nonEmptyString'), ...IMPORT_FIELDS },
+  AST_MODIFY_CLASSNAME: {
+    targetElement: req('nonEmptyString'),
+    staticClasses: opt('stringArray'),
+    template: opt('object'),
+    rawTemplate: opt('string'),
+  },
+  AST_INSERT_JSX: {
+    targetElement: req('nonEmptyString'),
+    jsx: req('nonEmptyString'),
+    position: req('string', { values: ['before', 'after', 'inside_start', 'inside_end'] }),
+  },
+  AST_ADD_USEEFFECT: {
+    body: req('string'),
+    dependencies: opt('stringArray'),
+    cleanup: opt('string'),
+  },
+  AST_MODIFY_PROP: {
+    targetElement: req('nonEmptyString'),
+    propName: req('nonEmptyString'),
+    propValue: opt('string'),
+    action: req('string', { values: ['add', 'update', 'remove'] }),
+  },
+  AST_ADD_AUTHENTICATION: {
+    loginFormStyle: opt('string', { values: ['simple', 'styled'] }),
+    includeEmailField: opt('boolean'),
+  },
+  AST_ADD_REF: {
+    name: req('nonEmptyString'),
+    initialValue: req('string'),
+  },
+  AST_ADD_MEMO: {
+    name: req('nonEmptyString'),
+    computation: req('nonEmptyString'),
+    dependencies: req('stringArray'),
+  },
+  AST_ADD_CALLBACK: {
+    name: req('nonEmptyString'),
+    params: opt('stringArray'),
+    body: req('string'),
+    dependencies: req('stringArray'),
+  },
+  AST_ADD_REDUCER: {
+    name: req('nonEmptyString'),
+    dispatchName: req('nonEmptyString'),
+    reducerName: req('nonEmptyString'),
+    initialState: req('nonEmptyString'),
+    actions: req('array', { itemFields: ['type', 'handler'] }),
+  },
+  AST_ADD_CONTEXT_PROVIDER: {
+    contextName: req('nonEmptyString'),
+    providerName: opt('string'),
+    hookName: opt('string'),
+    initialValue: req('nonEmptyString'),
+    valueType: opt('string'),
+    includeState: opt('boolean'),
+    stateVariables: opt('array', { itemFields: ['name', 'initialValue'] }),
+  },
+  AST_ADD_ZUSTAND_STORE: {
+    storeName: req('nonEmptyString'),
+    storeFile: opt('string'),
+    initialState: req('object'),
+    actions: opt('array', { itemFields: ['name', 'body'] }),
+    persist: opt('boolean'),
+    persistKey: opt('string'),
+  },
+  AST_EXTRACT_COMPONENT: {
+    targetJSX: req('nonEmptyString'),
+    componentName: req('nonEmptyString'),
+    componentFile: opt('string'),
+    extractProps: opt('boolean'),
+    propTypes: opt('stringRecord'),
+  },
+  AST_RENAME_SYMBOL: {
+    oldName: req('nonEmptyString'),
+    newName: req('nonEmptyString'),
+    kind: opt('string', { values: ['variable', 'function', 'component', 'prop'] }),
+    scope: opt('string'),
+    component: opt('string'),
+  },
+  AST_REMOVE_ELEMENT: { targetElement: req('nonEmptyString') },
+  AST_REMOVE_HOOK: {
+    hook: req('nonEmptyString'),
+    name: opt('string'),
+    contains: opt('string'),
+  },
+  AST_REMOVE_FUNCTION: { name: req('nonEmptyString') },
+  AST_REMOVE_IMPORT: { source: req('nonEmptyString'), names: opt('stringArray') },
+};
+
+export const DIFF_CHANGE_TYPES = Object.keys(CHANGE_FIELD_RULES) as DiffChangeType[];
+
+const FILE_ACTIONS: readonly FileAction[] = ['MODIFY', 'CREATE', 'DELETE'];
+
+export function isDiffChangeType(value: unknown): value is DiffChangeType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CHANGE_FIELD_RULES, value);
+}
+
+export function isASTChangeType(type: DiffChangeType): type is ASTChangeType {
+  return type.startsWith('AST_');
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string, errors: DiffFieldError[]): void {
+  if (value === undefined || value === null) {
+    if (rule.required) {
+      errors.push({ path, message: 'required' });
+    }
+    return;
+  }
+
+  switch (rule.kind) {
+    case 'string':
+    case 'nonEmptyString':
+      if (typeof value !== 'string') {
+        errors.push({ path, message: `expected string, got ${typeof value}` });
+      } else if (rule.kind === 'nonEmptyString' && !value.trim()) {
+        errors.push({ path, message: 'must not be empty' });
+      } else if (rule.values && !rule.values.includes(value)) {
+        errors.push({ path, message: `must be one of ${rule.values.join(', ')}` });
+      }
+      return;
+
+    case 'boolean':
+    case 'number':
+      if (typeof value !== rule.kind) {
+        errors.push({ path, message: `expected ${rule.kind}, got ${typeof value}` });
+      }
+      return;
+
+    case 'stringArray':
+      if (!Array.isArray(value)) {
+        errors.push({ path, message: 'expected array of strings' });
+      } else {
+        value.forEach((item, index) => {
+          if (typeof item !== 'string') {
+            errors.push({ path: `${path}[${index}]`, message: `expected string, got ${typeof item}` });
+          }
+        });
+      }
+      return;
+
+    case 'stringRecord':
+      if (!isPlainObject(value)) {
+        errors.push({ path, message: 'expected object of strings' });
+      } else {
+        for (const [key, item] of Object.entries(value)) {
+          if (typeof item !== 'string') {
+            errors.push({ path: `${path}.${key}`, message: `expected string, got ${typeof item}` });
+          }
+        }
+      }
+      return;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        errors.push({ path, message: 'expected object' });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ path, message: 'expected array' });
+        return;
+      }
+      value.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`;
+        if (!isPlainObject(item)) {
+          errors.push({ path: itemPath, message: 'expected object' });
+          return;
+        }
+        for (const field of rule.itemFields || []) {
+          if (typeof item[field] !== 'string') {
+            errors.push({ path: `${itemPath}.${field}`, message: 'required string' });
+          }
+        }
+      });
+      return;
+  }
+}
+
+/**
+ * Validate a single change. `path` prefixes error locations.
+ */
+export function validateDiffChange(change: unknown, path: string = 'change'): DiffFieldError[] {
+  const errors: DiffFieldError[] = [];
+
+  if (!isPlainObject(change)) {
+    return [{ path, message: 'expected object' }];
+  }
+
+  if (!isDiffChangeType(change.type)) {
+    return [{
+      path: `${path}.type`,
+      message: `unknown change type "${String(change.type)}". Valid types: ${DIFF_CHANGE_TYPES.join(', ')}`,
+    }];
+  }
+
+  checkField(change.line, opt('number'), `${path}.line`, errors);
+
+  for (const [field, rule] of Object.entries(CHANGE_FIELD_RULES[change.type])) {
+    checkField(change[field], rule, `${path}.${field}`, errors);
+  }
+
+  // Nested import spec on AST_WRAP_ELEMENT
+  if (change.type === 'AST_WRAP_ELEMENT' && isPlainObject(change.import)) {
+    checkField(change.import.source, req('nonEmptyString'), `${path}.import.source`, errors);
+    for (const [field, rule] of Object.entries(IMPORT_FIELDS)) {
+      checkField(change.import[field], rule, `${path}.import.${field}`, errors);
+    }
+  }
+
+  // Template spec on AST_MODIFY_CLASSNAME
+  if (change.type === 'AST_MODIFY_CLASSNAME' && isPlainObject(change.template)) {
+    checkField(change.template.variable, req('nonEmptyString'), `${path}.template.variable`, errors);
+    checkField(change.template.trueValue, req('string'), `${path}.template.trueValue`, errors);
+    checkField(change.template.falseValue, opt('string'), `${path}.template.falseValue`, errors);
+    checkField(change.template.operator, opt('string', { values: ['?', '&&'] }), `${path}.template.operator`, errors);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a list of file diffs (the `files` array of a DiffResponse).
+ * A DELETE without `changes` is normalized in place to `changes: []`.
+ */
+export function validateFileDiffs(files: unknown, path: string = 'files'): DiffValidationResult<FileDiff[]> {
+  const errors: DiffFieldError[] = [];
+
+  if (!Array.isArray(files)) {
+    return { valid: false, errors: [{ path, message: 'expected array' }] };
+  }
+
+  files.forEach((file, fileIndex) => {
+    const filePath = `${path}[${fileIndex}]`;
+
+    if (!isPlainObject(file)) {
+      errors.push({ path: filePath, message: 'expected object' });
+      return;
+    }
+
+    checkField(file.path, req('nonEmptyString'), `${filePath}.path`, errors);
+    checkField(file.action, req('string', { values: FILE_ACTIONS }), `${filePath}.action`, errors);
+
+    if (!Array.isArray(file.changes)) {
+      // DELETE needs no changes - normalize so consumers can always iterate
+      if (file.action === 'DELETE' && file.changes === undefined) {
+        file.changes = [];
+      } else {
+        errors.push({ path: `${filePath}.changes`, message: 'expected array' });
+      }
+      return;
+    }
+
+    if (file.action === 'CREATE' && typeof file.changes[0]?.content !== 'string') {
+      errors.push({ path: `${filePath}.changes[0].content`, message: 'CREATE requires the file content in the first change' });
+    }
+
+    file.changes.forEach((change: unknown, changeIndex: number) => {
+      errors.push(...validateDiffChange(change, `${filePath}.changes[${changeIndex}]`));
+    });
+  });
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, errors, value: files as FileDiff[] };
+}
+
+/**
+ * Validate a complete modify-route response
+ */
+export function validateDiffResponse(response: unknown): DiffValidationResult<DiffResponse> {
+  if (!isPlainObject(response)) {
+    return { valid: false, errors: [{ path: '', message: 'expected JSON object' }] };
+  }
+
+  const errors: DiffFieldError[] = [];
+
+  checkField(response.changeType, req('string', { values: ['MODIFICATION'] }), 'changeType', errors);
+  checkField(response.summary, req('string'), 'summary', errors);
+  errors.push(...validateFileDiffs(response.files).errors);
+
+  if (response.stagePlan !== undefined) {
+    if (!isPlainObject(response.stagePlan)) {
+      errors.push({ path: 'stagePlan', message: 'expected object' });
+    } else {
+      checkField(response.stagePlan.currentStage, req('number'), 'stagePlan.currentStage', errors);
+      checkField(response.stagePlan.totalStages, req('number'), 'stagePlan.totalStages', errors);
+      checkField(response.stagePlan.stageDescription, opt('string'), 'stagePlan.stageDescription', errors);
+      checkField(response.stagePlan.nextStages, opt('stringArray'), 'stagePlan.nextStages', errors);
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, errors, value: response as DiffResponse };
+}
+
+/**
+ * Format validation errors for logs and correction prompts
+ */
+export function formatDiffErrors(errors: DiffFieldError[]): string {
+  return errors.map(e => `- ${e.path || '(root)'}: ${e.message}`).join('\n');
+}
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+function truncate(value: string | undefined, length: number): string {
+  if (!value) return '';
+  return value.length > length ? `${value.substring(0, length)}...` : value;
+}
+
+/**
+ * Human-readable description of a change, used by previews and logs
+ */
+export function describeChange(change: DiffChange): string {
+  switch (change.type) {
+    case 'ADD_IMPORT':
+      return `Add import: ${truncate(change.content, 50)}`;
+    case 'INSERT_AFTER':
+      return `Insert after: "${truncate(change.searchFor, 40)}"`;
+    case 'INSERT_BEFORE':
+      return `Insert before: "${truncate(change.searchFor, 40)}"`;
+    case 'REPLACE':
+      return `Replace: "${truncate(change.searchFor, 30)}" → "${truncate(change.replaceWith, 30)}"`;
+    case 'DELETE':
+      return `Delete: "${truncate(change.searchFor, 40)}"`;
+    case 'APPEND':
+      return 'Append code to end of file';
+    case 'AST_WRAP_ELEMENT':
+      return `Wrap <${change.targetElement}> in <${change.wrapperComponent}>`;
+    case 'AST_ADD_STATE':
+      return `Add state: const [${change.name}, ${change.setter}] = useState(${truncate(change.initialValue, 30)})`;
+    case 'AST_ADD_IMPORT':
+      return `Add import from "${change.source}"`;
+    case 'AST_MODIFY_CLASSNAME':
+      return `Update className on <${change.targetElement}>`;
+    case 'AST_INSERT_JSX':
+      return `Insert JSX ${(change.position || '').replace('_', ' ')} <${change.targetElement}>`;
+    case 'AST_ADD_USEEFFECT':
+      return `Add useEffect${change.dependencies ? ` [${change.dependencies.join(', ')}]` : ''}`;
+    case 'AST_MODIFY_PROP':
+      return `${change.action === 'remove' ? 'Remove' : change.action === 'update' ? 'Update' : 'Add'} prop "${change.propName}" on <${change.targetElement}>`;
+    case 'AST_ADD_AUTHENTICATION':
+      return 'Add authentication (login form, state and logout)';
+    case 'AST_ADD_REF':
+      return `Add ref: ${change.name}`;
+    case 'AST_ADD_MEMO':
+      return `Add memoized value: ${change.name}`;
+    case 'AST_ADD_CALLBACK':
+      return `Add callback: ${change.name}(${(change.params || []).join(', ')})`;
+    case 'AST_ADD_REDUCER':
+      return `Add reducer: ${change.reducerName} (${change.actions?.length || 0} actions)`;
+    case 'AST_ADD_CONTEXT_PROVIDER':
+      return `Add context provider: ${change.contextName}`;
+    case 'AST_ADD_ZUSTAND_STORE':
+      return `Add Zustand store: ${change.storeName}`;
+    case 'AST_EXTRACT_COMPONENT':
+      return `Extract component: ${change.componentName}`;
+    case 'AST_RENAME_SYMBOL':
+      return change.kind === 'prop'
+        ? `Rename prop ${change.oldName} → ${change.newName} on <${change.component}>`
+        : `Rename ${change.oldName} → ${change.newName} (all files)`;
+    case 'AST_REMOVE_ELEMENT':
+      return `Remove <${change.targetElement}>`;
+    case 'AST_REMOVE_HOOK':
+      return `Remove ${change.hook}${change.name ? ` (${change.name})` : ''}`;
+    case 'AST_REMOVE_FUNCTION':
+      return `Remove function ${change.name}`;
+    case 'AST_REMOVE_IMPORT':
+      return `Remove ${change.names?.length ? change.names.join(', ') : 'import'} from "${change.source}"`;
+    default:
+      return 'Unknown change';
+  }
+}
+
+/**
+ * Summarize a diff for version history: what each file had done to it,
+ * without the code the changes carried
+ */
+export function summarizeDiff(diff: Pick<DiffResponse, 'summary' | 'files'>): DiffSummary {
+  return {
+    summary: diff.summary,
+    files: diff.files.map(file => ({
+      path: file.path,
+      action: file.action,
+      changes: file.changes.map(describeChange),
+    })),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Diff Stream Parser
+ *
+ * Pulls FileDiffs out of a modify-route response while it is still being
+ * streamed. The response is one JSON object (optionally wrapped in a
+ * ```json fence); every time an element of its top-level `files` array is
+ * complete it is parsed and schema-checked on its own, so the UI can show
+ * which files are changing before the rest of the response arrives.
+ *
+ * Also defines the SSE events the modify route sends when the request asks
+ * for `stream: true`.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import { validateFileDiffs, type FileDiff } from './diffSchema';
+import type { ValidationError } from './codeValidator';
+
+// ============================================================================
+// STREAM EVENTS
+// ============================================================================
+
+export type ModifyStreamEvent =
+  | {
+      type: 'progress';
+      message: string;
+      /** Estimated from the streamed characters (~4 per token) */
+      outputTokens: number;
+      /** File currently being written, when its path has arrived */
+      currentFile?: string;
+      percentComplete: number;
+    }
+  | {
+      /** A file diff parsed from the partial response - before validation and auto-fix */
+      type: 'file';
+      file: FileDiff;
+      fileIndex: number;
+      percentComplete: number;
+    }
+  | {
+      type: 'validation';
+      snippetsChecked: number;
+      errorsFound: number;
+      errorsFixed: number;
+      issues: Array<{ file: string; change: number; errors: ValidationError[] }>;
+      percentComplete: number;
+    }
+  | {
+      /** Same body the non-streaming route returns */
+      type: 'complete';
+      data: Record<string, any>;
+    }
+  | {
+      type: 'error';
+      message: string;
+      data: Record<string, any>;
+    };
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export class DiffStreamParser {
+  private text = '';
+  private position = 0;
+  /** Open containers ('{' or '[') at the scan position */
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  /** Last string completed directly inside the top-level object */
+  private lastKey: string | null = null;
+  private inFiles = false;
+  private fileStart = -1;
+
+  /**
+   * Add streamed text
+   *
+   * @returns FileDiffs completed by this chunk, in order
+   */
+  push(chunk: string): FileDiff[] {
+    this.text += chunk;
+    const completed: FileDiff[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.stack.length === 1) {
+            this.lastKey = this.text.slice(this.stringStart + 1, this.position);
+          }
+        }
+        continue;
+      }
+
+      // Skip anything before the response object (e.g. a ```json fence)
+      if (this.stack.length === 0 && char !== '{') continue;
+
+      if (char === '"') {
+        this.inString = true;
+        this.stringStart = this.position;
+      } else if (char === '{' || char === '[') {
+        if (char === '[' && this.stack.length === 1 && this.lastKey === 'files') {
+          this.inFiles = true;
+        }
+        if (char === '{' && this.inFiles && this.stack.length === 2) {
+          this.fileStart = this.position;
+        }
+        this.stack.push(char);
+      } else if (char === '}' || char === ']') {
+        this.stack.pop();
+        if (char === '}' && this.inFiles && this.stack.length === 2 && this.fileStart !== -1) {
+          const file = this.parseFile(this.text.slice(this.fileStart, this.position + 1));
+          if (file) completed.push(file);
+          this.fileStart = -1;
+        }
+        if (char === ']' && this.inFiles && this.stack.length === 1) {
+          this.inFiles = false;
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Path of the file diff currently being streamed, once its "path" has arrived
+   */
+  currentPath(): string | null {
+    if (this.fileStart === -1) return null;
+    const match = this.text.slice(this.fileStart).match(/"path"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+    return match ? JSON.parse(`"${match[1]}"`) : null;
+  }
+
+  /**
+   * A complete `files` element, or null when it doesn't pass the schema
+   * (the full response is validated again once streaming ends)
+   */
+  private parseFile(json: string): FileDiff | null {
+    try {
+      const validation = validateFileDiffs([JSON.parse(json)]);
+      return validation.valid ? validation.value![0] : null;
+    } catch {
+      return null;
+    }
+  }
+}
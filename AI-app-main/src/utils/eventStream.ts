@@ -0,0 +1,57 @@
+/**
+ * Event Stream Reader
+ *
+ * Reads a server-sent-events response body (`data: <json>` events separated
+ * by a blank line, as the streaming API routes send them) and hands each
+ * parsed event to a callback. fetch() is used rather than EventSource
+ * because the routes are POST endpoints.
+ *
+ * Resumable routes tag events with an `id:`; the callback receives the last
+ * id seen so far, which the client sends back as the `Last-Event-ID` header
+ * when it reconnects.
+ */
+
+/**
+ * Read every event from an SSE response until the stream ends
+ */
+export async function readEventStream<T>(
+  response: Response,
+  onEvent: (event: T, lastEventId: string | undefined) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lastEventId: string | undefined;
+
+  const dispatch = (raw: string) => {
+    const lines = raw.split('\n');
+    const id = lines.find(line => line.startsWith('id:'));
+    if (id) lastEventId = id.slice(3).trim();
+
+    const data = lines
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (data) onEvent(JSON.parse(data), lastEventId);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  // A final event without the trailing blank line
+  buffer += decoder.decode();
+  if (buffer.trim()) dispatch(buffer);
+}
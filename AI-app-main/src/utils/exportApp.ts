@@ -1,4 +1,5 @@
 import JSZip from 'jszip';
+import { KNOWN_VERSIONS } from './dependencyManifest';
 
 export interface AppFile {
   path: string;
@@ -11,12 +12,16 @@ export interface ExportOptions {
   includePackageJson?: boolean;
   includeReadme?: boolean;
   includeEnvExample?: boolean;
+  /** The app's own packages (see reconcileDependencies), added to package.json */
+  dependencies?: Record<string, string>;
 }
 
 /**
  * Generate package.json for the exported app
+ * 
+ * @param dependencies - The app's own packages; the Next.js toolchain is always included
  */
-export function generatePackageJson(appName: string): string {
+export function generatePackageJson(appName: string, dependencies: Record<string, string> = {}): string {
   const packageJson = {
     name: appName.toLowerCase().replace(/\s+/g, '-'),
     version: '0.1.0',
@@ -28,9 +33,10 @@ export function generatePackageJson(appName: string): string {
       lint: 'next lint',
     },
     dependencies: {
-      react: '^18.2.0',
-      'react-dom': '^18.2.0',
-      next: '13.5.4',
+      ...dependencies,
+      react: KNOWN_VERSIONS.react,
+      'react-dom': KNOWN_VERSIONS['react-dom'],
+      next: KNOWN_VERSIONS.next,
       typescript: '^5',
       '@types/node': '^20',
       '@types/react': '^18',
@@ -256,7 +262,7 @@ export async function exportAppAsZip(options: ExportOptions): Promise<Blob> {
 
   // Add package.json
   if (options.includePackageJson !== false) {
-    zip.file('package.json', generatePackageJson(options.appName));
+    zip.file('package.json', generatePackageJson(options.appName, options.dependencies));
   }
 
   // Add README.md
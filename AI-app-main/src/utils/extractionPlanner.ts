@@ -0,0 +1,277 @@
+import type Parser from 'tree-sitter';
+import { findAnchor } from './searchMatcher';
+import { ScopeIndex, findFreeReferences, statementSource, descendants } from './scopeAnalysis';
+
+/**
+ * Extraction Planner - plans AST_EXTRACT_COMPONENT on a Tree-sitter tree
+ *
+ * Finds the JSX subtree to extract, works out which names it borrows from
+ * the code around it and builds the pieces the executor needs:
+ *   - the new component's declaration (props destructured and typed)
+ *   - the `<NewComponent a={a} />` usage that replaces the subtree
+ *   - the imports the new component needs when it lives in another file
+ *
+ * Free variable handling:
+ *   - locals of the enclosing component (state, handlers, params) -> props
+ *   - module-level declarations of the source file -> props
+ *   - imports -> copied into the new file, narrowed to what is used
+ *   - globals (window, console, ...) -> left alone
+ */
+
+type Node = Parser.SyntaxNode;
+
+export interface ExtractComponentSpec {
+  /** Exact JSX to extract, a close copy of it, or a tag selector like 'header' / '<Sidebar>' */
+  targetJSX: string;
+  componentName: string;
+  /** Infer props from free variables (default true) */
+  extractProps?: boolean;
+  /** Types for inferred props; falls back to the declaration's annotation, then 'any' */
+  propTypes?: Record<string, string>;
+}
+
+/** One import statement the extracted component needs, as written in the source file */
+export interface ExtractedImport {
+  source: string;
+  defaultImport?: string;
+  namespaceImport?: string;
+  /** Specifier text, e.g. 'Button' or 'Icon as StarIcon' */
+  namedImports: string[];
+}
+
+export interface ExtractionPlan {
+  errors: string[];
+  /** Range of the subtree in the source file */
+  start: number;
+  end: number;
+  /** Replacement for the subtree */
+  usage: string;
+  props: string[];
+  /** Props interface (TypeScript only) and component function, without imports */
+  componentCode: string;
+  imports: ExtractedImport[];
+}
+
+const JSX_ELEMENT_TYPES = new Set(['jsx_element', 'jsx_self_closing_element']);
+const COMPONENT_NAME_PATTERN = /^[A-Z][\w$]*$/;
+const SELECTOR_PATTERN = /^<?\s*([A-Za-z][\w.]*)\s*\/?>?$/;
+
+/**
+ * Plan the extraction of `spec.targetJSX` from `root` into a component
+ */
+export function planComponentExtraction(
+  root: Node,
+  spec: ExtractComponentSpec,
+  options: { typescript: boolean }
+): ExtractionPlan {
+  const plan: ExtractionPlan = { errors: [], start: 0, end: 0, usage: '', props: [], componentCode: '', imports: [] };
+
+  if (!COMPONENT_NAME_PATTERN.test(spec.componentName)) {
+    plan.errors.push(`"${spec.componentName}" is not a valid component name - it must start with a capital letter`);
+    return plan;
+  }
+
+  const scopes = new ScopeIndex(root);
+  if (scopes.declares(root, spec.componentName)) {
+    plan.errors.push(`"${spec.componentName}" is already declared in this file`);
+    return plan;
+  }
+
+  const subtree = findTargetElement(root, spec.targetJSX);
+  if (!subtree) {
+    plan.errors.push(`Could not find JSX matching targetJSX: ${spec.targetJSX.slice(0, 80)}`);
+    return plan;
+  }
+
+  // Keyed by statement offset - node objects are not identity-stable
+  const imports = new Map<number, ExtractedImport>();
+  const props: string[] = [];
+
+  for (const ref of findFreeReferences(subtree, scopes)) {
+    const importStatement = ancestorOfType(ref.declaration, 'import_statement');
+    if (importStatement) {
+      addImportedName(imports, importStatement, ref.declaration);
+    } else {
+      props.push(ref.name);
+    }
+  }
+
+  if (spec.extractProps === false && props.length > 0) {
+    plan.errors.push(`The JSX uses ${props.join(', ')} from the surrounding code - enable extractProps to pass them as props`);
+    return plan;
+  }
+
+  // A list item's key belongs on the usage, not inside the component
+  const key = keyAttribute(subtree);
+  const jsxText = key
+    ? root.text.slice(subtree.startIndex, key.startIndex).replace(/\s+$/, '') +
+      root.text.slice(key.endIndex, subtree.endIndex)
+    : subtree.text;
+
+  const propTypes = spec.propTypes || {};
+  const attributes = props.map(name => `${name}={${name}}`);
+  if (key) attributes.unshift(key.text);
+
+  plan.start = subtree.startIndex;
+  plan.end = subtree.endIndex;
+  plan.props = props;
+  plan.imports = Array.from(imports.entries()).sort((a, b) => a[0] - b[0]).map(([, spec]) => spec);
+  plan.usage = `<${spec.componentName}${attributes.map(a => ` ${a}`).join('')} />`;
+  plan.componentCode = buildComponent(
+    spec.componentName,
+    props.map(name => ({ name, type: propTypes[name] || declaredType(scopes, subtree, name) || 'any' })),
+    jsxText,
+    options.typescript
+  );
+
+  return plan;
+}
+
+/**
+ * Source text of an import statement for the extracted component
+ */
+export function formatExtractedImport(spec: ExtractedImport, source: string = spec.source): string {
+  const clauses: string[] = [];
+  if (spec.defaultImport) clauses.push(spec.defaultImport);
+  if (spec.namespaceImport) clauses.push(`* as ${spec.namespaceImport}`);
+  if (spec.namedImports.length > 0) clauses.push(`{ ${spec.namedImports.join(', ')} }`);
+  return `import ${clauses.join(', ')} from '${source}';`;
+}
+
+/**
+ * True when the file already uses TypeScript syntax, so a Props interface fits in
+ */
+export function hasTypeAnnotations(root: Node): boolean {
+  return descendants(root).some(n =>
+    n.type === 'type_annotation' || n.type === 'interface_declaration' || n.type === 'type_alias_declaration'
+  );
+}
+
+// ============================================================================
+// LOCATING THE SUBTREE
+// ============================================================================
+
+/**
+ * JSX element for `targetJSX`: an element whose text matches ignoring
+ * whitespace, then a tag selector, then the element starting where the
+ * anchor matcher finds the text (tolerates truncated or slightly wrong copies)
+ */
+function findTargetElement(root: Node, targetJSX: string): Node | null {
+  const elements = descendants(root).filter(n => JSX_ELEMENT_TYPES.has(n.type));
+  const wanted = stripWhitespace(targetJSX);
+
+  const exact = elements.find(n => stripWhitespace(n.text) === wanted);
+  if (exact) return exact;
+
+  const selector = targetJSX.trim().match(SELECTOR_PATTERN);
+  if (selector) {
+    return elements.find(n => elementName(n) === selector[1]) || null;
+  }
+
+  const match = findAnchor(root.text, targetJSX.trim());
+  if (match) {
+    return elements.find(n => n.startIndex === match.start) || null;
+  }
+
+  return null;
+}
+
+function elementName(element: Node): string | undefined {
+  const tag = element.type === 'jsx_element' ? element.childForFieldName('open_tag') : element;
+  return tag?.childForFieldName('name')?.text;
+}
+
+function keyAttribute(element: Node): Node | null {
+  const tag = element.type === 'jsx_element' ? element.childForFieldName('open_tag') : element;
+  return tag?.namedChildren.find(
+    a => a.type === 'jsx_attribute' && a.namedChildren[0]?.text === 'key'
+  ) || null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addImportedName(imports: Map<number, ExtractedImport>, statement: Node, declaration: Node): void {
+  if (!imports.has(statement.startIndex)) {
+    imports.set(statement.startIndex, { source: statementSource(statement) || '', namedImports: [] });
+  }
+  const spec = imports.get(statement.startIndex)!;
+  const parent = declaration.parent;
+
+  if (parent?.type === 'import_specifier') {
+    spec.namedImports.push(parent.text);
+  } else if (parent?.type === 'namespace_import') {
+    spec.namespaceImport = declaration.text;
+  } else {
+    spec.defaultImport = declaration.text;
+  }
+}
+
+/**
+ * Type annotation written on the declaration the subtree's `name` refers to
+ */
+function declaredType(scopes: ScopeIndex, subtree: Node, name: string): string | null {
+  const reference = descendants(subtree).find(n => n.type === 'identifier' && n.text === name);
+  const scope = reference && scopes.resolve(reference, name);
+  const declaration = scope && scopes.declaration(scope, name);
+  const annotation = declaration?.parent?.type === 'variable_declarator' || declaration?.parent?.type === 'required_parameter'
+    ? declaration.parent.childForFieldName('type')
+    : null;
+  return annotation ? annotation.text.replace(/^:\s*/, '') : null;
+}
+
+function buildComponent(
+  name: string,
+  props: Array<{ name: string; type: string }>,
+  jsxText: string,
+  typescript: boolean
+): string {
+  let code = '';
+  let params = '';
+
+  if (props.length > 0) {
+    const names = `{ ${props.map(p => p.name).join(', ')} }`;
+    if (typescript) {
+      code += `interface ${name}Props {\n${props.map(p => `  ${p.name}: ${p.type};\n`).join('')}}\n\n`;
+      params = `${names}: ${name}Props`;
+    } else {
+      params = names;
+    }
+  }
+
+  code += `export function ${name}(${params}) {\n`;
+  code += `  return (\n${reindent(jsxText, '    ')}\n  );\n`;
+  code += `}\n`;
+  return code;
+}
+
+/**
+ * Re-indent a node's text: its first line has no indentation of its own,
+ * the rest keep the indentation they had in the original file
+ */
+function reindent(text: string, indent: string): string {
+  const lines = text.split('\n');
+  // The last line (closing tag) sits at the element's own indentation
+  const last = lines[lines.length - 1];
+  const ownIndent = lines.length > 1 ? last.length - last.trimStart().length : 0;
+
+  return lines
+    .map((line, i) => {
+      if (i === 0) return indent + line;
+      if (!line.trim()) return '';
+      return indent + line.slice(Math.min(ownIndent, line.length - line.trimStart().length));
+    })
+    .join('\n');
+}
+
+function ancestorOfType(node: Node, type: string): Node | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === type) return current;
+  }
+  return null;
+}
+
+function stripWhitespace(text: string): string {
+  return text.replace(/\s+/g, '');
+}
@@ -0,0 +1,218 @@
+/**
+ * Generation Jobs
+ *
+ * Checkpoints for /api/ai-builder/streaming-generation. Every generation is
+ * a job with an ID; the architecture plan and each completed file are saved
+ * to a job store as soon as they exist, so a client that loses the stream
+ * can reconnect with `Last-Event-ID` and pick up where it left off: completed
+ * files are replayed and generation continues from the next pending file.
+ *
+ * Event IDs are `<jobId>:<completed file count>`, so the last ID a client
+ * saw is enough to resume.
+ *
+ * A job is run by one request at a time: the runner holds a lease on the job
+ * and renews it while it works. A resume while the previous runner still
+ * holds the lease (it finishes its in-flight files after the client goes
+ * away) is refused, so no file is generated twice.
+ *
+ * Configuration:
+ *   GENERATION_JOB_STORE  memory | supabase (default: memory)
+ *
+ * The memory store only survives within one server process; the Supabase
+ * store (db/generationJobs.ts) survives restarts and serverless timeouts.
+ */
+
+import { randomUUID } from 'crypto';
+
+export interface PlannedFile {
+  path: string;
+  purpose: string;
+  priority?: string;
+  /** Planned files this one imports - generated first (see generationScheduler.ts) */
+  dependsOn?: string[];
+}
+
+export interface GenerationArchitecture {
+  appName: string;
+  description: string;
+  files: PlannedFile[];
+}
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+  purpose: string;
+}
+
+/** 'error' jobs can still be resumed - the failure may have been a timeout */
+export type GenerationJobStatus = 'running' | 'complete' | 'error';
+
+export interface GenerationJob {
+  id: string;
+  prompt: string;
+  conversationHistory: any[];
+  /** Raw `llm` selection from the original request */
+  llm: unknown;
+  /** Null until the architecture call has finished */
+  architecture: GenerationArchitecture | null;
+  /**
+   * In completion order, which concurrent generation doesn't keep to the
+   * plan. SSE event ids count completed files into this list.
+   */
+  files: GeneratedFile[];
+  status: GenerationJobStatus;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateGenerationJobInput = Pick<GenerationJob, 'prompt' | 'conversationHistory' | 'llm'>;
+
+export interface GenerationJobStore {
+  create(input: CreateGenerationJobInput): Promise<GenerationJob>;
+  get(id: string): Promise<GenerationJob | null>;
+  saveArchitecture(id: string, architecture: GenerationArchitecture): Promise<void>;
+  /** Save a completed file; saving the same path again replaces it */
+  saveFile(id: string, file: GeneratedFile): Promise<void>;
+  setStatus(id: string, status: GenerationJobStatus, error?: string): Promise<void>;
+  /**
+   * Take or renew the job's lease for `runner` for JOB_LEASE_MS; false when
+   * another runner holds an unexpired lease
+   */
+  acquireLease(id: string, runner: string): Promise<boolean>;
+  /** Give up the lease if `runner` still holds it */
+  releaseLease(id: string, runner: string): Promise<void>;
+}
+
+/** How long a lease lasts without renewal - runners renew it every third of this */
+export const JOB_LEASE_MS = 2 * 60 * 1000;
+
+// ============================================================================
+// EVENT IDS
+// ============================================================================
+
+export function formatEventId(jobId: string, completedFiles: number): string {
+  return `${jobId}:${completedFiles}`;
+}
+
+/**
+ * Parse a Last-Event-ID header; null when it isn't one of ours
+ */
+export function parseEventId(value: string | null | undefined): { jobId: string; completedFiles: number } | null {
+  const match = value?.trim().match(/^([\w-]+):(\d+)$/);
+  return match ? { jobId: match[1], completedFiles: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Planned files that have not been generated yet, in plan order
+ */
+export function pendingFiles(job: GenerationJob): PlannedFile[] {
+  const done = new Set(job.files.map(f => f.path));
+  return (job.architecture?.files || []).filter(f => !done.has(f.path));
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+/** Jobs untouched for this long are dropped */
+const MEMORY_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class MemoryJobStore implements GenerationJobStore {
+  private jobs = new Map<string, GenerationJob>();
+  private leases = new Map<string, { runner: string; expiresAt: number }>();
+
+  async create(input: CreateGenerationJobInput): Promise<GenerationJob> {
+    this.prune();
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      id: randomUUID(),
+      ...input,
+      architecture: null,
+      files: [],
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return structuredClone(job);
+  }
+
+  async get(id: string): Promise<GenerationJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async saveArchitecture(id: string, architecture: GenerationArchitecture): Promise<void> {
+    this.update(id, job => {
+      job.architecture = architecture;
+    });
+  }
+
+  async saveFile(id: string, file: GeneratedFile): Promise<void> {
+    this.update(id, job => {
+      const index = job.files.findIndex(f => f.path === file.path);
+      if (index === -1) job.files.push(file);
+      else job.files[index] = file;
+    });
+  }
+
+  async setStatus(id: string, status: GenerationJobStatus, error?: string): Promise<void> {
+    this.update(id, job => {
+      job.status = status;
+      job.error = error;
+    });
+  }
+
+  async acquireLease(id: string, runner: string): Promise<boolean> {
+    if (!this.jobs.has(id)) throw new Error(`Generation job ${id} not found`);
+    const lease = this.leases.get(id);
+    if (lease && lease.runner !== runner && lease.expiresAt > Date.now()) {
+      return false;
+    }
+    this.leases.set(id, { runner, expiresAt: Date.now() + JOB_LEASE_MS });
+    return true;
+  }
+
+  async releaseLease(id: string, runner: string): Promise<void> {
+    if (this.leases.get(id)?.runner === runner) {
+      this.leases.delete(id);
+    }
+  }
+
+  private update(id: string, change: (job: GenerationJob) => void): void {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Generation job ${id} not found`);
+    change(job);
+    job.updatedAt = new Date().toISOString();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - MEMORY_JOB_TTL_MS;
+    this.jobs.forEach((job, id) => {
+      if (Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+        this.leases.delete(id);
+      }
+    });
+  }
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let store: GenerationJobStore | null = null;
+
+export async function getJobStore(): Promise<GenerationJobStore> {
+  if (!store) {
+    if (process.env.GENERATION_JOB_STORE === 'supabase') {
+      // Imported lazily - it pulls in the cookie-bound server client
+      const { SupabaseJobStore } = await import('./db/generationJobs');
+      store = new SupabaseJobStore();
+    } else {
+      store = new MemoryJobStore();
+    }
+  }
+  return store;
+}
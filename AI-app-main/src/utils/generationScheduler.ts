@@ -0,0 +1,97 @@
+/**
+ * Generation Scheduler
+ *
+ * Runs per-file generation for a planned app concurrently while respecting
+ * the plan's dependencies: a file starts once every file it `dependsOn` has
+ * been generated, and at most `concurrency` files are generated at a time.
+ *
+ * Completions are handed to `onComplete` one at a time, in the order they
+ * finish, so callers can checkpoint and emit events without interleaving.
+ * Dependency cycles (or dependencies that never finish) don't deadlock: when
+ * nothing is runnable the pending file with the fewest unmet dependencies
+ * starts anyway.
+ *
+ * Pure module - no I/O of its own.
+ */
+
+export interface SchedulableFile {
+  path: string;
+  /** Paths of planned files this one imports */
+  dependsOn?: string[];
+}
+
+export interface ScheduleOptions<F extends SchedulableFile, R> {
+  /** Maximum files generated at once (at least 1) */
+  concurrency: number;
+  /** Paths generated before this run (e.g. when resuming) - count as done */
+  completed?: Iterable<string>;
+  generate: (file: F) => Promise<R>;
+  onStart?: (file: F) => void;
+  onComplete: (file: F, result: R) => Promise<void> | void;
+  /** Checked before each file starts; true stops scheduling new files */
+  shouldStop?: () => boolean;
+}
+
+/**
+ * Generate `files` (in plan order) under the dependency and concurrency rules
+ *
+ * If a generation fails no new files start; files already running finish
+ * and are completed normally, then the first error is thrown.
+ */
+export async function runScheduled<F extends SchedulableFile, R>(
+  files: F[],
+  options: ScheduleOptions<F, R>
+): Promise<void> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  const planned = new Set(files.map(f => f.path));
+  const done = new Set(options.completed || []);
+  const pending = files.filter(f => !done.has(f.path));
+  const running = new Set<Promise<void>>();
+  let completions = Promise.resolve();
+  let failure: unknown = null;
+
+  const unmet = (file: F) =>
+    (file.dependsOn || []).filter(dep => dep !== file.path && planned.has(dep) && !done.has(dep)).length;
+
+  const nextFile = (): F | undefined => {
+    const ready = pending.find(f => unmet(f) === 0);
+    if (ready || running.size > 0) return ready;
+    // Nothing runnable and nothing running to unblock it - break the cycle
+    return pending.reduce<F | undefined>((best, f) => (!best || unmet(f) < unmet(best) ? f : best), undefined);
+  };
+
+  const start = (file: F) => {
+    pending.splice(pending.indexOf(file), 1);
+    options.onStart?.(file);
+
+    const task = options
+      .generate(file)
+      .then(result => {
+        // Serialize completions so callers see them one at a time, in finish order
+        completions = completions.then(async () => {
+          done.add(file.path);
+          await options.onComplete(file, result);
+        });
+        return completions;
+      })
+      .catch(error => {
+        failure = failure || error;
+      })
+      .finally(() => {
+        running.delete(task);
+      });
+    running.add(task);
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    while (!failure && running.size < concurrency && !options.shouldStop?.()) {
+      const file = nextFile();
+      if (!file) break;
+      start(file);
+    }
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+
+  if (failure) throw failure;
+}
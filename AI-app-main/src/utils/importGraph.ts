@@ -0,0 +1,395 @@
+import type Parser from 'tree-sitter';
+import { createParser, type CodeParser } from './treeSitterParser';
+import { resolveImportPath, isLocalSpecifier } from './importResolver';
+import { statementSource } from './scopeAnalysis';
+import type { ValidationError } from './codeValidator';
+
+/**
+ * Import Graph - cross-file import check for generated multi-file apps
+ *
+ * Each generated file is validated on its own elsewhere; this builds the
+ * import graph across all of them (relative and '@/' specifiers, resolved
+ * with importResolver.ts) and reports:
+ *   - imports of files that were not generated       -> MISSING_IMPORT
+ *   - named/default imports the target doesn't export -> MISSING_IMPORT
+ *   - import cycles between generated files            -> CIRCULAR_IMPORT (warning)
+ *
+ * `export * from` is followed when collecting a file's exports. Files using
+ * CommonJS exports are not checked for names.
+ *
+ * exportSignatures() summarises what a file exports (declarations without
+ * their bodies) for prompts that generate the files importing it.
+ */
+
+type Node = Parser.SyntaxNode;
+
+export interface ImportEdge {
+  from: string;
+  /** Resolved project path, or null when no generated file matches */
+  to: string | null;
+  source: string;
+  line: number;
+  /** Imported names; 'default' for default imports */
+  names: string[];
+  /** `import type` - ignored for cycles, they are erased at runtime */
+  typeOnly: boolean;
+}
+
+export interface ImportGraph {
+  edges: ImportEdge[];
+  /** Exports per parsed file; missing for files that couldn't be analysed */
+  exports: Map<string, ModuleExports>;
+}
+
+export interface ModuleExports {
+  names: Set<string>;
+  hasDefault: boolean;
+  /** Sources of `export * from` statements */
+  starSources: string[];
+  /** CommonJS or unparseable - names can't be checked */
+  unknown: boolean;
+}
+
+const CODE_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+let graphParser: CodeParser | null = null;
+
+/**
+ * Build the import graph of the project's local imports
+ */
+export async function buildImportGraph(files: Array<{ path: string; content: string }>): Promise<ImportGraph> {
+  if (!graphParser) {
+    graphParser = createParser('typescript', { logErrors: false });
+  }
+
+  const paths = files.map(f => f.path);
+  const graph: ImportGraph = { edges: [], exports: new Map() };
+
+  for (const file of files) {
+    if (!CODE_EXTENSIONS.test(file.path)) continue;
+    const tree = await graphParser.parse(file.content);
+    if (!tree) continue;
+
+    graph.exports.set(file.path, collectExports(tree.rootNode));
+
+    for (const statement of tree.rootNode.namedChildren) {
+      const request = importRequest(statement);
+      if (!request || !isLocalSpecifier(request.source)) continue;
+      graph.edges.push({
+        from: file.path,
+        to: resolveImportPath(file.path, request.source, paths),
+        source: request.source,
+        line: statement.startPosition.row + 1,
+        names: request.names,
+        typeOnly: request.typeOnly,
+      });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Check every local import resolves to a generated file that exports what is imported
+ *
+ * @returns Files with problems, grouped like the other validators' results
+ */
+export async function validateProjectImports(
+  files: Array<{ path: string; content: string }>
+): Promise<Array<{ file: string; errors: ValidationError[] }>> {
+  const graph = await buildImportGraph(files);
+  const lines = new Map(files.map(f => [f.path, f.content.split('\n')]));
+  const results = new Map<string, ValidationError[]>();
+  const report = (file: string, error: ValidationError) => {
+    results.set(file, [...(results.get(file) || []), error]);
+  };
+
+  for (const edge of graph.edges) {
+    const code = lines.get(edge.from)?.[edge.line - 1]?.trim();
+
+    if (!edge.to) {
+      report(edge.from, {
+        type: 'MISSING_IMPORT',
+        message: `Cannot resolve '${edge.source}' - no generated file matches it`,
+        line: edge.line,
+        severity: 'error',
+        fix: `Generate the file '${edge.source}' refers to, or fix the path`,
+        code
+      });
+      continue;
+    }
+
+    const available = exportedNames(graph, edge.to, new Set());
+    if (!available) continue;
+
+    for (const name of edge.names) {
+      if (available.has(name)) continue;
+
+      const isDefault = name === 'default';
+      report(edge.from, {
+        type: 'MISSING_IMPORT',
+        message: isDefault
+          ? `'${edge.source}' (${edge.to}) has no default export`
+          : `'${edge.source}' (${edge.to}) has no export named '${name}'`,
+        line: edge.line,
+        severity: 'error',
+        fix: missingExportFix(name, available, edge.to),
+        code
+      });
+    }
+  }
+
+  for (const cycle of findImportCycles(graph)) {
+    const first = graph.edges.find(e => e.from === cycle[0] && e.to === cycle[1] && !e.typeOnly)!;
+    report(cycle[0], {
+      type: 'CIRCULAR_IMPORT',
+      message: `Circular import: ${cycle.join(' -> ')}`,
+      line: first.line,
+      severity: 'warning',
+      fix: 'Move the shared code into its own file that both import, or pass it down as props',
+      code: lines.get(cycle[0])?.[first.line - 1]?.trim()
+    });
+  }
+
+  return Array.from(results.entries()).map(([file, errors]) => ({ file, errors }));
+}
+
+/**
+ * Each distinct cycle once, as a path that starts and ends at the same file
+ */
+export function findImportCycles(graph: ImportGraph): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (!edge.to || edge.typeOnly) continue;
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) || []), edge.to]);
+  }
+
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (file: string) => {
+    const index = stack.indexOf(file);
+    if (index !== -1) {
+      const cycle = [...stack.slice(index), file];
+      const key = [...cycle.slice(1)].sort().join('|');
+      if (!seen.has(key)) {
+        seen.add(key);
+        cycles.push(cycle);
+      }
+      return;
+    }
+    if (done.has(file)) return;
+
+    stack.push(file);
+    (adjacency.get(file) || []).forEach(visit);
+    stack.pop();
+    done.add(file);
+  };
+
+  Array.from(adjacency.keys()).forEach(visit);
+  return cycles;
+}
+
+/**
+ * A file's exports as declarations without bodies, e.g.
+ * `export function useTodos(filter: Filter): Todo[]`. Types, interfaces
+ * and enums are kept whole; they are the signature.
+ */
+export async function exportSignatures(content: string): Promise<string[]> {
+  if (!graphParser) {
+    graphParser = createParser('typescript', { logErrors: false });
+  }
+  const tree = await graphParser.parse(content);
+  if (!tree) return [];
+
+  const signatures: string[] = [];
+  for (const statement of tree.rootNode.namedChildren) {
+    if (statement.type !== 'export_statement') continue;
+
+    const declaration = statement.childForFieldName('declaration');
+    const prefix = statement.children.some(c => c.type === 'default') ? 'export default ' : 'export ';
+
+    if (!declaration) {
+      // `export { a, b }`, `export * from`, `export default App;`
+      const value = statement.childForFieldName('value');
+      signatures.push(value && /function|class|arrow/.test(value.type)
+        ? prefix + withoutBody(value)
+        : statement.text);
+    } else if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+      const kind = declaration.children[0].text;
+      for (const declarator of declaration.namedChildren.filter(d => d.type === 'variable_declarator')) {
+        signatures.push(`${prefix}${kind} ${variableSignature(declarator)}`);
+      }
+    } else if (declaration.type === 'class_declaration' || declaration.type === 'abstract_class_declaration') {
+      const body = declaration.childForFieldName('body');
+      const members = (body?.namedChildren || [])
+        .filter(m => m.type === 'method_definition' || m.type === 'public_field_definition')
+        .filter(m => !m.children.some(c => c.type === 'accessibility_modifier' && c.text !== 'public'))
+        .map(m => `  ${withoutBody(m)};`);
+      signatures.push(`${prefix}${withoutBody(declaration)} {\n${members.join('\n')}${members.length ? '\n' : ''}}`);
+    } else if (/function/.test(declaration.type)) {
+      signatures.push(prefix + withoutBody(declaration));
+    } else {
+      // interfaces, type aliases, enums, namespaces
+      signatures.push(prefix + declaration.text);
+    }
+  }
+
+  return signatures;
+}
+
+/**
+ * Text of a declaration up to its body
+ */
+function withoutBody(node: Node): string {
+  const body = node.childForFieldName('body');
+  return (body ? node.text.slice(0, body.startIndex - node.startIndex) : node.text).trim().replace(/;$/, '');
+}
+
+function variableSignature(declarator: Node): string {
+  const name = declarator.childForFieldName('name')!.text;
+  const type = declarator.childForFieldName('type')?.text || '';
+  const value = declarator.childForFieldName('value');
+
+  if (value && (value.type === 'arrow_function' || value.type === 'function_expression' || value.type === 'function')) {
+    const header = withoutBody(value);
+    return `${name}${type} = ${header}${value.type === 'arrow_function' ? ' ...' : ' { ... }'}`;
+  }
+  // Short values are informative (constants); long ones are just noise
+  if (value && !type && value.text.length <= 60 && !value.text.includes('\n')) {
+    return `${name} = ${value.text}`;
+  }
+  return `${name}${type}`;
+}
+
+// ============================================================================
+// IMPORTS AND EXPORTS
+// ============================================================================
+
+/**
+ * What an import or re-export statement asks of its source, or null for other statements
+ */
+function importRequest(statement: Node): { source: string; names: string[]; typeOnly: boolean } | null {
+  const source = statementSource(statement);
+  if (!source) return null;
+  const typeOnly = statement.children.some(c => c.type === 'type');
+
+  if (statement.type === 'import_statement') {
+    const names: string[] = [];
+    const clause = statement.namedChildren.find(c => c.type === 'import_clause');
+    for (const child of clause?.namedChildren || []) {
+      if (child.type === 'identifier') {
+        names.push('default');
+      } else if (child.type === 'named_imports') {
+        child.namedChildren
+          .filter(spec => spec.type === 'import_specifier')
+          .forEach(spec => names.push(spec.childForFieldName('name')!.text));
+      }
+    }
+    return { source, names, typeOnly };
+  }
+
+  if (statement.type === 'export_statement') {
+    const clause = statement.namedChildren.find(c => c.type === 'export_clause');
+    const names = (clause?.namedChildren || [])
+      .filter(spec => spec.type === 'export_specifier')
+      .map(spec => spec.childForFieldName('name')!.text);
+    return { source, names, typeOnly };
+  }
+
+  return null;
+}
+
+function collectExports(root: Node): ModuleExports {
+  const exports: ModuleExports = { names: new Set(), hasDefault: false, starSources: [], unknown: false };
+
+  if (/\bmodule\.exports\b|\bexports\.\w+\s*=/.test(root.text)) {
+    exports.unknown = true;
+    return exports;
+  }
+
+  for (const statement of root.namedChildren) {
+    if (statement.type !== 'export_statement') continue;
+
+    if (statement.children.some(c => c.type === 'default')) {
+      exports.hasDefault = true;
+      continue;
+    }
+
+    const clause = statement.namedChildren.find(c => c.type === 'export_clause');
+    const namespace = statement.namedChildren.find(c => c.type === 'namespace_export');
+    const declaration = statement.childForFieldName('declaration');
+
+    if (clause) {
+      for (const spec of clause.namedChildren.filter(s => s.type === 'export_specifier')) {
+        const exported = (spec.childForFieldName('alias') || spec.childForFieldName('name'))!.text;
+        if (exported === 'default') exports.hasDefault = true;
+        else exports.names.add(exported);
+      }
+    } else if (namespace) {
+      const name = namespace.namedChildren[0]?.text;
+      if (name) exports.names.add(name);
+    } else if (declaration) {
+      declaredNames(declaration).forEach(name => exports.names.add(name));
+    } else if (statementSource(statement)) {
+      exports.starSources.push(statementSource(statement)!);
+    }
+  }
+
+  return exports;
+}
+
+function declaredNames(declaration: Node): string[] {
+  if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+    return declaration.namedChildren
+      .filter(d => d.type === 'variable_declarator')
+      .flatMap(d => {
+        const name = d.childForFieldName('name');
+        if (name?.type === 'identifier') return [name.text];
+        // Destructured exports: every bound identifier
+        return (name?.descendantsOfType(['identifier', 'shorthand_property_identifier_pattern']) || []).map(n => n.text);
+      });
+  }
+  const name = declaration.childForFieldName('name');
+  return name ? [name.text] : [];
+}
+
+/**
+ * Names `path` exports, following `export * from`; null when they can't be known
+ */
+function exportedNames(graph: ImportGraph, path: string, visiting: Set<string>): Set<string> | null {
+  const exports = graph.exports.get(path);
+  if (!exports || exports.unknown) return null;
+
+  const names = new Set(exports.names);
+  if (exports.hasDefault) names.add('default');
+  if (visiting.has(path)) return names;
+  visiting.add(path);
+
+  for (const source of exports.starSources) {
+    const edge = graph.edges.find(e => e.from === path && e.source === source);
+    if (!edge?.to) continue;
+    const inner = exportedNames(graph, edge.to, visiting);
+    if (!inner) return null;
+    // `export *` never re-exports the default
+    inner.forEach(name => name !== 'default' && names.add(name));
+  }
+
+  return names;
+}
+
+function missingExportFix(name: string, available: Set<string>, target: string): string {
+  const named = Array.from(available).filter(n => n !== 'default');
+  const hasDefault = available.has('default');
+  if (name === 'default') {
+    return named.length > 0
+      ? `Use a named import: import { ${named.join(', ')} } from ... - or add export default to ${target}`
+      : `Add export default to ${target}`;
+  }
+  if (hasDefault && named.length === 0) {
+    return `${target} only has a default export - use import ${name} from ...`;
+  }
+  return `Export ${name} from ${target}` + (named.length > 0 ? ` (it exports: ${named.join(', ')})` : '');
+}
@@ -0,0 +1,103 @@
+/**
+ * Import Resolver
+ *
+ * Maps an import specifier in one project file to the project file it refers
+ * to, the way the bundler would for generated apps:
+ *   - relative specifiers ('./Button', '../utils/format')
+ *   - the '@/' alias, which points at 'src/'
+ *   - extensionless imports and directory index files
+ *
+ * Bare package specifiers ('react', 'zustand/middleware') resolve to null.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+export const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs'];
+
+/**
+ * True for specifiers that refer to project files rather than packages
+ */
+export function isLocalSpecifier(source: string): boolean {
+  return source.startsWith('./') || source.startsWith('../') || source.startsWith('@/') || source.startsWith('/');
+}
+
+/**
+ * Candidate project paths for `source` imported from `fromPath`, most specific first
+ */
+export function importCandidates(fromPath: string, source: string): string[] {
+  if (!isLocalSpecifier(source)) {
+    return [];
+  }
+
+  let base: string;
+  if (source.startsWith('@/')) {
+    base = normalizePath(`src/${source.slice(2)}`);
+  } else if (source.startsWith('/')) {
+    base = normalizePath(source.slice(1));
+  } else {
+    const dir = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/')) : '';
+    base = normalizePath(dir ? `${dir}/${source}` : source);
+  }
+
+  return [
+    base,
+    ...RESOLVE_EXTENSIONS.map(ext => base + ext),
+    ...RESOLVE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+}
+
+/**
+ * Resolve `source` imported from `fromPath` against the known project paths.
+ * Returns the matching path, or null for packages and unresolvable imports.
+ */
+export function resolveImportPath(
+  fromPath: string,
+  source: string,
+  projectPaths: Iterable<string>
+): string | null {
+  const known = projectPaths instanceof Set ? projectPaths as Set<string> : new Set(projectPaths);
+  const normalizedKnown = new Map<string, string>();
+  known.forEach(path => normalizedKnown.set(normalizePath(path), path));
+
+  for (const candidate of importCandidates(normalizePath(fromPath), source)) {
+    const match = normalizedKnown.get(candidate);
+    if (match !== undefined) {
+      return match;
+    }
+  }
+  return null;
+}
+
+/**
+ * Relative specifier for importing `toPath` from `fromPath`, without the
+ * file extension ('src/components/Header.tsx' from 'src/App.tsx' -> './components/Header')
+ */
+export function relativeImportPath(fromPath: string, toPath: string): string {
+  const from = normalizePath(fromPath).split('/').slice(0, -1);
+  const to = normalizePath(toPath).replace(/\.(tsx?|jsx?|mjs|cjs)$/, '').split('/');
+
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+
+  const up = from.length - common;
+  const rest = to.slice(common).join('/');
+  return up === 0 ? `./${rest}` : `${'../'.repeat(up)}${rest}`;
+}
+
+/**
+ * Collapse '.', '..' and duplicate slashes; strips any leading './' or '/'
+ */
+export function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
@@ -0,0 +1,114 @@
+/**
+ * Anthropic Provider
+ *
+ * Wraps @anthropic-ai/sdk. System prompts are sent as a cached text block,
+ * matching what the routes did before the provider layer existed.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  LLMContentPart,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMUsage,
+} from './types';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  configurationError(): string {
+    return 'Anthropic API key not configured. Add ANTHROPIC_API_KEY to .env.local';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.getClient().messages.create(this.buildParams(request), { signal: request.signal });
+
+    const text = completion.content
+      .map((block: any) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      model: request.model,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const stream = await this.getClient().messages.stream(this.buildParams(request), { signal: request.signal });
+
+    let usage: LLMUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+
+    for await (const chunk of stream) {
+      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+        yield { type: 'text', text: chunk.delta.text };
+      }
+      // Capture token usage from final message
+      if (chunk.type === 'message_stop') {
+        const finalMessage = await stream.finalMessage();
+        usage = toUsage(finalMessage.usage);
+      }
+    }
+
+    yield { type: 'done', usage };
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: LLMRequest): any {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.system && {
+        system: [
+          {
+            type: 'text',
+            text: request.system,
+            cache_control: { type: 'ephemeral' }
+          }
+        ]
+      }),
+      messages: request.messages.map(toAnthropicMessage),
+    };
+  }
+}
+
+function toAnthropicMessage(message: LLMMessage) {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content };
+  }
+
+  return {
+    role: message.role,
+    content: message.content.map((part: LLMContentPart) =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : {
+            type: 'image',
+            source: { type: 'base64', media_type: part.mediaType, data: part.data }
+          }
+    ),
+  };
+}
+
+function toUsage(usage: any): LLMUsage {
+  return {
+    inputTokens: usage?.input_tokens || 0,
+    outputTokens: usage?.output_tokens || 0,
+    cachedTokens: usage?.cache_read_input_tokens || 0,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * LLM Provider Layer
+ *
+ * Single entry point for every AI route. Routes call getLLM(route, selection)
+ * and talk to the returned provider instead of constructing vendor SDKs.
+ *
+ * Server configuration (.env.local):
+ *   LLM_PROVIDER        default provider: anthropic | openai | local
+ *   ANTHROPIC_API_KEY   Anthropic
+ *   OPENAI_API_KEY      OpenAI
+ *   LOCAL_LLM_BASE_URL  OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 (Ollama)
+ *   LOCAL_LLM_API_KEY   optional key for the local endpoint
+ *   LOCAL_LLM_MODEL     default model for the local endpoint
+ *   LLM_FIXTURE_MODE    record | replay - see recordReplay.ts
+ */
+
+import { AnthropicProvider } from './anthropicProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { RecordReplayProvider, getFixtureMode } from './recordReplay';
+import { MeteredProvider } from './meteredProvider';
+import { isLLMProviderName, resolveModel } from './models';
+import type { LLMProvider, LLMProviderName, LLMRoute, LLMSelection } from './types';
+import type { CostAttribution } from '../costLedger';
+
+export * from './types';
+export { resolveModel, ROUTE_DEFAULT_MODELS, MODEL_ALIASES, LLM_PROVIDERS } from './models';
+export { RecordReplayProvider, fixtureKey, getFixtureMode, type LLMFixture } from './recordReplay';
+export { MeteredProvider } from './meteredProvider';
+
+export interface LLMClient {
+  provider: LLMProvider;
+  model: string;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider({
+        name: 'openai',
+        apiKey: process.env.OPENAI_API_KEY,
+        configurationError: 'OpenAI API key not configured. Add OPENAI_API_KEY to .env.local',
+      });
+    case 'local':
+      return new OpenAIProvider({
+        name: 'local',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        configurationError: 'Local model endpoint not configured. Add LOCAL_LLM_BASE_URL (e.g. http://localhost:11434/v1) to .env.local',
+      });
+    case 'anthropic':
+    default:
+      return new AnthropicProvider();
+  }
+}
+
+export function getProvider(name: LLMProviderName): LLMProvider {
+  const fixtureMode = getFixtureMode();
+  const cacheKey = `${name}:${fixtureMode || 'live'}`;
+
+  let provider = providers.get(cacheKey);
+  if (!provider) {
+    provider = createProvider(name);
+    if (fixtureMode) {
+      provider = new RecordReplayProvider(provider, fixtureMode);
+    }
+    providers.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+/**
+ * Sanitize the `llm` field of a request body. Unknown values are dropped so
+ * the server defaults apply.
+ */
+export function parseLLMSelection(value: unknown): LLMSelection | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const raw = value as Record<string, unknown>;
+  const selection: LLMSelection = {};
+
+  if (isLLMProviderName(raw.provider)) {
+    selection.provider = raw.provider;
+  }
+  if (typeof raw.model === 'string') {
+    selection.model = raw.model;
+  }
+  if (raw.routeModels && typeof raw.routeModels === 'object') {
+    selection.routeModels = {};
+    for (const [route, model] of Object.entries(raw.routeModels as Record<string, unknown>)) {
+      if (typeof model === 'string') {
+        selection.routeModels[route as LLMRoute] = model;
+      }
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Resolve the provider and model for a route.
+ * Provider: selection.provider > LLM_PROVIDER env > anthropic
+ *
+ * Every call through the returned provider is priced and recorded in the
+ * cost ledger against `attribution` (from checkBudget), and is aborted with
+ * `signal` (pass the request's signal).
+ */
+export function getLLM(
+  route: LLMRoute,
+  selection?: LLMSelection,
+  attribution?: CostAttribution,
+  signal?: AbortSignal
+): LLMClient {
+  const envProvider = process.env.LLM_PROVIDER;
+  const providerName: LLMProviderName =
+    selection?.provider ||
+    (isLLMProviderName(envProvider) ? envProvider : 'anthropic');
+
+  return {
+    provider: new MeteredProvider(getProvider(providerName), route, attribution, signal),
+    model: resolveModel(providerName, route, selection),
+  };
+}
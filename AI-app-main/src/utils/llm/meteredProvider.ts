@@ -0,0 +1,66 @@
+/**
+ * Metered Provider
+ *
+ * Wraps an LLMProvider and records the cost of every completed call in the
+ * cost ledger (see utils/costLedger.ts), attributed to the route, user and
+ * project it was created for. getLLM wraps every provider it returns.
+ *
+ * Calls also get the signal getLLM was given, so aborting the request that
+ * created the client (e.g. cancelling its background job) aborts them.
+ */
+
+import { recordCost, type CostAttribution } from '../costLedger';
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMRoute,
+  LLMStreamEvent,
+} from './types';
+
+export class MeteredProvider implements LLMProvider {
+  readonly name: LLMProvider['name'];
+  private inner: LLMProvider;
+  private route: LLMRoute;
+  private attribution: CostAttribution;
+  private signal?: AbortSignal;
+
+  constructor(inner: LLMProvider, route: LLMRoute, attribution: CostAttribution = {}, signal?: AbortSignal) {
+    this.name = inner.name;
+    this.inner = inner;
+    this.route = route;
+    this.attribution = attribution;
+    this.signal = signal;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  configurationError(): string {
+    return this.inner.configurationError();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(this.withSignal(request));
+    await recordCost(this.route, this.name, response.model || request.model, response.usage, this.attribution);
+    return response;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    for await (const event of this.inner.stream(this.withSignal(request))) {
+      // Recorded before 'done' is passed on - callers often stop reading there
+      if (event.type === 'done') {
+        await recordCost(this.route, this.name, request.model, event.usage, this.attribution);
+      }
+      yield event;
+    }
+  }
+
+  private withSignal(request: LLMRequest): LLMRequest {
+    const signal = request.signal || this.signal;
+    // Replayed fixtures never reach an SDK, so check here as well
+    signal?.throwIfAborted();
+    return signal ? { ...request, signal } : request;
+  }
+}
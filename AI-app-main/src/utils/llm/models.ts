@@ -0,0 +1,88 @@
+/**
+ * Model Selection
+ *
+ * Per-route default models for each provider plus the resolution order used
+ * by every AI route:
+ *   1. selection.routeModels[route]   (user override for this route)
+ *   2. selection.model                (user override for all routes)
+ *   3. ROUTE_DEFAULT_MODELS[provider][route]
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { LLMProviderName, LLMRoute, LLMSelection } from './types';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['anthropic', 'openai', 'local'];
+
+/**
+ * Short aliases accepted in settings (older saved settings use these)
+ */
+export const MODEL_ALIASES: Record<string, string> = {
+  'claude-sonnet-4': 'claude-sonnet-4-20250514',
+  'claude-sonnet-4.5': 'claude-sonnet-4-5-20250929',
+  'claude-opus-4': 'claude-opus-4-1-20250805',
+};
+
+const LOCAL_DEFAULT_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+
+export const ROUTE_DEFAULT_MODELS: Record<LLMProviderName, Record<LLMRoute, string>> = {
+  anthropic: {
+    'builder': 'claude-sonnet-4-5-20250929',
+    'chat': 'claude-sonnet-4-5-20250929',
+    'modify': 'claude-sonnet-4-5-20250929',
+    'full-app': 'claude-sonnet-4-5-20250929',
+    'plan-phases': 'claude-sonnet-4-5-20250929',
+    'code-review': 'claude-sonnet-4-20250514',
+    'performance-optimize': 'claude-sonnet-4-20250514',
+    'streaming-generation': 'claude-sonnet-4-20250514',
+    'multi-file-refactor': 'claude-sonnet-4-20250514',
+  },
+  openai: {
+    'builder': 'gpt-4.1',
+    'chat': 'gpt-4.1-mini',
+    'modify': 'gpt-4.1',
+    'full-app': 'gpt-4.1',
+    'plan-phases': 'gpt-4.1-mini',
+    'code-review': 'gpt-4.1',
+    'performance-optimize': 'gpt-4.1',
+    'streaming-generation': 'gpt-4.1',
+    'multi-file-refactor': 'gpt-4.1',
+  },
+  local: {
+    'builder': LOCAL_DEFAULT_MODEL,
+    'chat': LOCAL_DEFAULT_MODEL,
+    'modify': LOCAL_DEFAULT_MODEL,
+    'full-app': LOCAL_DEFAULT_MODEL,
+    'plan-phases': LOCAL_DEFAULT_MODEL,
+    'code-review': LOCAL_DEFAULT_MODEL,
+    'performance-optimize': LOCAL_DEFAULT_MODEL,
+    'streaming-generation': LOCAL_DEFAULT_MODEL,
+    'multi-file-refactor': LOCAL_DEFAULT_MODEL,
+  },
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Resolve the concrete model id for a route
+ */
+export function resolveModel(
+  provider: LLMProviderName,
+  route: LLMRoute,
+  selection?: LLMSelection
+): string {
+  const requested = (selection?.routeModels?.[route] || selection?.model || '').trim();
+
+  if (requested) {
+    if (MODEL_ALIASES[requested]) {
+      // Claude aliases only mean something to Anthropic; other providers use their defaults
+      if (provider === 'anthropic') return MODEL_ALIASES[requested];
+    } else {
+      return requested;
+    }
+  }
+
+  return ROUTE_DEFAULT_MODELS[provider][route];
+}
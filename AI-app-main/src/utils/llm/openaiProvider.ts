@@ -0,0 +1,133 @@
+/**
+ * OpenAI Provider
+ *
+ * Wraps the openai SDK's chat completions API. The same class serves
+ * OpenAI-compatible local servers (Ollama, llama.cpp, LM Studio) by pointing
+ * baseURL at the local endpoint.
+ */
+
+import OpenAI from 'openai';
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMUsage,
+} from './types';
+
+interface OpenAIProviderConfig {
+  name: Extract<LLMProviderName, 'openai' | 'local'>;
+  apiKey?: string;
+  baseURL?: string;
+  configurationError: string;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: Extract<LLMProviderName, 'openai' | 'local'>;
+  private config: OpenAIProviderConfig;
+  private client: OpenAI | null = null;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return this.name === 'local' ? !!this.config.baseURL : !!this.config.apiKey;
+  }
+
+  configurationError(): string {
+    return this.config.configurationError;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.getClient().chat.completions.create({
+      ...this.buildParams(request),
+      stream: false,
+    }, { signal: request.signal });
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      model: request.model,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const stream = await this.getClient().chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    let usage: LLMUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield { type: 'text', text };
+      }
+      // Usage arrives on the last chunk when include_usage is set
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage);
+      }
+    }
+
+    yield { type: 'done', usage };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // Local servers ignore the key but the SDK requires one
+        apiKey: this.config.apiKey || 'not-needed',
+        ...(this.config.baseURL && { baseURL: this.config.baseURL }),
+      });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: LLMRequest) {
+    const messages: any[] = [];
+
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    messages.push(...request.messages.map(toOpenAIMessage));
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      messages,
+    };
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage) {
+  if (typeof message.content === 'string' || message.role === 'assistant') {
+    const content = typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+    return { role: message.role, content };
+  }
+
+  return {
+    role: message.role,
+    content: message.content.map(part =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } }
+    ),
+  };
+}
+
+function toUsage(usage: any): LLMUsage {
+  return {
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Record/Replay Provider
+ *
+ * Deterministic stand-in for a real model during development and tests.
+ * Wraps any LLMProvider and, depending on LLM_FIXTURE_MODE:
+ *   - record: forwards to the real provider and saves the response
+ *             (text, streamed chunks, usage) to a fixture file
+ *   - replay: serves the saved fixture without touching the network
+ *
+ * Fixtures are keyed by a SHA-256 hash of the request (model, system prompt,
+ * messages, maxTokens, temperature), so the same prompt always maps to the
+ * same file. Streaming and non-streaming calls are stored separately.
+ *
+ * Configuration:
+ *   LLM_FIXTURE_MODE  record | replay (unset = pass-through)
+ *   LLM_FIXTURE_DIR   fixture directory (default: tests/fixtures/llm)
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMUsage,
+} from './types';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface LLMFixture {
+  key: string;
+  kind: 'complete' | 'stream';
+  model: string;
+  text: string;
+  /** Streamed text deltas in arrival order (stream fixtures only) */
+  chunks?: string[];
+  usage: LLMUsage;
+  recordedAt: string;
+  /** Abbreviated prompt, for humans browsing the fixture directory */
+  promptPreview: string;
+}
+
+const DEFAULT_FIXTURE_DIR = path.join('tests', 'fixtures', 'llm');
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.LLM_FIXTURE_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+/**
+ * Stable hash of everything that influences the model's output
+ */
+export function fixtureKey(request: LLMRequest, kind: LLMFixture['kind']): string {
+  const payload = JSON.stringify({
+    kind,
+    model: request.model,
+    system: request.system || '',
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature ?? null,
+  });
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+export class RecordReplayProvider implements LLMProvider {
+  readonly name: LLMProvider['name'];
+  private inner: LLMProvider;
+  private mode: FixtureMode;
+  private fixtureDir: string;
+
+  constructor(inner: LLMProvider, mode: FixtureMode, fixtureDir?: string) {
+    this.name = inner.name;
+    this.inner = inner;
+    this.mode = mode;
+    this.fixtureDir = fixtureDir || process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+  }
+
+  isConfigured(): boolean {
+    // Replay never reaches the real provider, so no credentials are needed
+    return this.mode === 'replay' || this.inner.isConfigured();
+  }
+
+  configurationError(): string {
+    return this.inner.configurationError();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const key = fixtureKey(request, 'complete');
+
+    if (this.mode === 'replay') {
+      const fixture = await this.readFixture(key, request);
+      return { text: fixture.text, model: fixture.model, usage: fixture.usage };
+    }
+
+    const response = await this.inner.complete(request);
+    await this.writeFixture({
+      key,
+      kind: 'complete',
+      model: response.model,
+      text: response.text,
+      usage: response.usage,
+      recordedAt: new Date().toISOString(),
+      promptPreview: previewPrompt(request),
+    });
+    return response;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const key = fixtureKey(request, 'stream');
+
+    if (this.mode === 'replay') {
+      const fixture = await this.readFixture(key, request);
+      for (const text of fixture.chunks || [fixture.text]) {
+        yield { type: 'text', text };
+      }
+      yield { type: 'done', usage: fixture.usage };
+      return;
+    }
+
+    const chunks: string[] = [];
+    let usage: LLMUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+
+    for await (const event of this.inner.stream(request)) {
+      if (event.type === 'text') {
+        chunks.push(event.text);
+      } else {
+        usage = event.usage;
+      }
+      yield event;
+    }
+
+    await this.writeFixture({
+      key,
+      kind: 'stream',
+      model: request.model,
+      text: chunks.join(''),
+      chunks,
+      usage,
+      recordedAt: new Date().toISOString(),
+      promptPreview: previewPrompt(request),
+    });
+  }
+
+  private fixturePath(key: string): string {
+    return path.join(this.fixtureDir, `${key}.json`);
+  }
+
+  private async readFixture(key: string, request: LLMRequest): Promise<LLMFixture> {
+    try {
+      const raw = await fs.readFile(this.fixturePath(key), 'utf8');
+      return JSON.parse(raw) as LLMFixture;
+    } catch (error) {
+      throw new Error(
+        `No LLM fixture for this request (key ${key.substring(0, 12)}..., model ${request.model}). ` +
+        `Run once with LLM_FIXTURE_MODE=record to capture it.`
+      );
+    }
+  }
+
+  private async writeFixture(fixture: LLMFixture): Promise<void> {
+    try {
+      await fs.mkdir(this.fixtureDir, { recursive: true });
+      await fs.writeFile(this.fixturePath(fixture.key), JSON.stringify(fixture, null, 2) + '\n');
+    } catch (error) {
+      // Recording is best-effort - never fail the real request because of it
+      console.error('Failed to write LLM fixture:', error);
+    }
+  }
+}
+
+function previewPrompt(request: LLMRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  if (!last) return '';
+
+  const text = typeof last.content === 'string'
+    ? last.content
+    : last.content.map(part => (part.type === 'text' ? part.text : '[image]')).join(' ');
+
+  return text.length > 200 ? `${text.substring(0, 200)}...` : text;
+}
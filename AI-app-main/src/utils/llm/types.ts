@@ -0,0 +1,95 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-neutral request/response shapes shared by every AI route.
+ * Routes build an LLMRequest once and the selected provider translates it
+ * to the vendor SDK (Anthropic, OpenAI, or an OpenAI-compatible local server).
+ */
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'local';
+
+/**
+ * Every server route that calls a model. Used to pick per-route defaults
+ * and user overrides.
+ */
+export type LLMRoute =
+  | 'builder'
+  | 'chat'
+  | 'modify'
+  | 'full-app'
+  | 'plan-phases'
+  | 'code-review'
+  | 'performance-optimize'
+  | 'streaming-generation'
+  | 'multi-file-refactor';
+
+export interface LLMTextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface LLMImagePart {
+  type: 'image';
+  mediaType: string;
+  /** Base64 data without the data: URL prefix */
+  data: string;
+}
+
+export type LLMContentPart = LLMTextPart | LLMImagePart;
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+export interface LLMRequest {
+  model: string;
+  /** System prompt. Anthropic caches it with an ephemeral cache_control block. */
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  /** Aborts the call, e.g. when the background job running it is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; usage: LLMUsage };
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /** Whether the server has the credentials/endpoint this provider needs */
+  isConfigured(): boolean;
+
+  /** User-facing message explaining how to configure the provider */
+  configurationError(): string;
+
+  complete(request: LLMRequest): Promise<LLMResponse>;
+
+  /** Streams text deltas, ending with a single 'done' event carrying usage */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>;
+}
+
+/**
+ * Model selection sent by the client from BuilderSettings.generation.
+ * All fields are optional; the server falls back to env and route defaults.
+ */
+export interface LLMSelection {
+  provider?: LLMProviderName;
+  model?: string;
+  routeModels?: Partial<Record<LLMRoute, string>>;
+}
@@ -0,0 +1,495 @@
+/**
+ * Project Sync
+ *
+ * Offline-first sync between the builder's components (useAppStore) and the
+ * user's Supabase projects. Every local edit is written to IndexedDB straight
+ * away and marked dirty; dirty components are pushed to /api/projects in the
+ * background and remote projects are pulled on load (see useProjectSync).
+ *
+ * The project's `updated_at` is the sync token. Each local copy remembers
+ * the `updated_at` it is based on and a push only succeeds while the remote
+ * still has it, so a component changed both here and elsewhere is kept as a
+ * conflict for the user to resolve instead of either side being overwritten.
+ * Versions come with the push: replacing a project's files snapshots the old
+ * ones (migration 20261019000005_version_snapshots), with the prompt and
+ * diff summary of the AI modification that replaced them, if any.
+ *
+ * Each signed-in user has their own IndexedDB database (selectLocalStore),
+ * so components never carry over to another account on the same browser.
+ *
+ * The mapping and reconcile helpers are pure; the IndexedDB and network
+ * helpers below them are browser-only.
+ */
+
+import { fileText } from './versionCompare';
+import type { DiffSummary } from './diffSchema';
+import type { AppVersion, GeneratedComponent } from '../types/aiBuilderTypes';
+
+/** A project as returned by /api/projects */
+export interface RemoteProject {
+  id: string;
+  name: string;
+  description: string | null;
+  files: Record<string, unknown>;
+  updated_at: string;
+}
+
+/** An AI modification applied to a component, saved with its next push */
+export interface AppliedModification {
+  prompt: string;
+  diffSummary: DiffSummary;
+  /** Revision the modification produced */
+  revision: number;
+}
+
+/** A component with its sync state, as stored in IndexedDB */
+export interface SyncedComponent {
+  /** Local component id */
+  id: string;
+  component: GeneratedComponent;
+  /** Remote project; null until the component is first pushed */
+  projectId: string | null;
+  /** `updated_at` of the remote project this copy is based on */
+  remoteUpdatedAt: string | null;
+  /** Local changes not pushed yet */
+  dirty: boolean;
+  /** Deleted locally; the project is deleted on the next push */
+  deleted: boolean;
+  /** Bumped on every local change, so a push only clears `dirty` for what it sent */
+  revision: number;
+  /** Remote copy that changed alongside unpushed local changes */
+  conflict: RemoteProject | null;
+  /** Latest AI modification not pushed yet */
+  modification?: AppliedModification;
+}
+
+export interface SyncConflict {
+  componentId: string;
+  /** null when the component was deleted locally */
+  local: GeneratedComponent | null;
+  remote: RemoteProject;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+/** How a conflict is resolved: push our copy, or take the remote one */
+export type ConflictChoice = 'local' | 'remote';
+
+export type PushOutcome =
+  | { type: 'saved'; project: RemoteProject }
+  | { type: 'deleted' }
+  | { type: 'conflict'; project: RemoteProject }
+  /** The project no longer exists remotely */
+  | { type: 'missing' };
+
+/** Builder state restored with the components */
+export interface BuilderSession {
+  currentComponentId: string | null;
+  undoStack: AppVersion[];
+  redoStack: AppVersion[];
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * A component's files as stored on a project (path -> content). Component
+ * code is the generated app as JSON; anything else is stored as one file.
+ */
+export function componentFiles(component: GeneratedComponent): Record<string, string> {
+  try {
+    const app = JSON.parse(component.code);
+    if (Array.isArray(app?.files)) {
+      return Object.fromEntries(
+        app.files.map((file: { path: string; content: string }) => [file.path, file.content])
+      );
+    }
+  } catch {
+    // Not generated app JSON
+  }
+  return { 'App.tsx': component.code };
+}
+
+/**
+ * Build a component from a remote project. With `existing`, its local-only
+ * fields (conversation, favourite, app metadata) are kept.
+ */
+export function projectToComponent(project: RemoteProject, existing?: GeneratedComponent): GeneratedComponent {
+  let app: Record<string, any> = {};
+  try {
+    app = existing ? JSON.parse(existing.code) : {};
+  } catch {
+    app = {};
+  }
+
+  const previous = new Map<string, Record<string, unknown>>(
+    Array.isArray(app.files) ? app.files.map((file: { path: string }) => [file.path, file]) : []
+  );
+  const files = Object.entries(project.files).map(([path, value]) => ({
+    ...previous.get(path),
+    path,
+    content: fileText(value),
+  }));
+
+  return {
+    id: existing?.id ?? `project-${project.id}`,
+    name: project.name,
+    code: JSON.stringify({ ...app, name: project.name, files }, null, 2),
+    description: project.description ?? existing?.description ?? '',
+    timestamp: project.updated_at,
+    isFavorite: existing?.isFavorite ?? false,
+    conversationHistory: existing?.conversationHistory ?? [],
+    versions: existing?.versions,
+  };
+}
+
+/**
+ * Whether a component and a project hold the same name, description and files
+ */
+export function sameContent(component: GeneratedComponent, project: RemoteProject): boolean {
+  const files = componentFiles(component);
+  const paths = Object.keys(files);
+
+  return (
+    component.name === project.name &&
+    component.description === (project.description ?? '') &&
+    paths.length === Object.keys(project.files).length &&
+    paths.every(path => path in project.files && fileText(project.files[path]) === files[path])
+  );
+}
+
+// ============================================================================
+// RECONCILE
+// ============================================================================
+
+function fromProject(project: RemoteProject, existing?: SyncedComponent): SyncedComponent {
+  return {
+    id: existing?.id ?? `project-${project.id}`,
+    component: projectToComponent(project, existing?.component),
+    projectId: project.id,
+    remoteUpdatedAt: project.updated_at,
+    dirty: false,
+    deleted: false,
+    revision: (existing?.revision ?? 0) + 1,
+    conflict: null,
+  };
+}
+
+/**
+ * Record a local edit (or a new component)
+ */
+export function recordLocalChange(record: SyncedComponent | undefined, component: GeneratedComponent): SyncedComponent {
+  return {
+    id: component.id,
+    component,
+    projectId: record?.projectId ?? null,
+    remoteUpdatedAt: record?.remoteUpdatedAt ?? null,
+    dirty: true,
+    deleted: false,
+    revision: (record?.revision ?? 0) + 1,
+    conflict: record?.conflict ?? null,
+    modification: record?.modification,
+  };
+}
+
+/**
+ * Record that the component's latest change is an AI modification, so the
+ * push saves its prompt and diff summary with the replaced files. Only the
+ * latest modification since the last push is kept.
+ */
+export function recordModification(record: SyncedComponent, prompt: string, diffSummary: DiffSummary): SyncedComponent {
+  return { ...record, modification: { prompt, diffSummary, revision: record.revision } };
+}
+
+/**
+ * Record a local delete
+ */
+export function recordLocalDelete(record: SyncedComponent): SyncedComponent {
+  return { ...record, dirty: true, deleted: true, revision: record.revision + 1 };
+}
+
+/**
+ * Merge the remote project list into the local components. Remote changes
+ * are taken where there are no local ones; where both sides changed, the
+ * component keeps its local copy and records the remote one as a conflict.
+ * Components whose project was deleted remotely are dropped, unless they
+ * have local changes - those are pushed as new projects.
+ */
+export function reconcilePull(records: SyncedComponent[], projects: RemoteProject[]): SyncedComponent[] {
+  const byProject = new Map(records.filter(r => r.projectId).map(r => [r.projectId!, r]));
+  const remoteIds = new Set(projects.map(p => p.id));
+  const result: SyncedComponent[] = [];
+
+  for (const record of records) {
+    if (!record.projectId) {
+      result.push(record);
+    } else if (!remoteIds.has(record.projectId) && record.dirty && !record.deleted) {
+      result.push({ ...record, projectId: null, remoteUpdatedAt: null, conflict: null });
+    }
+  }
+
+  for (const project of projects) {
+    const record = byProject.get(project.id);
+
+    if (!record) {
+      result.push(fromProject(project));
+    } else if (record.remoteUpdatedAt === project.updated_at) {
+      result.push(record);
+    } else if (!record.dirty) {
+      result.push(fromProject(project, record));
+    } else if (!record.deleted && sameContent(record.component, project)) {
+      // Both sides made the same change
+      result.push({ ...record, remoteUpdatedAt: project.updated_at, dirty: false, conflict: null });
+    } else {
+      result.push({ ...record, conflict: project });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Components waiting to be pushed. Conflicts wait for the user.
+ */
+export function pendingPushes(records: SyncedComponent[]): SyncedComponent[] {
+  return records.filter(r => r.dirty && !r.conflict);
+}
+
+/**
+ * Update a component after a push of its `sentRevision`. `record` is its
+ * current state, which may have changed while the push was in flight.
+ * Returns null when the component is gone for good.
+ */
+export function applyPushOutcome(
+  record: SyncedComponent,
+  sentRevision: number,
+  outcome: PushOutcome
+): SyncedComponent | null {
+  switch (outcome.type) {
+    case 'saved':
+      return {
+        ...record,
+        projectId: outcome.project.id,
+        remoteUpdatedAt: outcome.project.updated_at,
+        dirty: record.revision !== sentRevision,
+        modification: record.modification && record.modification.revision > sentRevision
+          ? record.modification
+          : undefined,
+      };
+    case 'conflict':
+      return { ...record, conflict: outcome.project };
+    case 'deleted':
+    case 'missing':
+      return record.deleted ? null : { ...record, projectId: null, remoteUpdatedAt: null, dirty: true };
+  }
+}
+
+/**
+ * Resolve a conflict. Keeping ours bases it on the remote copy, so the next
+ * push overwrites that; taking theirs replaces ours.
+ */
+export function resolveConflict(record: SyncedComponent, choice: ConflictChoice): SyncedComponent {
+  if (!record.conflict) return record;
+
+  if (choice === 'remote') {
+    return fromProject(record.conflict, record);
+  }
+  return {
+    ...record,
+    remoteUpdatedAt: record.conflict.updated_at,
+    dirty: true,
+    revision: record.revision + 1,
+    conflict: null,
+  };
+}
+
+export function conflictsOf(records: SyncedComponent[]): SyncConflict[] {
+  return records
+    .filter(r => r.conflict)
+    .map(r => ({ componentId: r.id, local: r.deleted ? null : r.component, remote: r.conflict! }));
+}
+
+// ============================================================================
+// LOCAL STORE (IndexedDB)
+// ============================================================================
+
+const DB_NAME = 'ai-builder';
+const DB_VERSION = 1;
+const COMPONENTS_STORE = 'components';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'builder';
+
+/** User whose database the helpers below use */
+let dbUserId: string | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isLocalStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Use `userId`'s database from now on. Returns true when another user's
+ * database was in use - their components may still be in the builder and
+ * must not be saved to this one.
+ */
+export function selectLocalStore(userId: string): boolean {
+  if (userId === dbUserId) return false;
+  const switched = dbUserId !== null;
+
+  dbPromise?.then(db => db.close(), () => undefined);
+  dbPromise = null;
+  dbUserId = userId;
+  return switched;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbUserId) return Promise.reject(new Error('No user selected for the local store'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(`${DB_NAME}:${dbUserId}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(COMPONENTS_STORE)) {
+          db.createObjectStore(COMPONENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function loadSyncedComponents(): Promise<SyncedComponent[]> {
+  const db = await openDb();
+  const tx = db.transaction(COMPONENTS_STORE, 'readonly');
+  return requestResult(tx.objectStore(COMPONENTS_STORE).getAll());
+}
+
+/**
+ * Write components; `{ id, removed: true }` entries are deleted
+ */
+export async function saveSyncedComponents(changes: Array<SyncedComponent | { id: string; removed: true }>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(COMPONENTS_STORE, 'readwrite');
+  const store = tx.objectStore(COMPONENTS_STORE);
+  for (const change of changes) {
+    if ('removed' in change) {
+      store.delete(change.id);
+    } else {
+      store.put(change);
+    }
+  }
+  return transactionDone(tx);
+}
+
+/**
+ * Replace all stored components (after a pull)
+ */
+export async function replaceSyncedComponents(records: SyncedComponent[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(COMPONENTS_STORE, 'readwrite');
+  const store = tx.objectStore(COMPONENTS_STORE);
+  store.clear();
+  records.forEach(record => store.put(record));
+  return transactionDone(tx);
+}
+
+export async function loadBuilderSession(): Promise<BuilderSession | null> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const session = await requestResult(tx.objectStore(SESSION_STORE).get(SESSION_KEY));
+  return session ?? null;
+}
+
+export async function saveBuilderSession(session: BuilderSession): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+  return transactionDone(tx);
+}
+
+// ============================================================================
+// REMOTE
+// ============================================================================
+
+export async function fetchRemoteProjects(): Promise<RemoteProject[]> {
+  const response = await fetch('/api/projects');
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to fetch projects');
+  return data.projects;
+}
+
+/**
+ * Push one component: create its project, update it (along with its AI
+ * modification) or delete it. Updates and deletes only succeed while the
+ * project is unchanged since `remoteUpdatedAt`.
+ */
+export async function pushComponent(record: SyncedComponent): Promise<PushOutcome> {
+  if (record.deleted) {
+    if (record.projectId) {
+      const query = record.remoteUpdatedAt
+        ? `?${new URLSearchParams({ expectedUpdatedAt: record.remoteUpdatedAt })}`
+        : '';
+      const response = await fetch(`/api/projects/${record.projectId}${query}`, { method: 'DELETE' });
+      if (response.status === 409) return { type: 'conflict', project: (await response.json()).project };
+      // Already gone is as good as deleted
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete project');
+      }
+    }
+    return { type: 'deleted' };
+  }
+
+  const body = {
+    name: record.component.name,
+    description: record.component.description,
+    files: componentFiles(record.component),
+  };
+
+  const response = record.projectId
+    ? await fetch(`/api/projects/${record.projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...body,
+          expectedUpdatedAt: record.remoteUpdatedAt,
+          prompt: record.modification?.prompt,
+          diffSummary: record.modification?.diffSummary,
+        }),
+      })
+    : await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+  const data = await response.json();
+
+  if (response.status === 409) return { type: 'conflict', project: data.project };
+  if (response.status === 404) return { type: 'missing' };
+  if (!response.ok) throw new Error(data.error || 'Failed to save project');
+  return { type: 'saved', project: data.project };
+}
@@ -0,0 +1,330 @@
+import type Parser from 'tree-sitter';
+
+/**
+ * Scope Analysis - lexical scopes and name resolution on a Tree-sitter tree
+ *
+ * Shared by the AST operations that need to know what a name refers to:
+ * symbol renames (only touch references to the renamed declaration) and
+ * component extraction (find the free variables a JSX subtree depends on).
+ *
+ * Scope model (deliberately simple):
+ * - program, blocks, functions, for loops and catch clauses open scopes
+ * - let/const/var, params, imports, functions, classes and types declare names
+ * - a reference resolves to the nearest enclosing scope declaring its name
+ */
+
+type Node = Parser.SyntaxNode;
+
+const SCOPE_TYPES = new Set([
+  'program',
+  'statement_block',
+  'function_declaration',
+  'generator_function_declaration',
+  'function_expression',
+  'function',
+  'generator_function',
+  'arrow_function',
+  'method_definition',
+  'for_statement',
+  'for_in_statement',
+  'catch_clause',
+]);
+
+const NAMED_DECLARATION_TYPES = new Set([
+  'function_declaration',
+  'generator_function_declaration',
+  'class_declaration',
+  'abstract_class_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+]);
+
+const FUNCTION_VALUE_TYPES = new Set(['arrow_function', 'function_expression', 'function']);
+
+export const REFERENCE_TYPES = new Set([
+  'identifier',
+  'type_identifier',
+  'shorthand_property_identifier',
+  'shorthand_property_identifier_pattern',
+]);
+
+// ============================================================================
+// SCOPES
+// ============================================================================
+
+export class ScopeIndex {
+  private declarations = new Map<string, Map<string, Node>>();
+  private scopeNodes = new Map<string, Node>();
+
+  constructor(root: Node) {
+    for (const node of descendants(root)) {
+      this.collect(node);
+    }
+  }
+
+  declares(scope: Node, name: string): boolean {
+    return this.declarations.get(nodeKey(scope))?.has(name) ?? false;
+  }
+
+  declaringScopes(name: string): Node[] {
+    const scopes: Node[] = [];
+    this.declarations.forEach((names, key) => {
+      if (names.has(name)) scopes.push(this.scopeNodes.get(key)!);
+    });
+    return scopes;
+  }
+
+  /** Identifier that declares `name` in `scope` */
+  declaration(scope: Node, name: string): Node | null {
+    return this.declarations.get(nodeKey(scope))?.get(name) ?? null;
+  }
+
+  /** Scope whose declaration `reference` refers to, or null for globals */
+  resolve(reference: Node, name: string): Node | null {
+    for (let node = reference.parent; node; node = node.parent) {
+      if (SCOPE_TYPES.has(node.type) && this.declares(node, name)) {
+        return node;
+      }
+    }
+    return null;
+  }
+
+  private declare(scope: Node, nameNode: Node | null): void {
+    if (!nameNode) return;
+    const key = nodeKey(scope);
+    if (!this.declarations.has(key)) {
+      this.declarations.set(key, new Map());
+      this.scopeNodes.set(key, scope);
+    }
+    this.declarations.get(key)!.set(nameNode.text, nameNode);
+  }
+
+  private bindPattern(pattern: Node | null, scope: Node): void {
+    if (!pattern) return;
+    switch (pattern.type) {
+      case 'identifier':
+      case 'shorthand_property_identifier_pattern':
+        this.declare(scope, pattern);
+        break;
+      case 'object_pattern':
+      case 'array_pattern':
+        pattern.namedChildren.forEach(child => this.bindPattern(child, scope));
+        break;
+      case 'pair_pattern':
+        this.bindPattern(pattern.childForFieldName('value'), scope);
+        break;
+      case 'object_assignment_pattern':
+      case 'assignment_pattern':
+        this.bindPattern(pattern.childForFieldName('left'), scope);
+        break;
+      case 'rest_pattern':
+        this.bindPattern(pattern.namedChildren[0] || null, scope);
+        break;
+      case 'required_parameter':
+      case 'optional_parameter':
+        this.bindPattern(pattern.childForFieldName('pattern'), scope);
+        break;
+    }
+  }
+
+  private collect(node: Node): void {
+    if (node.type === 'variable_declarator') {
+      this.bindPattern(node.childForFieldName('name'), enclosingScope(node));
+    } else if (NAMED_DECLARATION_TYPES.has(node.type)) {
+      this.declare(enclosingScope(node), node.childForFieldName('name'));
+    }
+
+    if (SCOPE_TYPES.has(node.type) && node.type !== 'program' && node.type !== 'statement_block') {
+      const params = node.childForFieldName('parameters');
+      params?.namedChildren.forEach(param => this.bindPattern(param, node));
+      this.bindPattern(node.childForFieldName('parameter'), node);
+
+      if (node.type === 'function_expression' || node.type === 'function') {
+        this.declare(node, node.childForFieldName('name'));
+      }
+      if (node.type === 'for_in_statement' && node.children.some(c => c.type === 'const' || c.type === 'let' || c.type === 'var')) {
+        this.bindPattern(node.childForFieldName('left'), node);
+      }
+    }
+
+    if (node.type === 'import_statement') {
+      const root = rootOf(node);
+      for (const child of descendants(node)) {
+        if (child.type === 'import_specifier') {
+          this.declare(root, child.childForFieldName('alias') || child.childForFieldName('name'));
+        } else if (child.type === 'import_clause' || child.type === 'namespace_import') {
+          child.namedChildren.filter(c => c.type === 'identifier').forEach(id => this.declare(root, id));
+        }
+      }
+    }
+  }
+}
+
+// ============================================================================
+// FREE REFERENCES
+// ============================================================================
+
+export interface FreeReference {
+  name: string;
+  /** Scope outside the subtree that declares the name */
+  scope: Node;
+  /** Identifier that declares it */
+  declaration: Node;
+}
+
+/**
+ * Names used inside `subtree` that are declared outside it, in first-use order.
+ * Globals (no declaration in the file), type names and intrinsic JSX tags
+ * like <div> are not included.
+ */
+export function findFreeReferences(subtree: Node, scopes: ScopeIndex): FreeReference[] {
+  const found = new Map<string, FreeReference>();
+
+  for (const node of descendants(subtree)) {
+    if (node.type !== 'identifier' && node.type !== 'shorthand_property_identifier') continue;
+    if (found.has(node.text) || !isLocalReference(node) || isIntrinsicTagName(node)) continue;
+
+    const scope = scopes.resolve(node, node.text);
+    if (!scope || contains(subtree, scope)) continue;
+
+    found.set(node.text, { name: node.text, scope, declaration: scopes.declaration(scope, node.text)! });
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Uses outside `removed` of names declared inside it - what would be left
+ * dangling if `removed` were deleted. One entry per name, at its first use.
+ */
+export function findRemainingReferences(
+  root: Node,
+  names: string[],
+  removed: Node
+): Array<{ name: string; line: number }> {
+  const scopes = new ScopeIndex(root);
+  const found = new Map<string, number>();
+
+  for (const node of descendants(root)) {
+    if (!REFERENCE_TYPES.has(node.type) || !names.includes(node.text) || found.has(node.text)) continue;
+    if (contains(removed, node) || !isLocalReference(node)) continue;
+
+    const scope = scopes.resolve(node, node.text);
+    const declaration = scope && scopes.declaration(scope, node.text);
+    if (declaration && contains(removed, declaration)) {
+      found.set(node.text, node.startPosition.row + 1);
+    }
+  }
+
+  return Array.from(found, ([name, line]) => ({ name, line }));
+}
+
+/**
+ * False for identifiers that name something outside this file
+ * (the imported name in `import { a as b }`, the public name in `export { a as b }`,
+ * and anything in `export { a } from './x'`)
+ */
+export function isLocalReference(node: Node): boolean {
+  const parent = node.parent;
+  if (!parent) return true;
+
+  if (parent.type === 'import_specifier') {
+    const alias = parent.childForFieldName('alias');
+    return !alias || alias.startIndex === node.startIndex;
+  }
+  if (parent.type === 'export_specifier') {
+    const alias = parent.childForFieldName('alias');
+    if (alias && alias.startIndex === node.startIndex) return false;
+    const statement = parent.parent?.parent;
+    return !statement?.childForFieldName('source');
+  }
+  return true;
+}
+
+function isIntrinsicTagName(node: Node): boolean {
+  const parent = node.parent;
+  return !!parent &&
+    (parent.type === 'jsx_opening_element' || parent.type === 'jsx_closing_element' || parent.type === 'jsx_self_closing_element') &&
+    parent.childForFieldName('name')?.startIndex === node.startIndex &&
+    /^[a-z]/.test(node.text);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Function node for a function declaration or `const Name = (...) =>` /
+ * `const Name = memo((...) => ...)`
+ */
+export function findFunctionNamed(root: Node, name: string): Node | null {
+  for (const node of descendants(root)) {
+    if (
+      (node.type === 'function_declaration' || node.type === 'generator_function_declaration') &&
+      node.childForFieldName('name')?.text === name
+    ) {
+      return node;
+    }
+    if (node.type === 'variable_declarator' && node.childForFieldName('name')?.text === name) {
+      let value = node.childForFieldName('value');
+      if (value?.type === 'call_expression') {
+        value = value.childForFieldName('arguments')?.namedChildren[0] || null;
+      }
+      if (value && FUNCTION_VALUE_TYPES.has(value.type)) {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+export function firstParameter(fn: Node): Node | null {
+  return fn.childForFieldName('parameters')?.namedChildren[0] || fn.childForFieldName('parameter');
+}
+
+export function statementSource(statement: Node): string | null {
+  const source = statement.childForFieldName('source');
+  return source ? source.text.slice(1, -1) : null;
+}
+
+export function enclosingScope(node: Node): Node {
+  let current = node.parent;
+  while (current && !SCOPE_TYPES.has(current.type)) {
+    current = current.parent;
+  }
+  return current || rootOf(node);
+}
+
+export function rootOf(node: Node): Node {
+  let current = node;
+  while (current.parent) current = current.parent;
+  return current;
+}
+
+export function contains(outer: Node, inner: Node): boolean {
+  return inner.startIndex >= outer.startIndex && inner.endIndex <= outer.endIndex;
+}
+
+export function depth(node: Node): number {
+  let d = 0;
+  for (let current = node.parent; current; current = current.parent) d++;
+  return d;
+}
+
+export function descendants(root: Node): Node[] {
+  const result: Node[] = [];
+  const stack: Node[] = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    result.push(node);
+    for (let i = node.childCount - 1; i >= 0; i--) {
+      stack.push(node.child(i)!);
+    }
+  }
+  return result;
+}
+
+function nodeKey(node: Node): string {
+  return `${node.startIndex}:${node.endIndex}:${node.type}`;
+}
@@ -0,0 +1,264 @@
+/**
+ * Search Anchor Matcher
+ *
+ * Locates a diff's `searchFor` anchor in a file. Models often get indentation,
+ * spacing or quote style slightly wrong, so matching falls back in tiers:
+ *
+ *   1. exact       - character-for-character (confidence 1)
+ *   2. whitespace  - same tokens, any whitespace, ' " ` interchangeable (confidence 0.95)
+ *   3. fuzzy       - best run of whole lines by per-line similarity, accepted
+ *                    only at or above the confidence threshold
+ *
+ * The chosen strategy and confidence are returned so callers can report them.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+export type MatchStrategy = 'exact' | 'whitespace' | 'fuzzy';
+
+export interface AnchorMatch {
+  /** Offset of the first matched character */
+  start: number;
+  /** Offset just past the last matched character */
+  end: number;
+  strategy: MatchStrategy;
+  /** 0-1; 1 for exact matches */
+  confidence: number;
+  /**
+   * Number of equally good matches, overlapping ones included; >1 means the
+   * anchor is ambiguous. applyDiff uses the first of several exact matches
+   * but refuses ambiguous whitespace or fuzzy ones.
+   */
+  occurrences: number;
+  /** 1-based line of `start` */
+  line: number;
+}
+
+/** What gets reported back for an applied change */
+export type AnchorMatchSummary = Pick<AnchorMatch, 'strategy' | 'confidence' | 'occurrences' | 'line'>;
+
+export interface FindAnchorOptions {
+  /** Minimum confidence for fuzzy matches (default FUZZY_MATCH_THRESHOLD) */
+  minConfidence?: number;
+}
+
+export const WHITESPACE_MATCH_CONFIDENCE = 0.95;
+export const FUZZY_MATCH_THRESHOLD = 0.85;
+
+/** Per-line edit distance is quadratic; beyond this fuzzy matching is skipped */
+const MAX_FUZZY_LINE_LENGTH = 500;
+const MAX_FUZZY_ANCHOR_LINES = 60;
+
+/**
+ * Locate `searchFor` in `content`, or return null when no tier finds it
+ */
+export function findAnchor(
+  content: string,
+  searchFor: string,
+  options: FindAnchorOptions = {}
+): AnchorMatch | null {
+  if (!searchFor) {
+    return null;
+  }
+
+  return (
+    findExact(content, searchFor) ||
+    findWhitespaceInsensitive(content, searchFor) ||
+    findFuzzy(content, searchFor, options.minConfidence ?? FUZZY_MATCH_THRESHOLD)
+  );
+}
+
+/**
+ * Best fuzzy score for `searchFor` regardless of threshold - used to explain
+ * why an anchor was rejected
+ */
+export function bestFuzzyConfidence(content: string, searchFor: string): number {
+  return findFuzzy(content, searchFor, 0)?.confidence ?? 0;
+}
+
+export function summarizeMatch(match: AnchorMatch): AnchorMatchSummary {
+  return {
+    strategy: match.strategy,
+    confidence: match.confidence,
+    occurrences: match.occurrences,
+    line: match.line,
+  };
+}
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+function findExact(content: string, searchFor: string): AnchorMatch | null {
+  const start = content.indexOf(searchFor);
+  if (start === -1) {
+    return null;
+  }
+
+  let occurrences = 0;
+  for (let i = start; i !== -1; i = content.indexOf(searchFor, i + 1)) {
+    occurrences++;
+  }
+
+  return {
+    start,
+    end: start + searchFor.length,
+    strategy: 'exact',
+    confidence: 1,
+    occurrences,
+    line: lineAt(content, start),
+  };
+}
+
+function findWhitespaceInsensitive(content: string, searchFor: string): AnchorMatch | null {
+  const tokens = searchFor.trim().match(/\w+|[^\s\w]/g);
+  if (!tokens) {
+    return null;
+  }
+
+  // Word tokens need whitespace between them; punctuation may or may not have it
+  let source = '';
+  tokens.forEach((token, i) => {
+    if (i > 0) {
+      source += /\w/.test(tokens[i - 1]) && /\w/.test(token) ? '\\s+' : '\\s*';
+    }
+    source += /^['"`]$/.test(token) ? `['"\`]` : escapeRegExp(token);
+  });
+
+  const pattern = new RegExp(source, 'g');
+  const first = pattern.exec(content);
+  if (!first) {
+    return null;
+  }
+
+  // Restart just past each match's start so overlapping matches count too
+  let occurrences = 1;
+  pattern.lastIndex = first.index + 1;
+  let next: RegExpExecArray | null;
+  while ((next = pattern.exec(content))) {
+    occurrences++;
+    pattern.lastIndex = next.index + 1;
+  }
+
+  return {
+    start: first.index,
+    end: first.index + first[0].length,
+    strategy: 'whitespace',
+    confidence: WHITESPACE_MATCH_CONFIDENCE,
+    occurrences,
+    line: lineAt(content, first.index),
+  };
+}
+
+function findFuzzy(content: string, searchFor: string, minConfidence: number): AnchorMatch | null {
+  const anchorLines = trimBlankEdges(searchFor.split('\n')).map(normalizeLine);
+  if (anchorLines.length === 0 || anchorLines.length > MAX_FUZZY_ANCHOR_LINES) {
+    return null;
+  }
+  if (anchorLines.some(line => line.length > MAX_FUZZY_LINE_LENGTH)) {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  const normalized = lines.map(normalizeLine);
+  const anchorWeight = anchorLines.reduce((sum, line) => sum + Math.max(line.length, 1), 0);
+
+  let best = -1;
+  let bestIndex = -1;
+  let occurrences = 0;
+
+  for (let i = 0; i + anchorLines.length <= lines.length; i++) {
+    // Weight each line by its length so a matching `}` doesn't count as much as the JSX line
+    let score = 0;
+    for (let j = 0; j < anchorLines.length; j++) {
+      score += similarity(anchorLines[j], normalized[i + j]) * Math.max(anchorLines[j].length, 1);
+    }
+    score /= anchorWeight;
+
+    if (score > best + 1e-9) {
+      best = score;
+      bestIndex = i;
+      occurrences = 1;
+    } else if (Math.abs(score - best) <= 1e-9) {
+      occurrences++;
+    }
+  }
+
+  if (bestIndex === -1 || best < minConfidence) {
+    return null;
+  }
+
+  // Match whole lines, keeping the file's own indentation outside the span
+  let start = 0;
+  for (let i = 0; i < bestIndex; i++) {
+    start += lines[i].length + 1;
+  }
+  start += lines[bestIndex].length - lines[bestIndex].trimStart().length;
+
+  let end = 0;
+  for (let i = 0; i < bestIndex + anchorLines.length; i++) {
+    end += lines[i].length + 1;
+  }
+  end -= 1;
+
+  return {
+    start,
+    end,
+    strategy: 'fuzzy',
+    confidence: Math.round(best * 1000) / 1000,
+    occurrences,
+    line: bestIndex + 1,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ').replace(/["`]/g, "'");
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+  let first = 0;
+  let last = lines.length;
+  while (first < last && !lines[first].trim()) first++;
+  while (last > first && !lines[last - 1].trim()) last--;
+  return lines.slice(first, last);
+}
+
+/**
+ * Normalized Levenshtein similarity: 1 - distance / longer length
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  if (b.length > MAX_FUZZY_LINE_LENGTH) return 0;
+
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
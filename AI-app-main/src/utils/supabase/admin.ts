@@ -0,0 +1,19 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Creates a Supabase client with the service role key for server-side work
+ * that isn't tied to a signed-in user (e.g. background analytics writes).
+ * Bypasses Row Level Security - never import this from client code.
+ */
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
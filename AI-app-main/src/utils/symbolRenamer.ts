@@ -0,0 +1,452 @@
+import type Parser from 'tree-sitter';
+import {
+  ScopeIndex,
+  REFERENCE_TYPES,
+  isLocalReference,
+  findFunctionNamed,
+  firstParameter,
+  statementSource,
+  contains,
+  depth,
+  descendants,
+} from './scopeAnalysis';
+
+/**
+ * Symbol Renamer - scope-aware rename planning on a Tree-sitter tree
+ *
+ * Plans the text edits for renaming a variable, function, component, type or
+ * prop. Only references that resolve to the renamed declaration are touched,
+ * so shadowed bindings with the same name in inner scopes are left alone.
+ *
+ * Planning is separate from applying: callers feed the edits to
+ * ASTModifier.replaceRanges() so the result is validated like any other
+ * AST modification. Cross-file updates (imports, re-exports, JSX usages in
+ * importing files) are planned with planImporterRename().
+ *
+ * Name resolution uses the scope model in scopeAnalysis.ts.
+ */
+
+type Node = Parser.SyntaxNode;
+
+export type RenameKind = 'variable' | 'function' | 'component' | 'prop';
+
+export interface RenameSymbolSpec {
+  oldName: string;
+  newName: string;
+  kind?: RenameKind;
+  /** Function/component containing the declaration, when the name is declared more than once */
+  scope?: string;
+  /** Component that owns the prop (kind: 'prop' only) */
+  component?: string;
+}
+
+export interface RenameEdit {
+  start: number;
+  end: number;
+  newCode: string;
+}
+
+export interface SymbolExportInfo {
+  named: boolean;
+  default: boolean;
+}
+
+export interface RenamePlan {
+  edits: RenameEdit[];
+  errors: string[];
+  /** How the renamed symbol (or the prop's component) is exported from this file */
+  exported: SymbolExportInfo;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Plan a rename inside the file that declares the symbol
+ */
+export function planSymbolRename(root: Node, spec: RenameSymbolSpec): RenamePlan {
+  const plan: RenamePlan = { edits: [], errors: [], exported: { named: false, default: false } };
+
+  if (!IDENTIFIER_PATTERN.test(spec.newName)) {
+    plan.errors.push(`"${spec.newName}" is not a valid identifier`);
+    return plan;
+  }
+  if (spec.oldName === spec.newName) {
+    plan.errors.push(`Old and new names are both "${spec.oldName}"`);
+    return plan;
+  }
+
+  if (spec.kind === 'prop') {
+    return planPropRename(root, spec, plan);
+  }
+
+  const scopes = new ScopeIndex(root);
+  let candidates = scopes.declaringScopes(spec.oldName);
+
+  if (spec.scope) {
+    const owner = findFunctionNamed(root, spec.scope);
+    if (!owner) {
+      plan.errors.push(`Could not find function or component "${spec.scope}"`);
+      return plan;
+    }
+    candidates = candidates.filter(scope => contains(owner, scope));
+  }
+
+  if (candidates.length === 0) {
+    plan.errors.push(`Could not find a declaration of "${spec.oldName}"${spec.scope ? ` in ${spec.scope}` : ''}`);
+    return plan;
+  }
+
+  // The outermost declaration wins; two at the same depth need `scope` to disambiguate
+  const depths = candidates.map(depth);
+  const minDepth = Math.min(...depths);
+  const outermost = candidates.filter((_, i) => depths[i] === minDepth);
+  if (outermost.length > 1) {
+    plan.errors.push(`"${spec.oldName}" is declared in ${outermost.length} separate scopes - specify "scope"`);
+    return plan;
+  }
+
+  const target = outermost[0];
+  if (scopes.declares(target, spec.newName)) {
+    plan.errors.push(`"${spec.newName}" is already declared in the same scope`);
+    return plan;
+  }
+
+  const captured = capturedReference(root, scopes, target, spec.oldName, spec.newName);
+  if (captured) {
+    plan.errors.push(
+      `"${spec.newName}" is already declared in a scope that uses "${spec.oldName}" (line ${captured.startPosition.row + 1}) - ` +
+      'the renamed references would refer to it instead'
+    );
+    return plan;
+  }
+
+  plan.edits = referenceEdits(root, scopes, target, spec.oldName, spec.newName, false);
+  if (target.type === 'program') {
+    plan.exported = findExportInfo(root, spec.oldName);
+  }
+
+  return plan;
+}
+
+/**
+ * Plan the edits in a file that imports from the renamed symbol's file.
+ * `isTargetSource` says whether an import specifier points at that file.
+ */
+export function planImporterRename(
+  root: Node,
+  spec: RenameSymbolSpec,
+  isTargetSource: (source: string) => boolean,
+  exported: SymbolExportInfo
+): RenameEdit[] {
+  if (spec.kind === 'prop') {
+    const names = importedLocalNames(root, spec.component || '', isTargetSource, exported);
+    return jsxAttributeEdits(root, names, spec.oldName, spec.newName);
+  }
+
+  const edits: RenameEdit[] = [];
+  let renameLocalBinding = false;
+  // Names of `import { Old }` specifiers, which must change with the export
+  const unaliased: Node[] = [];
+
+  for (const statement of root.namedChildren) {
+    const source = statementSource(statement);
+    if (!source || !isTargetSource(source)) continue;
+
+    if (statement.type === 'import_statement') {
+      for (const node of descendants(statement)) {
+        if (node.type === 'import_specifier' && exported.named) {
+          const name = node.childForFieldName('name');
+          if (name?.text !== spec.oldName) continue;
+          if (node.childForFieldName('alias')) {
+            edits.push(edit(name, spec.newName));
+          } else {
+            renameLocalBinding = true;
+            unaliased.push(name);
+          }
+        } else if (node.type === 'import_clause' && exported.default) {
+          const defaultName = node.namedChildren.find(c => c.type === 'identifier');
+          if (defaultName?.text === spec.oldName) {
+            renameLocalBinding = true;
+          }
+        } else if (node.type === 'namespace_import' && exported.named) {
+          const namespace = node.namedChildren.find(c => c.type === 'identifier');
+          if (namespace) {
+            edits.push(...namespaceMemberEdits(root, namespace.text, spec.oldName, spec.newName));
+          }
+        }
+      }
+    } else if (statement.type === 'export_statement' && exported.named) {
+      // Re-export: keep this module's public name so its own importers still work
+      for (const node of descendants(statement)) {
+        if (node.type !== 'export_specifier') continue;
+        const name = node.childForFieldName('name');
+        if (name?.text !== spec.oldName) continue;
+        edits.push(edit(name, node.childForFieldName('alias') ? spec.newName : `${spec.newName} as ${spec.oldName}`));
+      }
+    }
+  }
+
+  if (renameLocalBinding) {
+    const scopes = new ScopeIndex(root);
+    if (!scopes.declares(root, spec.newName) && !capturedReference(root, scopes, root, spec.oldName, spec.newName)) {
+      edits.push(...referenceEdits(root, scopes, root, spec.oldName, spec.newName, true));
+    } else {
+      // The new name is taken here: import it under the old one instead
+      edits.push(...unaliased.map(name => edit(name, `${spec.newName} as ${spec.oldName}`)));
+    }
+  }
+
+  return dedupe(edits);
+}
+
+// ============================================================================
+// PROP RENAMES
+// ============================================================================
+
+function planPropRename(root: Node, spec: RenameSymbolSpec, plan: RenamePlan): RenamePlan {
+  if (!spec.component) {
+    plan.errors.push('Prop renames need "component" - the component that owns the prop');
+    return plan;
+  }
+
+  const component = findFunctionNamed(root, spec.component);
+  if (!component) {
+    plan.errors.push(`Could not find component "${spec.component}"`);
+    return plan;
+  }
+
+  const edits: RenameEdit[] = [];
+  const param = firstParameter(component);
+  const pattern = param?.type === 'required_parameter' || param?.type === 'optional_parameter'
+    ? param.childForFieldName('pattern')
+    : param;
+
+  if (pattern?.type === 'object_pattern') {
+    // ({ title }) or ({ title = 'x' }) - rename the key and the local binding
+    // ({ title: heading }) - rename the key only
+    for (const entry of pattern.namedChildren) {
+      const shorthand = entry.type === 'object_assignment_pattern' ? entry.childForFieldName('left') : entry;
+      if (shorthand?.type === 'shorthand_property_identifier_pattern' && shorthand.text === spec.oldName) {
+        const scopes = new ScopeIndex(root);
+        edits.push(
+          ...referenceEdits(component, scopes, component, spec.oldName, spec.newName, false)
+            .filter(e => e.start !== shorthand.startIndex),
+          edit(shorthand, spec.newName)
+        );
+      } else if (entry.type === 'pair_pattern') {
+        const key = entry.childForFieldName('key');
+        if (key?.text === spec.oldName) {
+          edits.push(edit(key, spec.newName));
+        }
+      }
+    }
+  } else if (pattern?.type === 'identifier') {
+    // (props) - rename props.title
+    edits.push(...namespaceMemberEdits(component, pattern.text, spec.oldName, spec.newName));
+  }
+
+  // Props type: inline object type or a local interface/type alias
+  const typeAnnotation = param?.childForFieldName('type')?.namedChildren[0];
+  if (typeAnnotation?.type === 'object_type') {
+    edits.push(...propertySignatureEdits(typeAnnotation, spec.oldName, spec.newName));
+  } else if (typeAnnotation?.type === 'type_identifier') {
+    const typeDecl = root.namedChildren
+      .map(n => (n.type === 'export_statement' ? n.namedChildren[0] : n))
+      .find(n =>
+        n && (n.type === 'interface_declaration' || n.type === 'type_alias_declaration') &&
+        n.childForFieldName('name')?.text === typeAnnotation.text
+      );
+    if (typeDecl) {
+      edits.push(...propertySignatureEdits(typeDecl, spec.oldName, spec.newName));
+    }
+  }
+
+  edits.push(...jsxAttributeEdits(root, new Set([spec.component]), spec.oldName, spec.newName));
+
+  plan.edits = dedupe(edits);
+  plan.exported = findExportInfo(root, spec.component);
+  if (plan.edits.length === 0) {
+    plan.errors.push(`Component "${spec.component}" has no prop "${spec.oldName}"`);
+  }
+  return plan;
+}
+
+function propertySignatureEdits(typeNode: Node, oldName: string, newName: string): RenameEdit[] {
+  return descendants(typeNode)
+    .filter(n => n.type === 'property_signature')
+    .map(n => n.childForFieldName('name'))
+    .filter((name): name is Node => !!name && name.text === oldName)
+    .map(name => edit(name, newName));
+}
+
+function jsxAttributeEdits(root: Node, componentNames: Set<string>, oldName: string, newName: string): RenameEdit[] {
+  const edits: RenameEdit[] = [];
+  if (componentNames.size === 0) return edits;
+
+  for (const node of descendants(root)) {
+    if (node.type !== 'jsx_opening_element' && node.type !== 'jsx_self_closing_element') continue;
+    const name = node.childForFieldName('name');
+    if (!name || !componentNames.has(name.text)) continue;
+
+    for (const attribute of node.namedChildren) {
+      if (attribute.type !== 'jsx_attribute') continue;
+      const attrName = attribute.namedChildren[0];
+      if (attrName?.type === 'property_identifier' && attrName.text === oldName) {
+        edits.push(edit(attrName, newName));
+      }
+    }
+  }
+  return edits;
+}
+
+/**
+ * Edits for every reference to `oldName` under `root` that resolves to `target`
+ */
+function referenceEdits(
+  root: Node,
+  scopes: ScopeIndex,
+  target: Node,
+  oldName: string,
+  newName: string,
+  renameImportedName: boolean
+): RenameEdit[] {
+  const edits: RenameEdit[] = [];
+
+  for (const node of references(root, scopes, target, oldName)) {
+    const parent = node.parent;
+    if (node.type === 'shorthand_property_identifier' || node.type === 'shorthand_property_identifier_pattern') {
+      // { title } keeps its key: { title: heading }
+      edits.push(edit(node, `${oldName}: ${newName}`));
+    } else if (parent?.type === 'import_specifier' && !parent.childForFieldName('alias') && !renameImportedName) {
+      // The exporting module still calls it oldName
+      edits.push(edit(node, `${oldName} as ${newName}`));
+    } else {
+      edits.push(edit(node, newName));
+    }
+  }
+
+  return dedupe(edits);
+}
+
+/**
+ * Every reference to `oldName` under `root` that resolves to `target`
+ */
+function references(root: Node, scopes: ScopeIndex, target: Node, oldName: string): Node[] {
+  return descendants(root).filter(node =>
+    REFERENCE_TYPES.has(node.type) &&
+    node.text === oldName &&
+    isLocalReference(node) &&
+    scopes.resolve(node, oldName) === target
+  );
+}
+
+/**
+ * First reference to `target`'s `oldName` that sits inside a scope already
+ * declaring `newName` - renaming it would bind it to that inner declaration
+ */
+function capturedReference(root: Node, scopes: ScopeIndex, target: Node, oldName: string, newName: string): Node | null {
+  for (const node of references(root, scopes, target, oldName)) {
+    for (let scope = node.parent; scope && scope !== target; scope = scope.parent) {
+      if (scopes.declares(scope, newName)) return node;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findExportInfo(root: Node, name: string): SymbolExportInfo {
+  const info: SymbolExportInfo = { named: false, default: false };
+
+  for (const statement of root.namedChildren) {
+    if (statement.type !== 'export_statement' || statement.childForFieldName('source')) continue;
+    const isDefault = statement.children.some(c => c.type === 'default');
+
+    const declaration = statement.childForFieldName('declaration');
+    if (declaration) {
+      const declared = declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration'
+        ? declaration.namedChildren.map(d => d.childForFieldName('name')?.text)
+        : [declaration.childForFieldName('name')?.text];
+      if (declared.includes(name)) {
+        if (isDefault) info.default = true;
+        else info.named = true;
+      }
+      continue;
+    }
+
+    const value = statement.childForFieldName('value');
+    if (isDefault && value?.type === 'identifier' && value.text === name) {
+      info.default = true;
+      continue;
+    }
+
+    for (const specifier of descendants(statement)) {
+      if (specifier.type !== 'export_specifier' || specifier.childForFieldName('name')?.text !== name) continue;
+      const alias = specifier.childForFieldName('alias')?.text;
+      if (alias === 'default') info.default = true;
+      else if (!alias || alias === name) info.named = true;
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Local names under which an importing file refers to `exportedName`
+ */
+function importedLocalNames(
+  root: Node,
+  exportedName: string,
+  isTargetSource: (source: string) => boolean,
+  exported: SymbolExportInfo
+): Set<string> {
+  const names = new Set<string>();
+
+  for (const statement of root.namedChildren) {
+    if (statement.type !== 'import_statement') continue;
+    const source = statementSource(statement);
+    if (!source || !isTargetSource(source)) continue;
+
+    for (const node of descendants(statement)) {
+      if (node.type === 'import_specifier' && exported.named && node.childForFieldName('name')?.text === exportedName) {
+        names.add((node.childForFieldName('alias') || node.childForFieldName('name'))!.text);
+      } else if (node.type === 'import_clause' && exported.default) {
+        const defaultName = node.namedChildren.find(c => c.type === 'identifier');
+        if (defaultName) names.add(defaultName.text);
+      } else if (node.type === 'namespace_import' && exported.named) {
+        const namespace = node.namedChildren.find(c => c.type === 'identifier');
+        if (namespace) names.add(`${namespace.text}.${exportedName}`);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Edits for `object.oldName` member accesses (namespace imports, props.x)
+ */
+function namespaceMemberEdits(root: Node, objectName: string, oldName: string, newName: string): RenameEdit[] {
+  return descendants(root)
+    .filter(n =>
+      n.type === 'member_expression' &&
+      n.childForFieldName('object')?.type === 'identifier' &&
+      n.childForFieldName('object')?.text === objectName &&
+      n.childForFieldName('property')?.text === oldName
+    )
+    .map(n => edit(n.childForFieldName('property')!, newName));
+}
+
+function edit(node: Node, newCode: string): RenameEdit {
+  return { start: node.startIndex, end: node.endIndex, newCode };
+}
+
+function dedupe(edits: RenameEdit[]): RenameEdit[] {
+  const seen = new Map<number, RenameEdit>();
+  edits.forEach(e => {
+    if (!seen.has(e.start)) seen.set(e.start, e);
+  });
+  return Array.from(seen.values());
+}
@@ -4,6 +4,7 @@ import type {
   FunctionMatch,
   VariableMatch,
   StateVariable,
+  HookCall,
   ParserOptions,
   ImportInfo
 } from './treeSitterTypes';
@@ -517,6 +518,43 @@ export class CodeParser {
     return stateVars;
   }
 
+  /**
+   * Find statements calling a hook, bound (`const x = useRef()`) or bare (`useEffect(...)`)
+   * Matches both `useMemo(...)` and `React.useMemo(...)`
+   */
+  findHookCalls(tree: Parser.Tree | null, hookName: string): HookCall[] {
+    if (!tree || !tree.rootNode || !hookName) {
+      return [];
+    }
+
+    const calls: HookCall[] = [];
+    const isHookCall = (node: Parser.SyntaxNode | null) => {
+      if (node?.type !== 'call_expression') return false;
+      const callee = node.childForFieldName('function');
+      return callee?.text === hookName || callee?.text === `React.${hookName}`;
+    };
+
+    for (const decl of this.findNodes(tree, 'lexical_declaration')) {
+      for (const child of decl.namedChildren) {
+        if (child.type === 'variable_declarator' && isHookCall(child.childForFieldName('value'))) {
+          const nameNode = child.childForFieldName('name');
+          const names = nameNode?.type === 'identifier'
+            ? [nameNode.text]
+            : (nameNode?.namedChildren || []).map(n => n.text);
+          calls.push({ hook: hookName, names, node: decl });
+        }
+      }
+    }
+
+    for (const statement of this.findNodes(tree, 'expression_statement')) {
+      if (isHookCall(statement.namedChildren[0] || null)) {
+        calls.push({ hook: hookName, names: [], node: statement });
+      }
+    }
+
+    return calls.sort((a, b) => a.node.startIndex - b.node.startIndex);
+  }
+
   /**
    * Get detailed import information
    * Returns source and all imported names
@@ -697,6 +735,29 @@ export class CodeParser {
   async initialize(): Promise<void> {
     await this.ensureInitialized();
   }
+
+  /**
+   * Synchronous initialization via require, for callers that can't await
+   * (parseSync afterwards). Returns false if the grammar can't be loaded.
+   */
+  initializeSync(): boolean {
+    if (this.initialized) return true;
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const grammar = this.language === 'typescript'
+        ? require('tree-sitter-typescript').tsx
+        : require('tree-sitter-javascript');
+      this.parser.setLanguage(grammar as any);
+      this.initialized = true;
+    } catch (error) {
+      if (this.options.logErrors) {
+        console.error(`Failed to load tree-sitter language for ${this.language}`, error);
+      }
+    }
+
+    return this.initialized;
+  }
 }
 
 /**
@@ -42,6 +42,16 @@ export interface StateVariable {
   node: Parser.SyntaxNode;
 }
 
+/**
+ * A top-level hook call statement inside a component
+ * (e.g. `const ref = useRef(null)` or `useEffect(() => {...}, [])`)
+ */
+export interface HookCall {
+  hook: string; // e.g., 'useEffect'
+  names: string[]; // Bound names, e.g. ['state', 'dispatch']; empty for useEffect
+  node: Parser.SyntaxNode; // The whole statement
+}
+
 /**
  * Event handler information
  */
@@ -0,0 +1,306 @@
+import ts from 'typescript';
+import path from 'path';
+import type { ValidationError } from './codeValidator';
+
+/**
+ * TypeScript Validator - type-checks generated files as one program
+ *
+ * The regex validators in codeValidator.ts look at one line at a time; this
+ * tier builds an in-memory TypeScript program from every generated file and
+ * reports what the compiler reports: undefined identifiers, imports of files
+ * or exports that don't exist, props of the wrong type.
+ *
+ * Nothing is read from the project's node_modules except TypeScript's own
+ * lib files. React and Next get small stub declarations (see REACT_STUBS);
+ * any other package import is declared as an untyped module, since packages
+ * are installed later (Sandpack / exported package.json).
+ */
+
+export interface FileTypeErrors {
+  file: string;
+  errors: ValidationError[];
+}
+
+/** Virtual directory the generated files live in */
+const ROOT = '/__generated__';
+const STUBS_FILE = `${ROOT}/__stubs__.d.ts`;
+
+const CHECKED_EXTENSIONS = /\.(tsx?|jsx?)$/;
+const JS_EXTENSIONS = /\.jsx?$/;
+
+/** Diagnostics reported as UNDEFINED_IDENTIFIER */
+const UNDEFINED_CODES = new Set([
+  2304, // Cannot find name 'x'
+  2552, // Cannot find name 'x'. Did you mean 'y'?
+  2582, // Cannot find name 'describe' (test globals)
+]);
+
+/** Diagnostics reported as MISSING_IMPORT */
+const IMPORT_CODES = new Set([
+  2305, // Module 'x' has no exported member 'y'
+  2307, // Cannot find module 'x'
+  2613, // Module 'x' has no default export
+  2614, // Module 'x' has no exported member 'y'. Did you mean to use 'import y from'?
+  2724, // 'x' has no exported member named 'y'. Did you mean 'z'?
+  1192, // Module 'x' has no default export
+]);
+
+/** Diagnostics that are noise for generated snippets */
+const IGNORED_CODES = new Set([
+  2686, // 'React' refers to a UMD global
+  6133, // 'x' is declared but its value is never read
+  6192, // All imports in import declaration are unused
+  7016, // Could not find a declaration file for module
+]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  allowJs: true,
+  checkJs: true,
+  strict: false,
+  noEmit: true,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  isolatedModules: true,
+  types: [],
+  baseUrl: ROOT,
+  paths: { '@/*': ['src/*'] },
+};
+
+/**
+ * Loose declarations for React and Next - enough for JSX and hooks to
+ * type-check and for component props to be checked, without @types/react
+ */
+const REACT_STUBS = `
+declare namespace React {
+  type ReactNode = JSX.Element | string | number | boolean | null | undefined | Iterable<ReactNode>;
+  type Key = string | number;
+  type SetStateAction<S> = S | ((prev: S) => S);
+  type Dispatch<A> = (value: A) => void;
+  type DependencyList = readonly unknown[];
+  interface RefObject<T> { current: T; }
+  interface MutableRefObject<T> { current: T; }
+  type FC<P = {}> = (props: P & { children?: ReactNode }) => ReactNode;
+  type ComponentType<P = {}> = (props: P) => ReactNode;
+  type PropsWithChildren<P = {}> = P & { children?: ReactNode };
+  type CSSProperties = { [property: string]: string | number | undefined };
+  interface SyntheticEvent<T = any> { target: any; currentTarget: T; preventDefault(): void; stopPropagation(): void; }
+  type ChangeEvent<T = any> = SyntheticEvent<T>;
+  type FormEvent<T = any> = SyntheticEvent<T>;
+  type MouseEvent<T = any> = SyntheticEvent<T> & { clientX: number; clientY: number; button: number };
+  type KeyboardEvent<T = any> = SyntheticEvent<T> & { key: string; code: string; shiftKey: boolean; ctrlKey: boolean; metaKey: boolean };
+  type FocusEvent<T = any> = SyntheticEvent<T>;
+  type DragEvent<T = any> = SyntheticEvent<T> & { dataTransfer: any };
+  type ReactElement = JSX.Element;
+  type Context<T> = { Provider: (props: { value: T; children?: ReactNode }) => ReactNode; Consumer: any };
+
+  function useState<S>(initial: S | (() => S)): [S, Dispatch<SetStateAction<S>>];
+  function useState<S = undefined>(): [S | undefined, Dispatch<SetStateAction<S | undefined>>];
+  function useEffect(effect: () => void | (() => void), deps?: DependencyList): void;
+  function useLayoutEffect(effect: () => void | (() => void), deps?: DependencyList): void;
+  function useRef<T>(initial: T): MutableRefObject<T>;
+  function useRef<T = undefined>(): MutableRefObject<T | undefined>;
+  function useMemo<T>(factory: () => T, deps: DependencyList): T;
+  function useCallback<T extends (...args: any[]) => any>(callback: T, deps: DependencyList): T;
+  function useReducer(reducer: (state: any, action: any) => any, initial: any, init?: (arg: any) => any): [any, Dispatch<any>];
+  function useContext<T>(context: Context<T>): T;
+  function createContext<T>(defaultValue: T): Context<T>;
+  function useId(): string;
+  function useTransition(): [boolean, (callback: () => void) => void];
+  function useDeferredValue<T>(value: T): T;
+  function useImperativeHandle(ref: any, init: () => any, deps?: DependencyList): void;
+  function memo<T>(component: T, compare?: (a: any, b: any) => boolean): T;
+  function forwardRef<R, P = {}>(render: (props: P, ref: any) => ReactNode): (props: P & { ref?: any }) => ReactNode;
+  function lazy<T>(load: () => Promise<{ default: T }>): T;
+  function createElement(type: any, props?: any, ...children: any[]): JSX.Element;
+  function cloneElement(element: any, props?: any, ...children: any[]): JSX.Element;
+  function isValidElement(value: any): boolean;
+  const Fragment: (props: { children?: ReactNode }) => ReactNode;
+  const StrictMode: (props: { children?: ReactNode }) => ReactNode;
+  const Suspense: (props: { children?: ReactNode; fallback?: ReactNode }) => ReactNode;
+  const Children: any;
+  class Component<P = {}, S = {}> {
+    constructor(props: P);
+    props: P & { children?: ReactNode };
+    state: S;
+    setState(state: Partial<S> | ((prev: S) => Partial<S>)): void;
+    forceUpdate(): void;
+    render(): ReactNode;
+  }
+}
+
+declare namespace JSX {
+  interface Element { type: any; props: any; key: React.Key | null; }
+  type ElementType = string | ((props: any) => React.ReactNode) | (new (props: any) => React.Component<any, any>);
+  interface ElementChildrenAttribute { children: {}; }
+  interface IntrinsicAttributes { key?: React.Key | null; }
+  interface IntrinsicElements { [tag: string]: any; }
+}
+
+declare module 'react' {
+  export = React;
+}
+
+declare module 'react/jsx-runtime' {
+  export const jsx: any;
+  export const jsxs: any;
+  export const Fragment: any;
+}
+
+declare module 'react-dom/client' {
+  export function createRoot(container: any): { render(node: any): void; unmount(): void };
+}
+
+declare module 'next/link' {
+  const Link: (props: { href: any; children?: React.ReactNode; [prop: string]: any }) => React.ReactNode;
+  export default Link;
+}
+
+declare module 'next/image' {
+  const Image: (props: { src: any; alt: string; [prop: string]: any }) => React.ReactNode;
+  export default Image;
+}
+
+declare module 'next/navigation' {
+  export function useRouter(): { push(href: string): void; replace(href: string): void; back(): void; refresh(): void };
+  export function usePathname(): string;
+  export function useSearchParams(): URLSearchParams;
+  export function useParams(): Record<string, string | string[]>;
+  export function redirect(href: string): never;
+  export function notFound(): never;
+}
+
+declare module '*.css' { const classes: Record<string, string>; export default classes; }
+declare module '*.svg' { const src: string; export default src; }
+declare module '*.png' { const src: string; export default src; }
+declare module '*.jpg' { const src: string; export default src; }
+`;
+
+/** Modules REACT_STUBS declares; other package imports get an untyped declaration */
+const STUBBED_MODULES = new Set(['react', 'react/jsx-runtime', 'react-dom/client', 'next/link', 'next/image', 'next/navigation']);
+
+// Lib files are the same for every check; parsing lib.dom.d.ts is the slow part
+const libFileCache = new Map<string, ts.SourceFile>();
+
+/**
+ * Type-check generated files together
+ *
+ * @param files - Generated files, paths relative to the project root (e.g. 'src/App.tsx')
+ * @returns One entry per file with diagnostics, in file order
+ */
+export function typeCheckFiles(files: Array<{ path: string; content: string }>): FileTypeErrors[] {
+  const sources = new Map<string, string>();
+  for (const file of files) {
+    sources.set(toVirtualPath(file.path), file.content);
+  }
+  sources.set(STUBS_FILE, REACT_STUBS + packageDeclarations(files));
+
+  const rootNames = Array.from(sources.keys()).filter(name => name === STUBS_FILE || CHECKED_EXTENSIONS.test(name));
+  const program = ts.createProgram(rootNames, COMPILER_OPTIONS, createHost(sources));
+
+  const results: FileTypeErrors[] = [];
+  for (const file of files) {
+    if (!CHECKED_EXTENSIONS.test(file.path)) continue;
+    const sourceFile = program.getSourceFile(toVirtualPath(file.path));
+    if (!sourceFile) continue;
+
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ].filter(d => !IGNORED_CODES.has(d.code))
+      // JavaScript is barely typed - only names and imports are worth reporting
+      .filter(d => !JS_EXTENSIONS.test(file.path) || UNDEFINED_CODES.has(d.code) || IMPORT_CODES.has(d.code));
+
+    if (diagnostics.length > 0) {
+      results.push({ file: file.path, errors: diagnostics.map(d => toValidationError(d, sourceFile)) });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Map a compiler diagnostic onto the validator's error shape
+ */
+function toValidationError(diagnostic: ts.Diagnostic, sourceFile: ts.SourceFile): ValidationError {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  const error: ValidationError = {
+    type: UNDEFINED_CODES.has(diagnostic.code)
+      ? 'UNDEFINED_IDENTIFIER'
+      : IMPORT_CODES.has(diagnostic.code) ? 'MISSING_IMPORT' : 'TYPE_ERROR',
+    message: `TS${diagnostic.code}: ${message}`,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+  };
+
+  if (diagnostic.start !== undefined) {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+    error.line = line + 1;
+    error.column = character + 1;
+    error.code = sourceFile.text.split('\n')[line].trim();
+  }
+
+  if (error.type === 'UNDEFINED_IDENTIFIER') {
+    error.fix = 'Declare it, import it, or fix the spelling';
+  } else if (error.type === 'MISSING_IMPORT') {
+    error.fix = 'Import only from files you generated (or installed packages) and names they export';
+  }
+
+  return error;
+}
+
+/**
+ * `declare module 'pkg';` for every package import the stubs don't cover
+ */
+function packageDeclarations(files: Array<{ path: string; content: string }>): string {
+  const packages = new Set<string>();
+  for (const file of files) {
+    if (!CHECKED_EXTENSIONS.test(file.path)) continue;
+    for (const ref of ts.preProcessFile(file.content, true, true).importedFiles) {
+      const name = ref.fileName;
+      if (!name.startsWith('.') && !name.startsWith('@/') && !STUBBED_MODULES.has(name)) {
+        packages.add(name);
+      }
+    }
+  }
+  return Array.from(packages).map(name => `declare module '${name}';\n`).join('');
+}
+
+function createHost(sources: Map<string, string>): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const libDirectory = path.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS));
+  const isVirtual = (fileName: string) => fileName.startsWith(`${ROOT}/`);
+
+  return {
+    ...host,
+    getCurrentDirectory: () => ROOT,
+    getSourceFile: (fileName, languageVersion) => {
+      if (sources.has(fileName)) {
+        return ts.createSourceFile(fileName, sources.get(fileName)!, languageVersion, true);
+      }
+      if (isVirtual(fileName) || !fileName.startsWith(libDirectory)) {
+        return undefined;
+      }
+      if (!libFileCache.has(fileName)) {
+        const text = ts.sys.readFile(fileName);
+        if (text === undefined) return undefined;
+        libFileCache.set(fileName, ts.createSourceFile(fileName, text, languageVersion));
+      }
+      return libFileCache.get(fileName);
+    },
+    fileExists: fileName => sources.has(fileName) || (!isVirtual(fileName) && fileName.startsWith(libDirectory) && ts.sys.fileExists(fileName)),
+    readFile: fileName => sources.get(fileName) ?? (isVirtual(fileName) ? undefined : ts.sys.readFile(fileName)),
+    directoryExists: directory => !isVirtual(directory + '/') || Array.from(sources.keys()).some(name => name.startsWith(directory + '/')),
+    getDirectories: () => [],
+    writeFile: () => {},
+  };
+}
+
+function toVirtualPath(filePath: string): string {
+  return `${ROOT}/${filePath.replace(/^\.?\//, '')}`;
+}
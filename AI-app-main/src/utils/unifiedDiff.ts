@@ -0,0 +1,194 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line-based unified diff (the `diff -u` / git format) used to show
+ * exactly what a dry-run of applyDiff would change.
+ *
+ * Common leading/trailing lines are trimmed before running an LCS over the
+ * remaining middle section, which keeps typical targeted edits cheap even
+ * on large files.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+export type DiffLineKind = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/** Above this many cells the middle section is shown as remove-all/add-all */
+const MAX_LCS_CELLS = 4000000;
+
+/**
+ * Line-level edit script from `before` to `after`
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map(text => ({ kind: 'context', text }));
+  result.push(...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)));
+  result.push(...a.slice(a.length - suffix).map(text => ({ kind: 'context' as const, text })));
+
+  return result;
+}
+
+/**
+ * Group an edit script into hunks with `context` unchanged lines around each change
+ */
+export function computeHunks(before: string, after: string, context: number = 3): DiffHunk[] {
+  const lines = diffLines(before, after);
+  const hunks: DiffHunk[] = [];
+
+  // Line numbers (1-based) of each entry in the old and new file
+  let oldLine = 1;
+  let newLine = 1;
+  const positions = lines.map(line => {
+    const pos = { oldLine, newLine };
+    if (line.kind !== 'add') oldLine++;
+    if (line.kind !== 'remove') newLine++;
+    return pos;
+  });
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].kind === 'context') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is within 2 * context lines
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end].kind !== 'context') lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunkLines = lines.slice(start, end);
+    hunks.push({
+      oldStart: positions[start].oldLine,
+      oldLines: hunkLines.filter(l => l.kind !== 'add').length,
+      newStart: positions[start].newLine,
+      newLines: hunkLines.filter(l => l.kind !== 'remove').length,
+      lines: hunkLines,
+    });
+
+    i = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Render a unified diff for one file. Returns '' when nothing changed.
+ * Pass `before: null` for created files and `after: null` for deleted ones.
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  context: number = 3
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const hunks = computeHunks(before ?? '', after ?? '', context);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const out = [
+    `--- ${before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${path}`}`,
+  ];
+
+  for (const hunk of hunks) {
+    // Empty ranges start at the line before, as in GNU diff
+    const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+    out.push(`@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`);
+    for (const line of hunk.lines) {
+      const marker = line.kind === 'add' ? '+' : line.kind === 'remove' ? '-' : ' ';
+      out.push(marker + line.text);
+    }
+  }
+
+  return out.join('\n') + '\n';
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline terminates the last line rather than starting a new one
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removeAll = a.map(text => ({ kind: 'remove' as const, text }));
+  const addAll = b.map(text => ({ kind: 'add' as const, text }));
+
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removeAll, ...addAll];
+  }
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= a.length; i++) {
+    lcs.push(new Uint32Array(b.length + 1));
+  }
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ kind: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: 'remove', text: a[i++] });
+    } else {
+      result.push({ kind: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ kind: 'remove', text: a[i++] });
+  while (j < b.length) result.push({ kind: 'add', text: b[j++] });
+
+  return result;
+}
@@ -0,0 +1,138 @@
+/**
+ * Version Compare
+ *
+ * Per-file comparison of two project file sets (two stored versions):
+ * added / removed / modified status, a unified diff per file and the
+ * side-by-side rows the compare modal renders.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import { createUnifiedDiff, diffLines, type DiffLineKind } from './unifiedDiff';
+
+export type FileCompareStatus = 'added' | 'removed' | 'modified';
+
+export interface FileComparison {
+  path: string;
+  status: FileCompareStatus;
+  /** null when the file is not in the `from` version */
+  before: string | null;
+  /** null when the file is not in the `to` version */
+  after: string | null;
+  unifiedDiff: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface FileSetComparison {
+  /** Changed files, sorted by path */
+  files: FileComparison[];
+  unchangedFiles: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface SideBySideCell {
+  /** 1-based line number in its file */
+  line: number;
+  text: string;
+  kind: DiffLineKind;
+}
+
+/** One row of a side-by-side view; a side is null where it has no line */
+export interface SideBySideRow {
+  left: SideBySideCell | null;
+  right: SideBySideCell | null;
+}
+
+/**
+ * Text of a stored file. Files are normally stored as their content; other
+ * shapes ({ content } objects, JSON values) are handled for older rows.
+ */
+export function fileText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as { content?: unknown }).content === 'string') {
+    return (value as { content: string }).content;
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Compare two file sets (path -> stored file)
+ */
+export function compareFileSets(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  context: number = 3
+): FileSetComparison {
+  const paths = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+  const files: FileComparison[] = [];
+  let unchangedFiles = 0;
+
+  for (const path of paths) {
+    const before = path in from ? fileText(from[path]) : null;
+    const after = path in to ? fileText(to[path]) : null;
+
+    if (before === after) {
+      unchangedFiles++;
+      continue;
+    }
+
+    const lines = diffLines(before ?? '', after ?? '');
+    files.push({
+      path,
+      status: before === null ? 'added' : after === null ? 'removed' : 'modified',
+      before,
+      after,
+      unifiedDiff: createUnifiedDiff(path, before, after, context),
+      additions: lines.filter(l => l.kind === 'add').length,
+      deletions: lines.filter(l => l.kind === 'remove').length,
+    });
+  }
+
+  return {
+    files,
+    unchangedFiles,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+  };
+}
+
+/**
+ * Align two versions of a file into rows. Removed lines followed by added
+ * lines are shown next to each other as modifications.
+ */
+export function sideBySide(before: string | null, after: string | null): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let removed: SideBySideCell[] = [];
+  let added: SideBySideCell[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of diffLines(before ?? '', after ?? '')) {
+    if (line.kind === 'remove') {
+      // A removal after additions starts a new block
+      if (added.length > 0) flush();
+      removed.push({ line: oldLine++, text: line.text, kind: 'remove' });
+    } else if (line.kind === 'add') {
+      added.push({ line: newLine++, text: line.text, kind: 'add' });
+    } else {
+      flush();
+      rows.push({
+        left: { line: oldLine++, text: line.text, kind: 'context' },
+        right: { line: newLine++, text: line.text, kind: 'context' },
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,239 @@
+/**
+ * Version Merge
+ *
+ * Three-way merge of project file sets for branching history, plus the
+ * version-graph helpers it needs (branch heads, merge base).
+ *
+ * A file changed only on one side is taken from that side. A file changed
+ * on both sides is merged by turning the other branch's changes since the
+ * merge base into REPLACE changes (each hunk with a little context) and
+ * running them through applyDiff against our copy: a change whose anchor is
+ * not found exactly once, character for character, means both sides edited
+ * the same lines (a whitespace-only edit included), and the file is reported
+ * as a conflict instead of being guessed at.
+ * applyDiff's re-parse also turns a merge that breaks the syntax into a
+ * conflict.
+ */
+
+import { applyDiff } from './applyDiff';
+import { computeHunks } from './unifiedDiff';
+import { fileText } from './versionCompare';
+import type { DiffChange, FileDiff } from './diffSchema';
+
+/** Unchanged lines around each hunk, used to anchor it in our copy */
+const MERGE_CONTEXT = 2;
+
+export type MergeConflictReason = 'both_added' | 'modify_delete' | 'overlapping_changes';
+
+export interface MergeConflict {
+  path: string;
+  reason: MergeConflictReason;
+  message: string;
+  /** Texts of the file at the merge base and on each side; null where absent */
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+}
+
+export interface FileSetMergeResult {
+  /** Our files with the other branch's changes merged in (conflicting files keep ours) */
+  files: Record<string, unknown>;
+  /** Files that took changes from the other branch */
+  mergedPaths: string[];
+  conflicts: MergeConflict[];
+}
+
+/** The parts of a version the graph helpers look at */
+export interface VersionNode {
+  id: string;
+  version_number: number;
+  branch: string;
+  parent_id: string | null;
+  merge_parent_id: string | null;
+}
+
+// ============================================================================
+// VERSION GRAPH
+// ============================================================================
+
+/**
+ * Latest version on a branch, or the version it was forked from while it
+ * has none of its own
+ */
+export function branchHead(
+  versions: VersionNode[],
+  branch: string,
+  baseVersionId: string | null = null
+): string | null {
+  let head: VersionNode | null = null;
+  for (const version of versions) {
+    if (version.branch === branch && (!head || version.version_number > head.version_number)) {
+      head = version;
+    }
+  }
+  return head?.id ?? baseVersionId;
+}
+
+/**
+ * Nearest common ancestor of two versions, following parent and merge
+ * parent links. Returns null when the histories never meet.
+ */
+export function findMergeBase(versions: VersionNode[], a: string, b: string): string | null {
+  const byId = new Map(versions.map(v => [v.id, v]));
+
+  const ancestors = (start: string): Set<string> => {
+    const seen = new Set<string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const version = byId.get(id);
+      if (version?.parent_id) queue.push(version.parent_id);
+      if (version?.merge_parent_id) queue.push(version.merge_parent_id);
+    }
+    return seen;
+  };
+
+  const ofA = ancestors(a);
+  let base: VersionNode | null = null;
+  for (const id of ancestors(b)) {
+    const version = byId.get(id);
+    if (version && ofA.has(id) && (!base || version.version_number > base.version_number)) {
+      base = version;
+    }
+  }
+
+  return base?.id ?? null;
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+function textAt(files: Record<string, unknown>, path: string): string | null {
+  return path in files ? fileText(files[path]) : null;
+}
+
+/**
+ * Merge `theirs` into `ours`, given the files at their merge base
+ */
+export async function mergeFileSets(
+  base: Record<string, unknown>,
+  ours: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): Promise<FileSetMergeResult> {
+  const files: Record<string, unknown> = { ...ours };
+  const mergedPaths: string[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  const paths = Array.from(new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)])).sort();
+
+  for (const path of paths) {
+    const b = textAt(base, path);
+    const o = textAt(ours, path);
+    const t = textAt(theirs, path);
+
+    // Nothing new from their side
+    if (t === b || t === o) continue;
+
+    // Only their side changed: take their file as is
+    if (o === b) {
+      if (t === null) {
+        delete files[path];
+      } else {
+        files[path] = theirs[path];
+      }
+      mergedPaths.push(path);
+      continue;
+    }
+
+    const conflict = (reason: MergeConflictReason, message: string): MergeConflict => ({
+      path, reason, message, base: b, ours: o, theirs: t,
+    });
+
+    if (b === null) {
+      conflicts.push(conflict('both_added', 'Added on both branches with different content'));
+    } else if (o === null || t === null) {
+      conflicts.push(conflict('modify_delete', o === null
+        ? 'Deleted on this branch but changed on the other'
+        : 'Changed on this branch but deleted on the other'));
+    } else {
+      const merged = await mergeText(path, b, o, t);
+      if (merged.content !== undefined) {
+        files[path] = merged.content;
+        mergedPaths.push(path);
+      } else {
+        conflicts.push(conflict('overlapping_changes', merged.error!));
+      }
+    }
+  }
+
+  return { files, mergedPaths, conflicts };
+}
+
+/**
+ * applyDiff turns the two characters "\n" in change text into a newline,
+ * which would corrupt code such as `join('\n')`. Merged text is passed
+ * through with that sequence swapped for a private-use placeholder.
+ */
+const ESCAPED_NEWLINE = '\\n';
+const PLACEHOLDER = '\uE000n';
+
+const encode = (text: string) => text.split(ESCAPED_NEWLINE).join(PLACEHOLDER);
+const decode = (text: string) => text.split(PLACEHOLDER).join(ESCAPED_NEWLINE);
+
+/**
+ * Apply their changes since `base` to our copy of a file
+ */
+async function mergeText(
+  path: string,
+  base: string,
+  ours: string,
+  theirs: string
+): Promise<{ content?: string; error?: string }> {
+  if ([base, ours, theirs].some(text => text.includes(PLACEHOLDER))) {
+    return { error: 'File contains characters the merge cannot handle' };
+  }
+
+  const changes: DiffChange[] = computeHunks(base, theirs, MERGE_CONTEXT).map(hunk => ({
+    type: 'REPLACE',
+    searchFor: encode(hunk.lines.filter(l => l.kind !== 'add').map(l => l.text).join('\n')),
+    replaceWith: encode(hunk.lines.filter(l => l.kind !== 'remove').map(l => l.text).join('\n')),
+  }));
+
+  if (changes.some(change => !change.searchFor?.trim())) {
+    return { error: 'Both branches rewrote a file that was empty' };
+  }
+
+  const current = [{ path, content: encode(ours) }];
+  const fileDiff: FileDiff = { path, action: 'MODIFY', changes };
+
+  const dryRun = await applyDiff(current, [fileDiff], true);
+  const preview = dryRun.preview?.[0];
+  if (preview?.error) {
+    return { error: preview.error };
+  }
+  // Any approximate match means our side changed the anchor lines too
+  const overlap = preview?.changes.find(c =>
+    c.status !== 'matched' || c.match?.strategy !== 'exact' || c.occurrences !== 1
+  );
+  if (overlap || !dryRun.success) {
+    return {
+      error: overlap
+        ? `Both branches changed the lines around "${firstLine(decode(changes[overlap.index].searchFor || ''))}"`
+        : dryRun.errors[0],
+    };
+  }
+
+  const applied = await applyDiff(current, [fileDiff]);
+  if (!applied.success) {
+    return { error: applied.errors[0] };
+  }
+  return { content: decode(applied.modifiedFiles.find(f => f.path === path)!.content) };
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n').find(l => l.trim()) || '';
+  return line.trim().substring(0, 60);
+}
@@ -0,0 +1,75 @@
+-- Generation jobs: checkpoints for resumable streaming generation
+-- (see src/utils/generationJobs.ts)
+CREATE TABLE IF NOT EXISTS public.generation_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  prompt TEXT NOT NULL,
+  conversation_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  llm JSONB,
+  architecture JSONB,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'complete', 'error')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- One row per completed file
+CREATE TABLE IF NOT EXISTS public.generation_job_files (
+  job_id UUID REFERENCES public.generation_jobs(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL,
+  content TEXT NOT NULL,
+  purpose TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (job_id, path)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.generation_job_files ENABLE ROW LEVEL SECURITY;
+
+-- Generation jobs policies
+CREATE POLICY "Users can view their own generation jobs"
+  ON public.generation_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own generation jobs"
+  ON public.generation_jobs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own generation jobs"
+  ON public.generation_jobs FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Generation job files policies (through job ownership)
+CREATE POLICY "Users can view files of their generation jobs"
+  ON public.generation_job_files FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generation_jobs
+      WHERE generation_jobs.id = generation_job_files.job_id
+      AND generation_jobs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert files to their generation jobs"
+  ON public.generation_job_files FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.generation_jobs
+      WHERE generation_jobs.id = generation_job_files.job_id
+      AND generation_jobs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update files of their generation jobs"
+  ON public.generation_job_files FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generation_jobs
+      WHERE generation_jobs.id = generation_job_files.job_id
+      AND generation_jobs.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id ON public.generation_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_generation_job_files_job_id ON public.generation_job_files(job_id, created_at);
@@ -0,0 +1,9 @@
+-- Cost ledger: model calls are analytics events of type 'llm_cost'
+-- (see src/utils/costLedger.ts). Budgets read month-to-date spend per user
+-- and per project, so index both lookups.
+CREATE INDEX IF NOT EXISTS idx_analytics_user_event_created
+  ON public.analytics(user_id, event_type, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_cost_project
+  ON public.analytics((event_data->>'projectId'), created_at DESC)
+  WHERE event_type = 'llm_cost';
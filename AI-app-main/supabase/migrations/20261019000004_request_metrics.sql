@@ -0,0 +1,79 @@
+-- Request metrics: AnalyticsLogger writes each finished AI request to the
+-- analytics table as a 'request_metrics' event (see src/utils/analytics.ts).
+-- These rows describe the server, not a user, so user_id becomes optional;
+-- rows without a user are invisible to the user-facing RLS policies and are
+-- written and read with the service role.
+ALTER TABLE public.analytics ALTER COLUMN user_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_analytics_request_metrics
+  ON public.analytics(created_at DESC)
+  WHERE event_type = 'request_metrics';
+
+-- Time-bucketed request aggregates for /api/analytics?action=timeseries:
+-- p50/p95 latency, errors by ErrorCategory and tokens per route
+CREATE OR REPLACE FUNCTION public.analytics_request_buckets(
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'hour',
+  p_route TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMP WITH TIME ZONE,
+  route_type TEXT,
+  requests BIGINT,
+  errors BIGINT,
+  errors_by_category JSONB,
+  p50_response_time DOUBLE PRECISION,
+  p95_response_time DOUBLE PRECISION,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cached_tokens BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH metrics AS (
+    SELECT
+      date_trunc(CASE WHEN p_bucket = 'day' THEN 'day' ELSE 'hour' END, created_at AT TIME ZONE 'utc') AT TIME ZONE 'utc' AS bucket_start,
+      event_data->>'routeType' AS route_type,
+      COALESCE((event_data->>'success')::BOOLEAN, FALSE) AS success,
+      event_data->>'errorCategory' AS error_category,
+      (event_data->>'responseTime')::DOUBLE PRECISION AS response_time,
+      COALESCE((event_data#>>'{tokenUsage,input}')::BIGINT, 0) AS input_tokens,
+      COALESCE((event_data#>>'{tokenUsage,output}')::BIGINT, 0) AS output_tokens,
+      COALESCE((event_data#>>'{tokenUsage,cached}')::BIGINT, 0) AS cached_tokens
+    FROM public.analytics
+    WHERE event_type = 'request_metrics'
+      AND created_at >= p_since
+      AND (p_route IS NULL OR event_data->>'routeType' = p_route)
+  ),
+  categories AS (
+    SELECT bucket_start, route_type, jsonb_object_agg(error_category, category_errors) AS errors_by_category
+    FROM (
+      SELECT bucket_start, route_type, error_category, COUNT(*) AS category_errors
+      FROM metrics
+      WHERE NOT success AND error_category IS NOT NULL
+      GROUP BY bucket_start, route_type, error_category
+    ) per_category
+    GROUP BY bucket_start, route_type
+  )
+  SELECT
+    m.bucket_start,
+    m.route_type,
+    COUNT(*) AS requests,
+    COUNT(*) FILTER (WHERE NOT m.success) AS errors,
+    COALESCE(c.errors_by_category, '{}'::JSONB) AS errors_by_category,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY m.response_time) AS p50_response_time,
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY m.response_time) AS p95_response_time,
+    SUM(m.input_tokens)::BIGINT AS input_tokens,
+    SUM(m.output_tokens)::BIGINT AS output_tokens,
+    SUM(m.cached_tokens)::BIGINT AS cached_tokens
+  FROM metrics m
+  LEFT JOIN categories c
+    ON c.bucket_start = m.bucket_start AND c.route_type = m.route_type
+  GROUP BY m.bucket_start, m.route_type, c.errors_by_category
+  ORDER BY m.bucket_start, m.route_type;
+$$;
+
+-- Server-wide metrics: only the service role may aggregate them
+REVOKE EXECUTE ON FUNCTION public.analytics_request_buckets(TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_request_buckets(TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
@@ -0,0 +1,141 @@
+-- Version snapshots: the database numbers versions and saves a project's
+-- files before they are replaced, so every change can be undone from any
+-- device (see src/utils/db/versions.ts).
+--
+-- source records why a version exists: 'manual' for versions saved by the
+-- user, otherwise the kind of change ('update', 'restore', 'ai_modification')
+-- these files were replaced by. prompt and diff_summary describe that change.
+ALTER TABLE public.versions
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'update', 'restore', 'ai_modification')),
+  ADD COLUMN IF NOT EXISTS prompt TEXT,
+  ADD COLUMN IF NOT EXISTS diff_summary JSONB;
+
+-- Numbers used to be assigned by the client and could collide; renumber
+-- existing versions in order before making them unique
+WITH numbered AS (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY version_number, created_at) AS version_number
+  FROM public.versions
+)
+UPDATE public.versions
+SET version_number = numbered.version_number
+FROM numbered
+WHERE versions.id = numbered.id
+  AND versions.version_number <> numbered.version_number;
+
+ALTER TABLE public.versions
+  ADD CONSTRAINT versions_project_version_number_key UNIQUE (project_id, version_number);
+
+-- Assign the next version number; concurrent inserts for the same project
+-- wait on a transaction-scoped advisory lock
+CREATE OR REPLACE FUNCTION public.assign_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('versions:' || NEW.project_id::text));
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO NEW.version_number
+  FROM public.versions
+  WHERE project_id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_version_number
+  BEFORE INSERT ON public.versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_version_number();
+
+-- Snapshot the files a project had before every change to them. The kind
+-- of change, prompt and diff summary come from transaction-local settings
+-- set by update_project_files(); a plain UPDATE is recorded as 'update'.
+CREATE OR REPLACE FUNCTION public.snapshot_project_files()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.versions (project_id, files, description, source, prompt, diff_summary)
+  VALUES (
+    OLD.id,
+    OLD.files,
+    NULLIF(current_setting('app.version_description', TRUE), ''),
+    COALESCE(NULLIF(current_setting('app.version_source', TRUE), ''), 'update'),
+    NULLIF(current_setting('app.version_prompt', TRUE), ''),
+    NULLIF(current_setting('app.version_diff_summary', TRUE), '')::JSONB
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER snapshot_files_on_update
+  AFTER UPDATE OF files ON public.projects
+  FOR EACH ROW
+  WHEN (OLD.files IS DISTINCT FROM NEW.files)
+  EXECUTE FUNCTION public.snapshot_project_files();
+
+-- Replace a project's files, snapshotting the current ones with the change
+-- that replaced them. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.update_project_files(
+  p_project_id UUID,
+  p_files JSONB,
+  p_source TEXT DEFAULT 'update',
+  p_prompt TEXT DEFAULT NULL,
+  p_diff_summary JSONB DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_project public.projects;
+BEGIN
+  PERFORM set_config('app.version_source', COALESCE(p_source, ''), TRUE);
+  PERFORM set_config('app.version_prompt', COALESCE(p_prompt, ''), TRUE);
+  PERFORM set_config('app.version_diff_summary', COALESCE(p_diff_summary::TEXT, ''), TRUE);
+  PERFORM set_config('app.version_description', COALESCE(p_description, ''), TRUE);
+
+  UPDATE public.projects
+  SET files = p_files
+  WHERE id = p_project_id
+    AND is_deleted = FALSE
+  RETURNING * INTO v_project;
+
+  -- Later updates in the same transaction are plain updates again
+  PERFORM set_config('app.version_source', '', TRUE);
+  PERFORM set_config('app.version_prompt', '', TRUE);
+  PERFORM set_config('app.version_diff_summary', '', TRUE);
+  PERFORM set_config('app.version_description', '', TRUE);
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_project;
+END;
+$$;
+
+-- Restore a version: the current files are snapshotted first, in the same
+-- transaction, so the restore itself can be undone
+CREATE OR REPLACE FUNCTION public.restore_project_version(p_version_id UUID)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version public.versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.versions
+  WHERE id = p_version_id;
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN public.update_project_files(
+    v_version.project_id,
+    v_version.files,
+    'restore',
+    NULL,
+    NULL,
+    format('Before restoring version %s', v_version.version_number)
+  );
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Content-addressed version storage: a version keeps a manifest of
+-- path -> SHA-256 of each file, and file bodies are stored once in
+-- file_blobs however many versions share them (see src/utils/db/versions.ts).
+CREATE TABLE IF NOT EXISTS public.file_blobs (
+  hash TEXT PRIMARY KEY,
+  content JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Blobs are shared between users; there are no policies, so they are only
+-- reachable through the functions below, which check version ownership
+ALTER TABLE public.file_blobs ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.versions
+  ADD COLUMN IF NOT EXISTS manifest JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.versions ALTER COLUMN files DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_versions_manifest ON public.versions USING GIN (manifest);
+
+-- Hash of a file body as stored in JSONB (jsonb::text is canonical)
+CREATE OR REPLACE FUNCTION public.file_blob_hash(p_content JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(p_content::text, 'UTF8')), 'hex');
+$$;
+
+-- Move the files of an inserted version into file_blobs and keep only the
+-- manifest, so writers can keep inserting full file sets
+CREATE OR REPLACE FUNCTION public.store_version_files()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.files IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.file_blobs (hash, content)
+  SELECT public.file_blob_hash(f.value), f.value
+  FROM jsonb_each(NEW.files) f
+  ON CONFLICT (hash) DO NOTHING;
+
+  SELECT COALESCE(jsonb_object_agg(f.key, public.file_blob_hash(f.value)), '{}'::jsonb)
+  INTO NEW.manifest
+  FROM jsonb_each(NEW.files) f;
+
+  NEW.files := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER store_files_as_blobs
+  BEFORE INSERT ON public.versions
+  FOR EACH ROW EXECUTE FUNCTION public.store_version_files();
+
+-- Move existing versions over
+INSERT INTO public.file_blobs (hash, content)
+SELECT public.file_blob_hash(f.value), f.value
+FROM public.versions v, jsonb_each(v.files) f
+WHERE v.files IS NOT NULL
+ON CONFLICT (hash) DO NOTHING;
+
+UPDATE public.versions v
+SET manifest = (
+      SELECT COALESCE(jsonb_object_agg(f.key, public.file_blob_hash(f.value)), '{}'::jsonb)
+      FROM jsonb_each(v.files) f
+    ),
+    files = NULL
+WHERE v.files IS NOT NULL;
+
+-- Rebuild the full file set of a version the caller can see
+CREATE OR REPLACE FUNCTION public.version_files(p_version_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(m.key, b.content), '{}'::jsonb)
+  FROM public.versions v
+  CROSS JOIN jsonb_each_text(v.manifest) m
+  JOIN public.file_blobs b ON b.hash = m.value
+  WHERE v.id = p_version_id
+    AND (
+      auth.role() = 'service_role'
+      OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = v.project_id
+        AND projects.user_id = auth.uid()
+      )
+    );
+$$;
+
+-- Restores read the files back from their blobs
+CREATE OR REPLACE FUNCTION public.restore_project_version(p_version_id UUID)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version public.versions;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.versions
+  WHERE id = p_version_id;
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN public.update_project_files(
+    v_version.project_id,
+    public.version_files(v_version.id),
+    'restore',
+    NULL,
+    NULL,
+    format('Before restoring version %s', v_version.version_number)
+  );
+END;
+$$;
+
+-- Delete blobs no version refers to any more (run periodically with the
+-- service role; versions are deleted with their project)
+CREATE OR REPLACE FUNCTION public.prune_file_blobs()
+RETURNS BIGINT
+LANGUAGE sql
+AS $$
+  WITH pruned AS (
+    DELETE FROM public.file_blobs b
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.versions v, jsonb_each_text(v.manifest) m
+      WHERE m.value = b.hash
+    )
+    RETURNING 1
+  )
+  SELECT COUNT(*) FROM pruned;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_file_blobs() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.prune_file_blobs() TO service_role;
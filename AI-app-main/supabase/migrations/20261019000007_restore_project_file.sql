@@ -0,0 +1,45 @@
+-- Restore a single file from a version, leaving the rest of the project as
+-- it is; a file the version does not have is removed. The current files are
+-- snapshotted first, like a full restore (see restore_project_version).
+CREATE OR REPLACE FUNCTION public.restore_project_file(p_version_id UUID, p_path TEXT)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version public.versions;
+  v_files JSONB;
+  v_content JSONB;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.versions
+  WHERE id = p_version_id;
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(files, '{}'::jsonb) INTO v_files
+  FROM public.projects
+  WHERE id = v_version.project_id
+    AND is_deleted = FALSE
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_content := public.version_files(v_version.id) -> p_path;
+
+  RETURN public.update_project_files(
+    v_version.project_id,
+    CASE
+      WHEN v_content IS NULL THEN v_files - p_path
+      ELSE v_files || jsonb_build_object(p_path, v_content)
+    END,
+    'restore',
+    NULL,
+    NULL,
+    format('Before restoring %s from version %s', p_path, v_version.version_number)
+  );
+END;
+$$;
@@ -0,0 +1,316 @@
+-- Branching history: every version records its parent (the version before
+-- it on its branch, or the version its branch was forked from) and the
+-- branch it belongs to. A project works on one branch at a time; its files
+-- are that branch's working copy, and each other branch continues from its
+-- latest version (see src/utils/db/branches.ts).
+ALTER TABLE public.versions
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS merge_parent_id UUID REFERENCES public.versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS branch TEXT NOT NULL DEFAULT 'main';
+
+-- New versions go to the project's current branch (set_version_parent)
+ALTER TABLE public.versions ALTER COLUMN branch DROP DEFAULT;
+
+-- 'branch': saved when switching away from or forking a branch
+-- 'merge': saved before a merge, and the merge result (with merge_parent_id)
+ALTER TABLE public.versions DROP CONSTRAINT IF EXISTS versions_source_check;
+ALTER TABLE public.versions ADD CONSTRAINT versions_source_check
+  CHECK (source IN ('manual', 'update', 'restore', 'ai_modification', 'branch', 'merge'));
+
+-- Existing history is one line
+UPDATE public.versions v
+SET parent_id = (
+  SELECT p.id
+  FROM public.versions p
+  WHERE p.project_id = v.project_id
+    AND p.version_number < v.version_number
+  ORDER BY p.version_number DESC
+  LIMIT 1
+)
+WHERE v.parent_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_versions_branch ON public.versions(project_id, branch, version_number DESC);
+
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS current_branch TEXT NOT NULL DEFAULT 'main';
+
+-- Create project_branches table
+CREATE TABLE IF NOT EXISTS public.project_branches (
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (name ~ '^[A-Za-z0-9._/-]{1,64}$'),
+  -- Version the branch was forked from; null for a project's first branch
+  base_version_id UUID REFERENCES public.versions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (project_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.project_branches ENABLE ROW LEVEL SECURITY;
+
+-- Branch policies (through project ownership)
+CREATE POLICY "Users can view branches of their projects"
+  ON public.project_branches FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_branches.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert branches to their projects"
+  ON public.project_branches FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = project_branches.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+INSERT INTO public.project_branches (project_id, name)
+SELECT id, 'main' FROM public.projects
+ON CONFLICT DO NOTHING;
+
+-- Every project starts on 'main'
+CREATE OR REPLACE FUNCTION public.create_main_branch()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.project_branches (project_id, name)
+  VALUES (NEW.id, NEW.current_branch)
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER create_main_branch
+  AFTER INSERT ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.create_main_branch();
+
+-- Latest version on a branch, or the version it was forked from
+CREATE OR REPLACE FUNCTION public.branch_head(p_project_id UUID, p_branch TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT id FROM public.versions
+      WHERE project_id = p_project_id AND branch = p_branch
+      ORDER BY version_number DESC
+      LIMIT 1
+    ),
+    (
+      SELECT base_version_id FROM public.project_branches
+      WHERE project_id = p_project_id AND name = p_branch
+    )
+  );
+$$;
+
+-- Put new versions on the project's current branch, after its head.
+-- Runs after set_version_number, so inserts are already serialised.
+CREATE OR REPLACE FUNCTION public.assign_version_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.branch IS NULL THEN
+    SELECT current_branch INTO NEW.branch
+    FROM public.projects
+    WHERE id = NEW.project_id;
+  END IF;
+
+  IF NEW.parent_id IS NULL THEN
+    NEW.parent_id := public.branch_head(NEW.project_id, NEW.branch);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_version_parent
+  BEFORE INSERT ON public.versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_version_parent();
+
+-- Snapshots belong to the branch whose files are replaced. Functions that
+-- save their own snapshot set app.version_skip_snapshot around the update.
+CREATE OR REPLACE FUNCTION public.snapshot_project_files()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.version_skip_snapshot', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.versions (project_id, branch, files, description, source, prompt, diff_summary)
+  VALUES (
+    OLD.id,
+    OLD.current_branch,
+    OLD.files,
+    NULLIF(current_setting('app.version_description', TRUE), ''),
+    COALESCE(NULLIF(current_setting('app.version_source', TRUE), ''), 'update'),
+    NULLIF(current_setting('app.version_prompt', TRUE), ''),
+    NULLIF(current_setting('app.version_diff_summary', TRUE), '')::JSONB
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Save the working copy to its branch unless the branch head already has it
+CREATE OR REPLACE FUNCTION public.snapshot_working_copy(p_project_id UUID, p_source TEXT, p_description TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_project public.projects;
+  v_head UUID;
+BEGIN
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE id = p_project_id;
+
+  v_head := public.branch_head(p_project_id, v_project.current_branch);
+
+  IF v_head IS NULL OR public.version_files(v_head) IS DISTINCT FROM v_project.files THEN
+    INSERT INTO public.versions (project_id, branch, files, source, description)
+    VALUES (p_project_id, v_project.current_branch, v_project.files, p_source, p_description);
+  END IF;
+END;
+$$;
+
+-- Switch a project to another branch: the working copy is saved to the
+-- current branch and replaced by the other branch's latest files
+CREATE OR REPLACE FUNCTION public.switch_project_branch(p_project_id UUID, p_branch TEXT)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_project public.projects;
+  v_head UUID;
+BEGIN
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE id = p_project_id
+    AND is_deleted = FALSE
+  FOR UPDATE;
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_branches
+    WHERE project_id = p_project_id AND name = p_branch
+  ) THEN
+    RAISE EXCEPTION 'Branch not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_project.current_branch = p_branch THEN
+    RETURN v_project;
+  END IF;
+
+  PERFORM public.snapshot_working_copy(p_project_id, 'branch', format('Before switching to %s', p_branch));
+  v_head := public.branch_head(p_project_id, p_branch);
+
+  PERFORM set_config('app.version_skip_snapshot', 'on', TRUE);
+  UPDATE public.projects
+  SET current_branch = p_branch,
+      files = CASE WHEN v_head IS NULL THEN files ELSE public.version_files(v_head) END
+  WHERE id = p_project_id
+  RETURNING * INTO v_project;
+  PERFORM set_config('app.version_skip_snapshot', '', TRUE);
+
+  RETURN v_project;
+END;
+$$;
+
+-- Fork a branch at a version (default: the current working copy) and
+-- switch to it
+CREATE OR REPLACE FUNCTION public.create_project_branch(
+  p_project_id UUID,
+  p_name TEXT,
+  p_from_version_id UUID DEFAULT NULL
+)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_project public.projects;
+  v_base UUID := p_from_version_id;
+BEGIN
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE id = p_project_id
+    AND is_deleted = FALSE
+  FOR UPDATE;
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_base IS NULL THEN
+    PERFORM public.snapshot_working_copy(p_project_id, 'branch', format('Before creating branch %s', p_name));
+    v_base := public.branch_head(p_project_id, v_project.current_branch);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.versions
+    WHERE id = v_base AND project_id = p_project_id
+  ) THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.project_branches (project_id, name, base_version_id)
+  VALUES (p_project_id, p_name, v_base);
+
+  RETURN public.switch_project_branch(p_project_id, p_name);
+END;
+$$;
+
+-- Record a merge computed by the app (src/utils/versionMerge.ts): save the
+-- working copy, replace it with the merged files and add the merge result
+-- as a version whose merge parent is the merged branch's head.
+-- p_expected_updated_at guards against changes made while merging.
+CREATE OR REPLACE FUNCTION public.record_project_merge(
+  p_project_id UUID,
+  p_files JSONB,
+  p_source_branch TEXT,
+  p_merge_parent_id UUID,
+  p_expected_updated_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_project public.projects;
+BEGIN
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE id = p_project_id
+    AND is_deleted = FALSE
+  FOR UPDATE;
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_project.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Project changed while merging; merge again' USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM public.snapshot_working_copy(p_project_id, 'merge', format('Before merging %s', p_source_branch));
+
+  PERFORM set_config('app.version_skip_snapshot', 'on', TRUE);
+  UPDATE public.projects
+  SET files = p_files
+  WHERE id = p_project_id
+  RETURNING * INTO v_project;
+  PERFORM set_config('app.version_skip_snapshot', '', TRUE);
+
+  INSERT INTO public.versions (project_id, branch, files, source, description, merge_parent_id)
+  VALUES (
+    p_project_id,
+    v_project.current_branch,
+    p_files,
+    'merge',
+    format('Merged %s into %s', p_source_branch, v_project.current_branch),
+    p_merge_parent_id
+  );
+
+  RETURN v_project;
+END;
+$$;
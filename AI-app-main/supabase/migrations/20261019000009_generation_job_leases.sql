@@ -0,0 +1,6 @@
+-- One runner per generation job: the request generating a job's files holds
+-- a lease and renews it while it works; a resume is refused until the lease
+-- is released or expires (see src/utils/generationJobs.ts)
+ALTER TABLE public.generation_jobs
+  ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE;
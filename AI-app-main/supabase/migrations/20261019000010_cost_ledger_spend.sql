@@ -0,0 +1,19 @@
+-- Month-to-date spend for the budget checks, summed in the database instead
+-- of paging every ledger row to the server (see src/utils/db/costLedger.ts).
+-- Runs with the caller's rights, so RLS limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.cost_ledger_spend(
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_user_id UUID DEFAULT NULL,
+  p_project_id TEXT DEFAULT NULL
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM((event_data->>'costUsd')::DOUBLE PRECISION), 0)
+  FROM public.analytics
+  WHERE event_type = 'llm_cost'
+    AND created_at >= p_since
+    AND (p_user_id IS NULL OR user_id = p_user_id)
+    AND (p_project_id IS NULL OR event_data->>'projectId' = p_project_id);
+$$;
@@ -0,0 +1,54 @@
+-- Make update_project_files() conditional on the project's updated_at, like
+-- plain updates from the sync (see src/app/api/projects/[id]/route.ts):
+-- with p_expected_updated_at, files are only replaced while the project
+-- still has that updated_at. A project changed since raises 40001.
+--
+-- Adding a parameter changes the signature; drop the old function so calls
+-- with the existing six arguments are not ambiguous.
+DROP FUNCTION IF EXISTS public.update_project_files(UUID, JSONB, TEXT, TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.update_project_files(
+  p_project_id UUID,
+  p_files JSONB,
+  p_source TEXT DEFAULT 'update',
+  p_prompt TEXT DEFAULT NULL,
+  p_diff_summary JSONB DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.projects
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_project public.projects;
+BEGIN
+  PERFORM set_config('app.version_source', COALESCE(p_source, ''), TRUE);
+  PERFORM set_config('app.version_prompt', COALESCE(p_prompt, ''), TRUE);
+  PERFORM set_config('app.version_diff_summary', COALESCE(p_diff_summary::TEXT, ''), TRUE);
+  PERFORM set_config('app.version_description', COALESCE(p_description, ''), TRUE);
+
+  UPDATE public.projects
+  SET files = p_files
+  WHERE id = p_project_id
+    AND is_deleted = FALSE
+    AND (p_expected_updated_at IS NULL OR updated_at = p_expected_updated_at)
+  RETURNING * INTO v_project;
+
+  -- Later updates in the same transaction are plain updates again
+  PERFORM set_config('app.version_source', '', TRUE);
+  PERFORM set_config('app.version_prompt', '', TRUE);
+  PERFORM set_config('app.version_diff_summary', '', TRUE);
+  PERFORM set_config('app.version_description', '', TRUE);
+
+  IF v_project.id IS NULL THEN
+    IF p_expected_updated_at IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.projects WHERE id = p_project_id AND is_deleted = FALSE
+    ) THEN
+      RAISE EXCEPTION 'Project was changed elsewhere' USING ERRCODE = '40001';
+    END IF;
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_project;
+END;
+$$;
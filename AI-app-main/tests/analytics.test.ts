@@ -0,0 +1,225 @@
+/**
+ * Unit Tests for Request Analytics
+ *
+ * Covers AnalyticsLogger's batched write-through to a sink and the
+ * in-memory time-bucketed aggregation (percentiles, error rates, tokens)
+ * that mirrors the analytics_request_buckets SQL function.
+ */
+
+import {
+  AnalyticsLogger,
+  aggregateMetrics,
+  bucketStart,
+  percentile,
+  type AnalyticsSink,
+  type MetricsBucket,
+  type RequestMetrics,
+} from '../src/utils/analytics';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+/** A sink that keeps every batch it is given */
+function recordingSink(options: { fail?: boolean } = {}) {
+  const batches: RequestMetrics[][] = [];
+  const sink: AnalyticsSink = {
+    async write(metrics) {
+      if (options.fail) throw new Error('database unavailable');
+      batches.push(JSON.parse(JSON.stringify(metrics)));
+    },
+    async aggregate(): Promise<MetricsBucket[]> {
+      return [];
+    },
+  };
+  return { sink, batches };
+}
+
+function metric(timestamp: string, fields: Partial<RequestMetrics> = {}): RequestMetrics {
+  return {
+    routeType: 'ai-builder/modify',
+    requestId: `req_${Math.random()}`,
+    timestamp: Date.parse(timestamp),
+    success: true,
+    ...fields,
+  };
+}
+
+async function run() {
+  console.log('\n🧪 Testing Request Analytics\n');
+
+  await test('should write finished requests in batches', async () => {
+    process.env.ANALYTICS_BATCH_SIZE = '2';
+    try {
+      const { sink, batches } = recordingSink();
+      const logger = new AnalyticsLogger(sink);
+
+      logger.logRequestStart('chat', 'a');
+      logger.logRequestStart('chat', 'b');
+      logger.logRequestComplete('a', {});
+      assertEqual(batches.length, 0, 'Waits for a full batch');
+
+      logger.logRequestError('b', new Error('boom'), 'ai_error');
+      await logger.flush();
+      assertEqual(batches.length, 1, 'Full batch written');
+      assertEqual(batches[0].map(m => m.requestId).join(','), 'a,b', 'Both requests');
+      assertEqual(batches[0][1].errorCategory, 'ai_error', 'Error category kept');
+    } finally {
+      delete process.env.ANALYTICS_BATCH_SIZE;
+    }
+  });
+
+  await test('should flush a partial batch after the flush interval', async () => {
+    process.env.ANALYTICS_FLUSH_MS = '10';
+    try {
+      const { sink, batches } = recordingSink();
+      const logger = new AnalyticsLogger(sink);
+
+      logger.logRequestStart('chat', 'a');
+      logger.logRequestComplete('a', { tokenUsage: { input: 5, output: 7 } });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      assertEqual(batches.length, 1, 'Written by the timer');
+      assertEqual(batches[0][0].tokenUsage?.output, 7, 'Token usage written');
+    } finally {
+      delete process.env.ANALYTICS_FLUSH_MS;
+    }
+  });
+
+  await test('should write each request once', async () => {
+    const { sink, batches } = recordingSink();
+    const logger = new AnalyticsLogger(sink);
+
+    logger.logRequestStart('ai-builder/full-app', 'a');
+    logger.logRequestError('a', 'stream failed', 'ai_error');
+    logger.logRequestError('a', 'parse failed', 'parsing_error');
+    await logger.flush();
+
+    assertEqual(batches.length, 1, 'One batch');
+    assertEqual(batches[0].length, 1, 'One row');
+    assertEqual(batches[0][0].errorCategory, 'parsing_error', 'Latest state at flush time');
+  });
+
+  await test('should keep working when the sink fails', async () => {
+    const { sink } = recordingSink({ fail: true });
+    const logger = new AnalyticsLogger(sink);
+
+    logger.logRequestStart('chat', 'a');
+    logger.logRequestComplete('a', {});
+    await logger.flush();
+    assertEqual(logger.getSummary().successfulRequests, 1, 'Still in memory');
+  });
+
+  await test('should retry a failed batch with the next flush', async () => {
+    const options = { fail: true };
+    const { sink, batches } = recordingSink(options);
+    const logger = new AnalyticsLogger(sink);
+
+    logger.logRequestStart('chat', 'a');
+    logger.logRequestComplete('a', {});
+    await logger.flush();
+    assertEqual(batches.length, 0, 'Nothing written');
+
+    options.fail = false;
+    logger.logRequestStart('chat', 'b');
+    logger.logRequestComplete('b', {});
+    await logger.flush();
+    assertEqual(batches.length, 1, 'Written together');
+    assertEqual(batches[0].map(m => m.requestId).join(','), 'a,b', 'Failed batch retried first');
+  });
+
+  await test('memory-only logger should not queue writes', async () => {
+    const logger = new AnalyticsLogger(null);
+    logger.logRequestStart('chat', 'a');
+    logger.logRequestComplete('a', {});
+    await logger.flush();
+    assertEqual(await logger.isPersistent(), false, 'Not persistent');
+  });
+
+  await test('percentile should interpolate like percentile_cont', () => {
+    assertEqual(percentile([], 0.5), null, 'Empty');
+    assertEqual(percentile([10], 0.95), 10, 'Single value');
+    assertEqual(percentile([10, 20, 30, 40], 0.5), 25, 'Median of even count');
+    assertEqual(percentile([0, 100], 0.95), 95, 'p95 of two values');
+  });
+
+  await test('should aggregate metrics per bucket and route', () => {
+    const metrics = [
+      metric('2026-10-19T10:05:00Z', { responseTime: 100, tokenUsage: { input: 10, output: 20, cached: 5 } }),
+      metric('2026-10-19T10:40:00Z', { responseTime: 300, tokenUsage: { input: 1, output: 2 } }),
+      metric('2026-10-19T10:50:00Z', { responseTime: 200, success: false, errorCategory: 'timeout_error' }),
+      metric('2026-10-19T10:55:00Z', { routeType: 'chat', responseTime: 50 }),
+      metric('2026-10-19T11:10:00Z', { success: false, errorCategory: 'ai_error' }),
+      metric('2026-10-18T09:00:00Z', { responseTime: 999 }),
+    ];
+    const buckets = aggregateMetrics(metrics, { since: Date.parse('2026-10-19T00:00:00Z'), bucket: 'hour' });
+
+    assertEqual(buckets.length, 3, 'Two routes at 10:00, one at 11:00');
+    const modify = buckets.find(b => b.routeType === 'ai-builder/modify' && b.bucketStart === '2026-10-19T10:00:00.000Z')!;
+    assertEqual(modify.requests, 3, 'Requests');
+    assertEqual(modify.errors, 1, 'Errors');
+    assertEqual(modify.errorRate, 1 / 3, 'Error rate');
+    assertEqual(modify.errorsByCategory.timeout_error, 1, 'Errors by category');
+    assertEqual(modify.p50ResponseTime, 200, 'p50');
+    assertEqual(modify.p95ResponseTime, 290, 'p95');
+    assertEqual(modify.inputTokens, 11, 'Input tokens');
+    assertEqual(modify.cachedTokens, 5, 'Cached tokens');
+
+    const later = buckets[2];
+    assertEqual(later.bucketStart, '2026-10-19T11:00:00.000Z', 'Sorted by time');
+    assertEqual(later.p50ResponseTime, null, 'No response times');
+
+    const daily = aggregateMetrics(metrics, { since: 0, bucket: 'day', routeType: 'ai-builder/modify' });
+    assertEqual(daily.map(b => `${b.bucketStart.slice(0, 10)}:${b.requests}`).join(','), '2026-10-18:1,2026-10-19:4', 'Daily, one route');
+    assertEqual(bucketStart(Date.parse('2026-10-19T23:59:59Z'), 'day'), '2026-10-19T00:00:00.000Z', 'Day bucket');
+  });
+
+  await test('aggregate should use memory metrics without a sink', async () => {
+    const logger = new AnalyticsLogger(null);
+    logger.logRequestStart('chat', 'a');
+    logger.logRequestComplete('a', {});
+    const buckets = await logger.aggregate({ since: 0, bucket: 'hour' });
+    assertEqual(buckets.length, 1, 'One bucket');
+    assertEqual(buckets[0].requests, 1, 'One request');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
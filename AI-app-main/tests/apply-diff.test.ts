@@ -0,0 +1,445 @@
+/**
+ * Unit Tests for applyDiff
+ *
+ * Verifies all-or-nothing application across every FileDiff: a failing
+ * change or a change that breaks syntax leaves the original files untouched.
+ * Also covers the dry-run preview (per-change status and unified diff) and
+ * whitespace-tolerant / fuzzy searchFor matching, cross-file renames and
+ * component extraction and the post-modification cleanup pass.
+ */
+
+import { applyDiff, type FileDiff } from '../src/utils/applyDiff';
+import type { CleanupMode } from '../src/utils/codeCleanup';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function assertContains(str: string, substring: string, message: string) {
+  if (!str.includes(substring)) {
+    throw new Error(`${message}\n  String: ${str}\n  Expected to contain: ${substring}`);
+  }
+}
+
+const ORIGINAL = [
+  { path: 'src/App.tsx', content: 'export default function App() {\n  return <div>Hello</div>;\n}\n' },
+  { path: 'src/utils.ts', content: 'export const answer = 42;\n' },
+];
+
+async function run() {
+  console.log('\n🧪 Testing applyDiff\n');
+
+  await test('should apply changes across files when all succeed', async () => {
+    const diffs: FileDiff[] = [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'Hello', replaceWith: 'Hi' }] },
+      { path: 'src/utils.ts', action: 'MODIFY', changes: [{ type: 'APPEND', content: 'export const other = 1;' }] },
+    ];
+    const result = await applyDiff(ORIGINAL, diffs);
+    assertEqual(result.success, true, result.errors.join('; '));
+    assertContains(result.modifiedFiles[0].content, '<div>Hi</div>', 'App modified');
+    assertContains(result.modifiedFiles[1].content, 'export const other', 'Utils modified');
+  });
+
+  await test('should roll back every file when a later change fails', async () => {
+    const diffs: FileDiff[] = [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'Hello', replaceWith: 'Hi' }] },
+      { path: 'src/utils.ts', action: 'MODIFY', changes: [
+        { type: 'APPEND', content: 'export const other = 1;' },
+        { type: 'DELETE', searchFor: 'not in the file' },
+      ] },
+    ];
+    const result = await applyDiff(ORIGINAL, diffs);
+    assertEqual(result.success, false, 'Should fail');
+    assertEqual(result.modifiedFiles, ORIGINAL, 'Original files returned');
+    assertEqual(result.failedChange?.path, 'src/utils.ts', 'Failed file');
+    assertEqual(result.failedChange?.fileIndex, 1, 'Failed file index');
+    assertEqual(result.failedChange?.changeIndex, 1, 'Failed change index');
+    assertEqual(result.failedChange?.type, 'DELETE', 'Failed change type');
+  });
+
+  await test('should roll back when a change breaks syntax', async () => {
+    const diffs: FileDiff[] = [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'return <div>', replaceWith: 'return <div>{' }] },
+    ];
+    const result = await applyDiff(ORIGINAL, diffs);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.errors[0], 'no longer parses', 'Parse error reported');
+    assertEqual(result.failedChange?.path, 'src/App.tsx', 'Failed file');
+    assertEqual(result.modifiedFiles[0].content, ORIGINAL[0].content, 'File untouched');
+  });
+
+  await test('should fail when a modified file does not exist', async () => {
+    const result = await applyDiff(ORIGINAL, [
+      { path: 'src/Missing.tsx', action: 'MODIFY', changes: [{ type: 'APPEND', content: 'x' }] },
+    ]);
+    assertEqual(result.success, false, 'Should fail');
+    assertEqual(result.failedChange?.changeIndex, undefined, 'Not tied to a change');
+  });
+
+  await test('should skip syntax checks for non-code files', async () => {
+    const result = await applyDiff([{ path: 'src/index.css', content: 'body {}' }], [
+      { path: 'src/index.css', action: 'MODIFY', changes: [{ type: 'APPEND', content: 'div { color: red' }] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+  });
+
+  await test('dry run should report per-change status without modifying files', async () => {
+    const result = await applyDiff(ORIGINAL, [
+      { path: 'src/utils.ts', action: 'MODIFY', changes: [
+        { type: 'REPLACE', searchFor: '42', replaceWith: '43' },
+        { type: 'DELETE', searchFor: 'missing line' },
+        { type: 'APPEND', content: 'export const x = answer;' },
+        { type: 'INSERT_AFTER', searchFor: 'answer', content: '// note' },
+      ] },
+    ], true);
+    assertEqual(result.success, false, 'not_found should fail the dry run');
+    assertEqual(result.modifiedFiles, ORIGINAL, 'Original files returned');
+    const statuses = result.preview![0].changes.map(c => c.status).join(',');
+    assertEqual(statuses, 'matched,not_found,matched,ambiguous', 'Statuses');
+    assertEqual(result.preview![0].changes[3].occurrences, 2, 'Occurrence count');
+  });
+
+  await test('dry run should return a unified diff of the exact result', async () => {
+    const result = await applyDiff(ORIGINAL, [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'Hello', replaceWith: 'Hi' }] },
+      { path: 'src/New.ts', action: 'CREATE', changes: [{ type: 'APPEND', content: 'export {};\n' }] },
+    ], true);
+    assertEqual(result.success, true, result.errors.join('; '));
+    const [app, created] = result.preview!;
+    assertEqual(app.after, ORIGINAL[0].content.replace('Hello', 'Hi'), 'Exact after content');
+    assertEqual(
+      app.unifiedDiff,
+      '--- a/src/App.tsx\n+++ b/src/App.tsx\n@@ -1,3 +1,3 @@\n export default function App() {\n-  return <div>Hello</div>;\n+  return <div>Hi</div>;\n }\n',
+      'Unified diff'
+    );
+    assertContains(created.unifiedDiff, '--- /dev/null', 'Created file diff');
+    assertContains(created.unifiedDiff, '@@ -0,0 +1,1 @@', 'Created file hunk');
+  });
+
+  await test('dry run should flag changes that break syntax', async () => {
+    const result = await applyDiff(ORIGINAL, [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'return <div>', replaceWith: 'return <div>{' }] },
+    ], true);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.preview![0].error || '', 'no longer parses', 'File-level error');
+  });
+
+  await test('should match searchFor despite whitespace and quote differences', async () => {
+    const files = [{ path: 'src/Button.tsx', content: 'export const B = () => (\n  <button className="primary"  onClick={go}>Go</button>\n);\n' }];
+    const result = await applyDiff(files, [
+      { path: 'src/Button.tsx', action: 'MODIFY', changes: [
+        { type: 'REPLACE', searchFor: "<button className='primary' onClick={ go }>", replaceWith: '<button className="secondary" onClick={go}>' },
+      ] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    assertContains(result.modifiedFiles[0].content, '  <button className="secondary" onClick={go}>Go</button>', 'Replaced in place');
+    assertEqual(result.anchorMatches![0].strategy, 'whitespace', 'Strategy reported');
+  });
+
+  await test('should fall back to fuzzy matching and report confidence', async () => {
+    const files = [{ path: 'src/List.tsx', content: [
+      'export function List({ items }) {',
+      '  const visible = items.filter(item => item.visible);',
+      '  return <ul>{visible.map(item => <li key={item.id}>{item.label}</li>)}</ul>;',
+      '}',
+      '',
+    ].join('\n') }];
+    const result = await applyDiff(files, [
+      { path: 'src/List.tsx', action: 'MODIFY', changes: [
+        { type: 'INSERT_AFTER', searchFor: 'const visible = items.filter((item) => item.visible);', content: '  const count = visible.length;' },
+      ] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    assertContains(result.modifiedFiles[0].content, 'item.visible);\n  const count = visible.length;\n  return', 'Inserted after fuzzy anchor');
+    const match = result.anchorMatches![0];
+    assertEqual(match.strategy, 'fuzzy', 'Strategy reported');
+    assertEqual(match.line, 2, 'Line reported');
+    assertEqual(match.confidence >= 0.85 && match.confidence < 1, true, `Confidence ${match.confidence}`);
+  });
+
+  await test('should reject fuzzy matches below the confidence threshold', async () => {
+    const result = await applyDiff(ORIGINAL, [
+      { path: 'src/utils.ts', action: 'MODIFY', changes: [{ type: 'DELETE', searchFor: 'export const question = 7;' }] },
+    ]);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.errors[0], 'needs 85%', 'Explains threshold');
+  });
+
+  await test('dry run should count overlapping occurrences of searchFor', async () => {
+    const files = [{ path: 'src/grid.ts', content: 'export const row = [0, 0, 0];\n' }];
+    const result = await applyDiff(files, [
+      { path: 'src/grid.ts', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: '0, 0', replaceWith: '1, 1' }] },
+    ], true);
+    assertEqual(result.preview![0].changes[0].status, 'ambiguous', 'Status');
+    assertEqual(result.preview![0].changes[0].occurrences, 2, 'Overlapping match counted');
+  });
+
+  await test('should refuse a whitespace-insensitive anchor that matches several places', async () => {
+    const files = [{ path: 'src/save.ts', content: 'save(a);\nsave( a );\n' }];
+    const result = await applyDiff(files, [
+      { path: 'src/save.ts', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'save(  a)', replaceWith: 'save(b)' }] },
+    ]);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.errors[0], 'ambiguous', 'Explains ambiguity');
+    assertEqual(result.modifiedFiles[0].content, files[0].content, 'Nothing applied');
+  });
+
+  const RENAME_PROJECT = [
+    { path: 'src/components/UserCard.tsx', content: [
+      'export function UserCard({ name, title }: { name: string; title: string }) {',
+      '  return <div title={title}>{name}</div>;',
+      '}',
+      '',
+    ].join('\n') },
+    { path: 'src/App.tsx', content: [
+      "import { UserCard } from './components/UserCard';",
+      "import { UserCard as Badge } from '@/components/UserCard';",
+      '',
+      'export default function App() {',
+      '  const count = 1;',
+      '  function inner() {',
+      '    const count = 2;',
+      '    return count;',
+      '  }',
+      '  return <main><UserCard name="Ann" title="Admin" /><Badge name="Bob" title="Dev" />{count}</main>;',
+      '}',
+      '',
+    ].join('\n') },
+  ];
+
+  await test('AST_RENAME_SYMBOL should update imports and JSX in other files', async () => {
+    const result = await applyDiff(RENAME_PROJECT, [
+      { path: 'src/components/UserCard.tsx', action: 'MODIFY', changes: [
+        { type: 'AST_RENAME_SYMBOL', oldName: 'UserCard', newName: 'ProfileCard' },
+      ] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    const [card, app] = result.modifiedFiles;
+    assertContains(card.content, 'export function ProfileCard(', 'Declaration renamed');
+    assertContains(app.content, "import { ProfileCard } from './components/UserCard';", 'Import renamed');
+    assertContains(app.content, "import { ProfileCard as Badge } from '@/components/UserCard';", 'Aliased import keeps alias');
+    assertContains(app.content, '<ProfileCard name="Ann"', 'JSX usage renamed');
+    assertContains(app.content, '<Badge name="Bob"', 'Alias usage untouched');
+  });
+
+  await test('AST_RENAME_SYMBOL should alias the import where an importer already uses the new name', async () => {
+    const files = [
+      { path: 'src/Card.tsx', content: 'export function Card() {\n  return <div />;\n}\n' },
+      { path: 'src/App.tsx', content: [
+        "import { Card } from './Card';",
+        '',
+        'const Panel = 1;',
+        '',
+        'export default function App() {',
+        '  return <main><Card />{Panel}</main>;',
+        '}',
+        '',
+      ].join('\n') },
+    ];
+    const result = await applyDiff(files, [
+      { path: 'src/Card.tsx', action: 'MODIFY', changes: [{ type: 'AST_RENAME_SYMBOL', oldName: 'Card', newName: 'Panel' }] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    const app = result.modifiedFiles.find(f => f.path === 'src/App.tsx')!.content;
+    assertContains(app, "import { Panel as Card } from './Card';", 'Imported under the old name');
+    assertContains(app, '<main><Card />{Panel}</main>', 'Local names untouched');
+  });
+
+  await test('AST_RENAME_SYMBOL should leave shadowed bindings alone', async () => {
+    const result = await applyDiff(RENAME_PROJECT, [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'AST_RENAME_SYMBOL', oldName: 'count', newName: 'total' }] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    const app = result.modifiedFiles[1].content;
+    assertContains(app, '  const total = 1;', 'Outer declaration renamed');
+    assertContains(app, '{total}</main>', 'Outer usage renamed');
+    assertContains(app, '    const count = 2;\n    return count;', 'Shadowed binding untouched');
+  });
+
+  await test('AST_RENAME_SYMBOL should refuse a rename an inner binding would capture', async () => {
+    const files = [{ path: 'src/App.tsx', content: [
+      'export default function App() {',
+      '  const count = 1;',
+      '  function show() {',
+      '    const total = 2;',
+      '    return count + total;',
+      '  }',
+      '  return <main>{show()}</main>;',
+      '}',
+    ].join('\n') }];
+    const result = await applyDiff(files, [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'AST_RENAME_SYMBOL', oldName: 'count', newName: 'total' }] },
+    ]);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.errors.join('; '), '"total" is already declared in a scope that uses "count" (line 5)', 'Reason given');
+  });
+
+  await test('AST_RENAME_SYMBOL should rename props in the component and at call sites', async () => {
+    const result = await applyDiff(RENAME_PROJECT, [
+      { path: 'src/components/UserCard.tsx', action: 'MODIFY', changes: [
+        { type: 'AST_RENAME_SYMBOL', kind: 'prop', component: 'UserCard', oldName: 'title', newName: 'role' },
+      ] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    const [card, app] = result.modifiedFiles;
+    assertContains(card.content, '({ name, role }: { name: string; role: string })', 'Param and type renamed');
+    assertContains(card.content, '<div title={role}>', 'DOM attribute kept, value renamed');
+    assertContains(app.content, '<UserCard name="Ann" role="Admin" />', 'Call site renamed');
+    assertContains(app.content, '<Badge name="Bob" role="Dev" />', 'Aliased call site renamed');
+  });
+
+  const EXTRACT_PROJECT = [
+    { path: 'src/pages/Home.tsx', content: [
+      "import { useState } from 'react';",
+      "import { Button, Icon } from '../components/Button';",
+      '',
+      'export default function Home() {',
+      '  const [count, setCount] = useState(0);',
+      '  const handleClick = () => setCount(count + 1);',
+      '  return (',
+      '    <main>',
+      '      <section className="hero">',
+      '        <h1>Clicked {count} times</h1>',
+      '        <Button onClick={handleClick}>Add</Button>',
+      '      </section>',
+      '      <Icon />',
+      '    </main>',
+      '  );',
+      '}',
+      '',
+    ].join('\n') },
+  ];
+
+  await test('AST_EXTRACT_COMPONENT should create the component and rewire the source', async () => {
+    const result = await applyDiff(EXTRACT_PROJECT, [
+      { path: 'src/pages/Home.tsx', action: 'MODIFY', changes: [
+        { type: 'AST_EXTRACT_COMPONENT', targetJSX: '<section className="hero">', componentName: 'Hero', propTypes: { count: 'number' } },
+      ] },
+    ]);
+    assertEqual(result.success, true, result.errors.join('; '));
+    const home = result.modifiedFiles.find(f => f.path === 'src/pages/Home.tsx')!.content;
+    const hero = result.modifiedFiles.find(f => f.path === 'src/pages/Hero.tsx')?.content || '';
+    assertContains(home, '      <Hero count={count} handleClick={handleClick} />\n      <Icon />', 'Subtree replaced with usage');
+    assertContains(home, "import { Hero } from './Hero';", 'Component imported');
+    assertContains(hero, "import { Button } from '../components/Button';", 'Used import copied and narrowed');
+    assertContains(hero, '  count: number;\n  handleClick: any;', 'Props typed');
+    assertContains(hero, 'export function Hero({ count, handleClick }: HeroProps) {', 'Props destructured');
+    assertContains(hero, '    <section className="hero">\n      <h1>Clicked {count} times</h1>', 'JSX re-indented');
+  });
+
+  await test('AST_EXTRACT_COMPONENT dry run should preview the created file', async () => {
+    const result = await applyDiff(EXTRACT_PROJECT, [
+      { path: 'src/pages/Home.tsx', action: 'MODIFY', changes: [
+        { type: 'AST_EXTRACT_COMPONENT', targetJSX: 'section', componentName: 'Hero' },
+      ] },
+    ], true);
+    const created = result.preview!.find(p => p.path === 'src/pages/Hero.tsx');
+    assertEqual(created?.action, 'CREATE', 'Created file previewed');
+    assertEqual(created?.before, null, 'No previous content');
+    assertEqual(result.modifiedFiles.length, 1, 'Nothing written');
+  });
+
+  await test('AST_EXTRACT_COMPONENT should refuse to overwrite an existing file', async () => {
+    const result = await applyDiff([...EXTRACT_PROJECT, { path: 'src/pages/Hero.tsx', content: 'export {};\n' }], [
+      { path: 'src/pages/Home.tsx', action: 'MODIFY', changes: [
+        { type: 'AST_EXTRACT_COMPONENT', targetJSX: 'section', componentName: 'Hero' },
+      ] },
+    ]);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.errors[0], 'already exists', 'Reason given');
+  });
+
+  // =============================================================================
+  // Post-modification cleanup
+  // =============================================================================
+
+  const CLEANUP_FILES = [
+    { path: 'src/App.tsx', content: `import React, { useState } from 'react';
+import { format } from 'date-fns';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  function formatDate(d: Date) {
+    return format(d, 'yyyy-MM-dd');
+  }
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+` },
+  ];
+  const TOUCH_APP: FileDiff[] = [
+    { path: 'src/App.tsx', action: 'MODIFY', changes: [
+      { type: 'REPLACE', searchFor: '{count}</button>', replaceWith: 'Count: {count}</button>' },
+    ] },
+  ];
+
+  await test('cleanup "warn" should report dead code without removing it', async () => {
+    const result = await applyDiff(CLEANUP_FILES, TOUCH_APP, false, { cleanup: 'warn' });
+    assertEqual(result.success, true, 'Should succeed');
+    assertEqual(result.cleanup!.map(f => `${f.kind}:${f.name}`).sort().join(','), 'function:formatDate,state:open', 'Findings');
+    assertContains(result.modifiedFiles[0].content, 'formatDate', 'Function kept');
+  });
+
+  await test('cleanup "remove" should delete dead state, functions and the imports they orphan', async () => {
+    const result = await applyDiff(CLEANUP_FILES, TOUCH_APP, false, { cleanup: 'remove' });
+    const content = result.modifiedFiles[0].content;
+    assertEqual(result.success, true, 'Should succeed');
+    assertEqual(content.includes('formatDate') || content.includes('setOpen') || content.includes('date-fns'), false, 'Dead code removed');
+    assertContains(content, 'Count: {count}', 'Change applied');
+    assertEqual(result.cleanup!.every(f => f.removed), true, 'Findings marked removed');
+  });
+
+  await test('cleanup should default to off', async () => {
+    const result = await applyDiff(CLEANUP_FILES, TOUCH_APP);
+    assertEqual(result.cleanup, undefined, 'No findings');
+    assertContains(result.modifiedFiles[0].content, 'setOpen', 'Nothing removed');
+  });
+
+  await test('cleanup should never remove code for an unknown mode', async () => {
+    const result = await applyDiff(CLEANUP_FILES, TOUCH_APP, false, { cleanup: 'remvoe' as CleanupMode });
+    assertEqual(result.cleanup, undefined, 'No findings');
+    assertContains(result.modifiedFiles[0].content, 'setOpen', 'Nothing removed');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for AST Removal Operations
+ *
+ * Covers AST_REMOVE_ELEMENT, AST_REMOVE_HOOK, AST_REMOVE_FUNCTION and
+ * AST_REMOVE_IMPORT: what each removes, the imports they leave unused being
+ * pruned, and refusing to remove what is still referenced.
+ */
+
+import { executeASTOperation } from '../src/utils/astExecutor';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function assertContains(str: string, substring: string, message: string) {
+  if (!str.includes(substring)) {
+    throw new Error(`${message}\n  String: ${str}\n  Expected to contain: ${substring}`);
+  }
+}
+
+const DASHBOARD = `import { useState, useEffect } from 'react';
+import { Modal } from './Modal';
+import { Chart, Legend } from './Chart';
+
+export default function Dashboard() {
+  const [open, setOpen] = useState(false);
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    document.title = 'Dashboard';
+  }, []);
+
+  function renderChart() {
+    return <Chart />;
+  }
+
+  return (
+    <div>
+      <button onClick={() => setOpen(true)}>Open</button>
+      {open && <Modal onClose={() => setOpen(false)} />}
+      <p>{count}</p>
+      <Legend />
+    </div>
+  );
+}`;
+
+async function run() {
+  console.log('🧪 Running AST Removal Tests\n');
+
+  await test('AST_REMOVE_ELEMENT should remove the element and its unused import', async () => {
+    const result = await executeASTOperation(DASHBOARD, { type: 'AST_REMOVE_ELEMENT', targetElement: 'Modal' });
+    assertEqual(result.success, true, result.errors?.join('; ') || 'Should succeed');
+    assertEqual(result.code!.includes('open &&'), false, 'Conditional removed');
+    assertEqual(result.code!.includes("from './Modal'"), false, 'Unused import pruned');
+  });
+
+  await test('AST_REMOVE_HOOK should remove the hook and refuse state still in use', async () => {
+    const result = await executeASTOperation(DASHBOARD, { type: 'AST_REMOVE_HOOK', hook: 'useEffect' });
+    assertEqual(result.success, true, result.errors?.join('; ') || 'Should succeed');
+    assertEqual(result.code!.includes('document.title'), false, 'Effect removed');
+    assertContains(result.code!, "import { useState } from 'react';", 'Hook import pruned');
+
+    const stillUsed = await executeASTOperation(DASHBOARD, { type: 'AST_REMOVE_HOOK', hook: 'useState', name: 'count' });
+    assertEqual(stillUsed.success, false, 'Refuses while still used');
+    assertContains((stillUsed.errors || []).join(' '), 'count', 'Names the binding');
+  });
+
+  await test('AST_REMOVE_FUNCTION should remove the function and only the import names it used', async () => {
+    const result = await executeASTOperation(DASHBOARD, { type: 'AST_REMOVE_FUNCTION', name: 'renderChart' });
+    assertEqual(result.success, true, result.errors?.join('; ') || 'Should succeed');
+    assertEqual(result.code!.includes('renderChart'), false, 'Function removed');
+    assertContains(result.code!, "import { Legend } from './Chart';", 'Only its import name pruned');
+  });
+
+  await test('AST_REMOVE_IMPORT should remove unused names and refuse used ones', async () => {
+    const result = await executeASTOperation(DASHBOARD.replace('<Legend />', ''), {
+      type: 'AST_REMOVE_IMPORT',
+      source: './Chart',
+      names: ['Legend'],
+    });
+    assertEqual(result.success, true, result.errors?.join('; ') || 'Should succeed');
+    assertContains(result.code!, "import { Chart } from './Chart';", 'Name removed');
+
+    const withoutLegend = await executeASTOperation(DASHBOARD, { type: 'AST_REMOVE_ELEMENT', targetElement: 'Legend' });
+    assertContains(withoutLegend.code!, "import { Chart } from './Chart';", 'Removing the element pruned it too');
+
+    const stillUsed = await executeASTOperation(DASHBOARD, { type: 'AST_REMOVE_IMPORT', source: './Modal' });
+    assertEqual(stillUsed.success, false, 'Refuses while still used');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
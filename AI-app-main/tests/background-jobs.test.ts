@@ -0,0 +1,244 @@
+/**
+ * Unit Tests for Background Jobs
+ *
+ * Covers the memory job store's compare-and-set transitions, the worker
+ * (results, failures, progress, concurrency, cancellation, stale jobs) and
+ * the job status and event stream routes.
+ */
+
+import {
+  MemoryBackgroundJobStore,
+  getBackgroundJobStore,
+  runJob,
+  cancelJob,
+  getJob,
+  JOB_STALE_MS,
+  type JobHandler,
+} from '../src/utils/backgroundJobs';
+import { GET as getJobRoute } from '../src/app/api/jobs/[id]/route';
+import { GET as getEvents } from '../src/app/api/jobs/[id]/events/route';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+/** A handler that waits until `release()` is called */
+function gatedHandler(result: unknown) {
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => (release = resolve));
+  const state = { started: false, aborted: false };
+  const handler: JobHandler = async (_input, context) => {
+    state.started = true;
+    context.signal.addEventListener('abort', () => (state.aborted = true));
+    await gate;
+    return result;
+  };
+  return { handler, release, state };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/** Events of an SSE body as { id, data } */
+async function readEvents(response: Response): Promise<Array<{ id?: string; data: any }>> {
+  return (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map(raw => {
+      const id = raw.match(/^id: (.*)$/m)?.[1];
+      return { id, data: JSON.parse(raw.match(/^data: (.*)$/m)![1]) };
+    });
+}
+
+async function run() {
+  console.log('\n🧪 Testing Background Jobs\n');
+
+  // One job at a time, so queueing is observable
+  process.env.JOB_CONCURRENCY = '1';
+
+  await test('store transitions only from the expected status', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const job = await store.create('code-review', { code: 'x' });
+    assertEqual(job.status, 'queued', 'Created queued');
+    assertEqual(await store.transition(job.id, ['running'], 'complete'), false, 'Not running yet');
+    assertEqual(await store.transition(job.id, ['queued'], 'running'), true, 'Claimed');
+    assertEqual(await store.transition(job.id, ['queued'], 'running'), false, 'Claimed only once');
+    assertEqual((await store.get(job.id))?.status, 'running', 'Status saved');
+    assertEqual(await store.transition('missing', ['queued'], 'running'), false, 'Unknown job');
+  });
+
+  await test('worker should save the result and progress', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const job = await store.create('code-review', { code: 'x' });
+    await runJob(job.id, async (input, context) => {
+      await context.report('Reviewing', { issues: 1 });
+      return { reviewed: input.code };
+    }, store);
+
+    const saved = (await store.get(job.id))!;
+    assertEqual(saved.status, 'complete', 'Complete');
+    assertEqual((saved.result as any).reviewed, 'x', 'Result');
+    assertEqual(saved.progress.length, 1, 'Progress recorded');
+    assertEqual(saved.progress[0].message, 'Reviewing', 'Progress message');
+    assertEqual((saved.partialResult as any).issues, 1, 'Partial result');
+    assertEqual(typeof saved.finishedAt, 'string', 'Finish time');
+  });
+
+  await test('worker should record handler failures', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const job = await store.create('full-app', {});
+    await runJob(job.id, async () => {
+      throw new Error('Model overloaded');
+    }, store);
+
+    const saved = (await store.get(job.id))!;
+    assertEqual(saved.status, 'failed', 'Failed');
+    assertEqual(saved.error, 'Model overloaded', 'Error message');
+  });
+
+  await test('cancelling a running job should abort it and discard its result', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const job = await store.create('full-app', {});
+    const { handler, release, state } = gatedHandler({ files: [] });
+    const done = runJob(job.id, handler, store);
+    await tick();
+    assertEqual(state.started, true, 'Started');
+
+    const cancelled = await cancelJob(job.id, store);
+    assertEqual(cancelled?.status, 'cancelled', 'Cancelled');
+    assertEqual(state.aborted, true, 'Signal aborted');
+
+    release();
+    await done;
+    const saved = (await store.get(job.id))!;
+    assertEqual(saved.status, 'cancelled', 'Still cancelled');
+    assertEqual(saved.result, undefined, 'Result discarded');
+  });
+
+  await test('jobs should wait for a free slot and skip cancelled ones', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const first = await store.create('code-review', {});
+    const second = await store.create('code-review', {});
+    const third = await store.create('code-review', {});
+    const a = gatedHandler('a');
+    const b = gatedHandler('b');
+    const c = gatedHandler('c');
+
+    const runs = [
+      runJob(first.id, a.handler, store),
+      runJob(second.id, b.handler, store),
+      runJob(third.id, c.handler, store),
+    ];
+    await tick();
+    assertEqual(a.state.started, true, 'First running');
+    assertEqual(b.state.started, false, 'Second waiting (JOB_CONCURRENCY=1)');
+    assertEqual((await store.get(second.id))?.status, 'queued', 'Second still queued');
+
+    await cancelJob(second.id, store);
+    a.release();
+    await runs[0];
+    await runs[1];
+    await tick();
+    assertEqual(b.state.started, false, 'Cancelled job never started');
+    assertEqual(c.state.started, true, 'Third took the slot');
+
+    c.release();
+    await runs[2];
+    assertEqual((await store.get(third.id))?.status, 'complete', 'Third complete');
+  });
+
+  await test('cancelling a finished job should leave it unchanged', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const job = await store.create('code-review', {});
+    await runJob(job.id, async () => 'ok', store);
+    const after = await cancelJob(job.id, store);
+    assertEqual(after?.status, 'complete', 'Still complete');
+    assertEqual(await cancelJob('missing', store), null, 'Unknown job');
+  });
+
+  await test('reading a job should fail it once its worker stops sending heartbeats', async () => {
+    const store = new MemoryBackgroundJobStore();
+    const job = await store.create('full-app', {});
+    await store.transition(job.id, ['queued'], 'running');
+    assertEqual((await getJob(job.id, store))?.status, 'running', 'Fresh job left alone');
+
+    const now = Date.now;
+    Date.now = () => now() + JOB_STALE_MS + 1000;
+    try {
+      const stale = (await getJob(job.id, store))!;
+      assertEqual(stale.status, 'failed', 'Stale job failed');
+      assertEqual(typeof stale.error, 'string', 'Reason recorded');
+    } finally {
+      Date.now = now;
+    }
+  });
+
+  await test('status route should return the job or 404', async () => {
+    const store = await getBackgroundJobStore();
+    const job = await store.create('performance-optimize', {});
+    const found = await getJobRoute(new Request('http://localhost/api/jobs/x'), { params: Promise.resolve({ id: job.id }) });
+    assertEqual(found.status, 200, 'Found');
+    assertEqual((await found.json()).job.id, job.id, 'Job body');
+
+    const missing = await getJobRoute(new Request('http://localhost/api/jobs/x'), { params: Promise.resolve({ id: 'missing' }) });
+    assertEqual(missing.status, 404, 'Not found');
+  });
+
+  await test('event stream should replay progress after Last-Event-ID and end with the job', async () => {
+    const store = await getBackgroundJobStore();
+    const job = await store.create('multi-file-refactor', {});
+    await runJob(job.id, async (_input, context) => {
+      await context.report('Planning');
+      await context.report('Editing', { files: 2 });
+      return { changes: [] };
+    }, store);
+
+    const request = new Request('http://localhost/api/jobs/x/events', { headers: { 'Last-Event-ID': '1' } });
+    const events = await readEvents(await getEvents(request, { params: Promise.resolve({ id: job.id }) }));
+    const types = events.map(e => e.data.type).join(',');
+    assertEqual(types, 'status,progress,done', 'Event sequence');
+    assertEqual(events[1].id, '2', 'Progress event id');
+    assertEqual(events[1].data.message, 'Editing', 'Only unseen progress');
+    assertEqual(events[1].data.partialResult.files, 2, 'Partial result');
+    assertEqual(events[2].data.job.status, 'complete', 'Final job');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
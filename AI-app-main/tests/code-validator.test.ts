@@ -10,9 +10,11 @@ import {
   hasTypeScriptInJSX,
   hasUnclosedStrings,
   validateGeneratedCode,
+  validateSyntaxTree,
   autoFixCode,
   type ValidationError,
 } from '../src/utils/codeValidator';
+import { typeCheckFiles } from '../src/utils/typeScriptValidator';
 
 // Test utilities
 let testCount = 0;
@@ -336,6 +338,53 @@ test('should return invalid with multiple error types', () => {
   assertGreaterThan(result.errors.length, 0, 'Should have errors');
 });
 
+test('should not report parse errors at the edges of a snippet', () => {
+  const snippets = [
+    '<li/>\n</ul>',
+    'if (x) {\n  f();',
+    '<button onClick={() => setCount(count + 1)}>Add</button>',
+  ];
+  for (const code of snippets) {
+    const result = validateGeneratedCode(code, 'src/App.tsx', false, false);
+    assertEqual(result.errors.some(e => e.type === 'SYNTAX_ERROR'), false, `No syntax errors in ${JSON.stringify(code)}`);
+  }
+});
+
+// =============================================================================
+// Test validateSyntaxTree (tree-sitter)
+// =============================================================================
+
+console.log('\n📝 Testing validateSyntaxTree...\n');
+
+test('should report syntax errors with exact line and column', () => {
+  const code = `function App() {\n  if (ready {\n    return null;\n  }\n}`;
+  const errors = validateSyntaxTree(code)!;
+  assertArrayLength(errors, 1, 'Should find one error');
+  assertEqual(errors[0].type, 'SYNTAX_ERROR', 'Should be a syntax error');
+  assertEqual(errors[0].message, 'Missing ")"', 'Should name the missing token');
+  assertEqual(errors[0].line, 2, 'Should report line');
+  assertEqual(errors[0].column, 12, 'Should report column');
+});
+
+test('should detect mismatched lowercase JSX tags', () => {
+  const code = `function App() {\n  return <div><span>test</div></span>;\n}`;
+  const errors = validateSyntaxTree(code)!;
+  assertArrayLength(errors, 2, 'Should flag both elements');
+  assertEqual(errors[0].type, 'UNBALANCED_JSX', 'Should be unbalanced JSX');
+  assertContains(errors[0].message, '<div> opened at line 2 is closed by </span>', 'Should name both tags');
+});
+
+test('should not flag function keywords inside strings', () => {
+  const code = `function App() {\n  const help = "function helper() {}";\n  return <div>{help}</div>;\n}`;
+  assertArrayLength(validateSyntaxTree(code)!, 0, 'Should have no errors');
+});
+
+test('should report an unclosed string as UNCLOSED_STRING so it can be auto-fixed', () => {
+  const result = validateGeneratedCode(`const msg = "Hello;`, 'src/App.tsx', true);
+  assertEqual(result.valid, true, 'Should be valid after auto-fix');
+  assertEqual(result.fixedCode, `const msg = "Hello;"`, 'Should close the string');
+});
+
 // =============================================================================
 // Test autoFixCode with auto-fix capability
 // =============================================================================
@@ -378,6 +427,46 @@ test('should return unchanged code when no fix available', () => {
   assertEqual(fixed, code, 'Code should remain unchanged');
 });
 
+// =============================================================================
+// Test TypeScript compiler tier
+// =============================================================================
+
+console.log('\n📝 Testing typeCheckFiles...\n');
+
+const CARD_FILE = {
+  path: 'src/components/Card.tsx',
+  content: 'interface CardProps { title: string }\nexport function Card({ title }: CardProps) {\n  return <h1>{title}</h1>;\n}\n'
+};
+
+test('should pass a valid multi-file app', () => {
+  const results = typeCheckFiles([
+    CARD_FILE,
+    { path: 'src/App.tsx', content: "import { useState } from 'react';\nimport { Card } from '@/components/Card';\nimport { motion } from 'framer-motion';\n\nexport default function App() {\n  const [title] = useState('Hi');\n  return <motion.div><Card title={title} /></motion.div>;\n}\n" },
+  ]);
+  assertArrayLength(results, 0, 'Should have no errors');
+});
+
+test('should report wrong prop types with line numbers', () => {
+  const results = typeCheckFiles([
+    CARD_FILE,
+    { path: 'src/App.tsx', content: "import { Card } from './components/Card';\n\nexport default function App() {\n  return <Card title={42} />;\n}\n" },
+  ]);
+  assertArrayLength(results, 1, 'Should report one file');
+  assertEqual(results[0].file, 'src/App.tsx', 'Should name the file');
+  assertEqual(results[0].errors[0].type, 'TYPE_ERROR', 'Should be a type error');
+  assertEqual(results[0].errors[0].line, 4, 'Should point at the line');
+});
+
+test('should report undefined identifiers and missing imports', () => {
+  const results = typeCheckFiles([
+    CARD_FILE,
+    { path: 'src/App.jsx', content: "import { Header } from './components/Card';\nimport Footer from './Footer';\n\nexport default function App() {\n  return <main>{items.length}</main>;\n}\n" },
+  ]);
+  const types = results[0].errors.map(e => e.type).join(',');
+  assertEqual(types, 'MISSING_IMPORT,MISSING_IMPORT,UNDEFINED_IDENTIFIER', 'Should classify diagnostics');
+  assertContains(results[0].errors[2].message, "Cannot find name 'items'", 'Should carry the compiler message');
+});
+
 // =============================================================================
 // Summary
 // =============================================================================
@@ -0,0 +1,255 @@
+/**
+ * Unit Tests for the Cost Ledger
+ *
+ * Covers pricing (prefix matching, cached tokens per provider, overrides),
+ * metering of complete and streamed calls, monthly budgets and the 402
+ * a route returns once a budget is used up.
+ */
+
+import {
+  MemoryCostLedgerStore,
+  calculateCost,
+  findModelPrice,
+  checkBudget,
+  recordCost,
+  summarizeSpend,
+  monthStart,
+  getCostLedger,
+  type CostEntry,
+} from '../src/utils/costLedger';
+import { MeteredProvider } from '../src/utils/llm/meteredProvider';
+import type { LLMProvider, LLMStreamEvent } from '../src/utils/llm/types';
+import { POST as chat } from '../src/app/api/chat/route';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function assertClose(actual: number, expected: number, message: string) {
+  if (Math.abs(actual - expected) > 1e-9) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+const USAGE = { inputTokens: 1_000_000, outputTokens: 100_000, cachedTokens: 200_000 };
+
+/** A provider that answers every call with USAGE */
+const fakeProvider: LLMProvider = {
+  name: 'anthropic',
+  isConfigured: () => true,
+  configurationError: () => '',
+  complete: async request => ({ text: 'ok', model: request.model, usage: USAGE }),
+  stream: async function* (): AsyncIterable<LLMStreamEvent> {
+    yield { type: 'text', text: 'ok' };
+    yield { type: 'done', usage: USAGE };
+  },
+};
+
+function entry(costUsd: number, fields: Partial<CostEntry> = {}): CostEntry {
+  return {
+    route: 'modify',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5-20250929',
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    costUsd,
+    priced: true,
+    createdAt: new Date().toISOString(),
+    ...fields,
+  };
+}
+
+async function run() {
+  console.log('\n🧪 Testing Cost Ledger\n');
+
+  await test('should match dated model ids to the longest price prefix', () => {
+    assertEqual(findModelPrice('claude-sonnet-4-5-20250929')?.input, 3, 'Sonnet 4.5');
+    assertEqual(findModelPrice('gpt-4.1-mini')?.input, 0.4, 'Mini is not priced as gpt-4.1');
+    assertEqual(findModelPrice('mystery-model'), null, 'Unknown model');
+  });
+
+  await test('should price cached tokens the way each provider reports them', () => {
+    // Anthropic: 1M input + 0.2M cache reads + 0.1M output at 3 / 0.3 / 15
+    assertClose(calculateCost('anthropic', 'claude-sonnet-4-20250514', USAGE)!, 3 + 0.06 + 1.5, 'Anthropic');
+    // OpenAI: cached tokens are part of the 1M prompt tokens, at 2 / 0.5 / 8
+    assertClose(calculateCost('openai', 'gpt-4.1', USAGE)!, 0.8 * 2 + 0.2 * 0.5 + 0.8, 'OpenAI');
+    assertEqual(calculateCost('local', 'llama3.1', USAGE), 0, 'Local models are free');
+    assertEqual(calculateCost('openai', 'mystery-model', USAGE), null, 'Unknown model');
+  });
+
+  await test('should apply LLM_PRICE_TABLE overrides', () => {
+    process.env.LLM_PRICE_TABLE = JSON.stringify({ 'mystery-model': { input: 1, output: 2, cachedInput: 0 } });
+    try {
+      assertClose(calculateCost('openai', 'mystery-model', USAGE)!, 0.8 + 0.2, 'Overridden price');
+    } finally {
+      delete process.env.LLM_PRICE_TABLE;
+    }
+  });
+
+  await test('should record unpriced models at zero cost', async () => {
+    const store = new MemoryCostLedgerStore();
+    const recorded = await recordCost('chat', 'anthropic', 'mystery-model', USAGE, { projectId: 'p1' }, store);
+    assertEqual(recorded?.priced, false, 'Unpriced model flagged');
+    assertEqual(recorded?.costUsd, 0, 'Unpriced model costs 0');
+    assertEqual((await store.entries({ since: monthStart() })).length, 1, 'Still recorded');
+  });
+
+  await test('metered provider should record complete and streamed calls', async () => {
+    const ledger = await getCostLedger();
+    const since = new Date().toISOString();
+    const provider = new MeteredProvider(fakeProvider, 'code-review', { userId: 'u1', projectId: 'p-metered' });
+    await provider.complete({ model: 'claude-sonnet-4-20250514', messages: [], maxTokens: 10 });
+    for await (const _event of provider.stream({ model: 'claude-sonnet-4-20250514', messages: [], maxTokens: 10 })) {
+      // drain
+    }
+
+    const entries = await ledger.entries({ projectId: 'p-metered', since });
+    assertEqual(entries.length, 2, 'Both calls recorded');
+    assertEqual(entries[0].route, 'code-review', 'Route');
+    assertEqual(entries[0].userId, 'u1', 'User');
+    assertClose(entries[1].costUsd, 4.56, 'Streamed call priced');
+  });
+
+  await test('metered provider should pass its signal to the provider and stop once aborted', async () => {
+    const seen: Array<AbortSignal | undefined> = [];
+    const provider = new MeteredProvider({
+      ...fakeProvider,
+      complete: async request => {
+        seen.push(request.signal);
+        return fakeProvider.complete(request);
+      },
+    }, 'full-app', {}, new AbortController().signal);
+    await provider.complete({ model: 'claude-sonnet-4-20250514', messages: [], maxTokens: 10 });
+    assertEqual(seen[0] instanceof AbortSignal, true, 'Signal passed on');
+
+    const controller = new AbortController();
+    const cancelled = new MeteredProvider(fakeProvider, 'full-app', {}, controller.signal);
+    controller.abort();
+    const error = await cancelled.complete({ model: 'claude-sonnet-4-20250514', messages: [], maxTokens: 10 }).catch(e => e);
+    assertEqual(error?.name, 'AbortError', 'Aborted call rejected');
+  });
+
+  await test('budgets should refuse requests once month-to-date spend reaches the limit', async () => {
+    const store = new MemoryCostLedgerStore();
+    await store.record(entry(4, { projectId: 'p1' }));
+    await store.record(entry(3, { projectId: 'p2' }));
+    await store.record(entry(100, { projectId: 'p1', createdAt: '2000-01-01T00:00:00.000Z' }));
+
+    assertEqual((await checkBudget('p1', store)).allowed, true, 'No budgets configured');
+
+    process.env.PROJECT_MONTHLY_BUDGET_USD = '4';
+    process.env.MONTHLY_BUDGET_USD = '10';
+    try {
+      const p1 = await checkBudget('p1', store);
+      assertEqual(p1.allowed, false, 'Project budget used up');
+      assertEqual(p1.attribution.projectId, 'p1', 'Attribution');
+      assertEqual(p1.error?.includes('this project'), true, 'Error names the project budget');
+
+      const p2 = await checkBudget('p2', store);
+      assertEqual(p2.allowed, true, 'Other project still has budget');
+      assertEqual(p2.budgets.find(b => b.scope === 'user')?.spentUsd, 7, 'Last month not counted');
+
+      await store.record(entry(3));
+      assertEqual((await checkBudget(undefined, store)).allowed, false, 'User budget used up');
+    } finally {
+      delete process.env.PROJECT_MONTHLY_BUDGET_USD;
+      delete process.env.MONTHLY_BUDGET_USD;
+    }
+  });
+
+  await test('budgets should drop project ids the user does not own', async () => {
+    class OwnerStore extends MemoryCostLedgerStore {
+      async ownedProjectId(projectId: string) {
+        return projectId === 'mine' ? projectId : undefined;
+      }
+    }
+    const store = new OwnerStore();
+    await store.record(entry(5, { projectId: 'local-component-id' }));
+
+    process.env.PROJECT_MONTHLY_BUDGET_USD = '4';
+    try {
+      const unknown = await checkBudget('local-component-id', store);
+      assertEqual(unknown.attribution.projectId, undefined, 'Unknown project dropped');
+      assertEqual(unknown.allowed, true, 'No project budget without a project');
+      assertEqual((await checkBudget('mine', store)).attribution.projectId, 'mine', 'Owned project kept');
+      assertEqual(await store.spent({ projectId: 'local-component-id', since: monthStart() }), 5, 'Spend summed');
+    } finally {
+      delete process.env.PROJECT_MONTHLY_BUDGET_USD;
+    }
+  });
+
+  await test('should group spend by day, route and model', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const summary = summarizeSpend([
+      entry(1, { createdAt: '2026-10-18T09:00:00.000Z' }),
+      entry(2, { createdAt: '2026-10-19T09:00:00.000Z', route: 'chat' }),
+      entry(0, { createdAt: '2026-10-19T10:00:00.000Z', priced: false, model: 'mystery-model' }),
+    ], 3, now);
+
+    assertEqual(summary.byDay.map(d => d.date).join(','), '2026-10-17,2026-10-18,2026-10-19', 'Days');
+    assertEqual(summary.byDay[2].costUsd, 2, 'Daily total');
+    assertEqual(summary.byDay[2].calls, 2, 'Daily calls');
+    assertEqual(summary.totalUsd, 3, 'Total');
+    assertEqual(summary.byRoute.chat, 2, 'By route');
+    assertEqual(summary.unpricedCalls, 1, 'Unpriced calls');
+    assertEqual(monthStart(now), '2026-10-01T00:00:00.000Z', 'Month start');
+  });
+
+  await test('route should answer 402 before calling the model', async () => {
+    const ledger = await getCostLedger();
+    await ledger.record(entry(50, { projectId: 'p-over' }));
+    process.env.PROJECT_MONTHLY_BUDGET_USD = '10';
+    try {
+      const response = await chat(new Request('http://localhost/api/chat', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'hi', conversationHistory: [], projectId: 'p-over' }),
+      }));
+      assertEqual(response.status, 402, 'Payment required');
+      const body = await response.json();
+      assertEqual(body.error.includes('$50.00 of $10.00'), true, 'Error shows spend and limit');
+    } finally {
+      delete process.env.PROJECT_MONTHLY_BUDGET_USD;
+    }
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
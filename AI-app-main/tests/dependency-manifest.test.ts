@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Dependency Manifest
+ *
+ * Verifies package detection from imports, ===DEPENDENCIES=== parsing and
+ * reconciliation (missing, unused, pinned versions) plus package.json output.
+ */
+
+import {
+  packageName,
+  parseDependencyBlock,
+  reconcileDependencies,
+  KNOWN_VERSIONS,
+} from '../src/utils/dependencyManifest';
+import { generatePackageJson } from '../src/utils/exportApp';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+function test(name: string, fn: () => void) {
+  testCount++;
+  try {
+    fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+console.log('\n🧪 Testing Dependency Manifest\n');
+
+const FILES = [
+  { path: 'src/App.tsx', content: "import React from 'react';\nimport { motion } from 'framer-motion';\nimport {\n  Star,\n} from 'lucide-react/icons';\nimport './index.css';\n" },
+  { path: 'src/api.ts', content: "import fs from 'node:fs';\nconst client = require('some-client');\nexport const load = () => import('@acme/charts/line');\n" },
+  { path: 'src/index.css', content: "@import 'tailwindcss';\n" },
+];
+
+test('should map specifiers to package names', () => {
+  assertEqual(packageName('@scope/pkg/sub/path'), '@scope/pkg', 'Scoped subpath');
+  assertEqual(packageName('lodash/debounce'), 'lodash', 'Subpath');
+  assertEqual(packageName('./Button'), null, 'Relative');
+  assertEqual(packageName('@/components/Button'), null, 'Alias');
+  assertEqual(packageName('path'), null, 'Node built-in');
+});
+
+test('should parse the dependency block formats', () => {
+  const declared = parseDependencyBlock('framer-motion: ^10.0.0\n- zustand@4.5.0\n"axios": "^1.2.0",\nlodash\n');
+  assertEqual(declared['framer-motion'], '^10.0.0', 'name: version');
+  assertEqual(declared.zustand, '4.5.0', 'name@version');
+  assertEqual(declared.axios, '^1.2.0', 'JSON style');
+  assertEqual(declared.lodash, '', 'Bare name');
+});
+
+test('should add undeclared imports and drop unused declarations', () => {
+  const manifest = reconcileDependencies(FILES, { 'framer-motion': '^9.0.0', lodash: '^4.0.0', 'react-dom': '^18.0.0' });
+  assertEqual(Object.keys(manifest.dependencies).join(','), '@acme/charts,framer-motion,lucide-react,react,some-client', 'Imported packages');
+  assertEqual(manifest.missing.map(m => `${m.name}@${m.file}:${m.line}`).join(','), '@acme/charts@src/api.ts:3,lucide-react@src/App.tsx:5,some-client@src/api.ts:2', 'Missing with location');
+  assertEqual(manifest.unused.join(','), 'lodash', 'react-dom is always provided');
+});
+
+test('should pin curated versions over declared ones', () => {
+  const manifest = reconcileDependencies(FILES, { 'framer-motion': '^9.0.0', 'some-client': '2.1.0' });
+  assertEqual(manifest.dependencies['framer-motion'], KNOWN_VERSIONS['framer-motion'], 'Curated version');
+  assertEqual(manifest.dependencies['some-client'], '2.1.0', 'Declared version');
+  assertEqual(manifest.dependencies['@acme/charts'], 'latest', 'Unknown version');
+  assertEqual(manifest.unpinned.join(','), '@acme/charts', 'Unpinned reported');
+});
+
+test('generatePackageJson should include the app dependencies', () => {
+  const packageJson = JSON.parse(generatePackageJson('My App', { zustand: '^4.4.7', next: '14.0.0' }));
+  assertEqual(packageJson.dependencies.zustand, '^4.4.7', 'App dependency');
+  assertEqual(packageJson.dependencies.next, KNOWN_VERSIONS.next, 'Toolchain version kept');
+  assertEqual(packageJson.name, 'my-app', 'Name');
+});
+
+// =============================================================================
+// Summary
+// =============================================================================
+
+console.log('\n' + '='.repeat(60));
+console.log('📊 Test Summary');
+console.log('='.repeat(60));
+console.log(`Total tests: ${testCount}`);
+console.log(`✅ Passed: ${passCount}`);
+console.log(`❌ Failed: ${failCount}`);
+console.log('='.repeat(60) + '\n');
+
+if (failCount > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Diff Schema
+ *
+ * Verifies that model-produced diffs are validated with field-level errors
+ * and that applyDiff refuses invalid diffs without touching any file.
+ */
+
+import { validateDiffResponse, formatDiffErrors, describeChange, summarizeDiff } from '../src/utils/diffSchema';
+import { applyDiff } from '../src/utils/applyDiff';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function assertContains(str: string, substring: string, message: string) {
+  if (!str.includes(substring)) {
+    throw new Error(`${message}\n  String: ${str}\n  Expected to contain: ${substring}`);
+  }
+}
+
+function response(changes: any[]) {
+  return {
+    changeType: 'MODIFICATION',
+    summary: 'Test change',
+    files: [{ path: 'src/App.tsx', action: 'MODIFY', changes }],
+  };
+}
+
+async function run() {
+  console.log('\n🧪 Testing Diff Schema\n');
+
+  await test('should accept valid string and AST changes', () => {
+    const result = validateDiffResponse(response([
+      { type: 'REPLACE', searchFor: 'Hello', replaceWith: 'Hi' },
+      { type: 'AST_ADD_STATE', name: 'count', setter: 'setCount', initialValue: '0' },
+      { type: 'AST_INSERT_JSX', targetElement: 'div', jsx: '<p>x</p>', position: 'inside_end' },
+    ]));
+    assertEqual(result.valid, true, formatDiffErrors(result.errors));
+  });
+
+  await test('should report missing required field with its path', () => {
+    const result = validateDiffResponse(response([
+      { type: 'REPLACE', searchFor: 'Hello', replaceWith: 'Hi' },
+      { type: 'INSERT_AFTER', content: 'x' },
+    ]));
+    assertEqual(result.valid, false, 'Should be invalid');
+    assertEqual(result.errors[0].path, 'files[0].changes[1].searchFor', 'Error path');
+  });
+
+  await test('should reject unknown change types and bad enum values', () => {
+    const result = validateDiffResponse(response([
+      { type: 'MAGIC' },
+      { type: 'AST_MODIFY_PROP', targetElement: 'button', propName: 'disabled', action: 'toggle' },
+    ]));
+    const text = formatDiffErrors(result.errors);
+    assertContains(text, 'files[0].changes[0].type', 'Unknown type reported');
+    assertContains(text, 'files[0].changes[1].action', 'Bad enum reported');
+  });
+
+  await test('should reject wrong top-level structure', () => {
+    const result = validateDiffResponse({ changeType: 'NEW_APP', files: 'nope' });
+    const paths = result.errors.map(e => e.path);
+    assertEqual(paths.includes('changeType'), true, 'changeType error');
+    assertEqual(paths.includes('summary'), true, 'summary error');
+    assertEqual(paths.includes('files'), true, 'files error');
+  });
+
+  await test('should describe AST changes', () => {
+    assertEqual(
+      describeChange({ type: 'AST_WRAP_ELEMENT', targetElement: 'div', wrapperComponent: 'AuthGuard' }),
+      'Wrap <div> in <AuthGuard>',
+      'Description'
+    );
+  });
+
+  await test('should summarize a diff without its code', () => {
+    const summary = summarizeDiff(response([
+      { type: 'REPLACE', searchFor: 'Hello', replaceWith: 'Hi' },
+      { type: 'AST_ADD_REF', name: 'inputRef' },
+    ]) as any);
+    assertEqual(summary.summary, 'Test change', 'Summary');
+    assertEqual(summary.files[0].path, 'src/App.tsx', 'Path');
+    assertEqual(summary.files[0].changes.join(' | '), 'Replace: "Hello" → "Hi" | Add ref: inputRef', 'Change descriptions');
+  });
+
+  await test('applyDiff should refuse invalid diffs and leave files unchanged', async () => {
+    const files = [{ path: 'src/App.tsx', content: 'const a = 1;' }];
+    const result = await applyDiff(files, [
+      { path: 'src/App.tsx', action: 'MODIFY', changes: [{ type: 'REPLACE', searchFor: 'a = 1' } as any] },
+    ]);
+    assertEqual(result.success, false, 'Should fail');
+    assertContains(result.errors[0], 'diffs[0].changes[0].replaceWith', 'Field-level error');
+    assertEqual(result.modifiedFiles[0].content, 'const a = 1;', 'File untouched');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
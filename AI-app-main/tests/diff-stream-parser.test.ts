@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Diff Stream Parser
+ *
+ * Feeds modify-route responses to DiffStreamParser in small chunks and checks
+ * each FileDiff is reported as soon as it is complete.
+ */
+
+import { DiffStreamParser } from '../src/utils/diffStreamParser';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+function test(name: string, fn: () => void) {
+  testCount++;
+  try {
+    fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+const RESPONSE = JSON.stringify({
+  changeType: 'MODIFICATION',
+  summary: 'Add a counter {with braces} and "quotes"',
+  files: [
+    {
+      path: 'src/App.tsx',
+      action: 'MODIFY',
+      changes: [{ type: 'INSERT_AFTER', searchFor: 'function App() {', content: '  const [n, setN] = useState(0); // }]' }],
+    },
+    {
+      path: 'src/Counter.tsx',
+      action: 'CREATE',
+      changes: [{ type: 'APPEND', content: 'export const Counter = () => <p>{"}"}</p>;' }],
+    },
+  ],
+}, null, 2);
+
+/** Push text in fixed-size chunks, recording the chunk index each file completed at */
+function feed(parser: DiffStreamParser, text: string, size: number): Array<{ path: string; at: number }> {
+  const found: Array<{ path: string; at: number }> = [];
+  for (let i = 0; i < text.length; i += size) {
+    parser.push(text.slice(i, i + size)).forEach(file => found.push({ path: file.path, at: i + size }));
+  }
+  return found;
+}
+
+console.log('\n🧪 Testing Diff Stream Parser\n');
+
+test('should report each file once it is complete', () => {
+  const found = feed(new DiffStreamParser(), RESPONSE, 7);
+  assertEqual(found.map(f => f.path).join(','), 'src/App.tsx,src/Counter.tsx', 'Files in order');
+  assertEqual(found[0].at < RESPONSE.indexOf('src/Counter.tsx') + 7, true, 'First file reported before the second streams');
+});
+
+test('should ignore braces and brackets inside strings', () => {
+  const found = feed(new DiffStreamParser(), RESPONSE, 1);
+  assertEqual(found.length, 2, 'Character-by-character input');
+});
+
+test('should skip a markdown fence around the JSON', () => {
+  const found = feed(new DiffStreamParser(), '```json\n' + RESPONSE + '\n```', 13);
+  assertEqual(found.length, 2, 'Fenced response');
+});
+
+test('should skip files that fail the schema', () => {
+  const invalid = RESPONSE.replace('"action": "CREATE"', '"action": "RENAME"');
+  const found = feed(new DiffStreamParser(), invalid, 50);
+  assertEqual(found.map(f => f.path).join(','), 'src/App.tsx', 'Only the valid file');
+});
+
+test('should expose the path of the file being streamed', () => {
+  const parser = new DiffStreamParser();
+  const cut = RESPONSE.indexOf('"action": "CREATE"');
+  parser.push(RESPONSE.slice(0, cut));
+  assertEqual(parser.currentPath(), 'src/Counter.tsx', 'Partial second file');
+  parser.push(RESPONSE.slice(cut));
+  assertEqual(parser.currentPath(), null, 'Nothing in progress after the end');
+});
+
+// =============================================================================
+// Summary
+// =============================================================================
+
+console.log('\n' + '='.repeat(60));
+console.log('📊 Test Summary');
+console.log('='.repeat(60));
+console.log(`Total tests: ${testCount}`);
+console.log(`✅ Passed: ${passCount}`);
+console.log(`❌ Failed: ${failCount}`);
+console.log('='.repeat(60) + '\n');
+
+if (failCount > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for Generation Jobs
+ *
+ * Covers the memory job store, Last-Event-ID parsing and resuming the
+ * streaming-generation route from a checkpoint: completed files are
+ * replayed after the client's last event, nothing is regenerated and a job
+ * is run by one request at a time.
+ */
+
+import {
+  MemoryJobStore,
+  getJobStore,
+  formatEventId,
+  parseEventId,
+  pendingFiles,
+} from '../src/utils/generationJobs';
+import { POST } from '../src/app/api/ai-builder/streaming-generation/route';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+const ARCHITECTURE = {
+  appName: 'Todo',
+  description: 'A todo list',
+  files: [
+    { path: 'src/App.tsx', purpose: 'Main component' },
+    { path: 'src/TodoList.tsx', purpose: 'List' },
+    { path: 'src/styles.css', purpose: 'Styles' },
+  ],
+};
+
+const FILE = (path: string) => ({ path, content: `// ${path}`, purpose: 'test' });
+
+/** Events of an SSE body as { id, data } */
+async function readEvents(response: Response): Promise<Array<{ id?: string; data: any }>> {
+  return (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map(raw => {
+      const id = raw.match(/^id: (.*)$/m)?.[1];
+      return { id, data: JSON.parse(raw.match(/^data: (.*)$/m)![1]) };
+    });
+}
+
+async function run() {
+  console.log('\n🧪 Testing Generation Jobs\n');
+
+  // The route checks the provider is configured; resuming a finished job never calls it
+  process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || 'test-api-key';
+
+  await test('should round-trip event ids', () => {
+    const id = formatEventId('4f1c2a9e-0b7d-4c3e-9a51-2d8e6f0b1c34', 2);
+    const parsed = parseEventId(id);
+    assertEqual(parsed?.jobId, '4f1c2a9e-0b7d-4c3e-9a51-2d8e6f0b1c34', 'Job id');
+    assertEqual(parsed?.completedFiles, 2, 'Completed files');
+    assertEqual(parseEventId('not an id'), null, 'Foreign id');
+    assertEqual(parseEventId(null), null, 'Missing header');
+  });
+
+  await test('memory store should checkpoint files in plan order', async () => {
+    const store = new MemoryJobStore();
+    const job = await store.create({ prompt: 'todo app', conversationHistory: [], llm: undefined });
+    await store.saveArchitecture(job.id, ARCHITECTURE);
+    await store.saveFile(job.id, FILE('src/App.tsx'));
+    await store.saveFile(job.id, FILE('src/TodoList.tsx'));
+    await store.saveFile(job.id, { ...FILE('src/App.tsx'), content: '// regenerated' });
+
+    const saved = (await store.get(job.id))!;
+    assertEqual(saved.files.map(f => f.path).join(','), 'src/App.tsx,src/TodoList.tsx', 'Saved once each');
+    assertEqual(saved.files[0].content, '// regenerated', 'Re-save replaces');
+    assertEqual(pendingFiles(saved).map(f => f.path).join(','), 'src/styles.css', 'Pending');
+    assertEqual(saved.status, 'running', 'Status');
+  });
+
+  await test('memory store should return copies', async () => {
+    const store = new MemoryJobStore();
+    const job = await store.create({ prompt: 'todo app', conversationHistory: [], llm: undefined });
+    job.files.push(FILE('src/App.tsx'));
+    assertEqual((await store.get(job.id))!.files.length, 0, 'Store unaffected');
+    assertEqual(await store.get('missing'), null, 'Unknown job');
+  });
+
+  await test('memory store should lease a job to one runner at a time', async () => {
+    const store = new MemoryJobStore();
+    const job = await store.create({ prompt: 'todo app', conversationHistory: [], llm: undefined });
+
+    assertEqual(await store.acquireLease(job.id, 'first'), true, 'Free lease taken');
+    assertEqual(await store.acquireLease(job.id, 'first'), true, 'Holder renews');
+    assertEqual(await store.acquireLease(job.id, 'second'), false, 'Held lease refused');
+    await store.releaseLease(job.id, 'second');
+    assertEqual(await store.acquireLease(job.id, 'second'), false, 'Only the holder releases');
+    await store.releaseLease(job.id, 'first');
+    assertEqual(await store.acquireLease(job.id, 'second'), true, 'Released lease taken');
+  });
+
+  await test('route should refuse to resume a job another request is running', async () => {
+    const store = await getJobStore();
+    const job = await store.create({ prompt: 'todo app', conversationHistory: [], llm: undefined });
+    await store.saveArchitecture(job.id, ARCHITECTURE);
+    await store.saveFile(job.id, FILE('src/App.tsx'));
+    await store.acquireLease(job.id, 'earlier-request');
+
+    const request = new Request('http://localhost/api/ai-builder/streaming-generation', {
+      method: 'POST',
+      headers: { 'Last-Event-ID': formatEventId(job.id, 1) },
+    });
+    const events = await readEvents(await POST(request));
+    assertEqual(events.length, 1, 'Single event');
+    assertEqual(events[0].data.type, 'error', 'Error event');
+    assertEqual(events[0].data.jobId, job.id, 'Says which job to retry');
+    assertEqual((await store.get(job.id))!.files.length, 1, 'Nothing generated');
+    await store.releaseLease(job.id, 'earlier-request');
+  });
+
+  await test('route should replay files after Last-Event-ID without regenerating', async () => {
+    const store = await getJobStore();
+    const job = await store.create({ prompt: 'todo app', conversationHistory: [], llm: undefined });
+    await store.saveArchitecture(job.id, ARCHITECTURE);
+    for (const file of ARCHITECTURE.files) {
+      await store.saveFile(job.id, FILE(file.path));
+    }
+
+    const request = new Request('http://localhost/api/ai-builder/streaming-generation', {
+      method: 'POST',
+      headers: { 'Last-Event-ID': formatEventId(job.id, 1) },
+    });
+    const events = await readEvents(await POST(request));
+    const files = events.filter(e => e.data.type === 'file');
+
+    assertEqual(events[0].data.resumed, true, 'Resumed');
+    assertEqual(files.map(e => e.data.fileName).join(','), 'src/TodoList.tsx,src/styles.css', 'Only missed files');
+    assertEqual(files.every(e => e.data.replayed), true, 'Replayed, not generated');
+    assertEqual(files[1].id, formatEventId(job.id, 3), 'Event id counts completed files');
+    assertEqual(events[events.length - 1].data.data.files.length, 3, 'Result has every file');
+    assertEqual((await store.get(job.id))!.status, 'complete', 'Job completed');
+  });
+
+  await test('route should report unknown jobs', async () => {
+    const request = new Request('http://localhost/api/ai-builder/streaming-generation', {
+      method: 'POST',
+      headers: { 'Last-Event-ID': formatEventId('0c7e5d1a-unknown', 4) },
+    });
+    const events = await readEvents(await POST(request));
+    assertEqual(events.length, 1, 'Single event');
+    assertEqual(events[0].data.type, 'error', 'Error event');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for Generation Scheduler
+ *
+ * Verifies files start only after their dependencies, the concurrency limit
+ * holds, completions arrive one at a time in finish order and cycles or
+ * failures don't hang the run.
+ */
+
+import { runScheduled, type SchedulableFile } from '../src/utils/generationScheduler';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Run with per-file delays, recording starts, completions and peak concurrency */
+async function simulate(
+  files: SchedulableFile[],
+  delays: Record<string, number>,
+  concurrency: number,
+  completed: string[] = []
+) {
+  const started: string[] = [];
+  const finished: string[] = [];
+  let active = 0;
+  let peak = 0;
+
+  await runScheduled(files, {
+    concurrency,
+    completed,
+    onStart: file => started.push(file.path),
+    generate: async file => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(delays[file.path] ?? 5);
+      active--;
+      return file.path.toUpperCase();
+    },
+    onComplete: async (file, result) => {
+      assertEqual(result, file.path.toUpperCase(), 'Result passed through');
+      finished.push(file.path);
+    },
+  });
+
+  return { started, finished, peak };
+}
+
+async function run() {
+  console.log('\n🧪 Testing Generation Scheduler\n');
+
+  await test('should start a file only after its dependencies complete', async () => {
+    const files = [
+      { path: 'app', dependsOn: ['list', 'types'] },
+      { path: 'list', dependsOn: ['types'] },
+      { path: 'types' },
+    ];
+    const { started, finished } = await simulate(files, {}, 3);
+    assertEqual(started.join(','), 'types,list,app', 'Start order');
+    assertEqual(finished.join(','), 'types,list,app', 'Finish order');
+  });
+
+  await test('should run independent files concurrently up to the limit', async () => {
+    const files = ['a', 'b', 'c', 'd', 'e'].map(path => ({ path }));
+    const { peak, finished } = await simulate(files, {}, 2);
+    assertEqual(peak, 2, 'Peak concurrency');
+    assertEqual(finished.length, 5, 'All generated');
+  });
+
+  await test('should report completions in finish order', async () => {
+    const files = [{ path: 'slow' }, { path: 'fast' }, { path: 'medium' }];
+    const { started, finished } = await simulate(files, { slow: 40, fast: 5, medium: 20 }, 3);
+    assertEqual(started.join(','), 'slow,fast,medium', 'Started in plan order');
+    assertEqual(finished.join(','), 'fast,medium,slow', 'Finished as they completed');
+  });
+
+  await test('should treat already completed files as done', async () => {
+    const files = [{ path: 'types' }, { path: 'app', dependsOn: ['types'] }];
+    const { started } = await simulate(files, {}, 2, ['types']);
+    assertEqual(started.join(','), 'app', 'Only the pending file');
+  });
+
+  await test('should break dependency cycles instead of hanging', async () => {
+    const files = [
+      { path: 'a', dependsOn: ['b'] },
+      { path: 'b', dependsOn: ['a'] },
+      { path: 'c', dependsOn: ['missing-from-plan'] },
+    ];
+    const { finished } = await simulate(files, {}, 2);
+    assertEqual([...finished].sort().join(','), 'a,b,c', 'All generated');
+  });
+
+  await test('should stop starting files after a failure and rethrow it', async () => {
+    const started: string[] = [];
+    const finished: string[] = [];
+    let error: unknown = null;
+    try {
+      await runScheduled([{ path: 'ok' }, { path: 'bad' }, { path: 'later' }], {
+        concurrency: 2,
+        onStart: file => started.push(file.path),
+        generate: async file => {
+          await sleep(file.path === 'ok' ? 20 : 5);
+          if (file.path === 'bad') throw new Error('model timeout');
+          return file.path;
+        },
+        onComplete: file => {
+          finished.push(file.path);
+        },
+      });
+    } catch (e) {
+      error = e;
+    }
+    assertEqual((error as Error)?.message, 'model timeout', 'Error rethrown');
+    assertEqual(started.join(','), 'ok,bad', 'Nothing started after the failure');
+    assertEqual(finished.join(','), 'ok', 'Running file still completed');
+  });
+
+  await test('should stop scheduling when asked', async () => {
+    let stop = false;
+    const started: string[] = [];
+    await runScheduled([{ path: 'a' }, { path: 'b' }, { path: 'c' }], {
+      concurrency: 1,
+      shouldStop: () => stop,
+      onStart: file => started.push(file.path),
+      generate: async file => file.path,
+      onComplete: () => {
+        stop = true;
+      },
+    });
+    assertEqual(started.join(','), 'a', 'Only the first file');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
@@ -75,6 +75,22 @@ describe('Modify Route - Integration Tests', () => {
     expect(data.error).toContain('app state');
   });
 
+  test('should reject an unknown cleanup mode', async () => {
+    const mockRequest = {
+      json: async () => ({
+        prompt: 'Add a button',
+        currentAppState: { files: [{ path: 'src/App.tsx', content: 'export default function App() {}' }] },
+        cleanup: true
+      })
+    } as Request;
+
+    const response = await POST(mockRequest);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('cleanup must be one of');
+  });
+
   test('should handle conversation history', async () => {
     const mockRequest = {
       json: async () => ({
@@ -189,6 +205,37 @@ describe('Modify Route - Integration Tests', () => {
     expect(data).toHaveProperty('changeType');
     expect(data.changeType).toBe('MODIFICATION');
   });
+
+  test('should stream file diffs as server-sent events when requested', async () => {
+    const mockRequest = {
+      json: async () => ({
+        prompt: 'Add useState',
+        currentAppState: {
+          files: [{
+            path: 'src/App.tsx',
+            content: 'export default function App() { return <div>Test</div>; }'
+          }]
+        },
+        stream: true
+      })
+    } as Request;
+
+    const response = await POST(mockRequest);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const events = (await response.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map(raw => JSON.parse(raw.replace(/^data: /, '')));
+    const types = events.map(e => e.type);
+
+    // The file is reported before validation and the final result
+    expect(types.indexOf('file')).toBeGreaterThan(-1);
+    expect(types.indexOf('file')).toBeLessThan(types.indexOf('validation'));
+    expect(types[types.length - 1]).toBe('complete');
+    expect(events.find(e => e.type === 'file').file.path).toBe('src/App.tsx');
+    expect(events[events.length - 1].data.changeType).toBe('MODIFICATION');
+  });
 });
 
 // Run tests
@@ -0,0 +1,118 @@
+/**
+ * Replay Tests for AI Routes
+ *
+ * Runs /api/ai-builder/modify (JSON and streamed), /api/ai-builder/full-app
+ * and /api/ai-builder/streaming-generation end to end against the model
+ * responses in tests/fixtures/llm, with LLM_FIXTURE_MODE=replay - no network
+ * access or API spend.
+ *
+ * Fixtures are keyed by a hash of the whole request, so changing a route's
+ * prompt needs new ones: run this file with LLM_FIXTURE_MODE=record and a
+ * real ANTHROPIC_API_KEY (see src/utils/llm/recordReplay.ts).
+ */
+
+import path from 'path';
+import { POST as modify } from '../src/app/api/ai-builder/modify/route';
+import { POST as fullApp } from '../src/app/api/ai-builder/full-app/route';
+import { POST as streamingGeneration } from '../src/app/api/ai-builder/streaming-generation/route';
+import { applyDiff } from '../src/utils/applyDiff';
+import { readEventStream } from '../src/utils/eventStream';
+import type { ModifyStreamEvent } from '../src/utils/diffStreamParser';
+
+const APP = `export default function App() {
+  return (
+    <div className="p-4">
+      <h1>Counter</h1>
+    </div>
+  );
+}`;
+
+function jsonRequest(body: unknown): Request {
+  return { json: async () => body, headers: new Headers() } as Request;
+}
+
+const modifyBody = {
+  prompt: 'Add a button that counts clicks',
+  currentAppState: { files: [{ path: 'src/App.tsx', content: APP }] },
+  conversationHistory: [],
+};
+
+describe('AI routes - fixture replay', () => {
+  // full-app type-checks the generated project
+  jest.setTimeout(30000);
+
+  beforeAll(() => {
+    process.env.LLM_FIXTURE_MODE = process.env.LLM_FIXTURE_MODE === 'record' ? 'record' : 'replay';
+    process.env.LLM_FIXTURE_DIR = path.join(__dirname, 'fixtures', 'llm');
+  });
+
+  test('modify returns a diff that applies cleanly', async () => {
+    const response = await modify(jsonRequest(modifyBody));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.changeType).toBe('MODIFICATION');
+    expect(data.files[0].path).toBe('src/App.tsx');
+    expect(data.preview[0].changes.every((c: { status: string }) => c.status === 'matched')).toBe(true);
+    expect(data.validationWarnings).toBeUndefined();
+
+    const applied = await applyDiff(modifyBody.currentAppState.files, data.files);
+    expect(applied.success).toBe(true);
+    expect(applied.modifiedFiles[0].content).toContain('useState');
+  });
+
+  test('modify streams files and the final diff as events', async () => {
+    const response = await modify(jsonRequest({ ...modifyBody, stream: true }));
+
+    const events: ModifyStreamEvent[] = [];
+    await readEventStream<ModifyStreamEvent>(response as Response, (event) => {
+      events.push(event);
+    });
+
+    const types = events.map(e => e.type);
+    expect(types).toContain('file');
+    expect(types).toContain('validation');
+    expect(types[types.length - 1]).toBe('complete');
+
+    const complete = events[events.length - 1] as Extract<ModifyStreamEvent, { type: 'complete' }>;
+    expect(complete.data.files[0].path).toBe('src/App.tsx');
+  });
+
+  test('full-app parses a generated app', async () => {
+    const response = await fullApp(jsonRequest({
+      prompt: 'Build a simple counter app',
+      conversationHistory: [],
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.name).toBeTruthy();
+    expect(data.files.map((f: { path: string }) => f.path)).toContain('src/App.tsx');
+    expect(data.dependencies).toHaveProperty('react');
+  });
+
+  test('streaming-generation plans the app and streams each file', async () => {
+    const response = await streamingGeneration(jsonRequest({
+      prompt: 'Build a simple counter app',
+      conversationHistory: [],
+    }));
+
+    const events: any[] = [];
+    await readEventStream<any>(response as Response, (event) => {
+      events.push(event);
+    });
+
+    const plan = events.find(e => e.type === 'architecture' && e.totalFiles);
+    expect(plan.totalFiles).toBe(2);
+
+    const completed = events.filter(e => e.type === 'file' && e.fileContent);
+    expect(completed.map(e => e.fileName)).toEqual(['src/types.ts', 'src/App.tsx']);
+    expect(completed[0].fileContent).toContain('export const INITIAL_COUNT = 0;');
+    expect(completed[1].fileContent).not.toContain('```');
+
+    const result = events[events.length - 1];
+    expect(result.type).toBe('result');
+    expect(result.data.name).toBe('Counter');
+    expect(result.data.files).toHaveLength(2);
+  });
+});
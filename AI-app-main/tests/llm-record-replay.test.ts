@@ -0,0 +1,166 @@
+/**
+ * Unit Tests for LLM Record/Replay
+ *
+ * Records responses from a fake provider to a temp fixture directory and
+ * verifies replay returns identical text, streamed chunks and usage.
+ */
+
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { RecordReplayProvider, fixtureKey } from '../src/utils/llm/recordReplay';
+import type { LLMProvider, LLMRequest, LLMStreamEvent } from '../src/utils/llm/types';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function assertContains(str: string, substring: string, message: string) {
+  if (!str.includes(substring)) {
+    throw new Error(`${message}\n  String: ${str}\n  Expected to contain: ${substring}`);
+  }
+}
+
+/**
+ * Fake provider that counts calls so replay can prove it never hits the network
+ */
+function createFakeProvider() {
+  const calls = { complete: 0, stream: 0 };
+  const provider: LLMProvider = {
+    name: 'anthropic',
+    isConfigured: () => false,
+    configurationError: () => 'not configured',
+    async complete(request: LLMRequest) {
+      calls.complete++;
+      return {
+        text: `answer for ${request.model}`,
+        model: request.model,
+        usage: { inputTokens: 12, outputTokens: 7, cachedTokens: 3 },
+      };
+    },
+    async *stream(): AsyncIterable<LLMStreamEvent> {
+      calls.stream++;
+      yield { type: 'text', text: '{"changeType":' };
+      yield { type: 'text', text: '"MODIFICATION"}' };
+      yield { type: 'done', usage: { inputTokens: 100, outputTokens: 50, cachedTokens: 0 } };
+    },
+  };
+  return { provider, calls };
+}
+
+const request: LLMRequest = {
+  model: 'claude-sonnet-4-5-20250929',
+  system: 'You are a test',
+  messages: [{ role: 'user', content: 'Add a button' }],
+  maxTokens: 4096,
+  temperature: 0.7,
+};
+
+async function collect(stream: AsyncIterable<LLMStreamEvent>) {
+  const events: LLMStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+async function run() {
+  console.log('\n🧪 Testing LLM Record/Replay\n');
+
+  const fixtureDir = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+
+  try {
+    await test('fixture key should be stable and prompt-sensitive', async () => {
+      assertEqual(fixtureKey(request, 'complete'), fixtureKey({ ...request }, 'complete'), 'Same request, same key');
+      assertEqual(
+        fixtureKey(request, 'complete') === fixtureKey({ ...request, messages: [{ role: 'user', content: 'Add a link' }] }, 'complete'),
+        false,
+        'Different prompt should change key'
+      );
+      assertEqual(fixtureKey(request, 'complete') === fixtureKey(request, 'stream'), false, 'Kind should change key');
+    });
+
+    await test('should record and replay complete() responses', async () => {
+      const { provider, calls } = createFakeProvider();
+      const recorded = await new RecordReplayProvider(provider, 'record', fixtureDir).complete(request);
+      const replayed = await new RecordReplayProvider(provider, 'replay', fixtureDir).complete(request);
+
+      assertEqual(calls.complete, 1, 'Replay should not call the real provider');
+      assertEqual(replayed.text, recorded.text, 'Text should match');
+      assertEqual(replayed.usage.inputTokens, 12, 'Input tokens should match');
+      assertEqual(replayed.usage.cachedTokens, 3, 'Cached tokens should match');
+    });
+
+    await test('should record and replay streamed chunks and usage', async () => {
+      const { provider, calls } = createFakeProvider();
+      const recorded = await collect(new RecordReplayProvider(provider, 'record', fixtureDir).stream(request));
+      const replayed = await collect(new RecordReplayProvider(provider, 'replay', fixtureDir).stream(request));
+
+      assertEqual(calls.stream, 1, 'Replay should not call the real provider');
+      assertEqual(replayed.length, recorded.length, 'Same number of events');
+      assertEqual(JSON.stringify(replayed), JSON.stringify(recorded), 'Events should be identical');
+    });
+
+    await test('should write one fixture file per request kind', async () => {
+      const files = readdirSync(fixtureDir).filter(f => f.endsWith('.json'));
+      assertEqual(files.length, 2, 'complete + stream fixtures');
+    });
+
+    await test('replay should report configured without credentials', async () => {
+      const { provider } = createFakeProvider();
+      assertEqual(new RecordReplayProvider(provider, 'replay', fixtureDir).isConfigured(), true, 'Replay is configured');
+      assertEqual(new RecordReplayProvider(provider, 'record', fixtureDir).isConfigured(), false, 'Record needs real provider');
+    });
+
+    await test('replay should fail clearly when fixture is missing', async () => {
+      const { provider } = createFakeProvider();
+      let message = '';
+      try {
+        await new RecordReplayProvider(provider, 'replay', fixtureDir).complete({ ...request, model: 'unknown-model' });
+      } catch (error) {
+        message = error instanceof Error ? error.message : String(error);
+      }
+      assertContains(message, 'LLM_FIXTURE_MODE=record', 'Error should explain how to record');
+    });
+  } finally {
+    rmSync(fixtureDir, { recursive: true, force: true });
+  }
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,261 @@
+/**
+ * Unit Tests for Project Sync
+ *
+ * Covers the pure parts of the IndexedDB <-> Supabase sync: mapping
+ * components to project files and back, reconciling a pull with local
+ * changes (updated_at conflicts), push outcomes, AI modifications,
+ * conditional deletes and conflict resolution.
+ */
+
+import {
+  applyPushOutcome,
+  componentFiles,
+  conflictsOf,
+  pendingPushes,
+  projectToComponent,
+  pushComponent,
+  reconcilePull,
+  recordLocalChange,
+  recordLocalDelete,
+  recordModification,
+  resolveConflict,
+  type RemoteProject,
+  type SyncedComponent,
+} from '../src/utils/projectSync';
+import type { GeneratedComponent } from '../src/types/aiBuilderTypes';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function component(id: string, files: Record<string, string>, name = 'Todo'): GeneratedComponent {
+  return {
+    id,
+    name,
+    code: JSON.stringify({
+      name,
+      dependencies: { react: '^19.0.0' },
+      files: Object.entries(files).map(([path, content]) => ({ path, content, description: `${path} file` })),
+    }),
+    description: 'A todo app',
+    timestamp: '2026-10-19T10:00:00.000Z',
+    isFavorite: true,
+    conversationHistory: [],
+  };
+}
+
+function project(id: string, updated_at: string, files: Record<string, string>, name = 'Todo'): RemoteProject {
+  return { id, name, description: 'A todo app', files, updated_at };
+}
+
+const T1 = '2026-10-19T10:00:00.000001+00:00';
+const T2 = '2026-10-19T11:00:00.000002+00:00';
+
+function synced(local: GeneratedComponent, projectId: string | null, remoteUpdatedAt: string | null): SyncedComponent {
+  return {
+    id: local.id,
+    component: local,
+    projectId,
+    remoteUpdatedAt,
+    dirty: false,
+    deleted: false,
+    revision: 1,
+    conflict: null,
+  };
+}
+
+async function run() {
+  console.log('🧪 Running Project Sync Tests\n');
+
+  // =============================================================================
+  // Mapping
+  // =============================================================================
+
+  await test('Maps app JSON to project files and back, keeping local metadata', () => {
+    const local = component('c1', { 'App.tsx': 'v1', 'utils.ts': 'u' });
+    assertEqual(JSON.stringify(componentFiles(local)), JSON.stringify({ 'App.tsx': 'v1', 'utils.ts': 'u' }), 'Files');
+    assertEqual(componentFiles({ ...local, code: 'plain code' })['App.tsx'], 'plain code', 'Non-JSON code is one file');
+
+    const pulled = projectToComponent(project('p1', T2, { 'App.tsx': 'v2', 'new.ts': 'n' }), local);
+    const app = JSON.parse(pulled.code);
+    assertEqual(pulled.id, 'c1', 'Keeps the local id');
+    assertEqual(pulled.isFavorite, true, 'Keeps local-only fields');
+    assertEqual(app.dependencies.react, '^19.0.0', 'Keeps app metadata');
+    assertEqual(app.files.map((f: any) => `${f.path}=${f.content}`).join(','), 'App.tsx=v2,new.ts=n', 'Remote files, removed ones dropped');
+    assertEqual(app.files[0].description, 'App.tsx file', 'Keeps per-file metadata');
+  });
+
+  // =============================================================================
+  // Pull
+  // =============================================================================
+
+  await test('Pull takes remote changes for clean components and adds new projects', () => {
+    const clean = synced(component('c1', { 'App.tsx': 'v1' }), 'p1', T1);
+    const unpushed = { ...synced(component('c2', { 'App.tsx': 'x' }), null, null), dirty: true };
+
+    const records = reconcilePull([clean, unpushed], [
+      project('p1', T2, { 'App.tsx': 'v2' }),
+      project('p2', T1, { 'App.tsx': 'other' }, 'Other'),
+    ]);
+
+    const byId = new Map(records.map(r => [r.id, r]));
+    assertEqual(records.length, 3, 'All components kept');
+    assertEqual(componentFiles(byId.get('c1')!.component)['App.tsx'], 'v2', 'Remote change taken');
+    assertEqual(byId.get('c1')!.remoteUpdatedAt, T2, 'Based on the new updated_at');
+    assertEqual(byId.get('c2')!.dirty, true, 'Unpushed component untouched');
+    assertEqual(byId.get('project-p2')!.component.name, 'Other', 'New project added');
+    assertEqual(conflictsOf(records).length, 0, 'No conflicts');
+  });
+
+  await test('Pull reports a conflict when both sides changed since updated_at', () => {
+    const edited = recordLocalChange(synced(component('c1', { 'App.tsx': 'v1' }), 'p1', T1), component('c1', { 'App.tsx': 'mine' }));
+    const same = recordLocalChange(synced(component('c2', { 'App.tsx': 'v1' }), 'p2', T1), component('c2', { 'App.tsx': 'both' }));
+    const deleted = recordLocalDelete(synced(component('c3', { 'App.tsx': 'v1' }), 'p3', T1));
+    const orphan = recordLocalChange(synced(component('c4', { 'App.tsx': 'v1' }), 'p4', T1), component('c4', { 'App.tsx': 'kept' }));
+    const gone = synced(component('c5', { 'App.tsx': 'v1' }), 'p5', T1);
+
+    const records = reconcilePull([edited, same, deleted, orphan, gone], [
+      project('p1', T2, { 'App.tsx': 'theirs' }),
+      project('p2', T2, { 'App.tsx': 'both' }),
+      project('p3', T2, { 'App.tsx': 'theirs' }),
+    ]);
+    const byId = new Map(records.map(r => [r.id, r]));
+
+    assertEqual(conflictsOf(records).map(c => `${c.componentId}:${c.local ? 'edited' : 'deleted'}`).join(','), 'c1:edited,c3:deleted', 'Conflicts');
+    assertEqual(componentFiles(byId.get('c1')!.component)['App.tsx'], 'mine', 'Local copy kept while in conflict');
+    assertEqual(byId.get('c2')!.dirty, false, 'Identical changes are not a conflict');
+    assertEqual(byId.get('c4')!.projectId, null, 'Edited component of a deleted project is re-created');
+    assertEqual(byId.has('c5'), false, 'Clean component of a deleted project is dropped');
+    assertEqual(pendingPushes(records).map(r => r.id).join(','), 'c4', 'Conflicts are not pushed');
+  });
+
+  // =============================================================================
+  // Push and resolution
+  // =============================================================================
+
+  await test('Push outcomes keep edits made while the push was in flight', () => {
+    const sent = recordLocalChange(synced(component('c1', { 'App.tsx': 'v1' }), 'p1', T1), component('c1', { 'App.tsx': 'v2' }));
+    const saved = project('p1', T2, { 'App.tsx': 'v2' });
+
+    const afterPush = applyPushOutcome(sent, sent.revision, { type: 'saved', project: saved })!;
+    assertEqual(afterPush.dirty, false, 'Clean after pushing the latest revision');
+    assertEqual(afterPush.remoteUpdatedAt, T2, 'Based on the saved updated_at');
+
+    const editedMeanwhile = recordLocalChange(sent, component('c1', { 'App.tsx': 'v3' }));
+    const stillDirty = applyPushOutcome(editedMeanwhile, sent.revision, { type: 'saved', project: saved })!;
+    assertEqual(stillDirty.dirty, true, 'Later edit still to push');
+    assertEqual(stillDirty.remoteUpdatedAt, T2, 'Next push is based on the saved copy');
+
+    const conflicted = applyPushOutcome(sent, sent.revision, { type: 'conflict', project: saved })!;
+    assertEqual(conflicted.conflict?.updated_at, T2, 'Conflict recorded');
+    assertEqual(applyPushOutcome(recordLocalDelete(sent), sent.revision + 1, { type: 'deleted' }), null, 'Deleted for good');
+    assertEqual(applyPushOutcome(sent, sent.revision, { type: 'missing' })!.projectId, null, 'Missing project is re-created');
+  });
+
+  await test('An AI modification is sent with the next push and kept until it is saved', async () => {
+    const diffSummary = { summary: 'Add a counter', files: [{ path: 'App.tsx', action: 'MODIFY' as const, changes: ['Replace 1 line'] }] };
+    const modified = recordModification(
+      recordLocalChange(synced(component('c1', { 'App.tsx': 'v1' }), 'p1', T1), component('c1', { 'App.tsx': 'v2' })),
+      'Add a counter',
+      diffSummary
+    );
+
+    const originalFetch = globalThis.fetch;
+    let sent: any = null;
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      sent = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({ project: project('p1', T2, { 'App.tsx': 'v2' }) }), { status: 200 });
+    }) as typeof fetch;
+    try {
+      await pushComponent(modified);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    assertEqual(sent.prompt, 'Add a counter', 'Prompt sent');
+    assertEqual(sent.diffSummary.files[0].path, 'App.tsx', 'Diff summary sent');
+    assertEqual(sent.expectedUpdatedAt, T1, 'Still conditional');
+
+    const saved = project('p1', T2, { 'App.tsx': 'v2' });
+    const remodified = recordModification(recordLocalChange(modified, component('c1', { 'App.tsx': 'v3' })), 'Again', diffSummary);
+    assertEqual(applyPushOutcome(modified, modified.revision, { type: 'saved', project: saved })!.modification, undefined, 'Cleared once saved');
+    assertEqual(applyPushOutcome(remodified, modified.revision, { type: 'saved', project: saved })!.modification?.prompt, 'Again', 'A later modification is kept');
+    assertEqual(recordLocalChange(modified, component('c1', { 'App.tsx': 'v3' })).modification?.prompt, 'Add a counter', 'Kept across later edits');
+  });
+
+  await test('A delete is only pushed while the project is unchanged', async () => {
+    const deleted = recordLocalDelete(synced(component('c1', { 'App.tsx': 'v1' }), 'p1', T1));
+    const theirs = project('p1', T2, { 'App.tsx': 'theirs' });
+
+    const originalFetch = globalThis.fetch;
+    const urls: string[] = [];
+    let status = 409;
+    globalThis.fetch = (async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify({ error: 'Project was changed elsewhere', project: theirs }), { status });
+    }) as typeof fetch;
+    try {
+      const conflict = await pushComponent(deleted);
+      assertEqual(conflict.type === 'conflict' && conflict.project.updated_at, T2, 'Changed project is a conflict');
+      status = 404;
+      assertEqual((await pushComponent(deleted)).type, 'deleted', 'Already gone');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    assertEqual(new URL(urls[0], 'http://localhost').searchParams.get('expectedUpdatedAt'), T1, 'Conditional on updated_at');
+  });
+
+  await test('Resolving a conflict pushes ours over theirs or takes theirs', () => {
+    const theirs = project('p1', T2, { 'App.tsx': 'theirs' });
+    const record = { ...recordLocalChange(synced(component('c1', { 'App.tsx': 'v1' }), 'p1', T1), component('c1', { 'App.tsx': 'mine' })), conflict: theirs };
+
+    const mine = resolveConflict(record, 'local');
+    assertEqual(mine.conflict, null, 'Conflict cleared');
+    assertEqual(mine.remoteUpdatedAt, T2, 'Push is based on their copy');
+    assertEqual(pendingPushes([mine]).length, 1, 'Ours is pushed');
+
+    const taken = resolveConflict(record, 'remote');
+    assertEqual(componentFiles(taken.component)['App.tsx'], 'theirs', 'Their files taken');
+    assertEqual(taken.dirty, false, 'Nothing to push');
+    assertEqual(taken.id, 'c1', 'Same component');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for project-level validation
+ *
+ * Verifies the cross-file import check (missing files, missing exports,
+ * cycles), its merge with the TypeScript tier and the correction prompt.
+ */
+
+import { validateProject, buildCorrectionPrompt } from '../src/utils/codeValidator';
+import { validateProjectImports, exportSignatures } from '../src/utils/importGraph';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function assertContains(str: string, substring: string, message: string) {
+  if (!str.includes(substring)) {
+    throw new Error(`${message}\n  String: ${str}\n  Expected to contain: ${substring}`);
+  }
+}
+
+const BUTTON = { path: 'src/components/Button.tsx', content: 'export const Button = () => <button />;\n' };
+const BARREL = { path: 'src/components/index.ts', content: "export * from './Button';\n" };
+
+async function run() {
+  console.log('\n🧪 Testing project validation\n');
+
+  await test('should accept imports that resolve to generated exports', async () => {
+    const results = await validateProjectImports([
+      { path: 'src/App.tsx', content: "import { Button } from '@/components';\nimport React from 'react';\nexport default function App() { return <Button />; }\n" },
+      BUTTON,
+      BARREL,
+    ]);
+    assertEqual(results.length, 0, 'No problems');
+  });
+
+  await test('should report imports of files that were not generated', async () => {
+    const results = await validateProjectImports([
+      { path: 'src/App.tsx', content: "import Header from './components/Header';\nexport default function App() { return <Header />; }\n" },
+    ]);
+    assertEqual(results[0].errors[0].type, 'MISSING_IMPORT', 'Missing file');
+    assertEqual(results[0].errors[0].line, 1, 'Import line');
+    assertContains(results[0].errors[0].message, "Cannot resolve './components/Header'", 'Names the specifier');
+  });
+
+  await test('should report missing named and default exports', async () => {
+    const results = await validateProjectImports([
+      { path: 'src/App.tsx', content: "import Button from './components/Button';\nimport { Card } from './components';\n" },
+      BUTTON,
+      BARREL,
+    ]);
+    const messages = results[0].errors.map(e => e.message);
+    assertContains(messages[0], 'has no default export', 'Default import');
+    assertContains(results[0].errors[0].fix || '', 'import { Button }', 'Suggests the named import');
+    assertContains(messages[1], "has no export named 'Card'", 'Named import through export *');
+  });
+
+  await test('should report import cycles once as a warning', async () => {
+    const results = await validateProjectImports([
+      { path: 'src/a.ts', content: "import { b } from './b';\nexport const a = () => b;\n" },
+      { path: 'src/b.ts', content: "import { a } from './a';\nexport const b = () => a;\n" },
+    ]);
+    assertEqual(results.length, 1, 'Reported on one file');
+    assertEqual(results[0].errors[0].type, 'CIRCULAR_IMPORT', 'Cycle type');
+    assertEqual(results[0].errors[0].severity, 'warning', 'Severity');
+    assertEqual(results[0].errors[0].message, 'Circular import: src/a.ts -> src/b.ts -> src/a.ts', 'Cycle path');
+  });
+
+  await test('validateProject should not duplicate compiler import errors', async () => {
+    const results = await validateProject([
+      { path: 'src/App.tsx', content: "import { Card } from './components/Button';\nexport default function App() { return <main>{count}</main>; }\n" },
+      BUTTON,
+    ]);
+    const types = results[0].errors.map(e => e.type).join(',');
+    assertEqual(types, 'MISSING_IMPORT,UNDEFINED_IDENTIFIER', 'One error per problem');
+  });
+
+  await test('buildCorrectionPrompt should list file, line, code and fix', async () => {
+    const prompt = buildCorrectionPrompt([
+      { file: 'src/App.tsx', errors: [{ type: 'MISSING_IMPORT', message: "Cannot resolve './Header'", line: 2, severity: 'error', code: "import Header from './Header';", fix: 'Generate it' }] },
+    ]);
+    assertContains(prompt, 'FILE: src/App.tsx', 'File');
+    assertContains(prompt, "- Line 2: Cannot resolve './Header'", 'Line and message');
+    assertContains(prompt, "Code: import Header from './Header';", 'Code');
+    assertContains(prompt, '===FILE:path===', 'Output format');
+  });
+
+  await test('exportSignatures should keep declarations without bodies', async () => {
+    const signatures = (await exportSignatures([
+      "export interface Todo { id: string }",
+      "export const useTodos = (filter: string): Todo[] => {\n  return [];\n};",
+      "export function Item({ todo }: { todo: Todo }) {\n  return <li>{todo.id}</li>;\n}",
+      "const hidden = 1;",
+    ].join('\n'))).join('\n');
+
+    assertContains(signatures, 'export interface Todo { id: string }', 'Types kept whole');
+    assertContains(signatures, 'export const useTodos = (filter: string): Todo[] => ...', 'Arrow function header');
+    assertContains(signatures, 'export function Item({ todo }: { todo: Todo })', 'Function header');
+    assertEqual(signatures.includes('return') || signatures.includes('hidden'), false, 'No bodies or private code');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
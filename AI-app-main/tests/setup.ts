@@ -7,7 +7,8 @@
 import '@testing-library/jest-dom';
 
 // Mock environment variables
-process.env.ANTHROPIC_API_KEY = 'test-api-key-mock';
+// A real key is kept so replay fixtures can be recorded (integration-replay.test.ts)
+process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || 'test-api-key-mock';
 process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
 process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key';
 
@@ -16,6 +17,7 @@ global.fetch = jest.fn();
 
 // Mock NextResponse
 jest.mock('next/server', () => ({
+  after: jest.fn(),
   NextResponse: {
     json: jest.fn((data, init) => ({
       json: async () => data,
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Version Compare
+ *
+ * Covers per-file status between two stored file sets, line counts and
+ * unified diffs, and the side-by-side alignment the compare modal renders.
+ */
+
+import { compareFileSets, sideBySide, fileText } from '../src/utils/versionCompare';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+async function run() {
+  console.log('\n🧪 Testing Version Compare\n');
+
+  await test('should report added, removed and modified files', () => {
+    const result = compareFileSets(
+      { 'src/App.tsx': 'a\nb\nc\n', 'src/old.ts': 'x\n', 'README.md': 'same\n' },
+      { 'src/App.tsx': 'a\nB\nc\nd\n', 'src/new.ts': 'y\nz\n', 'README.md': 'same\n' }
+    );
+
+    assertEqual(result.files.map(f => `${f.status}:${f.path}`).join(','), 'modified:src/App.tsx,added:src/new.ts,removed:src/old.ts', 'Statuses, sorted by path');
+    assertEqual(result.unchangedFiles, 1, 'Unchanged files counted');
+
+    const app = result.files[0];
+    assertEqual(app.additions, 2, 'Additions');
+    assertEqual(app.deletions, 1, 'Deletions');
+    assertEqual(app.unifiedDiff.includes('-b\n+B\n'), true, 'Unified diff');
+    assertEqual(result.files[1].before, null, 'Added file has no before');
+    assertEqual(result.files[2].unifiedDiff.startsWith('--- a/src/old.ts\n+++ /dev/null'), true, 'Removed file diff');
+    assertEqual(result.additions, 4, 'Total additions');
+  });
+
+  await test('should read content objects and JSON values', () => {
+    assertEqual(fileText({ content: 'hello' }), 'hello', 'Content object');
+    assertEqual(fileText({ a: 1 }), '{\n  "a": 1\n}', 'JSON value');
+    const result = compareFileSets({ 'a.ts': { content: 'x' } }, { 'a.ts': 'x' });
+    assertEqual(result.files.length, 0, 'Same text is unchanged');
+  });
+
+  await test('should pair removed and added lines side by side', () => {
+    const rows = sideBySide('a\nb\nc\n', 'a\nB\nB2\nc\n');
+    assertEqual(rows.length, 4, 'Rows');
+    assertEqual(rows[1].left?.text, 'b', 'Removed line on the left');
+    assertEqual(rows[1].right?.text, 'B', 'Added line next to it');
+    assertEqual(rows[2].left, null, 'Extra added line has an empty left side');
+    assertEqual(rows[2].right?.line, 3, 'New file line number');
+    assertEqual(rows[3].left?.line, 3, 'Old file line number after the change');
+    assertEqual(rows[3].right?.line, 4, 'New file line number after the change');
+  });
+
+  await test('should show a missing file as one empty side', () => {
+    const rows = sideBySide(null, 'x\ny\n');
+    assertEqual(rows.length, 2, 'One row per line');
+    assertEqual(rows.every(row => row.left === null && row.right?.kind === 'add'), true, 'Only the right side');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();
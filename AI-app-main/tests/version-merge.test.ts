@@ -0,0 +1,164 @@
+/**
+ * Unit Tests for Version Merge
+ *
+ * Covers the version graph helpers (branch heads, merge base across forks
+ * and earlier merges) and three-way merging of file sets through applyDiff,
+ * including per-file conflict reporting and anchors that only match
+ * approximately or more than once.
+ */
+
+import { branchHead, findMergeBase, mergeFileSets, type VersionNode } from '../src/utils/versionMerge';
+
+// Test utilities
+let testCount = 0;
+let passCount = 0;
+let failCount = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  testCount++;
+  try {
+    await fn();
+    passCount++;
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failCount++;
+    console.error(`❌ ${name}`);
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+  }
+}
+
+function assertEqual(actual: any, expected: any, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}\n  Expected: ${expected}\n  Actual: ${actual}`);
+  }
+}
+
+function node(id: string, version_number: number, branch: string, parent_id: string | null, merge_parent_id: string | null = null): VersionNode {
+  return { id, version_number, branch, parent_id, merge_parent_id };
+}
+
+/**
+ * main:    v1 - v2 - v4 - v6 (merge of v5)
+ * feature:        \ v3 - v5 - v7
+ */
+const GRAPH = [
+  node('v1', 1, 'main', null),
+  node('v2', 2, 'main', 'v1'),
+  node('v3', 3, 'feature', 'v2'),
+  node('v4', 4, 'main', 'v2'),
+  node('v5', 5, 'feature', 'v3'),
+  node('v6', 6, 'main', 'v4', 'v5'),
+  node('v7', 7, 'feature', 'v5'),
+];
+
+const APP = [
+  "import React from 'react';",
+  '',
+  'export function App() {',
+  "  const title = 'Todo';",
+  '  return (',
+  '    <div>',
+  '      <h1>{title}</h1>',
+  '    </div>',
+  '  );',
+  '}',
+  '',
+  'export function Footer() {',
+  "  return <footer>v1</footer>;",
+  '}',
+  '',
+].join('\n');
+
+async function run() {
+  console.log('\n🧪 Testing Version Merge\n');
+
+  await test('should find branch heads', () => {
+    assertEqual(branchHead(GRAPH, 'main'), 'v6', 'Latest main version');
+    assertEqual(branchHead(GRAPH, 'feature'), 'v7', 'Latest feature version');
+    assertEqual(branchHead(GRAPH, 'new', 'v4'), 'v4', 'Base of a branch without versions');
+  });
+
+  await test('should find the merge base across forks and earlier merges', () => {
+    assertEqual(findMergeBase(GRAPH.slice(0, 5), 'v4', 'v5'), 'v2', 'Fork point');
+    assertEqual(findMergeBase(GRAPH, 'v6', 'v7'), 'v5', 'Last merged feature version');
+    assertEqual(findMergeBase(GRAPH, 'v6', 'v5'), 'v5', 'Already merged');
+    assertEqual(findMergeBase([node('a', 1, 'main', null), node('b', 2, 'other', null)], 'a', 'b'), null, 'Unrelated histories');
+  });
+
+  await test('should take files changed on one side only', async () => {
+    const result = await mergeFileSets(
+      { 'a.ts': 'a', 'b.ts': 'b', 'gone.ts': 'x' },
+      { 'a.ts': 'a2', 'b.ts': 'b', 'gone.ts': 'x' },
+      { 'a.ts': 'a', 'b.ts': 'b2', 'new.ts': 'n' }
+    );
+    assertEqual(result.conflicts.length, 0, 'No conflicts');
+    assertEqual(result.files['a.ts'], 'a2', 'Our change kept');
+    assertEqual(result.files['b.ts'], 'b2', 'Their change taken');
+    assertEqual(result.files['new.ts'], 'n', 'Their new file added');
+    assertEqual('gone.ts' in result.files, false, 'Their deletion applied');
+    assertEqual(result.mergedPaths.join(','), 'b.ts,gone.ts,new.ts', 'Merged paths');
+  });
+
+  await test('should merge changes to different parts of a file', async () => {
+    const ours = APP.replace("const title = 'Todo';", "const title = 'My Todos';");
+    const theirs = APP.replace('<footer>v1</footer>', "<footer>{['v2', 'beta'].join('\\n')}</footer>");
+    const result = await mergeFileSets({ 'App.tsx': APP }, { 'App.tsx': ours }, { 'App.tsx': theirs });
+
+    assertEqual(result.conflicts.length, 0, result.conflicts[0]?.message);
+    const merged = result.files['App.tsx'] as string;
+    assertEqual(merged.includes("const title = 'My Todos';"), true, 'Our change kept');
+    assertEqual(merged.includes("join('\\n')"), true, 'Their change applied with its escape intact');
+  });
+
+  await test('should report per-file conflicts and keep our files', async () => {
+    const ours = APP.replace("const title = 'Todo';", "const title = 'Ours';");
+    const theirs = APP.replace("const title = 'Todo';", "const title = 'Theirs';");
+    const result = await mergeFileSets(
+      { 'App.tsx': APP, 'b.ts': 'b' },
+      { 'App.tsx': ours, 'b.ts': 'b', 'both.ts': 'ours' },
+      { 'App.tsx': theirs, 'both.ts': 'theirs' }
+    );
+
+    assertEqual(result.conflicts.map(c => `${c.path}:${c.reason}`).join(','), 'App.tsx:overlapping_changes,both.ts:both_added', 'Conflicts');
+    assertEqual(result.files['App.tsx'], ours, 'Conflicting file keeps ours');
+    assertEqual(result.conflicts[0].theirs, theirs, 'Their text reported');
+    assertEqual('b.ts' in result.files, false, 'Clean deletion still merged');
+  });
+
+  await test('should treat a line we only re-indented as changed on both sides', async () => {
+    const base = ['function f() {', '  const a = 1;', '  const b = 2;', '  const c = 3;', '  const d = 4;', '  const e = 5;', '  const g = 6;', '}'].join('\n');
+    const ours = base.replace('  const d = 4;', '    const d = 4;');
+    const theirs = base.replace('const d = 4;', 'const d = 40;');
+    const result = await mergeFileSets({ 'a.ts': base }, { 'a.ts': ours }, { 'a.ts': theirs });
+
+    assertEqual(result.conflicts.map(c => c.reason).join(','), 'overlapping_changes', 'Whitespace-only match is a conflict');
+    assertEqual(result.files['a.ts'], ours, 'Ours kept');
+  });
+
+  await test('should not pick one of several copies of their anchor', async () => {
+    const result = await mergeFileSets({ 'a.ts': 'foo();\n' }, { 'a.ts': 'foo();\nfoo();\n' }, { 'a.ts': 'bar();\n' });
+
+    assertEqual(result.conflicts.map(c => c.reason).join(','), 'overlapping_changes', 'Duplicate anchor is a conflict');
+    assertEqual(result.files['a.ts'], 'foo();\nfoo();\n', 'Ours kept');
+  });
+
+  // =============================================================================
+  // Summary
+  // =============================================================================
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary');
+  console.log('='.repeat(60));
+  console.log(`Total tests: ${testCount}`);
+  console.log(`✅ Passed: ${passCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  console.log('='.repeat(60) + '\n');
+
+  if (failCount > 0) {
+    process.exit(1);
+  }
+}
+
+run();